@@ -1,13 +1,61 @@
+import { useEffect, useState } from 'react';
+import { Alert } from 'react-native';
 import { Tabs } from 'expo-router/tabs';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { Colors } from '@/constants/Colors';
 import { FontAwesome } from '@expo/vector-icons';
+import { PinGate } from '@/components/PinGate';
+import { walletService } from '@/services/wallet';
+import { bip300Service } from '@/services/bip300';
+import { withdrawalService, WithdrawalEvent } from '@/services/withdrawals';
+import { formatAmount } from '@/utils/amount';
 
 /**
  * Use a tab-based layout for the bottom navigation in the app.
  */
 export default function TabLayout() {
   const colorScheme = useColorScheme();
+  const [isLocked, setIsLocked] = useState(walletService.isLocked());
+
+  // Keys can't be created or used while storage is locked, so ask for the PIN first
+  useEffect(() => {
+    setIsLocked(walletService.isLocked());
+    return walletService.addListener(event => {
+      if (event.type === 'lock') {
+        setIsLocked(event.locked);
+      }
+    });
+  }, []);
+
+  // Tell the user, whichever tab is open, when a reorg unconfirms their transactions
+  useEffect(() => {
+    return walletService.addListener(event => {
+      if (event.type !== 'reorg') return;
+
+      const wallet = walletService.getWallet(event.walletId);
+      const count = event.txids.length;
+      let message = `A chain reorganization took ${count} confirmed transaction${count !== 1 ? 's' : ''} ` +
+        `of ${wallet?.name ?? 'a wallet'} out of their blocks. Balances and confirmations have been updated.`;
+      if (event.dropped.length > 0) {
+        message += `\n\n${event.dropped.length} of them no longer exist${event.dropped.length === 1 ? 's' : ''} ` +
+          `on the chain or in the mempool:\n${event.dropped.join('\n')}`;
+      }
+      Alert.alert('Transactions Unconfirmed', message);
+    });
+  }, []);
+
+  // Follow tracked sidechain withdrawals, telling the user as each reaches a new stage
+  useEffect(() => {
+    withdrawalService.initialize();
+    return withdrawalService.addListener(event => {
+      if (event.type === 'reorg' || !walletService.getSettings().notificationsEnabled) return;
+      Alert.alert('Withdrawal Update', describeWithdrawalEvent(event));
+    });
+  }, []);
+
+  if (isLocked) {
+    return <PinGate />;
+  }
 
   return (
     <Tabs
@@ -53,3 +101,30 @@ export default function TabLayout() {
     </Tabs>
   );
 }
+
+// Describe the stage a tracked withdrawal reached
+function describeWithdrawalEvent(event: WithdrawalEvent): string {
+  const subject = `withdrawal of ${formatAmount(event.withdrawal.amount)} from sidechain #${event.withdrawal.sidechainNumber}`;
+  const withdrawal = `Your ${subject}`;
+  switch (event.type) {
+    case 'bundled':
+      return `${withdrawal} is in a withdrawal bundle. Miners now have to ACK it before it can be paid out.`;
+    case 'progress':
+      return `${withdrawal} has ${event.workScore.toLocaleString()} of the ${event.threshold.toLocaleString()} ACKs it needs.`;
+    case 'approved':
+      return `${withdrawal} has been approved by miners and can be paid out in the next block.`;
+    case 'failed': {
+      const paidOut = (event.withdrawal.workScore ?? 0) >= bip300Service.getParams().bundleWorkScoreThreshold;
+      return (paidOut
+        ? `The bundle taken to hold your ${subject} was paid out without it. `
+        : `The bundle with your ${subject} expired without enough ACKs. `) +
+        'The sidechain should put it in a new bundle, which is being watched for.';
+    }
+    case 'paid':
+      return `${withdrawal} has been paid to ${event.withdrawal.address}. It will be confirmed in the next blocks.`;
+    case 'confirmed':
+      return `${withdrawal} has been confirmed and credited to your balance.`;
+    case 'reorg':
+      return `A chain reorganization unconfirmed the payout of your ${subject}.`;
+  }
+}
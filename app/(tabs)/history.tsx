@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { RefreshControl, ScrollView, StyleSheet, View, FlatList, Pressable } from 'react-native';
+import { Alert, RefreshControl, ScrollView, StyleSheet, View, FlatList, Pressable } from 'react-native';
 import { FontAwesome } from '@expo/vector-icons';
 import { useFocusEffect } from '@react-navigation/native';
 import { ThemedText } from '@/components/ThemedText';
@@ -8,22 +8,31 @@ import { Colors } from '@/constants/Colors';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { StatusBar } from 'expo-status-bar';
-import { Stack } from 'expo-router';
+import { Stack, useRouter } from 'expo-router';
 import { walletService } from '@/services/wallet';
+import { electrumService } from '@/services/electrum';
+import { bip300Service } from '@/services/bip300';
+import { withdrawalService } from '@/services/withdrawals';
+import { formatAmount, Satoshis, sumAmounts } from '@/utils/amount';
 
 interface Transaction {
   id: string;
   type: 'send' | 'receive' | 'deposit' | 'withdraw';
-  amount: number;
+  amount: Satoshis;
   date: Date;
   address: string;
   confirmations: number;
   sidechainNumber?: number;
   sidechainName?: string;
+  replaceable?: boolean; // Unconfirmed and built by this wallet, so it can be bumped or cancelled
+  acceleratable?: boolean; // Unconfirmed with an output we can spend, so it can be sped up with CPFP
+  cancelled?: boolean;
+  unverified?: boolean; // Confirmed, but not (or not successfully) proven against the header chain
 }
 
 export default function HistoryScreen() {
   const colorScheme = useColorScheme();
+  const router = useRouter();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [refreshing, setRefreshing] = useState(false);
   const [loading, setLoading] = useState(true);
@@ -36,18 +45,100 @@ export default function HistoryScreen() {
     }, [])
   );
 
+  // Reload quietly when the server reports new transactions, a new block or a reorg
+  useEffect(() => {
+    return walletService.addListener(event => {
+      const isActive = 'walletId' in event && event.walletId === walletService.getActiveWallet()?.id;
+      if (event.type === 'tip' || ((event.type === 'history' || event.type === 'reorg') && isActive)) {
+        loadTransactionHistory(false);
+      }
+    });
+  }, []);
+
+  // Reload quietly when a tracked withdrawal is paid out, confirmed or unconfirmed
+  useEffect(() => {
+    return withdrawalService.addListener(event => {
+      if (['paid', 'confirmed', 'reorg'].includes(event.type)) {
+        loadTransactionHistory(false);
+      }
+    });
+  }, []);
+
   // Load transaction history
-  const loadTransactionHistory = async () => {
-    setLoading(true);
+  const loadTransactionHistory = async (showLoading = true) => {
+    setLoading(showLoading);
     setError(null);
     try {
-      // In a real implementation, we would fetch transaction history from the wallet service
-      // For now, we'll use mock data
+      await walletService.initialize();
+
+      // Unconfirmed transactions paying to us can be accelerated by spending their outputs
+      const utxosResponse = await walletService.getUtxos();
+      const unconfirmedUtxos = (utxosResponse.data || []).filter(utxo => utxo.confirmations === 0);
+
+      // Transactions this wallet built; replaced ones are hidden in favour of their replacement
+      const history = walletService.getHistory();
+      const outgoing = walletService.getOutgoingTransactions();
+      const tipHeight = electrumService.getTipHeight();
+      const sidechains = (await bip300Service.getSidechains()).data || [];
+      const walletTransactions: Transaction[] = outgoing
+        .filter(tx => !tx.replacedBy)
+        .map(tx => {
+          const entry = history.find(h => h.txid === tx.txid);
+          return {
+            id: tx.txid,
+            type: tx.type,
+            amount: tx.cancelled ? tx.fee : sumAmounts(tx.recipients.map(recipient => recipient.value)),
+            date: new Date(tx.timestamp),
+            address: tx.recipients[0]?.address ?? '',
+            confirmations: entry && entry.height > 0 ? Math.max(tipHeight - entry.height + 1, 1) : 0,
+            replaceable: walletService.canReplace(tx.txid),
+            acceleratable: unconfirmedUtxos.some(utxo => utxo.txid === tx.txid),
+            cancelled: tx.cancelled,
+            unverified: !!entry && entry.height > 0 && !entry.verified,
+            sidechainNumber: tx.sidechainNumber,
+            sidechainName: sidechains.find(sidechain => sidechain.escrowNumber === tx.sidechainNumber)?.name,
+          };
+        });
+
+      // Sidechain withdrawals paid to us by an M6
+      await withdrawalService.initialize();
+      const payouts = withdrawalService.getWithdrawals().filter(withdrawal => withdrawal.payout);
+      const withdrawalTransactions: Transaction[] = payouts.map(withdrawal => {
+        const entry = history.find(h => h.txid === withdrawal.payout!.txid);
+        return {
+          id: withdrawal.payout!.txid,
+          type: 'withdraw',
+          amount: withdrawal.amount,
+          date: new Date(withdrawal.createdAt),
+          address: withdrawal.address,
+          confirmations: entry && entry.height > 0 ? Math.max(tipHeight - entry.height + 1, 1) : 0,
+          unverified: withdrawal.status !== 'confirmed' && !!entry && entry.height > 0,
+          sidechainNumber: withdrawal.sidechainNumber,
+          sidechainName: sidechains.find(sidechain => sidechain.escrowNumber === withdrawal.sidechainNumber)?.name,
+        };
+      });
+
+      const incomingTxids = [...new Set(unconfirmedUtxos.map(utxo => utxo.txid))]
+        .filter(txid => !outgoing.some(tx => tx.txid === txid) && !payouts.some(withdrawal => withdrawal.payout!.txid === txid));
+      const incomingTransactions: Transaction[] = incomingTxids.map(txid => {
+        const received = unconfirmedUtxos.filter(utxo => utxo.txid === txid);
+        return {
+          id: txid,
+          type: 'receive',
+          amount: sumAmounts(received.map(utxo => utxo.amount)),
+          date: new Date(),
+          address: received[0].address,
+          confirmations: 0,
+          acceleratable: true,
+        };
+      });
+
+      // The rest of the history is still sample data
       const mockData: Transaction[] = [
         {
           id: '7ea0d7c5fa0a5a5c1b5f2c8209d90b0cc459450c1ad025680bd7861ed970379c',
           type: 'receive',
-          amount: 0.1,
+          amount: 10000000,
           date: new Date(Date.now() - 1000 * 60 * 60 * 24 * 2), // 2 days ago
           address: 'tb1qnv5luf8mav8263sxfa4fdr3m6kws74n0yfzzrx',
           confirmations: 12,
@@ -55,7 +146,7 @@ export default function HistoryScreen() {
         {
           id: '8fa1d8c6fb1b6b6c2c6f3c9d0a90b1cc4694a1c2ad026771bd7972fe981479d',
           type: 'deposit',
-          amount: 0.02,
+          amount: 2000000,
           date: new Date(Date.now() - 1000 * 60 * 60 * 24), // 1 day ago
           address: 'tb1qnv5luf8mav8263sxfa4fdr3m6kws74n0yfzzrx',
           confirmations: 6,
@@ -65,7 +156,7 @@ export default function HistoryScreen() {
         {
           id: '9gb2e9d7fc2c7c7d3d7f4dad1a91b2dd5795b2d3be137862ce8983gf992580e',
           type: 'send',
-          amount: 0.05,
+          amount: 5000000,
           date: new Date(Date.now() - 1000 * 60 * 60 * 12), // 12 hours ago
           address: 'tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx',
           confirmations: 3,
@@ -73,7 +164,7 @@ export default function HistoryScreen() {
         {
           id: 'agc3fad8gd3d8d8e4e8gadad2a92c3ee6896c3e4cf248963df9a94hga93691f',
           type: 'withdraw',
-          amount: 0.01,
+          amount: 1000000,
           date: new Date(Date.now() - 1000 * 60 * 60 * 3), // 3 hours ago
           address: 'tb1qnv5luf8mav8263sxfa4fdr3m6kws74n0yfzzrx',
           confirmations: 1,
@@ -82,7 +173,7 @@ export default function HistoryScreen() {
         },
       ];
 
-      setTransactions(mockData);
+      setTransactions([...incomingTransactions, ...withdrawalTransactions, ...walletTransactions, ...mockData]);
     } catch (err) {
       console.error('Error loading transaction history:', err);
       setError('Failed to load transaction history');
@@ -94,6 +185,7 @@ export default function HistoryScreen() {
   // Refresh the transaction history
   const refreshTransactionHistory = async () => {
     setRefreshing(true);
+    await walletService.verifyHistory();
     await loadTransactionHistory();
     setRefreshing(false);
   };
@@ -154,13 +246,17 @@ export default function HistoryScreen() {
   };
 
   // Format the transaction amount (with + or - prefix)
-  const formatAmount = (transaction: Transaction): string => {
+  const formatTransactionAmount = (transaction: Transaction): string => {
     const prefix = transaction.type === 'receive' || transaction.type === 'deposit' ? '+' : '-';
-    return `${prefix}${transaction.amount.toFixed(8)} BTC`;
+    return `${prefix}${formatAmount(transaction.amount)}`;
   };
 
   // Get transaction description
   const getTransactionDescription = (transaction: Transaction): string => {
+    if (transaction.cancelled) {
+      return 'Cancelled, returned to wallet';
+    }
+
     switch (transaction.type) {
       case 'send':
         return `Sent to ${shortenAddress(transaction.address)}`;
@@ -205,7 +301,7 @@ export default function HistoryScreen() {
               { color: getTransactionColor(item.type) }
             ]}
           >
-            {formatAmount(item)}
+            {formatTransactionAmount(item)}
           </ThemedText>
         </View>
 
@@ -220,7 +316,12 @@ export default function HistoryScreen() {
 
         <View style={styles.transactionFooter}>
           <ThemedText style={styles.transactionConfirmations}>
-            {item.confirmations} confirmation{item.confirmations !== 1 ? 's' : ''}
+            {item.confirmations === 0
+              ? `Unconfirmed${item.replaceable ? ' · tap to bump or cancel' : item.acceleratable ? ' · tap to speed up' : ''}`
+              : `${item.confirmations} confirmation${item.confirmations !== 1 ? 's' : ''}`}
+            {item.unverified && (
+              <ThemedText style={styles.unverifiedText}> · Unverified</ThemedText>
+            )}
           </ThemedText>
           <FontAwesome 
             name="chevron-right" 
@@ -234,6 +335,47 @@ export default function HistoryScreen() {
 
   // Handle transaction item press
   const handleTransactionPress = (transaction: Transaction) => {
+    if (transaction.replaceable) {
+      Alert.alert(
+        'Unconfirmed Transaction',
+        'Pay a higher fee to speed it up, or cancel it by sending the funds back to your wallet.',
+        [
+          {
+            text: 'Bump Fee',
+            onPress: () => router.push({ pathname: '/replace', params: { txid: transaction.id, mode: 'bump' } }),
+          },
+          {
+            text: 'Cancel Transaction',
+            style: 'destructive',
+            onPress: () => router.push({ pathname: '/replace', params: { txid: transaction.id, mode: 'cancel' } }),
+          },
+          {
+            text: 'Close',
+            style: 'cancel',
+          },
+        ]
+      );
+      return;
+    }
+
+    if (transaction.acceleratable) {
+      Alert.alert(
+        'Unconfirmed Transaction',
+        'Speed it up by spending its output to your wallet with a higher fee (child pays for parent).',
+        [
+          {
+            text: 'Speed Up',
+            onPress: () => router.push({ pathname: '/cpfp', params: { txid: transaction.id } }),
+          },
+          {
+            text: 'Close',
+            style: 'cancel',
+          },
+        ]
+      );
+      return;
+    }
+
     // Navigate to transaction details screen
     console.log('View transaction details:', transaction.id);
     // In a real implementation, this would navigate to a transaction details screen
@@ -254,7 +396,7 @@ export default function HistoryScreen() {
         {error && (
           <View style={styles.errorContainer}>
             <ThemedText style={styles.errorText}>{error}</ThemedText>
-            <Pressable style={styles.retryButton} onPress={loadTransactionHistory}>
+            <Pressable style={styles.retryButton} onPress={() => loadTransactionHistory()}>
               <ThemedText style={styles.retryButtonText}>Retry</ThemedText>
             </Pressable>
           </View>
@@ -351,6 +493,11 @@ const styles = StyleSheet.create({
     fontSize: 12,
     opacity: 0.6,
   },
+  unverifiedText: {
+    fontSize: 12,
+    color: '#FF9800',
+    fontWeight: '600',
+  },
   loadingContainer: {
     flex: 1,
     alignItems: 'center',
@@ -9,6 +9,7 @@ import { useColorScheme } from '@/hooks/useColorScheme';
 import { walletService } from '@/services/wallet';
 import { rebarLabsService } from '@/services/rebarLabs';
 import { WalletAccount } from '@/types/blockchain';
+import { formatAmount, Satoshis, sumAmounts } from '@/utils/amount';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { StatusBar } from 'expo-status-bar';
 import { Link, Stack } from 'expo-router';
@@ -30,10 +31,21 @@ export default function WalletScreen() {
     }, [])
   );
 
+  // Show balance changes pushed by the server as they arrive
+  useEffect(() => {
+    return walletService.addListener(event => {
+      if (event.type === 'balance' && event.walletId === walletService.getActiveWallet()?.id) {
+        loadActiveWallet();
+      }
+    });
+  }, []);
+
   // Load the active wallet from the wallet service
   const loadActiveWallet = async () => {
+    await walletService.initialize();
     const wallet = walletService.getActiveWallet();
-    setActiveWallet(wallet);
+    // Copy so pushed balance updates re-render
+    setActiveWallet(wallet && { ...wallet });
   };
 
   // Load Bitcoin-native assets from Rebar Labs API
@@ -88,25 +100,22 @@ export default function WalletScreen() {
   };
 
   // Format a balance for display
-  const formatBalance = (balance: number): string => {
-    return balance.toFixed(8);
+  const formatBalance = (balance: Satoshis): string => {
+    return formatAmount(balance);
   };
 
   // Get the total sidechain balance
-  const getTotalSidechainBalance = (): number => {
+  const getTotalSidechainBalance = (): Satoshis => {
     if (!activeWallet || !activeWallet.sidechainBalances) return 0;
     
-    return Object.values(activeWallet.sidechainBalances).reduce(
-      (total, balance) => total + balance.total,
-      0
-    );
+    return sumAmounts(Object.values(activeWallet.sidechainBalances).map(balance => balance.total));
   };
 
   // Get the total balance (main chain + sidechains)
-  const getTotalBalance = (): number => {
+  const getTotalBalance = (): Satoshis => {
     if (!activeWallet) return 0;
     
-    return activeWallet.balance.total + getTotalSidechainBalance();
+    return sumAmounts([activeWallet.balance.total, getTotalSidechainBalance()]);
   };
 
   // Generate a list of sidechains with balances
@@ -155,6 +164,16 @@ export default function WalletScreen() {
         <ThemedText style={styles.description}>
           Please create or restore a wallet to continue.
         </ThemedText>
+        <Link href="/watch-only" asChild>
+          <Pressable>
+            <ThemedText style={styles.watchOnlyLink}>Watch a wallet by its public key</ThemedText>
+          </Pressable>
+        </Link>
+        <Link href="/vault" asChild>
+          <Pressable>
+            <ThemedText style={styles.watchOnlyLink}>Set up a multisig vault</ThemedText>
+          </Pressable>
+        </Link>
       </ThemedView>
     );
   }
@@ -173,14 +192,30 @@ export default function WalletScreen() {
         {/* Wallet Header */}
         <View style={styles.walletHeader}>
           <ThemedText style={styles.walletName}>{activeWallet.name}</ThemedText>
+          {activeWallet.type === 'watch-only' && (
+            <ThemedText style={styles.watchOnlyBadge}>
+              <FontAwesome name="eye" size={12} /> Watch-only
+            </ThemedText>
+          )}
+          {activeWallet.type === 'imported' && (
+            <ThemedText style={styles.watchOnlyBadge}>
+              <FontAwesome name="key" size={12} /> Imported keys
+            </ThemedText>
+          )}
+          {activeWallet.type === 'multisig' && (
+            <ThemedText style={styles.watchOnlyBadge}>
+              <FontAwesome name="users" size={12} /> Vault {walletService.getMultisigInfo(activeWallet.id)?.threshold} of{' '}
+              {walletService.getMultisigInfo(activeWallet.id)?.cosigners.length}
+            </ThemedText>
+          )}
           <ThemedText style={styles.totalBalance}>
-            {formatBalance(getTotalBalance())} BTC
+            {formatBalance(getTotalBalance())}
           </ThemedText>
           <ThemedText style={styles.subBalance}>
-            Main Chain: {formatBalance(activeWallet.balance.total)} BTC
+            Main Chain: {formatBalance(activeWallet.balance.total)}
           </ThemedText>
           <ThemedText style={styles.subBalance}>
-            Sidechains: {formatBalance(getTotalSidechainBalance())} BTC
+            Sidechains: {formatBalance(getTotalSidechainBalance())}
           </ThemedText>
         </View>
 
@@ -212,6 +247,26 @@ export default function WalletScreen() {
               <ThemedText style={styles.actionButtonText}>Deposit</ThemedText>
             </Pressable>
           </Link>
+          <Link href="/utxos" asChild>
+            <Pressable style={styles.actionButton}>
+              <FontAwesome
+                name="th-list"
+                size={20}
+                color={Colors[colorScheme ?? 'light'].tint}
+              />
+              <ThemedText style={styles.actionButtonText}>Coins</ThemedText>
+            </Pressable>
+          </Link>
+          <Link href="/psbt" asChild>
+            <Pressable style={styles.actionButton}>
+              <FontAwesome
+                name="file-text-o"
+                size={20}
+                color={Colors[colorScheme ?? 'light'].tint}
+              />
+              <ThemedText style={styles.actionButtonText}>PSBT</ThemedText>
+            </Pressable>
+          </Link>
         </View>
 
         {/* Bitcoin-Native Assets */}
@@ -278,7 +333,7 @@ export default function WalletScreen() {
                     <ThemedText style={styles.sidechainId}>Escrow #{item.id}</ThemedText>
                   </View>
                   <ThemedText style={styles.sidechainBalance}>
-                    {formatBalance(item.balance)} BTC
+                    {formatBalance(item.balance)}
         </ThemedText>
                 </View>
               )}
@@ -311,6 +366,12 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginBottom: 8,
   },
+  watchOnlyBadge: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginTop: -4,
+    marginBottom: 8,
+  },
   totalBalance: {
     fontSize: 32,
     fontWeight: 'bold',
@@ -379,6 +440,11 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginHorizontal: 20,
   },
+  watchOnlyLink: {
+    marginTop: 16,
+    color: Colors.light.tint,
+    fontWeight: '600',
+  },
   emptyText: {
     textAlign: 'center',
     opacity: 0.6,
@@ -9,12 +9,13 @@ import { useColorScheme } from '@/hooks/useColorScheme';
 import { BitcoinNetwork } from '@/types/blockchain';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { StatusBar } from 'expo-status-bar';
-import { Link, Stack } from 'expo-router';
+import { Link, Stack, useRouter } from 'expo-router';
 import { walletService } from '@/services/wallet';
 import { electrumService } from '@/services/electrum';
 
 export default function SettingsScreen() {
   const colorScheme = useColorScheme();
+  const router = useRouter();
   const [network, setNetwork] = useState<BitcoinNetwork>(BitcoinNetwork.TESTNET);
   const [biometricEnabled, setBiometricEnabled] = useState(false);
   const [notificationsEnabled, setNotificationsEnabled] = useState(true);
@@ -29,9 +30,22 @@ export default function SettingsScreen() {
 
   // Load settings from storage
   const loadSettings = async () => {
-    // In a real implementation, we would load settings from storage
-    // For now, we'll just use the wallet service's network
-    setNetwork(walletService.getNetwork());
+    await walletService.initialize();
+    const settings = walletService.getSettings();
+    setNetwork(settings.network);
+    setBiometricEnabled(settings.biometricEnabled);
+    setNotificationsEnabled(settings.notificationsEnabled);
+  };
+
+  // Persist a toggled setting
+  const handleBiometricToggle = (enabled: boolean) => {
+    setBiometricEnabled(enabled);
+    walletService.updateSettings({ biometricEnabled: enabled });
+  };
+
+  const handleNotificationsToggle = (enabled: boolean) => {
+    setNotificationsEnabled(enabled);
+    walletService.updateSettings({ notificationsEnabled: enabled });
   };
 
   // Handle network selection
@@ -46,8 +60,12 @@ export default function SettingsScreen() {
         },
         {
           text: 'Switch',
-          onPress: () => {
-            walletService.setNetwork(newNetwork);
+          onPress: async () => {
+            const response = await walletService.updateSettings({ network: newNetwork });
+            if (!response.success) {
+              Alert.alert('Error', response.error || 'Failed to change network');
+              return;
+            }
             setNetwork(newNetwork);
             Alert.alert('Network Changed', `Network has been changed to ${newNetwork}`);
           },
@@ -58,6 +76,11 @@ export default function SettingsScreen() {
 
   // Handle wallet backup
   const handleBackupWallet = () => {
+    if (walletService.getActiveWallet()?.type === 'imported') {
+      handleBackupPrivateKeys();
+      return;
+    }
+
     Alert.alert(
       'Backup Wallet',
       'This will display your recovery phrase. Make sure no one is watching.',
@@ -68,15 +91,49 @@ export default function SettingsScreen() {
         },
         {
           text: 'Continue',
-          onPress: () => {
-            // In a real implementation, we would show the recovery phrase
-            Alert.alert('Backup', 'Recovery phrase would be displayed here');
+          onPress: async () => {
+            const response = await walletService.getMnemonic();
+            if (response.success && response.data) {
+              Alert.alert('Recovery Phrase', response.data);
+            } else {
+              Alert.alert('Error', response.error || 'Failed to load recovery phrase');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Imported wallets have no recovery phrase; back up their keys instead
+  const handleBackupPrivateKeys = () => {
+    Alert.alert(
+      'Backup Wallet',
+      'This will display your private keys. Make sure no one is watching.',
+      [
+        {
+          text: 'Cancel',
+          style: 'cancel',
+        },
+        {
+          text: 'Continue',
+          onPress: async () => {
+            const response = await walletService.getPrivateKeys();
+            if (response.success && response.data) {
+              Alert.alert('Private Keys', response.data.join('\n\n'));
+            } else {
+              Alert.alert('Error', response.error || 'Failed to load private keys');
+            }
           },
         },
       ]
     );
   };
 
+  // Lock storage; the tabs show the PIN screen until it's unlocked again
+  const handleLockWallet = () => {
+    walletService.lock();
+  };
+
   // Handle wallet reset
   const handleResetWallet = () => {
     Alert.alert(
@@ -90,9 +147,13 @@ export default function SettingsScreen() {
         {
           text: 'Reset',
           style: 'destructive',
-          onPress: () => {
-            // In a real implementation, we would reset the wallet
-            Alert.alert('Reset', 'Wallet has been reset');
+          onPress: async () => {
+            const response = await walletService.resetWallets();
+            if (response.success) {
+              Alert.alert('Reset', 'Wallet has been reset');
+            } else {
+              Alert.alert('Error', response.error || 'Failed to reset wallet');
+            }
           },
         },
       ]
@@ -164,6 +225,34 @@ export default function SettingsScreen() {
             undefined,
             'Create or view your recovery phrase'
           )}
+          {renderSettingsItem(
+            'Export Descriptors',
+            'code',
+            () => router.push('/descriptors'),
+            undefined,
+            'Output descriptors for Bitcoin Core and other wallets'
+          )}
+          {renderSettingsItem(
+            'Watch-only Wallet',
+            'eye',
+            () => router.push('/watch-only'),
+            undefined,
+            'Track an xpub or descriptor without its keys'
+          )}
+          {renderSettingsItem(
+            'Private Keys',
+            'key',
+            () => router.push('/import-key'),
+            undefined,
+            'Import or sweep WIF private keys'
+          )}
+          {renderSettingsItem(
+            'Multisig Vault',
+            'users',
+            () => router.push('/vault'),
+            undefined,
+            'Set up, import or export an M-of-N vault'
+          )}
           {renderSettingsItem(
             'Reset Wallet',
             'trash',
@@ -227,7 +316,7 @@ export default function SettingsScreen() {
             undefined,
             <Switch
               value={biometricEnabled}
-              onValueChange={setBiometricEnabled}
+              onValueChange={handleBiometricToggle}
               trackColor={{ false: '#767577', true: Colors[colorScheme ?? 'light'].tint }}
               thumbColor="#f4f3f4"
             />,
@@ -235,8 +324,17 @@ export default function SettingsScreen() {
           )}
           {renderSettingsItem(
             'Change PIN',
+            'key',
+            () => router.push('/change-pin'),
+            undefined,
+            'Re-encrypt your keys under a new PIN'
+          )}
+          {renderSettingsItem(
+            'Lock Wallet',
             'lock',
-            () => Alert.alert('PIN', 'PIN change screen would be displayed here')
+            handleLockWallet,
+            undefined,
+            'Forget decrypted keys until the PIN is entered again'
           )}
         </View>
 
@@ -249,7 +347,7 @@ export default function SettingsScreen() {
             undefined,
             <Switch
               value={notificationsEnabled}
-              onValueChange={setNotificationsEnabled}
+              onValueChange={handleNotificationsToggle}
               trackColor={{ false: '#767577', true: Colors[colorScheme ?? 'light'].tint }}
               thumbColor="#f4f3f4"
             />
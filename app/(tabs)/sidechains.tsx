@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from 'react';
-import { Alert, FlatList, Pressable, RefreshControl, StyleSheet, View } from 'react-native';
+import { Alert, Platform, Pressable, RefreshControl, SectionList, StyleSheet, View } from 'react-native';
 import { FontAwesome } from '@expo/vector-icons';
 import { useFocusEffect } from '@react-navigation/native';
 import { ThemedText } from '@/components/ThemedText';
@@ -8,12 +8,14 @@ import { Colors } from '@/constants/Colors';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { bip300Service } from '@/services/bip300';
 import { SidechainInfo } from '@/types/blockchain';
+import { getProposalProgress } from '@/utils/bip300State';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { StatusBar } from 'expo-status-bar';
-import { Link, Stack } from 'expo-router';
+import { Link, Stack, useRouter } from 'expo-router';
 
 export default function SidechainsScreen() {
   const colorScheme = useColorScheme();
+  const router = useRouter();
   const [sidechains, setSidechains] = useState<SidechainInfo[]>([]);
   const [refreshing, setRefreshing] = useState(false);
   const [loading, setLoading] = useState(true);
@@ -26,9 +28,16 @@ export default function SidechainsScreen() {
     }, [])
   );
 
+  // Reload quietly whenever new blocks or a reorg change D1, or a CTIP moves
+  useEffect(() => {
+    return bip300Service.addListener(() => {
+      loadSidechains(false);
+    });
+  }, []);
+
   // Load sidechains from the BIP300 service
-  const loadSidechains = async () => {
-    setLoading(true);
+  const loadSidechains = async (showLoading = true) => {
+    setLoading(showLoading);
     setError(null);
     try {
       const response = await bip300Service.getSidechains();
@@ -45,9 +54,13 @@ export default function SidechainsScreen() {
     }
   };
 
-  // Refresh the sidechains list
+  // Refresh the sidechains list, scanning any blocks not applied yet
   const refreshSidechains = async () => {
     setRefreshing(true);
+    const synced = await bip300Service.sync();
+    if (!synced.success) {
+      console.error('Failed to sync sidechain state:', synced.error);
+    }
     await loadSidechains();
     setRefreshing(false);
   };
@@ -58,14 +71,73 @@ export default function SidechainsScreen() {
     Alert.alert('Deposit', `Deposit to ${sidechain.name} (Escrow #${sidechain.escrowNumber})`);
   };
 
-  // Handle viewing sidechain details
+  // Open the sidechain's withdrawal bundles
   const handleViewDetails = (sidechain: SidechainInfo) => {
-    // Navigate to sidechain details screen
-    Alert.alert('Details', `View details for ${sidechain.name} (Escrow #${sidechain.escrowNumber})`);
+    router.push({ pathname: '/sidechain/[number]', params: { number: String(sidechain.escrowNumber) } });
+  };
+
+  // Format a number of blocks with the time they take at 10 minutes each
+  const formatBlocks = (blocks: number): string => {
+    const minutes = blocks * 10;
+    const time = minutes < 120
+      ? `~${minutes} min`
+      : minutes < 48 * 60 ? `~${Math.round(minutes / 60)} hours` : `~${Math.round(minutes / (24 * 60))} days`;
+    return `${blocks.toLocaleString()} block${blocks !== 1 ? 's' : ''} (${time})`;
+  };
+
+  // Show a declared hash, or why there is none
+  const formatHash = (hash: string): string => {
+    if (!hash) return 'Not in a known declaration format';
+    return /^0+$/.test(hash) ? 'Not given' : hash;
+  };
+
+  // Render a pending sidechain proposal with its ACK progress
+  const renderProposalItem = (item: SidechainInfo) => {
+    const progress = getProposalProgress(bip300Service.getParams(), sidechains, item);
+    const replaced = progress.usedSlot
+      ? sidechains.find(sc => sc.isActive && sc.escrowNumber === item.escrowNumber)
+      : undefined;
+
+    return (
+      <View style={styles.sidechainItem}>
+        <View style={styles.sidechainHeader}>
+          <ThemedText style={styles.sidechainName}>{item.name}</ThemedText>
+          <View style={[styles.statusBadge, { backgroundColor: '#FF9800' }]}>
+            <ThemedText style={styles.statusText}>Proposed</ThemedText>
+          </View>
+        </View>
+
+        <ThemedText style={styles.sidechainId}>
+          Escrow #{item.escrowNumber} · {replaced ? `replaces ${replaced.name}` : 'unused slot'}
+        </ThemedText>
+        <ThemedText style={styles.description} numberOfLines={2}>
+          {item.description}
+        </ThemedText>
+
+        <View style={styles.progressTrack}>
+          <View style={[styles.progressFill, { width: `${Math.min(progress.acks / progress.acksNeeded, 1) * 100}%` }]} />
+        </View>
+        <ThemedText style={styles.progressText}>
+          ACKed in {progress.acks.toLocaleString()} of the {progress.acksNeeded.toLocaleString()} blocks needed ·
+          failed in {progress.fails.toLocaleString()} of {progress.maxFails.toLocaleString()} allowed
+        </ThemedText>
+        <ThemedText style={styles.progressText}>
+          Activates in {formatBlocks(progress.blocksToActivation)} at the earliest, or expires after{' '}
+          {formatBlocks(progress.blocksToExpiry)} without an ACK
+        </ThemedText>
+
+        <View style={styles.hashes}>
+          <ThemedText style={styles.hashLabel}>Release tarball (SHA-256)</ThemedText>
+          <ThemedText style={styles.hashValue} selectable>{formatHash(item.tarballHash)}</ThemedText>
+          <ThemedText style={styles.hashLabel}>Git commit</ThemedText>
+          <ThemedText style={styles.hashValue} selectable>{formatHash(item.gitCommitHash)}</ThemedText>
+        </View>
+      </View>
+    );
   };
 
   // Render a sidechain item
-  const renderSidechainItem = ({ item }: { item: SidechainInfo }) => (
+  const renderSidechainItem = ({ item }: { item: SidechainInfo }) => item.isActive ? (
     <View style={styles.sidechainItem}>
       <View style={styles.sidechainHeader}>
         <ThemedText style={styles.sidechainName}>{item.name}</ThemedText>
@@ -101,7 +173,12 @@ export default function SidechainsScreen() {
         </Pressable>
       </View>
     </View>
-  );
+  ) : renderProposalItem(item);
+
+  const sections = [
+    { title: 'Active', data: sidechains.filter(sc => sc.isActive) },
+    { title: 'Pending proposals', data: sidechains.filter(sc => !sc.isActive) },
+  ].filter(section => section.data.length > 0);
 
   return (
     <SafeAreaView style={styles.safeArea} edges={['top', 'left', 'right']}>
@@ -112,7 +189,7 @@ export default function SidechainsScreen() {
         <View style={styles.header}>
           <ThemedText style={styles.title}>Available Sidechains</ThemedText>
           <ThemedText style={styles.subtitle}>
-            Explore and interact with BIP300 sidechains
+            BIP300 sidechains, and proposals miners are voting on
           </ThemedText>
         </View>
 
@@ -125,7 +202,7 @@ export default function SidechainsScreen() {
         {error && (
           <View style={styles.errorContainer}>
             <ThemedText style={styles.errorText}>{error}</ThemedText>
-            <Pressable style={styles.retryButton} onPress={loadSidechains}>
+            <Pressable style={styles.retryButton} onPress={() => loadSidechains()}>
               <ThemedText style={styles.retryButtonText}>Retry</ThemedText>
             </Pressable>
           </View>
@@ -138,10 +215,14 @@ export default function SidechainsScreen() {
         )}
 
         {sidechains.length > 0 && (
-          <FlatList
-            data={sidechains}
-            keyExtractor={(item) => item.escrowNumber.toString()}
+          <SectionList
+            sections={sections}
+            keyExtractor={(item) => item.proposalHash ?? item.escrowNumber.toString()}
             renderItem={renderSidechainItem}
+            renderSectionHeader={({ section }) => (
+              <ThemedText style={styles.sectionTitle}>{section.title}</ThemedText>
+            )}
+            stickySectionHeadersEnabled={false}
             contentContainerStyle={styles.listContent}
             refreshControl={
               <RefreshControl refreshing={refreshing} onRefresh={refreshSidechains} />
@@ -214,6 +295,41 @@ const styles = StyleSheet.create({
     fontSize: 15,
     marginBottom: 16,
   },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    opacity: 0.6,
+    marginBottom: 8,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: 'rgba(128, 128, 128, 0.2)',
+    overflow: 'hidden',
+    marginBottom: 8,
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#FF9800',
+  },
+  progressText: {
+    fontSize: 13,
+    opacity: 0.8,
+    marginBottom: 4,
+  },
+  hashes: {
+    marginTop: 8,
+  },
+  hashLabel: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginTop: 4,
+  },
+  hashValue: {
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
   actionButtons: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { Alert, StyleSheet, View, TextInput, KeyboardAvoidingView, Platform, Pressable, ActivityIndicator } from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { ThemedText } from '@/components/ThemedText';
+import { MIN_PIN_LENGTH } from '@/components/PinGate';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { Stack, useRouter } from 'expo-router';
+import { ScrollView } from 'react-native-gesture-handler';
+import { walletService } from '@/services/wallet';
+
+export default function ChangePinScreen() {
+  const colorScheme = useColorScheme();
+  const router = useRouter();
+  const [currentPin, setCurrentPin] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const canSubmit = currentPin.length > 0 && newPin.length >= MIN_PIN_LENGTH && confirmPin.length > 0;
+
+  // Re-encrypt the wallet secrets under the new PIN
+  const handleChangePin = async () => {
+    if (!canSubmit) return;
+
+    if (newPin !== confirmPin) {
+      Alert.alert('Error', 'The new PINs don\'t match');
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      const response = await walletService.changePin(currentPin, newPin);
+
+      if (response.success) {
+        Alert.alert('PIN Changed', 'Use your new PIN to unlock the wallet from now on.', [
+          {
+            text: 'OK',
+            onPress: () => router.back(),
+          },
+        ]);
+      } else {
+        Alert.alert('Error', response.error || 'Failed to change PIN');
+        setCurrentPin('');
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const inputStyle = [styles.input, { color: Colors[colorScheme ?? 'light'].text }];
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['left', 'right']}>
+      <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+      <Stack.Screen
+        options={{
+          title: 'Change PIN',
+          headerShown: true,
+        }}
+      />
+
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+      >
+        <ScrollView style={styles.scrollView}>
+          <View style={styles.section}>
+            <ThemedText style={styles.label}>Current PIN</ThemedText>
+            <TextInput
+              style={inputStyle}
+              value={currentPin}
+              onChangeText={setCurrentPin}
+              placeholder="Current PIN"
+              placeholderTextColor="#999"
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+
+            <ThemedText style={styles.label}>New PIN (at least {MIN_PIN_LENGTH} characters)</ThemedText>
+            <TextInput
+              style={inputStyle}
+              value={newPin}
+              onChangeText={setNewPin}
+              placeholder="New PIN"
+              placeholderTextColor="#999"
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <TextInput
+              style={inputStyle}
+              value={confirmPin}
+              onChangeText={setConfirmPin}
+              placeholder="Confirm new PIN"
+              placeholderTextColor="#999"
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          </View>
+
+          <View style={styles.noteSection}>
+            <ThemedText style={styles.noteText}>
+              Every stored recovery phrase and private key is re-encrypted under the new PIN.
+            </ThemedText>
+          </View>
+
+          {isWorking ? (
+            <ActivityIndicator size="large" color={Colors[colorScheme ?? 'light'].tint} />
+          ) : (
+            <Pressable
+              style={[styles.button, !canSubmit && styles.disabledButton]}
+              onPress={handleChangePin}
+              disabled={!canSubmit}
+            >
+              <FontAwesome name="lock" size={16} color="#fff" />
+              <ThemedText style={styles.buttonText}>Change PIN</ThemedText>
+            </Pressable>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  section: {
+    padding: 16,
+  },
+  label: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  noteSection: {
+    paddingHorizontal: 16,
+    marginBottom: 16,
+  },
+  noteText: {
+    fontSize: 13,
+    opacity: 0.7,
+    lineHeight: 18,
+  },
+  button: {
+    marginHorizontal: 16,
+    marginBottom: 12,
+    backgroundColor: Colors.light.tint,
+    paddingVertical: 14,
+    borderRadius: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  buttonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+  disabledButton: {
+    backgroundColor: '#ccc',
+  },
+});
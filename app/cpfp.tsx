@@ -0,0 +1,351 @@
+import React, { useState, useEffect } from 'react';
+import { Alert, StyleSheet, View, TextInput, KeyboardAvoidingView, Platform, Pressable, ActivityIndicator } from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { ScrollView } from 'react-native-gesture-handler';
+import { FeeEstimate, FeePriority, feeService } from '@/services/fees';
+import { CpfpPreview, walletService } from '@/services/wallet';
+import { formatAmount } from '@/utils/amount';
+
+export default function CpfpScreen() {
+  const colorScheme = useColorScheme();
+  const router = useRouter();
+  const { txid } = useLocalSearchParams<{ txid: string }>();
+
+  const [feeEstimates, setFeeEstimates] = useState<FeeEstimate[]>([]);
+  const [feePriority, setFeePriority] = useState<FeePriority | 'custom'>('fast');
+  const [customFeeRate, setCustomFeeRate] = useState('');
+  const [preview, setPreview] = useState<CpfpPreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
+  // Load fee rate presets when the screen mounts
+  useEffect(() => {
+    loadFeeEstimates();
+  }, []);
+
+  // Recompute the child transaction whenever the target rate changes
+  useEffect(() => {
+    updatePreview();
+  }, [feePriority, customFeeRate, feeEstimates]);
+
+  // Load fee rate presets from the fee service
+  const loadFeeEstimates = async () => {
+    const response = await feeService.getFeeEstimates();
+    if (response.success && response.data) {
+      setFeeEstimates(response.data);
+    } else {
+      setFeePriority('custom');
+    }
+  };
+
+  // Get the target package fee rate in sat/vB
+  const getFeeRate = (): number | null => {
+    if (feePriority === 'custom') {
+      const rate = Number(customFeeRate.trim().replace(',', '.'));
+      return customFeeRate.trim() && !isNaN(rate) ? rate : null;
+    }
+    return feeEstimates.find(estimate => estimate.priority === feePriority)?.feeRate ?? null;
+  };
+
+  // Compute the child fee for the selected target rate
+  const updatePreview = async () => {
+    const feeRate = getFeeRate();
+    const feeError = feeRate === null ? 'Enter a fee rate in sat/vB' : feeService.validateFeeRate(feeRate);
+    if (feeError) {
+      setPreview(null);
+      setPreviewError(feeError);
+      return;
+    }
+
+    const response = await walletService.previewCpfp(txid, feeRate!);
+    if (response.success && response.data) {
+      setPreview(response.data);
+      setPreviewError(null);
+    } else {
+      setPreview(null);
+      setPreviewError(response.error || 'Unable to speed up this transaction');
+    }
+  };
+
+  // Handle child transaction submission
+  const handleAccelerate = () => {
+    if (!preview) return;
+
+    Alert.alert(
+      'Confirm Speed Up',
+      `Pay ${formatAmount(preview.childFee)} so both transactions confirm at ${preview.packageFeeRate.toFixed(1)} sat/vB?`,
+      [
+        {
+          text: 'Back',
+          style: 'cancel',
+        },
+        {
+          text: 'Speed Up',
+          onPress: async () => {
+            setIsSending(true);
+            try {
+              const response = await walletService.accelerateWithCpfp(txid, getFeeRate()!);
+
+              if (response.success && response.data) {
+                Alert.alert(
+                  'Child Transaction Broadcast',
+                  `Transaction ID: ${response.data}`,
+                  [
+                    {
+                      text: 'OK',
+                      onPress: () => router.back(),
+                    },
+                  ]
+                );
+              } else {
+                Alert.alert('Error', response.error || 'Failed to speed up transaction');
+              }
+            } catch (error) {
+              console.error('Error accelerating transaction:', error);
+              Alert.alert('Error', 'An unexpected error occurred');
+            } finally {
+              setIsSending(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const priorityLabels: Record<FeePriority, string> = {
+    slow: 'Slow',
+    normal: 'Normal',
+    fast: 'Fast',
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['left', 'right']}>
+      <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+      <Stack.Screen
+        options={{
+          title: 'Speed Up Transaction',
+          headerShown: true,
+        }}
+      />
+
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+      >
+        <ScrollView style={styles.scrollView}>
+          <View style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>Stuck Transaction</ThemedText>
+            <ThemedText style={styles.detailText} numberOfLines={1}>{txid}</ThemedText>
+            {preview && (
+              <ThemedText style={styles.detailText}>
+                Fee: {formatAmount(preview.parentFee)} ({(preview.parentFee / preview.parentVsize).toFixed(1)} sat/vB)
+              </ThemedText>
+            )}
+          </View>
+
+          <View style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>Target Fee Rate</ThemedText>
+            <View style={styles.feeOptions}>
+              {feeEstimates.map(estimate => (
+                <Pressable
+                  key={estimate.priority}
+                  style={[styles.feeOption, feePriority === estimate.priority && styles.selectedOption]}
+                  onPress={() => setFeePriority(estimate.priority)}
+                >
+                  <ThemedText style={[styles.feeOptionTitle, feePriority === estimate.priority && styles.selectedText]}>
+                    {priorityLabels[estimate.priority]}
+                  </ThemedText>
+                  <ThemedText style={styles.feeOptionDetail}>{estimate.feeRate} sat/vB</ThemedText>
+                </Pressable>
+              ))}
+              <Pressable
+                style={[styles.feeOption, feePriority === 'custom' && styles.selectedOption]}
+                onPress={() => setFeePriority('custom')}
+              >
+                <ThemedText style={[styles.feeOptionTitle, feePriority === 'custom' && styles.selectedText]}>
+                  Custom
+                </ThemedText>
+                <ThemedText style={styles.feeOptionDetail}>sat/vB</ThemedText>
+              </Pressable>
+            </View>
+
+            {feePriority === 'custom' && (
+              <TextInput
+                style={[styles.input, { color: Colors[colorScheme ?? 'light'].text }]}
+                value={customFeeRate}
+                onChangeText={setCustomFeeRate}
+                keyboardType="decimal-pad"
+                placeholder="Fee rate (sat/vB)"
+                placeholderTextColor="#999"
+              />
+            )}
+
+            <View style={styles.summaryContainer}>
+              {preview ? (
+                <>
+                  <View style={styles.summaryRow}>
+                    <ThemedText style={styles.summaryLabel}>Child Fee:</ThemedText>
+                    <ThemedText style={styles.summaryValue}>{formatAmount(preview.childFee)}</ThemedText>
+                  </View>
+                  <View style={styles.summaryRow}>
+                    <ThemedText style={styles.summaryLabel}>Sent Back to Wallet:</ThemedText>
+                    <ThemedText style={styles.summaryValue}>{formatAmount(preview.output)}</ThemedText>
+                  </View>
+                  <View style={styles.summaryRow}>
+                    <ThemedText style={styles.summaryLabel}>Package Size:</ThemedText>
+                    <ThemedText style={styles.summaryValue}>{preview.parentVsize + preview.childVsize} vB</ThemedText>
+                  </View>
+                  <View style={styles.summaryRow}>
+                    <ThemedText style={styles.summaryLabel}>Effective Package Rate:</ThemedText>
+                    <ThemedText style={styles.summaryValue}>{preview.packageFeeRate.toFixed(1)} sat/vB</ThemedText>
+                  </View>
+                </>
+              ) : (
+                <ThemedText style={styles.errorText}>{previewError}</ThemedText>
+              )}
+            </View>
+          </View>
+
+          <View style={styles.noteSection}>
+            <ThemedText style={styles.noteText}>
+              <FontAwesome name="info-circle" size={14} color={Colors[colorScheme ?? 'light'].icon} /> Miners
+              include the child only together with the stuck transaction, so the child's fee pays for both.
+            </ThemedText>
+          </View>
+
+          <Pressable
+            style={[styles.accelerateButton, !preview && styles.disabledButton]}
+            onPress={handleAccelerate}
+            disabled={!preview || isSending}
+          >
+            {isSending ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <>
+                <FontAwesome name="rocket" size={16} color="#fff" />
+                <ThemedText style={styles.accelerateButtonText}>Speed Up</ThemedText>
+              </>
+            )}
+          </Pressable>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  section: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  detailText: {
+    fontSize: 13,
+    opacity: 0.7,
+    marginBottom: 4,
+  },
+  feeOptions: {
+    flexDirection: 'row',
+    marginHorizontal: -4,
+    marginBottom: 16,
+  },
+  feeOption: {
+    flex: 1,
+    marginHorizontal: 4,
+    padding: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: 'rgba(0, 0, 0, 0.03)',
+    alignItems: 'center',
+  },
+  selectedOption: {
+    borderColor: Colors.light.tint,
+    backgroundColor: `${Colors.light.tint}20`,
+  },
+  selectedText: {
+    color: Colors.light.tint,
+  },
+  feeOptionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  feeOptionDetail: {
+    fontSize: 11,
+    opacity: 0.6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  summaryContainer: {
+    padding: 16,
+    borderRadius: 8,
+    backgroundColor: 'rgba(0, 0, 0, 0.03)',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  summaryLabel: {
+    opacity: 0.7,
+  },
+  summaryValue: {
+    fontWeight: '500',
+  },
+  noteSection: {
+    paddingHorizontal: 16,
+    marginBottom: 16,
+  },
+  noteText: {
+    fontSize: 13,
+    opacity: 0.7,
+    lineHeight: 18,
+  },
+  accelerateButton: {
+    margin: 16,
+    backgroundColor: Colors.light.tint,
+    paddingVertical: 14,
+    borderRadius: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  accelerateButtonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+  disabledButton: {
+    backgroundColor: '#ccc',
+  },
+  errorText: {
+    color: '#F44336',
+    textAlign: 'center',
+  },
+});
@@ -7,28 +7,84 @@ import { Colors } from '@/constants/Colors';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { StatusBar } from 'expo-status-bar';
-import { Stack, useRouter } from 'expo-router';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
 import { SidechainInfo } from '@/types/blockchain';
 import { bip300Service } from '@/services/bip300';
 import { walletService } from '@/services/wallet';
 import { ScrollView } from 'react-native-gesture-handler';
+import { FeeEstimate, FeePriority, feeService } from '@/services/fees';
+import { formatAmount, Satoshis, tryParseAmount } from '@/utils/amount';
+import { CoinSelection } from '@/utils/coinSelection';
 
 export default function DepositScreen() {
   const colorScheme = useColorScheme();
   const router = useRouter();
+  const { utxos } = useLocalSearchParams<{ utxos?: string }>();
+  const selectedUtxos = utxos ? utxos.split(',') : undefined; // Manual coin control from the Coins screen
   const [sidechains, setSidechains] = useState<SidechainInfo[]>([]);
   const [selectedSidechain, setSelectedSidechain] = useState<SidechainInfo | null>(null);
+  const [depositAddress, setDepositAddress] = useState('');
   const [amount, setAmount] = useState('');
-  const [fee, setFee] = useState('0.0001'); // Default fee in BTC
+  const [feeEstimates, setFeeEstimates] = useState<FeeEstimate[]>([]);
+  const [feePriority, setFeePriority] = useState<FeePriority | 'custom'>('normal');
+  const [customFeeRate, setCustomFeeRate] = useState('');
+  const [preview, setPreview] = useState<CoinSelection | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isSending, setIsSending] = useState(false);
   const [loadingError, setLoadingError] = useState<string | null>(null);
+  // Watch-only wallets and vaults hold no keys, so deposits are exported as PSBTs to sign elsewhere
+  const watchOnly = ['watch-only', 'multisig'].includes(walletService.getActiveWallet()?.type ?? '');
 
   // Load sidechains when the screen mounts
   useEffect(() => {
     loadSidechains();
+    loadFeeEstimates();
   }, []);
 
+  // Re-run coin selection whenever the address, amount or fee rate changes
+  useEffect(() => {
+    updatePreview();
+  }, [selectedSidechain, depositAddress, amount, feePriority, customFeeRate, feeEstimates]);
+
+  // Load fee rate presets from the fee service
+  const loadFeeEstimates = async () => {
+    const response = await feeService.getFeeEstimates();
+    if (response.success && response.data) {
+      setFeeEstimates(response.data);
+    } else {
+      // Without presets the user can still enter a rate
+      setFeePriority('custom');
+    }
+  };
+
+  // Compute the fee for the actual transaction size
+  const updatePreview = async () => {
+    const amountValue = tryParseAmount(amount);
+    const feeRate = getFeeRate();
+    if (!selectedSidechain || !depositAddress.trim() || amountValue === null || amountValue <= 0 ||
+      feeRate === null || !isValidFee()) {
+      setPreview(null);
+      setPreviewError(null);
+      return;
+    }
+
+    const response = await walletService.previewDeposit(
+      selectedSidechain.escrowNumber,
+      depositAddress,
+      amountValue,
+      feeRate,
+      { inputs: selectedUtxos }
+    );
+    if (response.success && response.data) {
+      setPreview(response.data);
+      setPreviewError(null);
+    } else {
+      setPreview(null);
+      setPreviewError(response.error || 'Unable to fund this deposit');
+    }
+  };
+
   // Load sidechains from the BIP300 service
   const loadSidechains = async () => {
     setIsLoading(true);
@@ -62,30 +118,63 @@ export default function DepositScreen() {
 
   // Check if the deposit amount is valid
   const isValidAmount = (): boolean => {
-    const amountValue = parseFloat(amount);
-    return !isNaN(amountValue) && amountValue > 0;
+    const amountValue = tryParseAmount(amount);
+    return amountValue !== null && amountValue > 0;
+  };
+
+  // Get the selected fee rate in sat/vB
+  const getFeeRate = (): number | null => {
+    if (feePriority === 'custom') {
+      const rate = Number(customFeeRate.trim().replace(',', '.'));
+      return customFeeRate.trim() && !isNaN(rate) ? rate : null;
+    }
+    return feeEstimates.find(estimate => estimate.priority === feePriority)?.feeRate ?? null;
   };
 
-  // Check if the fee is valid
+  // Check if the fee rate is valid
   const isValidFee = (): boolean => {
-    const feeValue = parseFloat(fee);
-    return !isNaN(feeValue) && feeValue >= 0;
+    const feeRate = getFeeRate();
+    return feeRate !== null && feeService.validateFeeRate(feeRate) === null;
   };
 
-  // Get total cost (amount + fee)
-  const getTotalCost = (): number => {
-    const amountValue = parseFloat(amount) || 0;
-    const feeValue = parseFloat(fee) || 0;
-    return amountValue + feeValue;
+  // Get total cost (amount + fee) in satoshis
+  const getTotalCost = (): Satoshis => {
+    const amountValue = tryParseAmount(amount) || 0;
+    return amountValue + (preview?.fee ?? 0);
   };
 
-  // Check if the user has enough balance
+  // Check if the user has enough balance; coin selection fails when they don't
   const hasEnoughBalance = (): boolean => {
-    const wallet = walletService.getActiveWallet();
-    if (!wallet) return false;
-    
-    const totalCost = getTotalCost();
-    return wallet.balance.total >= totalCost;
+    return preview !== null;
+  };
+
+  // Describe an expected confirmation time
+  const formatExpectedTime = (minutes: number): string => {
+    return minutes < 60 ? `~${minutes} min` : `~${Math.round(minutes / 60)} hour${minutes >= 120 ? 's' : ''}`;
+  };
+
+  const priorityLabels: Record<FeePriority, string> = {
+    slow: 'Slow',
+    normal: 'Normal',
+    fast: 'Fast',
+  };
+
+  // Export the deposit as an unsigned PSBT for an offline signer or co-signers
+  const handleExportPsbt = async () => {
+    if (!selectedSidechain || !isValidAmount() || !isValidFee()) return;
+
+    const response = await walletService.createDepositPsbt(
+      selectedSidechain.escrowNumber,
+      depositAddress,
+      tryParseAmount(amount)!,
+      getFeeRate()!,
+      { inputs: selectedUtxos }
+    );
+    if (response.success && response.data) {
+      router.push({ pathname: '/psbt', params: { psbt: response.data.toBase64() } });
+    } else {
+      Alert.alert('Error', response.error || 'Failed to create PSBT');
+    }
   };
 
   // Handle deposit submission
@@ -96,25 +185,37 @@ export default function DepositScreen() {
       return;
     }
 
+    if (!depositAddress.trim()) {
+      Alert.alert('Error', `Please enter your ${selectedSidechain.name} deposit address`);
+      return;
+    }
+
     if (!isValidAmount()) {
       Alert.alert('Error', 'Please enter a valid amount');
       return;
     }
 
     if (!isValidFee()) {
-      Alert.alert('Error', 'Please enter a valid fee');
+      const feeRate = getFeeRate();
+      Alert.alert('Error', (feeRate !== null && feeService.validateFeeRate(feeRate)) || 'Please enter a valid fee rate');
       return;
     }
 
     if (!hasEnoughBalance()) {
-      Alert.alert('Error', 'Insufficient balance');
+      Alert.alert('Error', previewError || 'Insufficient balance');
+      return;
+    }
+
+    // Without keys the deposit can only be signed elsewhere
+    if (watchOnly) {
+      await handleExportPsbt();
       return;
     }
 
     // Confirm deposit
     Alert.alert(
       'Confirm Deposit',
-      `Are you sure you want to deposit ${amount} BTC to ${selectedSidechain.name} (Escrow #${selectedSidechain.escrowNumber})?\n\nFee: ${fee} BTC\nTotal: ${getTotalCost()} BTC`,
+      `Are you sure you want to deposit ${amount} BTC to ${selectedSidechain.name} (Escrow #${selectedSidechain.escrowNumber})?\n\nCredited to: ${depositAddress.trim()}\nFee: ${formatAmount(preview!.fee)} (${getFeeRate()} sat/vB)\nTotal: ${formatAmount(getTotalCost())}`,
       [
         {
           text: 'Cancel',
@@ -127,8 +228,10 @@ export default function DepositScreen() {
             try {
               const response = await walletService.depositToSidechain(
                 selectedSidechain.escrowNumber,
-                parseFloat(amount),
-                parseFloat(fee)
+                depositAddress,
+                tryParseAmount(amount)!,
+                getFeeRate()!,
+                { inputs: selectedUtxos }
               );
 
               if (response.success && response.data) {
@@ -224,26 +327,64 @@ export default function DepositScreen() {
                 <>
                   <View style={styles.section}>
                     <ThemedText style={styles.sectionTitle}>Deposit Details</ThemedText>
-                    <ThemedText style={styles.label}>Amount (BTC)</ThemedText>
+                    <ThemedText style={styles.label}>{selectedSidechain.name} Deposit Address</ThemedText>
                     <TextInput
                       style={styles.input}
-                      value={amount}
-                      onChangeText={setAmount}
-                      keyboardType="decimal-pad"
-                      placeholder="0.00"
+                      value={depositAddress}
+                      onChangeText={setDepositAddress}
+                      placeholder={`s${selectedSidechain.escrowNumber}_..._...`}
                       placeholderTextColor="#999"
+                      autoCapitalize="none"
+                      autoCorrect={false}
                     />
 
-                    <ThemedText style={styles.label}>Transaction Fee (BTC)</ThemedText>
+                    <ThemedText style={styles.label}>Amount (BTC)</ThemedText>
                     <TextInput
                       style={styles.input}
-                      value={fee}
-                      onChangeText={setFee}
+                      value={amount}
+                      onChangeText={setAmount}
                       keyboardType="decimal-pad"
-                      placeholder="0.0001"
+                      placeholder="0.00"
                       placeholderTextColor="#999"
                     />
 
+                    <ThemedText style={styles.label}>Transaction Fee</ThemedText>
+                    <View style={styles.feeOptions}>
+                      {feeEstimates.map(estimate => (
+                        <Pressable
+                          key={estimate.priority}
+                          style={[styles.feeOption, feePriority === estimate.priority && styles.selectedSidechain]}
+                          onPress={() => setFeePriority(estimate.priority)}
+                        >
+                          <ThemedText style={[styles.feeOptionTitle, feePriority === estimate.priority && styles.selectedText]}>
+                            {priorityLabels[estimate.priority]}
+                          </ThemedText>
+                          <ThemedText style={styles.feeOptionDetail}>{estimate.feeRate} sat/vB</ThemedText>
+                          <ThemedText style={styles.feeOptionDetail}>{formatExpectedTime(estimate.expectedMinutes)}</ThemedText>
+                        </Pressable>
+                      ))}
+                      <Pressable
+                        style={[styles.feeOption, feePriority === 'custom' && styles.selectedSidechain]}
+                        onPress={() => setFeePriority('custom')}
+                      >
+                        <ThemedText style={[styles.feeOptionTitle, feePriority === 'custom' && styles.selectedText]}>
+                          Custom
+                        </ThemedText>
+                        <ThemedText style={styles.feeOptionDetail}>sat/vB</ThemedText>
+                      </Pressable>
+                    </View>
+
+                    {feePriority === 'custom' && (
+                      <TextInput
+                        style={styles.input}
+                        value={customFeeRate}
+                        onChangeText={setCustomFeeRate}
+                        keyboardType="decimal-pad"
+                        placeholder="Fee rate (sat/vB)"
+                        placeholderTextColor="#999"
+                      />
+                    )}
+
                     <View style={styles.summaryContainer}>
                       <View style={styles.summaryRow}>
                         <ThemedText style={styles.summaryLabel}>Deposit Amount:</ThemedText>
@@ -251,12 +392,20 @@ export default function DepositScreen() {
                       </View>
                       <View style={styles.summaryRow}>
                         <ThemedText style={styles.summaryLabel}>Transaction Fee:</ThemedText>
-                        <ThemedText style={styles.summaryValue}>{fee} BTC</ThemedText>
+                        <ThemedText style={styles.summaryValue}>
+                          {preview ? formatAmount(preview.fee) : '-'}
+                        </ThemedText>
                       </View>
+                      {preview && (
+                        <View style={styles.summaryRow}>
+                          <ThemedText style={styles.summaryLabel}>Transaction Size:</ThemedText>
+                          <ThemedText style={styles.summaryValue}>{preview.vsize} vB</ThemedText>
+                        </View>
+                      )}
                       <View style={styles.summaryDivider} />
                       <View style={styles.summaryRow}>
                         <ThemedText style={styles.totalLabel}>Total:</ThemedText>
-                        <ThemedText style={styles.totalValue}>{getTotalCost()} BTC</ThemedText>
+                        <ThemedText style={styles.totalValue}>{formatAmount(getTotalCost())}</ThemedText>
                       </View>
                       <View style={styles.balanceRow}>
                         <ThemedText style={[
@@ -265,17 +414,28 @@ export default function DepositScreen() {
                         ]}>
                           {hasEnoughBalance() 
                             ? 'Sufficient balance'
-                            : 'Insufficient balance'}
+                            : previewError || 'Enter an amount and fee rate'}
                         </ThemedText>
                       </View>
                     </View>
                   </View>
 
+                  {selectedUtxos && (
+                    <View style={styles.noteSection}>
+                      <ThemedText style={styles.noteText}>
+                        <FontAwesome name="check-square-o" size={14} color={Colors[colorScheme ?? 'light'].icon} /> Funded
+                        only from the {selectedUtxos.length} output{selectedUtxos.length !== 1 ? 's' : ''} selected on the Coins screen.
+                      </ThemedText>
+                    </View>
+                  )}
+
                   <View style={styles.noteSection}>
                     <ThemedText style={styles.noteText}>
                       <FontAwesome name="info-circle" size={14} color={Colors[colorScheme ?? 'light'].icon} /> Note: 
                       Deposits to sidechains (M5 transactions) are processed with one confirmation.
                       Make sure you're sending to the correct sidechain as deposits cannot be reversed.
+                      The deposit spends the sidechain's escrow output, so it can't be fee-bumped by
+                      replacement; use Accelerate on the History screen if it gets stuck.
                     </ThemedText>
                   </View>
 
@@ -293,11 +453,21 @@ export default function DepositScreen() {
                       <>
                         <FontAwesome name="arrow-circle-right" size={16} color="#fff" />
                         <ThemedText style={styles.depositButtonText}>
-                          Deposit to Sidechain
+                          {watchOnly ? 'Export PSBT to Sign' : 'Deposit to Sidechain'}
                         </ThemedText>
                       </>
                     )}
                   </Pressable>
+
+                  {!watchOnly && (
+                    <Pressable
+                      style={styles.exportButton}
+                      onPress={handleExportPsbt}
+                      disabled={!isValidAmount() || !isValidFee() || !hasEnoughBalance() || isSending}
+                    >
+                      <ThemedText style={styles.exportButtonText}>Export unsigned PSBT</ThemedText>
+                    </Pressable>
+                  )}
                 </>
               )}
             </>
@@ -371,6 +541,29 @@ const styles = StyleSheet.create({
     fontSize: 16,
     marginBottom: 16,
   },
+  feeOptions: {
+    flexDirection: 'row',
+    marginHorizontal: -4,
+    marginBottom: 16,
+  },
+  feeOption: {
+    flex: 1,
+    marginHorizontal: 4,
+    padding: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: 'rgba(0, 0, 0, 0.03)',
+    alignItems: 'center',
+  },
+  feeOptionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  feeOptionDetail: {
+    fontSize: 11,
+    opacity: 0.6,
+  },
   summaryContainer: {
     marginTop: 16,
     padding: 16,
@@ -433,6 +626,15 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     marginLeft: 8,
   },
+  exportButton: {
+    marginHorizontal: 16,
+    marginBottom: 16,
+    alignItems: 'center',
+  },
+  exportButtonText: {
+    color: Colors.light.tint,
+    fontWeight: '600',
+  },
   disabledButton: {
     backgroundColor: '#ccc',
   },
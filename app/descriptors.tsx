@@ -0,0 +1,192 @@
+import React from 'react';
+import { Alert, StyleSheet, View, Pressable, Platform, Share } from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { Stack } from 'expo-router';
+import { ScrollView } from 'react-native-gesture-handler';
+import * as Clipboard from 'expo-clipboard';
+import { walletService } from '@/services/wallet';
+import { AddressScriptType, MultisigScriptType, ScriptType } from '@/types/blockchain';
+
+export default function DescriptorsScreen() {
+  const colorScheme = useColorScheme();
+  const descriptors = walletService.getDescriptors();
+
+  const scriptTypeLabels: Record<AddressScriptType, string> = {
+    [ScriptType.P2WPKH]: 'Native SegWit',
+    [ScriptType.P2TR]: 'Taproot',
+    [ScriptType.P2SH_P2WPKH]: 'Nested SegWit',
+    [ScriptType.P2PKH]: 'Legacy',
+    [MultisigScriptType.P2WSH]: 'Multisig Native SegWit',
+    [MultisigScriptType.P2TR]: 'Multisig Taproot',
+    [MultisigScriptType.P2SH_P2WSH]: 'Multisig Nested SegWit',
+    [MultisigScriptType.P2SH]: 'Multisig Legacy',
+  };
+
+  // All descriptors, one per line, as accepted by the watch-only import
+  const allDescriptors = descriptors.flatMap(descriptor => [descriptor.receive, descriptor.change]).join('\n');
+
+  // Copy a descriptor to the clipboard
+  const handleCopy = async (descriptor: string) => {
+    await Clipboard.setStringAsync(descriptor);
+    Alert.alert('Copied', 'Descriptor copied to the clipboard.');
+  };
+
+  // Share all descriptors, e.g. to import into Bitcoin Core
+  const handleShare = async () => {
+    await Share.share({ message: allDescriptors });
+  };
+
+  // Render one descriptor with a copy button
+  const renderDescriptor = (label: string, descriptor: string) => (
+    <View style={styles.descriptorRow}>
+      <View style={styles.descriptorLeft}>
+        <ThemedText style={styles.label}>{label}</ThemedText>
+        <ThemedText style={styles.descriptorText} selectable>{descriptor}</ThemedText>
+      </View>
+      <Pressable style={styles.copyButton} onPress={() => handleCopy(descriptor)}>
+        <FontAwesome name="copy" size={16} color={Colors[colorScheme ?? 'light'].tint} />
+      </Pressable>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['left', 'right']}>
+      <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+      <Stack.Screen
+        options={{
+          title: 'Descriptors',
+          headerShown: true,
+        }}
+      />
+
+      <ScrollView style={styles.scrollView}>
+        {descriptors.length === 0 ? (
+          <View style={styles.errorContainer}>
+            <ThemedText style={styles.errorText}>No HD wallet or vault is active.</ThemedText>
+          </View>
+        ) : (
+          <>
+            {descriptors.map(descriptor => (
+              <View key={descriptor.scriptType} style={styles.section}>
+                <ThemedText style={styles.sectionTitle}>{scriptTypeLabels[descriptor.scriptType]}</ThemedText>
+                {renderDescriptor('Receive', descriptor.receive)}
+                {renderDescriptor('Change', descriptor.change)}
+              </View>
+            ))}
+
+            <View style={styles.noteSection}>
+              <ThemedText style={styles.noteText}>
+                <FontAwesome name="info-circle" size={14} color={Colors[colorScheme ?? 'light'].icon} /> These
+                descriptors contain public keys only. Import them into Bitcoin Core with importdescriptors, or into
+                another copy of this app as a watch-only wallet (or, for a vault, as a vault).
+              </ThemedText>
+            </View>
+
+            <View style={styles.buttonRow}>
+              <Pressable style={[styles.button, styles.secondaryButton]} onPress={() => handleCopy(allDescriptors)}>
+                <FontAwesome name="copy" size={16} color={Colors.light.tint} />
+                <ThemedText style={styles.secondaryButtonText}>Copy All</ThemedText>
+              </Pressable>
+              <Pressable style={[styles.button, styles.secondaryButton]} onPress={handleShare}>
+                <FontAwesome name="share" size={16} color={Colors.light.tint} />
+                <ThemedText style={styles.secondaryButtonText}>Share</ThemedText>
+              </Pressable>
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  section: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  descriptorRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 8,
+    backgroundColor: 'rgba(0, 0, 0, 0.03)',
+  },
+  descriptorLeft: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  descriptorText: {
+    fontSize: 12,
+    lineHeight: 16,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  copyButton: {
+    padding: 8,
+    marginLeft: 8,
+  },
+  noteSection: {
+    paddingHorizontal: 16,
+    marginBottom: 16,
+  },
+  noteText: {
+    fontSize: 13,
+    opacity: 0.7,
+    lineHeight: 18,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    marginBottom: 24,
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.light.tint,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  secondaryButton: {
+    flex: 1,
+    marginHorizontal: 4,
+    backgroundColor: 'transparent',
+    borderWidth: 1,
+    borderColor: Colors.light.tint,
+  },
+  secondaryButtonText: {
+    color: Colors.light.tint,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  errorContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+  },
+  errorText: {
+    color: '#F44336',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,315 @@
+import React, { useState } from 'react';
+import { Alert, StyleSheet, View, TextInput, KeyboardAvoidingView, Platform, Pressable, ActivityIndicator } from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { Stack, useRouter } from 'expo-router';
+import { ScrollView } from 'react-native-gesture-handler';
+import * as Clipboard from 'expo-clipboard';
+import { walletService } from '@/services/wallet';
+import { feeService } from '@/services/fees';
+import { formatAmount } from '@/utils/amount';
+
+export default function ImportKeyScreen() {
+  const colorScheme = useColorScheme();
+  const router = useRouter();
+  const activeWallet = walletService.getActiveWallet();
+  const [name, setName] = useState('');
+  const [privateKeys, setPrivateKeys] = useState('');
+  const [progress, setProgress] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const input = privateKeys.trim();
+
+  // Paste keys from the clipboard
+  const handlePaste = async () => {
+    const text = await Clipboard.getStringAsync();
+    if (text) {
+      setPrivateKeys(text.trim());
+    }
+  };
+
+  // Import the keys as a wallet
+  const handleImport = async () => {
+    if (!input) return;
+
+    setIsWorking(true);
+    setProgress('Looking up key addresses...');
+    try {
+      const response = await walletService.importPrivateKeys(name.trim() || 'Imported Keys', input);
+
+      if (response.success && response.data) {
+        await walletService.updateBalances(response.data.id);
+        setPrivateKeys('');
+        Alert.alert(
+          'Keys Imported',
+          `${response.data.name} holds ${walletService.getAddresses(response.data.id).length} address(es). ` +
+          'Change returns to its first address.',
+          [
+            {
+              text: 'OK',
+              onPress: () => router.back(),
+            },
+          ]
+        );
+      } else {
+        Alert.alert('Error', response.error || 'Failed to import keys');
+      }
+    } catch (error) {
+      console.error('Error importing private keys:', error);
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setIsWorking(false);
+      setProgress(null);
+    }
+  };
+
+  // Find the keys' funds and confirm sweeping them into the active wallet
+  const handleSweep = async () => {
+    if (!input || !activeWallet) return;
+
+    setIsWorking(true);
+    setProgress('Looking for funds...');
+    try {
+      const feeRate = await feeService.getFeeRate('normal');
+      if (!feeRate.success || feeRate.data === undefined) {
+        Alert.alert('Error', feeRate.error || 'Failed to estimate fees');
+        return;
+      }
+
+      const preview = await walletService.previewSweep(input, feeRate.data);
+      if (!preview.success || !preview.data) {
+        Alert.alert('Error', preview.error || 'Failed to find funds');
+        return;
+      }
+
+      const { inputs, total, fee, amount } = preview.data;
+      Alert.alert(
+        'Sweep Funds',
+        `Found ${formatAmount(total)} in ${inputs.length} output${inputs.length !== 1 ? 's' : ''}. ` +
+        `Send ${formatAmount(amount)} to ${activeWallet.name} after a ${formatAmount(fee)} fee?`,
+        [
+          {
+            text: 'Cancel',
+            style: 'cancel',
+          },
+          {
+            text: 'Sweep',
+            onPress: () => confirmSweep(feeRate.data!),
+          },
+        ]
+      );
+    } finally {
+      setIsWorking(false);
+      setProgress(null);
+    }
+  };
+
+  // Sign and broadcast the sweep
+  const confirmSweep = async (feeRate: number) => {
+    setIsWorking(true);
+    setProgress('Sweeping...');
+    try {
+      const response = await walletService.sweepPrivateKeys(input, feeRate);
+      if (response.success && response.data) {
+        setPrivateKeys('');
+        Alert.alert(
+          'Funds Swept',
+          `Transaction ID: ${response.data}`,
+          [
+            {
+              text: 'OK',
+              onPress: () => router.back(),
+            },
+          ]
+        );
+      } else {
+        Alert.alert('Error', response.error || 'Failed to sweep keys');
+      }
+    } finally {
+      setIsWorking(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['left', 'right']}>
+      <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+      <Stack.Screen
+        options={{
+          title: 'Private Keys',
+          headerShown: true,
+        }}
+      />
+
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+      >
+        <ScrollView style={styles.scrollView}>
+          <View style={styles.section}>
+            <View style={styles.labelRow}>
+              <ThemedText style={styles.sectionTitle}>WIF Private Keys</ThemedText>
+              <Pressable onPress={handlePaste}>
+                <ThemedText style={styles.linkText}>Paste</ThemedText>
+              </Pressable>
+            </View>
+            <TextInput
+              style={[styles.input, styles.keyInput, { color: Colors[colorScheme ?? 'light'].text }]}
+              value={privateKeys}
+              onChangeText={setPrivateKeys}
+              placeholder="K..., L..., 5... (or c..., 9... on testnet), one per line"
+              placeholderTextColor="#999"
+              autoCapitalize="none"
+              autoCorrect={false}
+              multiline
+            />
+
+            <ThemedText style={styles.label}>Wallet Name (for import)</ThemedText>
+            <TextInput
+              style={[styles.input, { color: Colors[colorScheme ?? 'light'].text }]}
+              value={name}
+              onChangeText={setName}
+              placeholder="Paper wallet"
+              placeholderTextColor="#999"
+            />
+          </View>
+
+          <View style={styles.noteSection}>
+            <ThemedText style={styles.noteText}>
+              <FontAwesome name="key" size={14} color={Colors[colorScheme ?? 'light'].icon} /> Each key is looked
+              up as legacy, nested SegWit, native SegWit and Taproot (uncompressed keys as legacy only). Sweeping
+              moves everything to a fresh address of the active wallet and forgets the keys, so anyone else holding
+              them can no longer spend those funds. Importing keeps the keys, encrypted, as a separate wallet.
+            </ThemedText>
+          </View>
+
+          {progress && (
+            <View style={styles.noteSection}>
+              <ThemedText style={styles.noteText}>{progress}</ThemedText>
+            </View>
+          )}
+
+          {isWorking ? (
+            <ActivityIndicator size="large" color={Colors[colorScheme ?? 'light'].tint} />
+          ) : (
+            <>
+              <Pressable
+                style={[styles.importButton, (!input || !activeWallet) && styles.disabledButton]}
+                onPress={handleSweep}
+                disabled={!input || !activeWallet}
+              >
+                <FontAwesome name="download" size={16} color="#fff" />
+                <ThemedText style={styles.importButtonText}>
+                  {activeWallet ? `Sweep into ${activeWallet.name}` : 'Sweep (no active wallet)'}
+                </ThemedText>
+              </Pressable>
+              <Pressable
+                style={[styles.importButton, styles.secondaryButton, !input && styles.disabledSecondaryButton]}
+                onPress={handleImport}
+                disabled={!input}
+              >
+                <FontAwesome name="key" size={16} color={Colors.light.tint} />
+                <ThemedText style={styles.secondaryButtonText}>Import as Wallet</ThemedText>
+              </Pressable>
+            </>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  section: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  linkText: {
+    color: Colors.light.tint,
+    fontWeight: '600',
+  },
+  label: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  keyInput: {
+    minHeight: 96,
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    textAlignVertical: 'top',
+  },
+  noteSection: {
+    paddingHorizontal: 16,
+    marginBottom: 16,
+  },
+  noteText: {
+    fontSize: 13,
+    opacity: 0.7,
+    lineHeight: 18,
+  },
+  importButton: {
+    marginHorizontal: 16,
+    marginBottom: 12,
+    backgroundColor: Colors.light.tint,
+    paddingVertical: 14,
+    borderRadius: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  importButtonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+  secondaryButton: {
+    backgroundColor: 'transparent',
+    borderWidth: 1,
+    borderColor: Colors.light.tint,
+  },
+  secondaryButtonText: {
+    color: Colors.light.tint,
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+  disabledButton: {
+    backgroundColor: '#ccc',
+  },
+  disabledSecondaryButton: {
+    borderColor: '#ccc',
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,446 @@
+import React, { useState, useEffect } from 'react';
+import { Alert, StyleSheet, View, TextInput, Pressable, ActivityIndicator, Share } from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import * as Clipboard from 'expo-clipboard';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { Psbt } from 'bitcoinjs-lib';
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { ScrollView } from 'react-native-gesture-handler';
+import { walletService } from '@/services/wallet';
+import { formatAmount } from '@/utils/amount';
+import { combinePsbts, decodePsbt, encodePsbt, PsbtSummary, summarizePsbt } from '@/utils/psbt';
+
+export default function PsbtScreen() {
+  const colorScheme = useColorScheme();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ psbt?: string }>();
+  const [psbtText, setPsbtText] = useState('');
+  const [psbt, setPsbt] = useState<Psbt | null>(null);
+  const [summary, setSummary] = useState<PsbtSummary | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  // Open a PSBT handed over by another screen
+  useEffect(() => {
+    if (params.psbt) {
+      loadPsbt(params.psbt);
+    }
+  }, [params.psbt]);
+
+  // Decode a PSBT and summarize it
+  const loadPsbt = (data: string | Buffer) => {
+    try {
+      const decoded = decodePsbt(data, walletService.getNetwork());
+      setPsbt(decoded);
+      refreshSummary(decoded);
+    } catch (error) {
+      Alert.alert('Invalid PSBT', `${error}`);
+    }
+  };
+
+  // Re-read the summary after the PSBT changed
+  const refreshSummary = (current: Psbt) => {
+    setSummary(summarizePsbt(
+      current,
+      walletService.getAddresses(),
+      walletService.getNetwork(),
+      walletService.getSigningFingerprint()
+    ));
+  };
+
+  // Import a PSBT from the clipboard
+  const handlePaste = async () => {
+    const text = await Clipboard.getStringAsync();
+    if (!text) {
+      Alert.alert('Clipboard Empty', 'Copy a PSBT first.');
+      return;
+    }
+    loadPsbt(text);
+  };
+
+  // Import a PSBT from a binary or base64 file
+  const handleOpenFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({ copyToCacheDirectory: true });
+      if (result.canceled || !result.assets?.length) return;
+
+      const contents = await FileSystem.readAsStringAsync(result.assets[0].uri, {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+      loadPsbt(Buffer.from(contents, 'base64'));
+    } catch (error) {
+      console.error('Error reading PSBT file:', error);
+      Alert.alert('Error', 'Failed to read the file');
+    }
+  };
+
+  // Sign our inputs
+  const handleSign = async () => {
+    if (!psbt) return;
+
+    setIsWorking(true);
+    try {
+      const response = await walletService.signPsbt(psbt);
+      if (response.success) {
+        refreshSummary(psbt);
+        Alert.alert('Signed', `Signed ${response.data} input${response.data !== 1 ? 's' : ''}.`);
+      } else {
+        Alert.alert('Error', response.error || 'Failed to sign PSBT');
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Merge a co-signer's copy of this PSBT from the clipboard
+  const handleCombine = async () => {
+    if (!psbt) return;
+
+    const text = await Clipboard.getStringAsync();
+    if (!text) {
+      Alert.alert('Clipboard Empty', 'Copy the co-signer\'s signed PSBT first.');
+      return;
+    }
+
+    try {
+      const other = decodePsbt(text, walletService.getNetwork());
+      const combined = combinePsbts(psbt, [other]);
+      setPsbt(combined);
+      refreshSummary(combined);
+    } catch (error) {
+      Alert.alert('Cannot Combine', `${error}`);
+    }
+  };
+
+  // Share the PSBT as base64 for co-signers or an offline signer
+  const handleShare = async () => {
+    if (!psbt) return;
+    await Share.share({ message: encodePsbt(psbt).toString('base64') });
+  };
+
+  // Copy the PSBT as base64
+  const handleCopy = async () => {
+    if (!psbt) return;
+    await Clipboard.setStringAsync(encodePsbt(psbt).toString('base64'));
+    Alert.alert('Copied', 'PSBT copied to the clipboard.');
+  };
+
+  // Finalize, extract and broadcast
+  const handleBroadcast = () => {
+    if (!psbt || !summary) return;
+
+    Alert.alert(
+      'Broadcast Transaction',
+      `Broadcast this transaction${summary.fee !== undefined ? ` paying ${formatAmount(summary.fee)} in fees` : ''}?`,
+      [
+        {
+          text: 'Cancel',
+          style: 'cancel',
+        },
+        {
+          text: 'Broadcast',
+          onPress: async () => {
+            setIsWorking(true);
+            try {
+              const response = await walletService.broadcastPsbt(psbt);
+              if (response.success && response.data) {
+                Alert.alert(
+                  'Transaction Broadcast',
+                  `Transaction ID: ${response.data}`,
+                  [
+                    {
+                      text: 'OK',
+                      onPress: () => router.back(),
+                    },
+                  ]
+                );
+              } else {
+                Alert.alert('Error', response.error || 'Failed to broadcast transaction');
+              }
+            } finally {
+              setIsWorking(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Start over with another PSBT
+  const handleClear = () => {
+    setPsbt(null);
+    setSummary(null);
+    setPsbtText('');
+  };
+
+  // Shorten an address or txid for display
+  const shorten = (value: string): string => {
+    return `${value.substring(0, 8)}...${value.substring(value.length - 4)}`;
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['left', 'right']}>
+      <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+      <Stack.Screen options={{ title: 'PSBT', headerShown: true }} />
+
+      <ScrollView style={styles.scrollView}>
+        {!psbt || !summary ? (
+          <View style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>Import PSBT</ThemedText>
+            <TextInput
+              style={[styles.input, { color: Colors[colorScheme ?? 'light'].text }]}
+              value={psbtText}
+              onChangeText={setPsbtText}
+              placeholder="Paste a base64 or hex PSBT"
+              placeholderTextColor="#999"
+              multiline
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <Pressable
+              style={[styles.button, !psbtText.trim() && styles.disabledButton]}
+              onPress={() => loadPsbt(psbtText)}
+              disabled={!psbtText.trim()}
+            >
+              <ThemedText style={styles.buttonText}>Decode</ThemedText>
+            </Pressable>
+            <View style={styles.buttonRow}>
+              <Pressable style={[styles.button, styles.secondaryButton]} onPress={handlePaste}>
+                <FontAwesome name="clipboard" size={14} color={Colors.light.tint} />
+                <ThemedText style={styles.secondaryButtonText}>Paste</ThemedText>
+              </Pressable>
+              <Pressable style={[styles.button, styles.secondaryButton]} onPress={handleOpenFile}>
+                <FontAwesome name="file-o" size={14} color={Colors.light.tint} />
+                <ThemedText style={styles.secondaryButtonText}>Open File</ThemedText>
+              </Pressable>
+            </View>
+          </View>
+        ) : (
+          <>
+            <View style={styles.section}>
+              <ThemedText style={styles.sectionTitle}>Inputs</ThemedText>
+              {summary.inputs.map((input, index) => (
+                <View key={`${input.txid}:${input.vout}`} style={styles.row}>
+                  <View style={styles.rowInfo}>
+                    <ThemedText style={styles.rowTitle}>
+                      {input.value !== undefined ? formatAmount(input.value) : 'Unknown amount'}
+                    </ThemedText>
+                    <ThemedText style={styles.rowDetail}>
+                      #{index} {input.address ? shorten(input.address) : `${shorten(input.txid)}:${input.vout}`}
+                    </ThemedText>
+                  </View>
+                  <ThemedText style={[styles.badge, input.ours && styles.oursBadge]}>
+                    {input.finalized
+                      ? 'Final'
+                      : input.threshold !== undefined
+                        ? `${Math.min(input.signatures ?? 0, input.threshold)} of ${input.threshold} signed`
+                        : input.signed ? 'Signed' : input.ours ? 'Can sign' : 'External'}
+                  </ThemedText>
+                </View>
+              ))}
+            </View>
+
+            <View style={styles.section}>
+              <ThemedText style={styles.sectionTitle}>Outputs</ThemedText>
+              {summary.outputs.map((output, index) => (
+                <View key={index} style={styles.row}>
+                  <View style={styles.rowInfo}>
+                    <ThemedText style={styles.rowTitle}>{formatAmount(output.value)}</ThemedText>
+                    <ThemedText style={styles.rowDetail}>
+                      {output.address ? shorten(output.address) : shorten(output.script)}
+                    </ThemedText>
+                  </View>
+                  {output.ours && (
+                    <ThemedText style={[styles.badge, styles.oursBadge]}>
+                      {output.change ? 'Change' : 'Ours'}
+                    </ThemedText>
+                  )}
+                </View>
+              ))}
+            </View>
+
+            <View style={styles.section}>
+              <View style={styles.summaryContainer}>
+                <View style={styles.summaryRow}>
+                  <ThemedText style={styles.summaryLabel}>Fee:</ThemedText>
+                  <ThemedText style={styles.summaryValue}>
+                    {summary.fee !== undefined ? formatAmount(summary.fee) : 'Unknown'}
+                  </ThemedText>
+                </View>
+                {summary.feeRate !== undefined && (
+                  <View style={styles.summaryRow}>
+                    <ThemedText style={styles.summaryLabel}>Fee Rate:</ThemedText>
+                    <ThemedText style={styles.summaryValue}>~{summary.feeRate.toFixed(1)} sat/vB</ThemedText>
+                  </View>
+                )}
+                <View style={styles.summaryRow}>
+                  <ThemedText style={styles.summaryLabel}>Status:</ThemedText>
+                  <ThemedText style={styles.summaryValue}>
+                    {summary.complete
+                      ? 'Ready to broadcast'
+                      : `${summary.signable} input${summary.signable !== 1 ? 's' : ''} to sign here`}
+                  </ThemedText>
+                </View>
+              </View>
+            </View>
+
+            {isWorking ? (
+              <ActivityIndicator size="large" color={Colors[colorScheme ?? 'light'].tint} />
+            ) : (
+              <View style={styles.section}>
+                {summary.signable > 0 && (
+                  <Pressable style={styles.button} onPress={handleSign}>
+                    <FontAwesome name="pencil" size={14} color="#fff" />
+                    <ThemedText style={styles.buttonText}>Sign</ThemedText>
+                  </Pressable>
+                )}
+                {summary.complete && (
+                  <Pressable style={styles.button} onPress={handleBroadcast}>
+                    <FontAwesome name="send" size={14} color="#fff" />
+                    <ThemedText style={styles.buttonText}>Finalize & Broadcast</ThemedText>
+                  </Pressable>
+                )}
+                {!summary.complete && summary.inputs.some(input => input.threshold !== undefined) && (
+                  <Pressable style={[styles.button, styles.secondaryButton]} onPress={handleCombine}>
+                    <FontAwesome name="compress" size={14} color={Colors.light.tint} />
+                    <ThemedText style={styles.secondaryButtonText}>Combine Co-signer PSBT from Clipboard</ThemedText>
+                  </Pressable>
+                )}
+                <View style={styles.buttonRow}>
+                  <Pressable style={[styles.button, styles.secondaryButton]} onPress={handleCopy}>
+                    <FontAwesome name="copy" size={14} color={Colors.light.tint} />
+                    <ThemedText style={styles.secondaryButtonText}>Copy</ThemedText>
+                  </Pressable>
+                  <Pressable style={[styles.button, styles.secondaryButton]} onPress={handleShare}>
+                    <FontAwesome name="share" size={14} color={Colors.light.tint} />
+                    <ThemedText style={styles.secondaryButtonText}>Share</ThemedText>
+                  </Pressable>
+                </View>
+                <Pressable onPress={handleClear}>
+                  <ThemedText style={styles.clearText}>Import another PSBT</ThemedText>
+                </Pressable>
+              </View>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  section: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    minHeight: 120,
+    textAlignVertical: 'top',
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#ccc',
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  rowDetail: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  badge: {
+    fontSize: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    overflow: 'hidden',
+    backgroundColor: 'rgba(0, 0, 0, 0.06)',
+  },
+  oursBadge: {
+    color: Colors.light.tint,
+    backgroundColor: `${Colors.light.tint}20`,
+  },
+  summaryContainer: {
+    padding: 16,
+    borderRadius: 8,
+    backgroundColor: 'rgba(0, 0, 0, 0.03)',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  summaryLabel: {
+    opacity: 0.7,
+  },
+  summaryValue: {
+    fontWeight: '500',
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.light.tint,
+    paddingVertical: 12,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  buttonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  secondaryButton: {
+    flex: 1,
+    marginHorizontal: 4,
+    backgroundColor: 'transparent',
+    borderWidth: 1,
+    borderColor: Colors.light.tint,
+  },
+  secondaryButtonText: {
+    color: Colors.light.tint,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  disabledButton: {
+    backgroundColor: '#ccc',
+  },
+  clearText: {
+    textAlign: 'center',
+    color: Colors.light.tint,
+    marginTop: 8,
+  },
+});
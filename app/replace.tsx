@@ -0,0 +1,379 @@
+import React, { useState, useEffect } from 'react';
+import { Alert, StyleSheet, View, TextInput, KeyboardAvoidingView, Platform, Pressable, ActivityIndicator } from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { ScrollView } from 'react-native-gesture-handler';
+import { FeeEstimate, FeePriority, feeService } from '@/services/fees';
+import { walletService } from '@/services/wallet';
+import { formatAmount } from '@/utils/amount';
+import { CoinSelection } from '@/utils/coinSelection';
+
+export default function ReplaceScreen() {
+  const colorScheme = useColorScheme();
+  const router = useRouter();
+  const { txid, mode } = useLocalSearchParams<{ txid: string; mode?: 'bump' | 'cancel' }>();
+  const cancel = mode === 'cancel';
+  const original = walletService.getOutgoingTransactions().find(tx => tx.txid === txid);
+  const originalFeeRate = original ? original.fee / original.vsize : 0;
+
+  const [feeEstimates, setFeeEstimates] = useState<FeeEstimate[]>([]);
+  const [feePriority, setFeePriority] = useState<FeePriority | 'custom'>('fast');
+  const [customFeeRate, setCustomFeeRate] = useState('');
+  const [preview, setPreview] = useState<CoinSelection | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
+  // Load fee rate presets when the screen mounts
+  useEffect(() => {
+    loadFeeEstimates();
+  }, []);
+
+  // Re-run the replacement selection whenever the fee rate changes
+  useEffect(() => {
+    updatePreview();
+  }, [feePriority, customFeeRate, feeEstimates]);
+
+  // Load fee rate presets from the fee service
+  const loadFeeEstimates = async () => {
+    const response = await feeService.getFeeEstimates();
+    if (response.success && response.data) {
+      setFeeEstimates(response.data);
+    } else {
+      setFeePriority('custom');
+    }
+  };
+
+  // Get the selected fee rate in sat/vB
+  const getFeeRate = (): number | null => {
+    if (feePriority === 'custom') {
+      const rate = Number(customFeeRate.trim().replace(',', '.'));
+      return customFeeRate.trim() && !isNaN(rate) ? rate : null;
+    }
+    return feeEstimates.find(estimate => estimate.priority === feePriority)?.feeRate ?? null;
+  };
+
+  // Compute the replacement's fee for the selected rate
+  const updatePreview = async () => {
+    const feeRate = getFeeRate();
+    const feeError = feeRate === null ? 'Enter a fee rate in sat/vB' : feeService.validateFeeRate(feeRate);
+    if (feeError) {
+      setPreview(null);
+      setPreviewError(feeError);
+      return;
+    }
+
+    const response = await walletService.previewReplacement(txid, feeRate!, cancel);
+    if (response.success && response.data) {
+      setPreview(response.data);
+      setPreviewError(null);
+    } else {
+      setPreview(null);
+      setPreviewError(response.error || 'Unable to replace this transaction');
+    }
+  };
+
+  // Handle replacement submission
+  const handleReplace = () => {
+    if (!preview) return;
+
+    Alert.alert(
+      cancel ? 'Confirm Cancellation' : 'Confirm Fee Bump',
+      cancel
+        ? `Send ${formatAmount(preview.change)} back to your wallet, paying ${formatAmount(preview.fee)} in fees?`
+        : `Replace the transaction paying ${formatAmount(preview.fee)} in fees (${getFeeRate()} sat/vB)?`,
+      [
+        {
+          text: 'Back',
+          style: 'cancel',
+        },
+        {
+          text: cancel ? 'Cancel Transaction' : 'Bump Fee',
+          style: cancel ? 'destructive' : 'default',
+          onPress: async () => {
+            setIsSending(true);
+            try {
+              const response = cancel
+                ? await walletService.cancelTransaction(txid, getFeeRate()!)
+                : await walletService.bumpFee(txid, getFeeRate()!);
+
+              if (response.success && response.data) {
+                Alert.alert(
+                  'Replacement Broadcast',
+                  `Transaction ID: ${response.data}`,
+                  [
+                    {
+                      text: 'OK',
+                      onPress: () => router.back(),
+                    },
+                  ]
+                );
+              } else {
+                Alert.alert('Error', response.error || 'Failed to replace transaction');
+              }
+            } catch (error) {
+              console.error('Error replacing transaction:', error);
+              Alert.alert('Error', 'An unexpected error occurred');
+            } finally {
+              setIsSending(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const priorityLabels: Record<FeePriority, string> = {
+    slow: 'Slow',
+    normal: 'Normal',
+    fast: 'Fast',
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['left', 'right']}>
+      <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+      <Stack.Screen
+        options={{
+          title: cancel ? 'Cancel Transaction' : 'Bump Fee',
+          headerShown: true,
+        }}
+      />
+
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+      >
+        <ScrollView style={styles.scrollView}>
+          {!original ? (
+            <View style={styles.errorContainer}>
+              <ThemedText style={styles.errorText}>Transaction not found in this wallet.</ThemedText>
+            </View>
+          ) : (
+            <>
+              <View style={styles.section}>
+                <ThemedText style={styles.sectionTitle}>Current Transaction</ThemedText>
+                <ThemedText style={styles.detailText} numberOfLines={1}>{original.txid}</ThemedText>
+                <ThemedText style={styles.detailText}>
+                  Fee: {formatAmount(original.fee)} ({originalFeeRate.toFixed(1)} sat/vB)
+                </ThemedText>
+              </View>
+
+              <View style={styles.section}>
+                <ThemedText style={styles.sectionTitle}>New Fee Rate</ThemedText>
+                <View style={styles.feeOptions}>
+                  {feeEstimates.map(estimate => (
+                    <Pressable
+                      key={estimate.priority}
+                      style={[styles.feeOption, feePriority === estimate.priority && styles.selectedOption]}
+                      onPress={() => setFeePriority(estimate.priority)}
+                    >
+                      <ThemedText style={[styles.feeOptionTitle, feePriority === estimate.priority && styles.selectedText]}>
+                        {priorityLabels[estimate.priority]}
+                      </ThemedText>
+                      <ThemedText style={styles.feeOptionDetail}>{estimate.feeRate} sat/vB</ThemedText>
+                    </Pressable>
+                  ))}
+                  <Pressable
+                    style={[styles.feeOption, feePriority === 'custom' && styles.selectedOption]}
+                    onPress={() => setFeePriority('custom')}
+                  >
+                    <ThemedText style={[styles.feeOptionTitle, feePriority === 'custom' && styles.selectedText]}>
+                      Custom
+                    </ThemedText>
+                    <ThemedText style={styles.feeOptionDetail}>sat/vB</ThemedText>
+                  </Pressable>
+                </View>
+
+                {feePriority === 'custom' && (
+                  <TextInput
+                    style={[styles.input, { color: Colors[colorScheme ?? 'light'].text }]}
+                    value={customFeeRate}
+                    onChangeText={setCustomFeeRate}
+                    keyboardType="decimal-pad"
+                    placeholder="Fee rate (sat/vB)"
+                    placeholderTextColor="#999"
+                  />
+                )}
+
+                <View style={styles.summaryContainer}>
+                  {preview ? (
+                    <>
+                      <View style={styles.summaryRow}>
+                        <ThemedText style={styles.summaryLabel}>New Fee:</ThemedText>
+                        <ThemedText style={styles.summaryValue}>{formatAmount(preview.fee)}</ThemedText>
+                      </View>
+                      <View style={styles.summaryRow}>
+                        <ThemedText style={styles.summaryLabel}>Additional Cost:</ThemedText>
+                        <ThemedText style={styles.summaryValue}>{formatAmount(preview.fee - original.fee)}</ThemedText>
+                      </View>
+                      <View style={styles.summaryRow}>
+                        <ThemedText style={styles.summaryLabel}>
+                          {cancel ? 'Returned to Wallet:' : 'Change:'}
+                        </ThemedText>
+                        <ThemedText style={styles.summaryValue}>{formatAmount(preview.change)}</ThemedText>
+                      </View>
+                      {preview.inputs.length > original.inputs.length && (
+                        <ThemedText style={styles.noteText}>
+                          Adds {preview.inputs.length - original.inputs.length} input
+                          {preview.inputs.length - original.inputs.length !== 1 ? 's' : ''} to cover the higher fee.
+                        </ThemedText>
+                      )}
+                    </>
+                  ) : (
+                    <ThemedText style={styles.errorText}>{previewError}</ThemedText>
+                  )}
+                </View>
+              </View>
+
+              <View style={styles.noteSection}>
+                <ThemedText style={styles.noteText}>
+                  <FontAwesome name="info-circle" size={14} color={Colors[colorScheme ?? 'light'].icon} /> {cancel
+                    ? 'Cancelling double-spends the same inputs back to your change address. It only works if the replacement confirms first.'
+                    : 'Bumping re-signs the same inputs with a higher fee; the recipients receive the same amounts.'}
+                </ThemedText>
+              </View>
+
+              <Pressable
+                style={[styles.replaceButton, !preview && styles.disabledButton]}
+                onPress={handleReplace}
+                disabled={!preview || isSending}
+              >
+                {isSending ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <>
+                    <FontAwesome name={cancel ? 'ban' : 'rocket'} size={16} color="#fff" />
+                    <ThemedText style={styles.replaceButtonText}>
+                      {cancel ? 'Cancel Transaction' : 'Bump Fee'}
+                    </ThemedText>
+                  </>
+                )}
+              </Pressable>
+            </>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  section: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  detailText: {
+    fontSize: 13,
+    opacity: 0.7,
+    marginBottom: 4,
+  },
+  feeOptions: {
+    flexDirection: 'row',
+    marginHorizontal: -4,
+    marginBottom: 16,
+  },
+  feeOption: {
+    flex: 1,
+    marginHorizontal: 4,
+    padding: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: 'rgba(0, 0, 0, 0.03)',
+    alignItems: 'center',
+  },
+  selectedOption: {
+    borderColor: Colors.light.tint,
+    backgroundColor: `${Colors.light.tint}20`,
+  },
+  selectedText: {
+    color: Colors.light.tint,
+  },
+  feeOptionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  feeOptionDetail: {
+    fontSize: 11,
+    opacity: 0.6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  summaryContainer: {
+    padding: 16,
+    borderRadius: 8,
+    backgroundColor: 'rgba(0, 0, 0, 0.03)',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  summaryLabel: {
+    opacity: 0.7,
+  },
+  summaryValue: {
+    fontWeight: '500',
+  },
+  noteSection: {
+    paddingHorizontal: 16,
+    marginBottom: 16,
+  },
+  noteText: {
+    fontSize: 13,
+    opacity: 0.7,
+    lineHeight: 18,
+  },
+  replaceButton: {
+    margin: 16,
+    backgroundColor: Colors.light.tint,
+    paddingVertical: 14,
+    borderRadius: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  replaceButtonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+  disabledButton: {
+    backgroundColor: '#ccc',
+  },
+  errorContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+  },
+  errorText: {
+    color: '#F44336',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,322 @@
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Platform, Pressable, RefreshControl, ScrollView, StyleSheet, View } from 'react-native';
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { bip300Service } from '@/services/bip300';
+import { withdrawalService } from '@/services/withdrawals';
+import { SidechainInfo } from '@/types/blockchain';
+import { BundleProgress } from '@/utils/bip300State';
+
+export default function SidechainDetailScreen() {
+  const colorScheme = useColorScheme();
+  const router = useRouter();
+  const { number } = useLocalSearchParams<{ number: string }>();
+  const escrowNumber = Number(number);
+  const params = bip300Service.getParams();
+
+  const [sidechain, setSidechain] = useState<SidechainInfo | null>(null);
+  const [bundles, setBundles] = useState<BundleProgress[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSidechain();
+  }, [number]);
+
+  // Reload quietly as new blocks move work scores
+  useEffect(() => {
+    return bip300Service.addListener(() => {
+      loadSidechain(false);
+    });
+  }, [number]);
+
+  // Load the sidechain and the progress of each of its withdrawal bundles
+  const loadSidechain = async (showLoading = true) => {
+    setLoading(showLoading);
+    setError(null);
+
+    try {
+      await withdrawalService.initialize();
+      const sidechainResponse = await bip300Service.getSidechain(escrowNumber);
+      if (!sidechainResponse.success || !sidechainResponse.data) {
+        setError(sidechainResponse.error || 'Failed to load sidechain');
+        return;
+      }
+      setSidechain(sidechainResponse.data);
+
+      const bundlesResponse = await bip300Service.getWithdrawalBundlesForSidechain(escrowNumber);
+      if (!bundlesResponse.success || !bundlesResponse.data) {
+        setError(bundlesResponse.error || 'Failed to load withdrawal bundles');
+        return;
+      }
+
+      const progress = await Promise.all(bundlesResponse.data.map(bundle =>
+        bip300Service.getWithdrawalBundleProgress(bundle.bundleHash)
+      ));
+      setBundles(progress.filter(response => response.success && response.data).map(response => response.data!));
+    } catch (err) {
+      console.error('Error loading sidechain:', err);
+      setError('Failed to load sidechain');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Scan any new blocks, then reload
+  const refresh = async () => {
+    setRefreshing(true);
+    const synced = await bip300Service.sync();
+    if (!synced.success) {
+      console.error('Failed to sync sidechain state:', synced.error);
+    }
+    await loadSidechain(false);
+    setRefreshing(false);
+  };
+
+  // Estimate how long a number of blocks takes at 10 minutes each
+  const formatBlockTime = (blocks: number): string => {
+    const minutes = Math.max(blocks, 0) * 10;
+    if (minutes < 120) return `~${minutes} min`;
+    if (minutes < 48 * 60) return `~${Math.round(minutes / 60)} hours`;
+    return `~${Math.round(minutes / (24 * 60))} days`;
+  };
+
+  // Describe where a bundle is headed at its current ACK rate
+  const describeOutcome = (progress: BundleProgress): { text: string; color: string } => {
+    if (progress.approved) {
+      return { text: 'Approved: can be paid out (M6) in the next block', color: '#4CAF50' };
+    }
+    if (progress.payoutHeight !== null) {
+      return {
+        text: `Projected pay-out at block ${progress.payoutHeight.toLocaleString()} (${formatBlockTime(progress.payoutHeight - progress.height)})`,
+        color: Colors[colorScheme ?? 'light'].tint,
+      };
+    }
+    return {
+      text: `Projected to fail at block ${progress.expiryHeight.toLocaleString()} (${formatBlockTime(progress.expiryHeight - progress.height)}) unless ACKs pick up`,
+      color: '#F44336',
+    };
+  };
+
+  // Render a withdrawal bundle with its work score and projection
+  const renderBundle = (progress: BundleProgress) => {
+    const { bundle } = progress;
+    const outcome = describeOutcome(progress);
+    const rate = progress.ackRate > 0 ? `+${progress.ackRate.toFixed(2)}` : progress.ackRate.toFixed(2);
+    const mine = withdrawalService.getWithdrawals().filter(withdrawal => withdrawal.bundleHash === bundle.bundleHash &&
+      withdrawal.sidechainNumber === escrowNumber);
+
+    return (
+      <View key={bundle.bundleHash} style={styles.bundleItem}>
+        <ThemedText style={styles.bundleHash} numberOfLines={1} ellipsizeMode="middle" selectable>
+          {bundle.bundleHash}
+        </ThemedText>
+
+        <View style={styles.progressTrack}>
+          <View style={[
+            styles.progressFill,
+            { width: `${Math.min(bundle.workScore / params.bundleWorkScoreThreshold, 1) * 100}%`, backgroundColor: outcome.color },
+          ]} />
+        </View>
+
+        <View style={styles.statRow}>
+          <ThemedText style={styles.statLabel}>Work score</ThemedText>
+          <ThemedText style={styles.statValue}>
+            {bundle.workScore.toLocaleString()} / {params.bundleWorkScoreThreshold.toLocaleString()}
+          </ThemedText>
+        </View>
+        <View style={styles.statRow}>
+          <ThemedText style={styles.statLabel}>Blocks remaining</ThemedText>
+          <ThemedText style={styles.statValue}>{bundle.blocksRemaining.toLocaleString()}</ThemedText>
+        </View>
+        <View style={styles.statRow}>
+          <ThemedText style={styles.statLabel}>ACK rate</ThemedText>
+          <ThemedText style={styles.statValue}>
+            {progress.sampleBlocks > 0
+              ? `${rate} per block over the last ${progress.sampleBlocks} blocks`
+              : 'Not measured yet'}
+          </ThemedText>
+        </View>
+
+        <ThemedText style={[styles.outcomeText, { color: outcome.color }]}>{outcome.text}</ThemedText>
+        {mine.length > 0 && (
+          <ThemedText style={styles.detailText}>
+            Includes {mine.length === 1 ? 'your withdrawal' : `${mine.length} of your withdrawals`}
+          </ThemedText>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['left', 'right']}>
+      <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+      <Stack.Screen
+        options={{
+          title: sidechain?.name ?? `Sidechain #${number}`,
+          headerShown: true,
+        }}
+      />
+
+      {loading && !refreshing ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={Colors[colorScheme ?? 'light'].tint} />
+        </View>
+      ) : error ? (
+        <View style={styles.centered}>
+          <ThemedText style={styles.errorText}>{error}</ThemedText>
+          <Pressable style={styles.retryButton} onPress={() => loadSidechain()}>
+            <ThemedText style={styles.retryButtonText}>Retry</ThemedText>
+          </Pressable>
+        </View>
+      ) : sidechain && (
+        <ScrollView
+          style={styles.scrollView}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={refresh} />}
+        >
+          <View style={styles.section}>
+            <ThemedText style={styles.detailText}>Escrow #{sidechain.escrowNumber}</ThemedText>
+            <ThemedText style={styles.description}>{sidechain.description}</ThemedText>
+            <ThemedText style={styles.detailText} numberOfLines={1} ellipsizeMode="middle">
+              CTIP: {sidechain.ctip ? `${sidechain.ctip.txid}:${sidechain.ctip.vout}` : 'No deposits yet'}
+            </ThemedText>
+          </View>
+
+          <View style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>Withdrawal Bundles</ThemedText>
+            <ThemedText style={styles.detailText}>
+              A bundle is paid out once miners ACK it {params.bundleWorkScoreThreshold.toLocaleString()} times
+              within {params.bundleMaxAge.toLocaleString()} blocks of its proposal.
+            </ThemedText>
+
+            {bundles.length === 0 ? (
+              <ThemedText style={styles.emptyText}>No withdrawal bundles for this sidechain.</ThemedText>
+            ) : (
+              bundles.map(renderBundle)
+            )}
+
+            <Pressable
+              style={styles.trackButton}
+              onPress={() => router.push({ pathname: '/withdrawals', params: { sidechain: String(escrowNumber) } })}
+            >
+              <ThemedText style={styles.trackButtonText}>Track my withdrawals</ThemedText>
+            </Pressable>
+          </View>
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  section: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  description: {
+    fontSize: 15,
+    marginVertical: 8,
+  },
+  detailText: {
+    fontSize: 13,
+    opacity: 0.7,
+    marginBottom: 4,
+  },
+  bundleItem: {
+    padding: 16,
+    marginTop: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  bundleHash: {
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    marginBottom: 8,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: 'rgba(128, 128, 128, 0.2)',
+    overflow: 'hidden',
+    marginBottom: 8,
+  },
+  progressFill: {
+    height: '100%',
+  },
+  statRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  statLabel: {
+    fontSize: 13,
+    opacity: 0.7,
+  },
+  statValue: {
+    fontSize: 13,
+    fontWeight: '600',
+    flexShrink: 1,
+    textAlign: 'right',
+    marginLeft: 12,
+  },
+  outcomeText: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 8,
+  },
+  trackButton: {
+    marginTop: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.light.tint,
+    alignItems: 'center',
+  },
+  trackButtonText: {
+    color: Colors.light.tint,
+    fontWeight: '600',
+  },
+  emptyText: {
+    opacity: 0.6,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  errorText: {
+    color: '#F44336',
+    marginBottom: 10,
+    textAlign: 'center',
+  },
+  retryButton: {
+    backgroundColor: Colors.light.tint,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,355 @@
+import React, { useState } from 'react';
+import { Alert, FlatList, Pressable, RefreshControl, StyleSheet, Switch, TextInput, View } from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { Stack, useRouter } from 'expo-router';
+import { feeService } from '@/services/fees';
+import { walletService } from '@/services/wallet';
+import { WalletUtxo } from '@/types/blockchain';
+import { formatAmount, sumAmounts } from '@/utils/amount';
+
+export default function UtxosScreen() {
+  const colorScheme = useColorScheme();
+  const router = useRouter();
+  const [utxos, setUtxos] = useState<WalletUtxo[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [refreshing, setRefreshing] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load UTXOs when the screen is focused
+  useFocusEffect(
+    React.useCallback(() => {
+      loadUtxos();
+    }, [])
+  );
+
+  // Load UTXOs from the wallet service
+  const loadUtxos = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      await walletService.initialize();
+      const response = await walletService.getUtxos();
+      if (response.success && response.data) {
+        setUtxos([...response.data].sort((a, b) => b.amount - a.amount));
+        // Drop selections that are no longer unspent or have been frozen
+        setSelected(current => current.filter(outpoint =>
+          response.data!.some(utxo => getOutpoint(utxo) === outpoint && !utxo.frozen)
+        ));
+      } else {
+        setError(response.error || 'Failed to load coins');
+      }
+    } catch (err) {
+      console.error('Error loading UTXOs:', err);
+      setError('Failed to load coins');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Refresh the UTXO list
+  const refreshUtxos = async () => {
+    setRefreshing(true);
+    await loadUtxos();
+    setRefreshing(false);
+  };
+
+  const getOutpoint = (utxo: WalletUtxo): string => `${utxo.txid}:${utxo.vout}`;
+
+  // Toggle a UTXO in the manual selection
+  const toggleSelected = (utxo: WalletUtxo) => {
+    if (utxo.frozen) {
+      Alert.alert('Frozen', 'Unfreeze this output before selecting it.');
+      return;
+    }
+    const outpoint = getOutpoint(utxo);
+    setSelected(current =>
+      current.includes(outpoint)
+        ? current.filter(entry => entry !== outpoint)
+        : [...current, outpoint]
+    );
+  };
+
+  // Freeze or unfreeze a UTXO
+  const handleFrozenToggle = async (utxo: WalletUtxo, frozen: boolean) => {
+    const response = await walletService.setUtxoFrozen(getOutpoint(utxo), frozen);
+    if (!response.success) {
+      Alert.alert('Error', response.error || 'Failed to update output');
+      return;
+    }
+    await loadUtxos();
+  };
+
+  // Save a UTXO label
+  const handleLabelChange = async (utxo: WalletUtxo, label: string) => {
+    if ((utxo.label ?? '') === label) return;
+    const response = await walletService.setLabel(getOutpoint(utxo), label.trim());
+    if (!response.success) {
+      Alert.alert('Error', response.error || 'Failed to save label');
+    }
+  };
+
+  // Deposit to a sidechain using exactly the selected outputs
+  const handleDepositSelected = () => {
+    router.push({ pathname: '/deposit', params: { utxos: selected.join(',') } });
+  };
+
+  // Merge the selected outputs into one, as a PSBT to review and sign
+  const handleConsolidate = async () => {
+    const feeRate = await feeService.getFeeRate('slow');
+    if (!feeRate.success || feeRate.data === undefined) {
+      Alert.alert('Error', feeRate.error || 'Failed to estimate fees');
+      return;
+    }
+
+    const response = await walletService.createConsolidationPsbt(feeRate.data, { inputs: selected });
+    if (response.success && response.data) {
+      router.push({ pathname: '/psbt', params: { psbt: response.data.toBase64() } });
+    } else {
+      Alert.alert('Error', response.error || 'Failed to create consolidation');
+    }
+  };
+
+  // Shorten an address for display
+  const shortenAddress = (address: string): string => {
+    return `${address.substring(0, 8)}...${address.substring(address.length - 4)}`;
+  };
+
+  const selectedTotal = sumAmounts(
+    utxos.filter(utxo => selected.includes(getOutpoint(utxo))).map(utxo => utxo.amount)
+  );
+
+  // Render a UTXO item
+  const renderUtxoItem = ({ item }: { item: WalletUtxo }) => {
+    const isSelected = selected.includes(getOutpoint(item));
+
+    return (
+      <View style={[styles.utxoItem, item.frozen && styles.frozenItem]}>
+        <Pressable style={styles.utxoHeader} onPress={() => toggleSelected(item)}>
+          <FontAwesome
+            name={isSelected ? 'check-square-o' : 'square-o'}
+            size={20}
+            color={item.frozen ? Colors[colorScheme ?? 'light'].icon : Colors[colorScheme ?? 'light'].tint}
+          />
+          <View style={styles.utxoInfo}>
+            <ThemedText style={styles.utxoAmount}>{formatAmount(item.amount)}</ThemedText>
+            <ThemedText style={styles.utxoDetail}>
+              {shortenAddress(item.address)} · {item.confirmations} confirmation{item.confirmations !== 1 ? 's' : ''}
+            </ThemedText>
+            <ThemedText style={styles.utxoDetail} numberOfLines={1}>
+              {shortenAddress(item.txid)}:{item.vout}
+            </ThemedText>
+          </View>
+        </Pressable>
+
+        <TextInput
+          style={[styles.labelInput, { color: Colors[colorScheme ?? 'light'].text }]}
+          defaultValue={item.label}
+          placeholder="Add a label"
+          placeholderTextColor="#999"
+          onEndEditing={event => handleLabelChange(item, event.nativeEvent.text)}
+        />
+
+        <View style={styles.frozenRow}>
+          <ThemedText style={styles.frozenLabel}>
+            <FontAwesome name="snowflake-o" size={14} /> Frozen
+          </ThemedText>
+          <Switch
+            value={!!item.frozen}
+            onValueChange={value => handleFrozenToggle(item, value)}
+            trackColor={{ false: '#767577', true: Colors[colorScheme ?? 'light'].tint }}
+            thumbColor="#f4f3f4"
+          />
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['left', 'right']}>
+      <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+      <Stack.Screen options={{ title: 'Coins', headerShown: true }} />
+
+      <View style={styles.container}>
+        {loading && !refreshing && utxos.length === 0 && (
+          <View style={styles.loadingContainer}>
+            <ThemedText>Loading coins...</ThemedText>
+          </View>
+        )}
+
+        {error && (
+          <View style={styles.errorContainer}>
+            <ThemedText style={styles.errorText}>{error}</ThemedText>
+            <Pressable style={styles.retryButton} onPress={loadUtxos}>
+              <ThemedText style={styles.retryButtonText}>Retry</ThemedText>
+            </Pressable>
+          </View>
+        )}
+
+        {!loading && !error && utxos.length === 0 && (
+          <View style={styles.emptyContainer}>
+            <ThemedText style={styles.emptyText}>No unspent outputs.</ThemedText>
+          </View>
+        )}
+
+        {utxos.length > 0 && (
+          <FlatList
+            data={utxos}
+            keyExtractor={getOutpoint}
+            renderItem={renderUtxoItem}
+            contentContainerStyle={styles.listContent}
+            refreshControl={
+              <RefreshControl refreshing={refreshing} onRefresh={refreshUtxos} />
+            }
+          />
+        )}
+
+        {selected.length > 0 && (
+          <View style={styles.selectionBar}>
+            <ThemedText style={styles.selectionText}>
+              {selected.length} selected · {formatAmount(selectedTotal)}
+            </ThemedText>
+            <View style={styles.selectionActions}>
+              {selected.length > 1 && (
+                <Pressable style={styles.selectionButton} onPress={handleConsolidate}>
+                  <FontAwesome name="compress" size={14} color="#fff" />
+                  <ThemedText style={styles.selectionButtonText}>Consolidate</ThemedText>
+                </Pressable>
+              )}
+              <Pressable style={styles.selectionButton} onPress={handleDepositSelected}>
+                <FontAwesome name="chain" size={14} color="#fff" />
+                <ThemedText style={styles.selectionButtonText}>Deposit</ThemedText>
+              </Pressable>
+            </View>
+          </View>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 16,
+  },
+  utxoItem: {
+    padding: 12,
+    marginBottom: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  frozenItem: {
+    opacity: 0.6,
+  },
+  utxoHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  utxoInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  utxoAmount: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  utxoDetail: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  labelInput: {
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 14,
+    marginTop: 10,
+  },
+  frozenRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  frozenLabel: {
+    fontSize: 14,
+  },
+  selectionBar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: '#ccc',
+  },
+  selectionText: {
+    fontWeight: '600',
+  },
+  selectionActions: {
+    flexDirection: 'row',
+  },
+  selectionButton: {
+    marginLeft: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.light.tint,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  selectionButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  errorContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  errorText: {
+    color: '#F44336',
+    marginBottom: 10,
+    textAlign: 'center',
+  },
+  retryButton: {
+    backgroundColor: Colors.light.tint,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  emptyContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  emptyText: {
+    opacity: 0.6,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,477 @@
+import React, { useState } from 'react';
+import { Alert, StyleSheet, View, TextInput, KeyboardAvoidingView, Platform, Pressable, ActivityIndicator, Share } from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { Stack, useRouter } from 'expo-router';
+import { ScrollView } from 'react-native-gesture-handler';
+import * as Clipboard from 'expo-clipboard';
+import { walletService } from '@/services/wallet';
+import { MultisigScriptType } from '@/types/blockchain';
+import { descriptorKeyToCosigner, parseKeyExpression } from '@/utils/descriptor';
+
+type VaultScriptType = Exclude<MultisigScriptType, MultisigScriptType.P2SH>;
+
+const VAULT_SCRIPT_TYPES: VaultScriptType[] = [
+  MultisigScriptType.P2WSH,
+  MultisigScriptType.P2SH_P2WSH,
+  MultisigScriptType.P2TR,
+];
+
+export default function VaultScreen() {
+  const colorScheme = useColorScheme();
+  const router = useRouter();
+  const activeWallet = walletService.getActiveWallet();
+  const vaultInfo = walletService.getMultisigInfo();
+  const [mode, setMode] = useState<'import' | 'create'>('import');
+  const [name, setName] = useState('');
+  const [setupText, setSetupText] = useState('');
+  const [threshold, setThreshold] = useState('2');
+  const [scriptType, setScriptType] = useState<VaultScriptType>(MultisigScriptType.P2WSH);
+  const [cosignerKeys, setCosignerKeys] = useState('');
+  const [progress, setProgress] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const scriptTypeLabels: Record<VaultScriptType, string> = {
+    [MultisigScriptType.P2WSH]: 'Native SegWit',
+    [MultisigScriptType.P2SH_P2WSH]: 'Nested SegWit',
+    [MultisigScriptType.P2TR]: 'Taproot',
+  };
+
+  const keyLines = cosignerKeys.split('\n').map(line => line.trim()).filter(Boolean);
+  const canSave = mode === 'import' ? !!setupText.trim() : keyLines.length >= 2;
+
+  // Copy or share the active vault's setup file, for co-signers to register
+  const handleExportConfig = async (share: boolean) => {
+    const response = walletService.exportMultisigConfig();
+    if (!response.success || !response.data) {
+      Alert.alert('Error', response.error || 'Failed to export the setup file');
+      return;
+    }
+
+    if (share) {
+      await Share.share({ message: response.data });
+    } else {
+      await Clipboard.setStringAsync(response.data);
+      Alert.alert('Copied', 'Setup file copied to the clipboard.');
+    }
+  };
+
+  // Copy this wallet's co-signer key for the selected script type
+  const handleCopyCosignerKey = async () => {
+    const response = await walletService.getCosignerKey(scriptType);
+    if (!response.success || !response.data) {
+      Alert.alert('Error', response.error || 'Failed to get the co-signer key');
+      return;
+    }
+
+    await Clipboard.setStringAsync(response.data);
+    Alert.alert('Co-signer Key Copied', response.data);
+  };
+
+  // Add this wallet's co-signer key to the list of keys
+  const handleAddOwnKey = async () => {
+    const response = await walletService.getCosignerKey(scriptType);
+    if (!response.success || !response.data) {
+      Alert.alert('Error', response.error || 'Failed to get the co-signer key');
+      return;
+    }
+
+    if (!keyLines.includes(response.data)) {
+      setCosignerKeys([...keyLines, response.data].join('\n'));
+    }
+  };
+
+  // Paste a setup file or descriptors from the clipboard
+  const handlePaste = async () => {
+    const text = await Clipboard.getStringAsync();
+    if (text) {
+      setSetupText(text.trim());
+    }
+  };
+
+  // Import or create the vault and scan its history
+  const handleSave = async () => {
+    if (!canSave) return;
+
+    setIsSaving(true);
+    setProgress('Scanning addresses...');
+    try {
+      const discoveryOptions = {
+        onProgress: (status: { change: boolean; addressesScanned: number }) => setProgress(
+          `Scanning ${status.change ? 'change' : 'receive'} addresses (${status.addressesScanned} checked)`
+        ),
+      };
+
+      let response;
+      if (mode === 'import') {
+        response = await walletService.importMultisigWallet(name.trim() || undefined, setupText, discoveryOptions);
+      } else {
+        const network = walletService.getNetwork();
+        let cosigners;
+        try {
+          cosigners = keyLines.map(line => descriptorKeyToCosigner(parseKeyExpression(line, network), network));
+        } catch (error) {
+          Alert.alert('Invalid Key', `${error}`);
+          return;
+        }
+
+        response = await walletService.createMultisigWallet(
+          name.trim() || 'Vault',
+          { threshold: Number(threshold), scriptType, cosigners },
+          discoveryOptions
+        );
+      }
+
+      if (response.success && response.data) {
+        await walletService.updateBalances(response.data.id);
+        Alert.alert(
+          'Vault Ready',
+          `${response.data.name} holds no keys. Sends and deposits are exported as PSBTs; ` +
+          'pass them between co-signers until enough have signed, then broadcast.',
+          [
+            {
+              text: 'OK',
+              onPress: () => router.back(),
+            },
+          ]
+        );
+      } else {
+        Alert.alert('Error', response.error || 'Failed to set up the vault');
+      }
+    } catch (error) {
+      console.error('Error setting up vault:', error);
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setIsSaving(false);
+      setProgress(null);
+    }
+  };
+
+  // Render a row of script type options
+  const renderScriptTypes = () => (
+    <View style={styles.options}>
+      {VAULT_SCRIPT_TYPES.map(type => (
+        <Pressable
+          key={type}
+          style={[styles.option, scriptType === type && styles.selectedOption]}
+          onPress={() => setScriptType(type)}
+        >
+          <ThemedText style={[styles.optionTitle, scriptType === type && styles.selectedText]}>
+            {scriptTypeLabels[type]}
+          </ThemedText>
+        </Pressable>
+      ))}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['left', 'right']}>
+      <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+      <Stack.Screen
+        options={{
+          title: 'Multisig Vault',
+          headerShown: true,
+        }}
+      />
+
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+      >
+        <ScrollView style={styles.scrollView}>
+          {activeWallet && vaultInfo && (
+            <View style={styles.section}>
+              <ThemedText style={styles.sectionTitle}>
+                {activeWallet.name}: {vaultInfo.threshold} of {vaultInfo.cosigners.length}
+              </ThemedText>
+              {vaultInfo.cosigners.map(cosigner => (
+                <View key={cosigner.xpub} style={styles.cosignerRow}>
+                  <ThemedText style={styles.cosignerFingerprint}>{cosigner.fingerprint}</ThemedText>
+                  <ThemedText style={styles.cosignerPath}>{cosigner.path}</ThemedText>
+                </View>
+              ))}
+              <View style={styles.buttonRow}>
+                <Pressable style={[styles.button, styles.secondaryButton]} onPress={() => handleExportConfig(false)}>
+                  <FontAwesome name="copy" size={16} color={Colors.light.tint} />
+                  <ThemedText style={styles.secondaryButtonText}>Copy Setup File</ThemedText>
+                </Pressable>
+                <Pressable style={[styles.button, styles.secondaryButton]} onPress={() => handleExportConfig(true)}>
+                  <FontAwesome name="share" size={16} color={Colors.light.tint} />
+                  <ThemedText style={styles.secondaryButtonText}>Share</ThemedText>
+                </Pressable>
+              </View>
+            </View>
+          )}
+
+          {activeWallet?.type === 'hd' && (
+            <View style={styles.section}>
+              <ThemedText style={styles.sectionTitle}>Co-sign with This Wallet</ThemedText>
+              <ThemedText style={styles.label}>
+                Share this wallet&apos;s key with the vault&apos;s coordinator. It signs vault PSBTs from the PSBT screen.
+              </ThemedText>
+              {renderScriptTypes()}
+              <Pressable style={[styles.button, styles.secondaryButton]} onPress={handleCopyCosignerKey}>
+                <FontAwesome name="key" size={16} color={Colors.light.tint} />
+                <ThemedText style={styles.secondaryButtonText}>Copy Co-signer Key</ThemedText>
+              </Pressable>
+            </View>
+          )}
+
+          <View style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>New Vault</ThemedText>
+            <View style={styles.options}>
+              {(['import', 'create'] as const).map(option => (
+                <Pressable
+                  key={option}
+                  style={[styles.option, mode === option && styles.selectedOption]}
+                  onPress={() => setMode(option)}
+                >
+                  <ThemedText style={[styles.optionTitle, mode === option && styles.selectedText]}>
+                    {option === 'import' ? 'Import Setup File' : 'Create from Keys'}
+                  </ThemedText>
+                </Pressable>
+              ))}
+            </View>
+
+            <ThemedText style={styles.label}>Vault Name</ThemedText>
+            <TextInput
+              style={[styles.input, { color: Colors[colorScheme ?? 'light'].text }]}
+              value={name}
+              onChangeText={setName}
+              placeholder={mode === 'import' ? 'From the setup file' : 'Team treasury'}
+              placeholderTextColor="#999"
+            />
+
+            {mode === 'import' ? (
+              <>
+                <View style={styles.labelRow}>
+                  <ThemedText style={styles.label}>Setup File or Descriptors</ThemedText>
+                  <Pressable onPress={handlePaste}>
+                    <ThemedText style={styles.linkText}>Paste</ThemedText>
+                  </Pressable>
+                </View>
+                <TextInput
+                  style={[styles.input, styles.keyInput, { color: Colors[colorScheme ?? 'light'].text }]}
+                  value={setupText}
+                  onChangeText={setSetupText}
+                  placeholder={'Name: ...\nPolicy: 2 of 3\nDerivation: m/48\'/0\'/0\'/2\'\nFormat: P2WSH\n\nXFP: xpub...\n\nor wsh(sortedmulti(...)) descriptors'}
+                  placeholderTextColor="#999"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  multiline
+                />
+              </>
+            ) : (
+              <>
+                <ThemedText style={styles.label}>Address Type</ThemedText>
+                {renderScriptTypes()}
+
+                <ThemedText style={styles.label}>Signatures Required</ThemedText>
+                <TextInput
+                  style={[styles.input, { color: Colors[colorScheme ?? 'light'].text }]}
+                  value={threshold}
+                  onChangeText={setThreshold}
+                  keyboardType="number-pad"
+                />
+
+                <View style={styles.labelRow}>
+                  <ThemedText style={styles.label}>Co-signer Keys ({keyLines.length})</ThemedText>
+                  {activeWallet?.type === 'hd' && (
+                    <Pressable onPress={handleAddOwnKey}>
+                      <ThemedText style={styles.linkText}>Add My Key</ThemedText>
+                    </Pressable>
+                  )}
+                </View>
+                <TextInput
+                  style={[styles.input, styles.keyInput, { color: Colors[colorScheme ?? 'light'].text }]}
+                  value={cosignerKeys}
+                  onChangeText={setCosignerKeys}
+                  placeholder="[fingerprint/48h/0h/0h/2h]xpub..., one per line"
+                  placeholderTextColor="#999"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  multiline
+                />
+              </>
+            )}
+          </View>
+
+          <View style={styles.noteSection}>
+            <ThemedText style={styles.noteText}>
+              <FontAwesome name="users" size={14} color={Colors[colorScheme ?? 'light'].icon} /> Vaults use
+              sortedmulti, so every co-signer derives the same addresses whatever order the keys are listed in.
+              Register the setup file on each hardware wallet before signing. Taproot vaults spend through a
+              multi_a script under an unspendable internal key.
+            </ThemedText>
+          </View>
+
+          {progress && (
+            <View style={styles.noteSection}>
+              <ThemedText style={styles.noteText}>{progress}</ThemedText>
+            </View>
+          )}
+
+          <Pressable
+            style={[styles.importButton, !canSave && styles.disabledButton]}
+            onPress={handleSave}
+            disabled={!canSave || isSaving}
+          >
+            {isSaving ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <>
+                <FontAwesome name="users" size={16} color="#fff" />
+                <ThemedText style={styles.importButtonText}>
+                  {mode === 'import' ? 'Import Vault' : 'Create Vault'}
+                </ThemedText>
+              </>
+            )}
+          </Pressable>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  section: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  linkText: {
+    color: Colors.light.tint,
+    fontWeight: '600',
+  },
+  label: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  keyInput: {
+    minHeight: 120,
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    textAlignVertical: 'top',
+  },
+  cosignerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  cosignerFingerprint: {
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  cosignerPath: {
+    opacity: 0.7,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginHorizontal: -4,
+    marginBottom: 8,
+  },
+  option: {
+    marginHorizontal: 4,
+    marginBottom: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: 'rgba(0, 0, 0, 0.03)',
+  },
+  selectedOption: {
+    borderColor: Colors.light.tint,
+    backgroundColor: `${Colors.light.tint}20`,
+  },
+  selectedText: {
+    color: Colors.light.tint,
+  },
+  optionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    marginTop: 12,
+    marginHorizontal: -4,
+  },
+  button: {
+    flex: 1,
+    marginHorizontal: 4,
+    paddingVertical: 12,
+    borderRadius: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: Colors.light.tint,
+  },
+  secondaryButtonText: {
+    color: Colors.light.tint,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  noteSection: {
+    paddingHorizontal: 16,
+    marginBottom: 16,
+  },
+  noteText: {
+    fontSize: 13,
+    opacity: 0.7,
+    lineHeight: 18,
+  },
+  importButton: {
+    margin: 16,
+    backgroundColor: Colors.light.tint,
+    paddingVertical: 14,
+    borderRadius: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  importButtonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+  disabledButton: {
+    backgroundColor: '#ccc',
+  },
+});
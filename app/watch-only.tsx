@@ -0,0 +1,284 @@
+import React, { useState } from 'react';
+import { Alert, StyleSheet, View, TextInput, KeyboardAvoidingView, Platform, Pressable, ActivityIndicator } from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { Stack, useRouter } from 'expo-router';
+import { ScrollView } from 'react-native-gesture-handler';
+import * as Clipboard from 'expo-clipboard';
+import { walletService } from '@/services/wallet';
+import { ScriptType } from '@/types/blockchain';
+import { SUPPORTED_SCRIPT_TYPES } from '@/utils/hd';
+
+export default function WatchOnlyScreen() {
+  const colorScheme = useColorScheme();
+  const router = useRouter();
+  const [name, setName] = useState('');
+  const [keyOrDescriptor, setKeyOrDescriptor] = useState('');
+  const [scriptType, setScriptType] = useState<ScriptType>(ScriptType.P2WPKH);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const input = keyOrDescriptor.trim();
+  const isDescriptor = input.includes('(');
+  // Only plain xpub/tpub keys leave the script type open; ypub/zpub and descriptors say
+  const needsScriptType = !isDescriptor && /^[xt]pub/.test(input);
+
+  const scriptTypeLabels: Record<ScriptType, string> = {
+    [ScriptType.P2WPKH]: 'Native SegWit',
+    [ScriptType.P2TR]: 'Taproot',
+    [ScriptType.P2SH_P2WPKH]: 'Nested SegWit',
+    [ScriptType.P2PKH]: 'Legacy',
+  };
+
+  // Paste a key or descriptor from the clipboard
+  const handlePaste = async () => {
+    const text = await Clipboard.getStringAsync();
+    if (text) {
+      setKeyOrDescriptor(text.trim());
+    }
+  };
+
+  // Import the wallet and scan its history
+  const handleImport = async () => {
+    if (!input) return;
+
+    setIsImporting(true);
+    setProgress('Scanning addresses...');
+    try {
+      const response = await walletService.importWatchOnly(
+        name.trim() || 'Watch-only Wallet',
+        input,
+        needsScriptType ? scriptType : undefined,
+        {
+          onProgress: status => setProgress(
+            `Scanning ${status.change ? 'change' : 'receive'} addresses (${status.addressesScanned} checked)`
+          ),
+        }
+      );
+
+      if (response.success && response.data) {
+        await walletService.updateBalances(response.data.id);
+        Alert.alert(
+          'Wallet Imported',
+          `${response.data.name} is watch-only. Spends are exported as unsigned PSBTs to sign on another device.`,
+          [
+            {
+              text: 'OK',
+              onPress: () => router.back(),
+            },
+          ]
+        );
+      } else {
+        Alert.alert('Error', response.error || 'Failed to import wallet');
+      }
+    } catch (error) {
+      console.error('Error importing watch-only wallet:', error);
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setIsImporting(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['left', 'right']}>
+      <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+      <Stack.Screen
+        options={{
+          title: 'Watch-only Wallet',
+          headerShown: true,
+        }}
+      />
+
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+      >
+        <ScrollView style={styles.scrollView}>
+          <View style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>Wallet Name</ThemedText>
+            <TextInput
+              style={[styles.input, { color: Colors[colorScheme ?? 'light'].text }]}
+              value={name}
+              onChangeText={setName}
+              placeholder="Cold storage"
+              placeholderTextColor="#999"
+            />
+
+            <View style={styles.labelRow}>
+              <ThemedText style={styles.sectionTitle}>Public Key or Descriptors</ThemedText>
+              <Pressable onPress={handlePaste}>
+                <ThemedText style={styles.linkText}>Paste</ThemedText>
+              </Pressable>
+            </View>
+            <TextInput
+              style={[styles.input, styles.keyInput, { color: Colors[colorScheme ?? 'light'].text }]}
+              value={keyOrDescriptor}
+              onChangeText={setKeyOrDescriptor}
+              placeholder="xpub/ypub/zpub..., or descriptors such as wpkh([fingerprint/84h/0h/0h]xpub.../<0;1>/*), one per line"
+              placeholderTextColor="#999"
+              autoCapitalize="none"
+              autoCorrect={false}
+              multiline
+            />
+
+            {needsScriptType && (
+              <>
+                <ThemedText style={styles.label}>Address Type</ThemedText>
+                <View style={styles.options}>
+                  {SUPPORTED_SCRIPT_TYPES.map(type => (
+                    <Pressable
+                      key={type}
+                      style={[styles.option, scriptType === type && styles.selectedOption]}
+                      onPress={() => setScriptType(type)}
+                    >
+                      <ThemedText style={[styles.optionTitle, scriptType === type && styles.selectedText]}>
+                        {scriptTypeLabels[type]}
+                      </ThemedText>
+                    </Pressable>
+                  ))}
+                </View>
+              </>
+            )}
+          </View>
+
+          <View style={styles.noteSection}>
+            <ThemedText style={styles.noteText}>
+              <FontAwesome name="eye" size={14} color={Colors[colorScheme ?? 'light'].icon} /> No private keys
+              are stored. Separate receive and change descriptors, or Bitcoin Core's listdescriptors output, are
+              combined into one wallet. The wallet tracks balances, history and sidechain deposits, and builds unsigned PSBTs
+              for a hardware wallet or offline signer.
+            </ThemedText>
+          </View>
+
+          {progress && (
+            <View style={styles.noteSection}>
+              <ThemedText style={styles.noteText}>{progress}</ThemedText>
+            </View>
+          )}
+
+          <Pressable
+            style={[styles.importButton, !input && styles.disabledButton]}
+            onPress={handleImport}
+            disabled={!input || isImporting}
+          >
+            {isImporting ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <>
+                <FontAwesome name="eye" size={16} color="#fff" />
+                <ThemedText style={styles.importButtonText}>Import Watch-only Wallet</ThemedText>
+              </>
+            )}
+          </Pressable>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  section: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  linkText: {
+    color: Colors.light.tint,
+    fontWeight: '600',
+  },
+  label: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  keyInput: {
+    minHeight: 96,
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    textAlignVertical: 'top',
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginHorizontal: -4,
+  },
+  option: {
+    marginHorizontal: 4,
+    marginBottom: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: 'rgba(0, 0, 0, 0.03)',
+  },
+  selectedOption: {
+    borderColor: Colors.light.tint,
+    backgroundColor: `${Colors.light.tint}20`,
+  },
+  selectedText: {
+    color: Colors.light.tint,
+  },
+  optionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  noteSection: {
+    paddingHorizontal: 16,
+    marginBottom: 16,
+  },
+  noteText: {
+    fontSize: 13,
+    opacity: 0.7,
+    lineHeight: 18,
+  },
+  importButton: {
+    margin: 16,
+    backgroundColor: Colors.light.tint,
+    paddingVertical: 14,
+    borderRadius: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  importButtonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+  disabledButton: {
+    backgroundColor: '#ccc',
+  },
+});
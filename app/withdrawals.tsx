@@ -0,0 +1,504 @@
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, KeyboardAvoidingView, Platform, Pressable, ScrollView, StyleSheet, TextInput, View } from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { Stack, useLocalSearchParams } from 'expo-router';
+import { bip300Service } from '@/services/bip300';
+import { walletService } from '@/services/wallet';
+import { withdrawalService } from '@/services/withdrawals';
+import { SidechainInfo, TrackedWithdrawal, WithdrawalStatus } from '@/types/blockchain';
+import { formatAmount, tryParseAmount } from '@/utils/amount';
+
+const STATUS_LABELS: Record<WithdrawalStatus, { text: string; color: string }> = {
+  pending: { text: 'Waiting for a bundle', color: '#9E9E9E' },
+  bundled: { text: 'In a bundle', color: '#FF9800' },
+  failed: { text: 'Bundle failed', color: '#F44336' },
+  paid: { text: 'Paid, unconfirmed', color: '#2196F3' },
+  confirmed: { text: 'Paid', color: '#4CAF50' },
+};
+
+export default function WithdrawalsScreen() {
+  const colorScheme = useColorScheme();
+  const { sidechain } = useLocalSearchParams<{ sidechain?: string }>();
+  const params = bip300Service.getParams();
+
+  const [sidechains, setSidechains] = useState<SidechainInfo[]>([]);
+  const [selectedSidechain, setSelectedSidechain] = useState<SidechainInfo | null>(null);
+  const [address, setAddress] = useState('');
+  const [amount, setAmount] = useState('');
+  const [withdrawals, setWithdrawals] = useState<TrackedWithdrawal[]>([]);
+  const [linkingId, setLinkingId] = useState<string | null>(null);
+  const [bundleHash, setBundleHash] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadWithdrawals();
+  }, []);
+
+  // Reload as tracked withdrawals move through their stages
+  useEffect(() => {
+    return withdrawalService.addListener(() => {
+      setWithdrawals(withdrawalService.getWithdrawals());
+    });
+  }, []);
+
+  // Load active sidechains and the withdrawals being tracked
+  const loadWithdrawals = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      await withdrawalService.initialize();
+      setWithdrawals(withdrawalService.getWithdrawals());
+
+      const response = await bip300Service.getSidechains();
+      if (!response.success || !response.data) {
+        setError(response.error || 'Failed to load sidechains');
+        return;
+      }
+
+      const active = response.data.filter(sc => sc.isActive);
+      setSidechains(active);
+      setSelectedSidechain(active.find(sc => String(sc.escrowNumber) === sidechain) ?? active[0] ?? null);
+    } catch (err) {
+      console.error('Error loading withdrawals:', err);
+      setError('Failed to load withdrawals');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Fill in a fresh receiving address of this wallet
+  const handleNewAddress = async () => {
+    const response = await walletService.getNewAddress();
+    if (response.success && response.data) {
+      setAddress(response.data);
+    } else {
+      Alert.alert('Error', response.error || 'Failed to get a new address');
+    }
+  };
+
+  // Start tracking the withdrawal entered
+  const handleTrack = async () => {
+    const amountValue = tryParseAmount(amount);
+    if (!selectedSidechain) {
+      Alert.alert('Error', 'Please select a sidechain');
+      return;
+    }
+    if (amountValue === null || amountValue <= 0) {
+      Alert.alert('Error', 'Please enter a valid amount');
+      return;
+    }
+
+    setSaving(true);
+    const response = await withdrawalService.registerWithdrawal(selectedSidechain.escrowNumber, address, amountValue);
+    setSaving(false);
+
+    if (response.success) {
+      setAddress('');
+      setAmount('');
+      setWithdrawals(withdrawalService.getWithdrawals());
+    } else {
+      Alert.alert('Error', response.error || 'Failed to track withdrawal');
+    }
+  };
+
+  // Link a withdrawal to the bundle its sidechain wallet reports
+  const handleLinkBundle = async (id: string) => {
+    const response = await withdrawalService.linkBundle(id, bundleHash);
+    if (response.success) {
+      setLinkingId(null);
+      setBundleHash('');
+      setWithdrawals(withdrawalService.getWithdrawals());
+    } else {
+      Alert.alert('Error', response.error || 'Failed to link bundle');
+    }
+  };
+
+  // Stop tracking a withdrawal, after confirming
+  const handleRemove = (withdrawal: TrackedWithdrawal) => {
+    Alert.alert(
+      'Stop Tracking',
+      `Stop tracking the withdrawal of ${formatAmount(withdrawal.amount)} to ${withdrawal.address}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Stop Tracking',
+          style: 'destructive',
+          onPress: async () => {
+            await withdrawalService.removeWithdrawal(withdrawal.id);
+            setWithdrawals(withdrawalService.getWithdrawals());
+          },
+        },
+      ]
+    );
+  };
+
+  // Render a tracked withdrawal with its stage
+  const renderWithdrawal = (withdrawal: TrackedWithdrawal) => {
+    const status = STATUS_LABELS[withdrawal.status];
+    const name = sidechains.find(sc => sc.escrowNumber === withdrawal.sidechainNumber)?.name ??
+      `Sidechain #${withdrawal.sidechainNumber}`;
+    const workScore = withdrawal.workScore ?? 0;
+    const unpaid = withdrawal.status !== 'paid' && withdrawal.status !== 'confirmed';
+
+    return (
+      <View key={withdrawal.id} style={styles.withdrawalItem}>
+        <View style={styles.withdrawalHeader}>
+          <ThemedText style={styles.withdrawalAmount}>{formatAmount(withdrawal.amount)}</ThemedText>
+          <View style={[styles.statusBadge, { backgroundColor: status.color }]}>
+            <ThemedText style={styles.statusText}>{status.text}</ThemedText>
+          </View>
+        </View>
+        <ThemedText style={styles.detailText}>From {name}</ThemedText>
+        <ThemedText style={styles.detailText} numberOfLines={1} ellipsizeMode="middle">To {withdrawal.address}</ThemedText>
+
+        {withdrawal.status === 'bundled' && (
+          <>
+            <ThemedText style={styles.detailText} numberOfLines={1} ellipsizeMode="middle">
+              Bundle {withdrawal.bundleHash}
+            </ThemedText>
+            <View style={styles.progressTrack}>
+              <View style={[
+                styles.progressFill,
+                { width: `${Math.min(workScore / params.bundleWorkScoreThreshold, 1) * 100}%` },
+              ]} />
+            </View>
+            <ThemedText style={styles.detailText}>
+              {workScore >= params.bundleWorkScoreThreshold
+                ? 'Approved by miners; waiting for the M6 paying it'
+                : `${workScore.toLocaleString()} / ${params.bundleWorkScoreThreshold.toLocaleString()} ACKs`}
+            </ThemedText>
+          </>
+        )}
+
+        {withdrawal.payout && (
+          <ThemedText style={styles.detailText} numberOfLines={1} ellipsizeMode="middle" selectable>
+            M6 {withdrawal.payout.txid}
+          </ThemedText>
+        )}
+
+        {linkingId === withdrawal.id ? (
+          <View style={styles.linkRow}>
+            <TextInput
+              style={[styles.input, styles.linkInput]}
+              value={bundleHash}
+              onChangeText={setBundleHash}
+              placeholder="Bundle hash from your sidechain wallet"
+              placeholderTextColor="#999"
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <Pressable style={styles.smallButton} onPress={() => handleLinkBundle(withdrawal.id)}>
+              <ThemedText style={styles.smallButtonText}>Link</ThemedText>
+            </Pressable>
+          </View>
+        ) : (
+          <View style={styles.actions}>
+            {unpaid && (
+              <Pressable onPress={() => { setLinkingId(withdrawal.id); setBundleHash(''); }}>
+                <ThemedText style={styles.actionText}>Link bundle</ThemedText>
+              </Pressable>
+            )}
+            <Pressable onPress={() => handleRemove(withdrawal)}>
+              <ThemedText style={[styles.actionText, styles.removeText]}>Stop tracking</ThemedText>
+            </Pressable>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['left', 'right']}>
+      <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+      <Stack.Screen
+        options={{
+          title: 'Withdrawals',
+          headerShown: true,
+        }}
+      />
+
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+      >
+        {loading ? (
+          <View style={styles.centered}>
+            <ActivityIndicator size="large" color={Colors[colorScheme ?? 'light'].tint} />
+          </View>
+        ) : error ? (
+          <View style={styles.centered}>
+            <ThemedText style={styles.errorText}>{error}</ThemedText>
+            <Pressable style={styles.retryButton} onPress={loadWithdrawals}>
+              <ThemedText style={styles.retryButtonText}>Retry</ThemedText>
+            </Pressable>
+          </View>
+        ) : (
+          <ScrollView style={styles.scrollView}>
+            <View style={styles.section}>
+              <ThemedText style={styles.sectionTitle}>Track a Withdrawal</ThemedText>
+              <ThemedText style={styles.detailText}>
+                Withdraw in your sidechain's wallet to an address of this wallet, then enter it here to follow
+                the withdrawal through its bundle's ACKs to the M6 paying it.
+              </ThemedText>
+
+              <View style={styles.sidechainList}>
+                {sidechains.map(sc => (
+                  <Pressable
+                    key={sc.escrowNumber}
+                    style={[
+                      styles.sidechainItem,
+                      selectedSidechain?.escrowNumber === sc.escrowNumber && styles.selectedSidechain,
+                    ]}
+                    onPress={() => setSelectedSidechain(sc)}
+                  >
+                    <ThemedText style={selectedSidechain?.escrowNumber === sc.escrowNumber && styles.selectedText}>
+                      {sc.name}
+                    </ThemedText>
+                  </Pressable>
+                ))}
+              </View>
+
+              <View style={styles.labelRow}>
+                <ThemedText style={styles.label}>Mainchain Address</ThemedText>
+                <Pressable onPress={handleNewAddress}>
+                  <ThemedText style={styles.actionText}>New address</ThemedText>
+                </Pressable>
+              </View>
+              <TextInput
+                style={styles.input}
+                value={address}
+                onChangeText={setAddress}
+                placeholder="Address of this wallet"
+                placeholderTextColor="#999"
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+
+              <ThemedText style={styles.label}>Amount (BTC)</ThemedText>
+              <TextInput
+                style={styles.input}
+                value={amount}
+                onChangeText={setAmount}
+                keyboardType="decimal-pad"
+                placeholder="0.00"
+                placeholderTextColor="#999"
+              />
+
+              <Pressable
+                style={[styles.trackButton, (!selectedSidechain || !address.trim() || !amount) && styles.disabledButton]}
+                onPress={handleTrack}
+                disabled={!selectedSidechain || !address.trim() || !amount || saving}
+              >
+                {saving ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <>
+                    <FontAwesome name="eye" size={16} color="#fff" />
+                    <ThemedText style={styles.trackButtonText}>Track Withdrawal</ThemedText>
+                  </>
+                )}
+              </Pressable>
+            </View>
+
+            <View style={styles.section}>
+              <ThemedText style={styles.sectionTitle}>Tracked Withdrawals</ThemedText>
+              {withdrawals.length === 0 ? (
+                <ThemedText style={styles.emptyText}>No withdrawals are being tracked.</ThemedText>
+              ) : (
+                withdrawals.map(renderWithdrawal)
+              )}
+            </View>
+          </ScrollView>
+        )}
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  section: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  detailText: {
+    fontSize: 13,
+    opacity: 0.7,
+    marginBottom: 4,
+  },
+  sidechainList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginVertical: 12,
+  },
+  sidechainItem: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginRight: 8,
+    marginBottom: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: 'rgba(0, 0, 0, 0.03)',
+  },
+  selectedSidechain: {
+    borderColor: Colors.light.tint,
+    backgroundColor: `${Colors.light.tint}20`,
+  },
+  selectedText: {
+    color: Colors.light.tint,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  label: {
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  trackButton: {
+    backgroundColor: Colors.light.tint,
+    paddingVertical: 14,
+    borderRadius: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  trackButtonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+  disabledButton: {
+    backgroundColor: '#ccc',
+  },
+  withdrawalItem: {
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  withdrawalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  withdrawalAmount: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  statusText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: 'rgba(128, 128, 128, 0.2)',
+    overflow: 'hidden',
+    marginVertical: 8,
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#FF9800',
+  },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  linkInput: {
+    flex: 1,
+    marginBottom: 0,
+    fontSize: 13,
+  },
+  smallButton: {
+    backgroundColor: Colors.light.tint,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 8,
+    marginLeft: 8,
+  },
+  smallButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+  actionText: {
+    color: Colors.light.tint,
+    fontWeight: '600',
+    marginLeft: 16,
+  },
+  removeText: {
+    color: '#F44336',
+  },
+  emptyText: {
+    opacity: 0.6,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  errorText: {
+    color: '#F44336',
+    marginBottom: 10,
+    textAlign: 'center',
+  },
+  retryButton: {
+    backgroundColor: Colors.light.tint,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, View, TextInput, KeyboardAvoidingView, Platform, Pressable, ActivityIndicator } from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { walletService } from '@/services/wallet';
+
+export const MIN_PIN_LENGTH = 4;
+
+/**
+ * Shown instead of the app while wallet storage is locked
+ * Sets up a PIN the first time, and asks for it after that.
+ */
+export function PinGate() {
+  const colorScheme = useColorScheme();
+  const [hasPin, setHasPin] = useState<boolean | null>(null);
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  useEffect(() => {
+    walletService.hasPin().then(setHasPin);
+  }, []);
+
+  const isSetup = hasPin === false;
+  const canSubmit = isSetup
+    ? pin.length >= MIN_PIN_LENGTH && confirmPin.length >= MIN_PIN_LENGTH
+    : pin.length > 0;
+
+  // Set the PIN or unlock with it
+  const handleSubmit = async () => {
+    if (!canSubmit || isUnlocking) return;
+
+    if (isSetup && pin !== confirmPin) {
+      setError('The PINs don\'t match');
+      return;
+    }
+
+    setError(null);
+    setIsUnlocking(true);
+    try {
+      // The first unlock sets the PIN; the gate closes on the wallet's lock event
+      const response = await walletService.unlock(pin);
+      if (!response.success) {
+        setError(response.error || 'Failed to unlock wallet');
+        setPin('');
+      }
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const inputStyle = [styles.input, { color: Colors[colorScheme ?? 'light'].text }];
+
+  return (
+    <ThemedView style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+        <KeyboardAvoidingView
+          style={styles.content}
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        >
+          {hasPin === null ? (
+            <ActivityIndicator size="large" color={Colors[colorScheme ?? 'light'].tint} />
+          ) : (
+            <>
+              <View style={styles.header}>
+                <FontAwesome name="lock" size={48} color={Colors[colorScheme ?? 'light'].tint} />
+                <ThemedText type="subtitle" style={styles.title}>
+                  {isSetup ? 'Set a PIN' : 'Unlock Wallet'}
+                </ThemedText>
+                <ThemedText style={styles.subtitle}>
+                  {isSetup
+                    ? `Your keys are stored encrypted under this PIN. Use at least ${MIN_PIN_LENGTH} characters; ` +
+                      'it can\'t be recovered, but your recovery phrase restores the wallet without it.'
+                    : 'Enter your PIN to use your wallets.'}
+                </ThemedText>
+              </View>
+
+              <TextInput
+                style={inputStyle}
+                value={pin}
+                onChangeText={setPin}
+                placeholder="PIN"
+                placeholderTextColor="#999"
+                secureTextEntry
+                autoCapitalize="none"
+                autoCorrect={false}
+                autoFocus
+                onSubmitEditing={isSetup ? undefined : handleSubmit}
+              />
+              {isSetup && (
+                <TextInput
+                  style={inputStyle}
+                  value={confirmPin}
+                  onChangeText={setConfirmPin}
+                  placeholder="Confirm PIN"
+                  placeholderTextColor="#999"
+                  secureTextEntry
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  onSubmitEditing={handleSubmit}
+                />
+              )}
+
+              {error && <ThemedText style={styles.errorText}>{error}</ThemedText>}
+
+              <Pressable
+                style={[styles.button, (!canSubmit || isUnlocking) && styles.disabledButton]}
+                onPress={handleSubmit}
+                disabled={!canSubmit || isUnlocking}
+              >
+                {isUnlocking ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <ThemedText style={styles.buttonText}>{isSetup ? 'Set PIN' : 'Unlock'}</ThemedText>
+                )}
+              </Pressable>
+            </>
+          )}
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  title: {
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    opacity: 0.7,
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  errorText: {
+    color: '#F44336',
+    fontSize: 14,
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  button: {
+    backgroundColor: Colors.light.tint,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  buttonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  disabledButton: {
+    backgroundColor: '#ccc',
+  },
+});
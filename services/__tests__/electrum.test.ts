@@ -0,0 +1,163 @@
+import { payments } from 'bitcoinjs-lib';
+import { BitcoinNetwork, ElectrumServer } from '@/types/blockchain';
+import { ConnectionStatus, ElectrumEvent, electrumService } from '@/services/electrum';
+import { addressToScripthash, ElectrumTransport, ElectrumTransportHandlers } from '@/services/electrumClient';
+import { getNetworkParams } from '@/utils/hd';
+
+const SERVER: ElectrumServer = { host: 'localhost', port: 60401, protocol: 'tcp' };
+const ADDRESS = payments.p2wpkh({
+  hash: Buffer.alloc(20, 1),
+  network: getNetworkParams(BitcoinNetwork.REGTEST),
+}).address!;
+
+interface SentMessage {
+  id: number;
+  method: string;
+  params: unknown[];
+}
+
+/**
+ * Plays an Electrum server across connections: answers the calls the service makes on
+ * connect and records every message it was sent
+ */
+class FakeServer {
+  down = false;
+  height = 100;
+  statuses = new Map<string, string | null>();
+  received: SentMessage[] = [];
+  connections: FakeConnection[] = [];
+
+  createTransport = (): ElectrumTransport => {
+    const connection = new FakeConnection(this);
+    this.connections.push(connection);
+    return connection;
+  };
+
+  answer(message: SentMessage): unknown {
+    this.received.push(message);
+    switch (message.method) {
+      case 'server.version':
+        return ['ElectrumX 1.16.0', '1.4'];
+      case 'blockchain.headers.subscribe':
+        return { height: this.height, hex: '00' };
+      case 'blockchain.scripthash.subscribe':
+        return this.statuses.get(message.params[0] as string) ?? null;
+      default:
+        return null;
+    }
+  }
+
+  // Methods called, in order
+  methods(): string[] {
+    return this.received.map(message => message.method);
+  }
+}
+
+class FakeConnection implements ElectrumTransport {
+  private handlers: ElectrumTransportHandlers | null = null;
+
+  constructor(private server: FakeServer) {}
+
+  async connect(server: ElectrumServer, handlers: ElectrumTransportHandlers): Promise<void> {
+    if (this.server.down) {
+      throw new Error('ECONNREFUSED');
+    }
+    this.handlers = handlers;
+  }
+
+  write(data: string): void {
+    const parsed = JSON.parse(data) as SentMessage | SentMessage[];
+    const answer = Array.isArray(parsed)
+      ? parsed.map(message => ({ jsonrpc: '2.0', id: message.id, result: this.server.answer(message) }))
+      : { jsonrpc: '2.0', id: parsed.id, result: this.server.answer(parsed) };
+    Promise.resolve().then(() => this.handlers?.onData(JSON.stringify(answer) + '\n'));
+  }
+
+  close(): void {
+    this.handlers = null;
+  }
+
+  // Drop the connection from the server side
+  drop(): void {
+    this.handlers?.onClose(new Error('ECONNRESET'));
+  }
+}
+
+describe('electrum service reconnection', () => {
+  let server: FakeServer;
+  let events: ElectrumEvent[];
+  let removeListener: () => void;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    server = new FakeServer();
+    electrumService.setTransport(server.createTransport);
+    events = [];
+    removeListener = electrumService.addListener(event => events.push(event));
+  });
+
+  afterEach(async () => {
+    removeListener();
+    await electrumService.disconnect();
+    electrumService.clearSubscriptions();
+    jest.useRealTimers();
+  });
+
+  it('subscribes to headers and watched addresses on connect', async () => {
+    expect((await electrumService.connect(BitcoinNetwork.REGTEST, SERVER)).success).toBe(true);
+    expect(await electrumService.subscribeAddresses([ADDRESS])).toEqual({ success: true, data: true });
+
+    expect(server.methods()).toEqual(['server.version', 'blockchain.headers.subscribe', 'blockchain.scripthash.subscribe']);
+    expect(electrumService.getTipHeight()).toBe(100);
+  });
+
+  it('reconnects after a dropped connection and renews its subscriptions', async () => {
+    await electrumService.connect(BitcoinNetwork.REGTEST, SERVER);
+    await electrumService.subscribeAddresses([ADDRESS]);
+    server.received = [];
+
+    // A block and a payment to the address arrive while the connection is down
+    server.height = 101;
+    server.statuses.set(addressToScripthash(ADDRESS, BitcoinNetwork.REGTEST), 'new-status');
+    server.connections[0].drop();
+    expect(electrumService.getConnectionStatus()).toBe(ConnectionStatus.ERROR);
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(electrumService.getConnectionStatus()).toBe(ConnectionStatus.CONNECTED);
+    expect(server.methods()).toEqual(['server.version', 'blockchain.headers.subscribe', 'blockchain.scripthash.subscribe']);
+    expect(events).toContainEqual({ type: 'tip', height: 101 });
+    expect(events).toContainEqual({ type: 'status', address: ADDRESS, status: 'new-status' });
+  });
+
+  it('backs off between failed reconnects', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    await electrumService.connect(BitcoinNetwork.REGTEST, SERVER);
+    server.down = true;
+    server.connections[0].drop();
+
+    // Attempts after 1s, then 2s more, then 4s more
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(server.connections).toHaveLength(2);
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(server.connections).toHaveLength(2);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(server.connections).toHaveLength(3);
+
+    server.down = false;
+    await jest.advanceTimersByTimeAsync(4000);
+    expect(server.connections).toHaveLength(4);
+    expect(electrumService.getConnectionStatus()).toBe(ConnectionStatus.CONNECTED);
+    consoleError.mockRestore();
+  });
+
+  it('stops reconnecting once disconnected on purpose', async () => {
+    await electrumService.connect(BitcoinNetwork.REGTEST, SERVER);
+    server.connections[0].drop();
+    await electrumService.disconnect();
+
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+    expect(server.connections).toHaveLength(1);
+    expect(electrumService.getConnectionStatus()).toBe(ConnectionStatus.DISCONNECTED);
+  });
+});
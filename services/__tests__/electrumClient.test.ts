@@ -0,0 +1,209 @@
+import { BitcoinNetwork, ElectrumServer } from '@/types/blockchain';
+import {
+  addressToScripthash,
+  CLIENT_NAME,
+  ElectrumClient,
+  ElectrumClientHandlers,
+  ElectrumError,
+  ElectrumErrorCode,
+  ElectrumTransport,
+  ElectrumTransportHandlers,
+  PROTOCOL_VERSION,
+} from '@/services/electrumClient';
+
+const SERVER: ElectrumServer = { host: 'electrum.example', port: 50001, protocol: 'tcp' };
+
+interface SentMessage {
+  id: number;
+  method: string;
+  params: unknown[];
+}
+
+/**
+ * In-memory transport: records what the client writes and lets the test play the server
+ */
+class FakeTransport implements ElectrumTransport {
+  written: string[] = [];
+  closed = false;
+  failConnect = false;
+  private handlers: ElectrumTransportHandlers | null = null;
+
+  async connect(server: ElectrumServer, handlers: ElectrumTransportHandlers): Promise<void> {
+    if (this.failConnect) {
+      throw new Error('ECONNREFUSED');
+    }
+    this.handlers = handlers;
+  }
+
+  write(data: string): void {
+    this.written.push(data);
+
+    // Answer the version handshake like a server would
+    const message = JSON.parse(data);
+    if (message.method === 'server.version') {
+      this.receive(JSON.stringify({ jsonrpc: '2.0', id: message.id, result: ['ElectrumX 1.16.0', PROTOCOL_VERSION] }) + '\n');
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  // Deliver data from the server
+  receive(chunk: string): void {
+    this.handlers!.onData(chunk);
+  }
+
+  // Drop the connection from the server side
+  drop(error?: Error): void {
+    this.handlers!.onClose(error);
+  }
+
+  // The messages (or batches) written since the handshake
+  sent<T = SentMessage>(): T[] {
+    return this.written.slice(1).map(line => JSON.parse(line) as T);
+  }
+}
+
+function reply(id: number, result: unknown): string {
+  return JSON.stringify({ jsonrpc: '2.0', id, result }) + '\n';
+}
+
+describe('ElectrumClient', () => {
+  let transport: FakeTransport;
+  let handlers: ElectrumClientHandlers;
+  let client: ElectrumClient;
+
+  beforeEach(() => {
+    transport = new FakeTransport();
+    handlers = { onNotification: jest.fn(), onClose: jest.fn() };
+    client = new ElectrumClient(transport, handlers, 1000);
+  });
+
+  afterEach(() => {
+    client.close();
+  });
+
+  it('negotiates the protocol version on connect', async () => {
+    expect(await client.connect(SERVER)).toEqual(['ElectrumX 1.16.0', PROTOCOL_VERSION]);
+    expect(client.isOpen()).toBe(true);
+    expect(JSON.parse(transport.written[0])).toEqual({
+      jsonrpc: '2.0',
+      id: 0,
+      method: 'server.version',
+      params: [CLIENT_NAME, PROTOCOL_VERSION],
+    });
+    expect(transport.written[0].endsWith('\n')).toBe(true);
+  });
+
+  it('fails to connect when the transport does', async () => {
+    transport.failConnect = true;
+    await expect(client.connect(SERVER)).rejects.toMatchObject({ code: ElectrumErrorCode.CONNECTION_FAILED });
+    expect(client.isOpen()).toBe(false);
+  });
+
+  it('refuses requests before connecting', async () => {
+    await expect(client.request('server.ping')).rejects.toMatchObject({ code: ElectrumErrorCode.NOT_CONNECTED });
+  });
+
+  it('resolves requests from answers split across and packed into chunks', async () => {
+    await client.connect(SERVER);
+    const fee = client.request<number>('blockchain.estimatefee', [2]);
+    const height = client.request<{ height: number }>('blockchain.headers.subscribe');
+    const [feeRequest, heightRequest] = transport.sent();
+
+    const data = reply(heightRequest.id, { height: 840000, hex: '00' }) + reply(feeRequest.id, 0.0001);
+    transport.receive(data.slice(0, 10));
+    transport.receive(data.slice(10));
+
+    expect(await fee).toBe(0.0001);
+    expect(await height).toEqual({ height: 840000, hex: '00' });
+  });
+
+  it('sends a batch as one message and resolves it in request order', async () => {
+    await client.connect(SERVER);
+    const results = client.batch<string>([
+      { method: 'blockchain.transaction.get', params: ['aa'] },
+      { method: 'blockchain.transaction.get', params: ['bb'] },
+    ]);
+
+    expect(transport.written).toHaveLength(2);
+    const [batch] = transport.sent<SentMessage[]>();
+    expect(batch.map(message => message.params[0])).toEqual(['aa', 'bb']);
+
+    transport.receive(JSON.stringify([
+      { jsonrpc: '2.0', id: batch[1].id, result: 'tx-bb' },
+      { jsonrpc: '2.0', id: batch[0].id, result: 'tx-aa' },
+    ]) + '\n');
+    expect(await results).toEqual(['tx-aa', 'tx-bb']);
+  });
+
+  it('rejects with the error code the server answers', async () => {
+    await client.connect(SERVER);
+    const broadcast = client.request('blockchain.transaction.broadcast', ['00']);
+    const legacy = client.request('blockchain.transaction.get', ['zz']);
+    const [broadcastRequest, legacyRequest] = transport.sent();
+
+    transport.receive(JSON.stringify({
+      jsonrpc: '2.0',
+      id: broadcastRequest.id,
+      error: { code: ElectrumErrorCode.DAEMON_ERROR, message: 'bad-txns-inputs-missingorspent' },
+    }) + '\n');
+    transport.receive(JSON.stringify({ jsonrpc: '2.0', id: legacyRequest.id, error: 'unknown transaction' }) + '\n');
+
+    await expect(broadcast).rejects.toEqual(
+      new ElectrumError('bad-txns-inputs-missingorspent', ElectrumErrorCode.DAEMON_ERROR)
+    );
+    await expect(legacy).rejects.toMatchObject({
+      message: 'unknown transaction',
+      code: ElectrumErrorCode.BAD_REQUEST,
+    });
+  });
+
+  it('passes subscription notifications on', async () => {
+    await client.connect(SERVER);
+    transport.receive(JSON.stringify({
+      jsonrpc: '2.0',
+      method: 'blockchain.scripthash.subscribe',
+      params: ['abcd', 'status'],
+    }) + '\n');
+
+    expect(handlers.onNotification).toHaveBeenCalledWith('blockchain.scripthash.subscribe', ['abcd', 'status']);
+  });
+
+  it('times out requests the server never answers', async () => {
+    await client.connect(SERVER);
+    await expect(client.request('server.ping')).rejects.toMatchObject({ code: ElectrumErrorCode.TIMEOUT });
+  });
+
+  it('fails pending requests when the connection drops', async () => {
+    await client.connect(SERVER);
+    const ping = client.request('server.ping');
+    const error = new Error('ECONNRESET');
+    transport.drop(error);
+
+    await expect(ping).rejects.toMatchObject({ code: ElectrumErrorCode.CONNECTION_CLOSED });
+    expect(client.isOpen()).toBe(false);
+    expect(handlers.onClose).toHaveBeenCalledWith(error);
+  });
+
+  it('closes the connection when the server sends invalid JSON', async () => {
+    await client.connect(SERVER);
+    const ping = client.request('server.ping');
+    transport.receive('{"jsonrpc": \n');
+
+    await expect(ping).rejects.toMatchObject({ code: ElectrumErrorCode.CONNECTION_CLOSED });
+    expect(transport.closed).toBe(true);
+    expect(handlers.onClose).toHaveBeenCalledWith(
+      expect.objectContaining({ code: ElectrumErrorCode.INVALID_RESPONSE })
+    );
+  });
+});
+
+describe('addressToScripthash', () => {
+  it('matches the example of the Electrum protocol documentation', () => {
+    expect(addressToScripthash('1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa', BitcoinNetwork.MAINNET)).toBe(
+      '8b01df4e368ea28f8dc0423bcf7a4923e3a12d307c875e47a0cfbf90b5c39161'
+    );
+  });
+});
@@ -0,0 +1,111 @@
+import { crypto } from 'bitcoinjs-lib';
+import { BitcoinNetwork } from '@/types/blockchain';
+import { electrumService } from '@/services/electrum';
+import { headerChainService } from '@/services/headers';
+import { MemoryStorageBackend, storageService } from '@/services/storage';
+import { HEADER_CHAIN_PARAMS, RETARGET_INTERVAL } from '@/utils/headers';
+
+const REGTEST_BITS = 0x207fffff;
+const TIP = 3 * RETARGET_INTERVAL + 20;
+
+/**
+ * Mine a regtest header chain from a made-up genesis block
+ * Regtest's target is half the hash space, so each header takes a couple of tries.
+ */
+function mineChain(length: number, startTime: number): string[] {
+  const headers: string[] = [];
+  let prevHash: Buffer = Buffer.alloc(32);
+
+  for (let height = 0; height < length; height++) {
+    const header = Buffer.alloc(80);
+    header.writeInt32LE(0x20000000, 0);
+    prevHash.copy(header, 4);
+    crypto.sha256(Buffer.from(`block ${height}`)).copy(header, 36);
+    header.writeUInt32LE(startTime + height * 600, 68);
+    header.writeUInt32LE(REGTEST_BITS, 72);
+
+    let hash: Buffer;
+    let nonce = 0;
+    do {
+      header.writeUInt32LE(nonce++, 76);
+      hash = crypto.hash256(header);
+    } while (hash[31] >= 0x80);
+
+    headers.push(header.toString('hex'));
+    prevHash = hash;
+  }
+  return headers;
+}
+
+function headerHash(raw: string): string {
+  return Buffer.from(crypto.hash256(Buffer.from(raw, 'hex'))).reverse().toString('hex');
+}
+
+describe('header chain below the checkpoint', () => {
+  const chain = mineChain(TIP + 1, 1600000000);
+  const params = HEADER_CHAIN_PARAMS[BitcoinNetwork.REGTEST];
+  const regtestCheckpoints = params.checkpoints;
+  let served: string[];
+  let requests: number[];
+
+  beforeAll(() => {
+    // Sync starts from the retarget period at 4032, two periods above genesis
+    params.checkpoints = [
+      { height: 0, hash: headerHash(chain[0]) },
+      { height: 2 * RETARGET_INTERVAL, hash: headerHash(chain[2 * RETARGET_INTERVAL]) },
+    ];
+  });
+
+  afterAll(() => {
+    params.checkpoints = regtestCheckpoints;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(async () => {
+    storageService.setBackend(new MemoryStorageBackend());
+    headerChainService.setNetwork(BitcoinNetwork.TESTNET);
+    headerChainService.setNetwork(BitcoinNetwork.REGTEST);
+
+    served = chain;
+    requests = [];
+    jest.spyOn(electrumService, 'getTipHeight').mockReturnValue(TIP);
+    jest.spyOn(electrumService, 'getBlockHeaders').mockImplementation(async (start, count) => {
+      requests.push(start);
+      return { success: true, data: served.slice(start, start + count) };
+    });
+
+    expect(await headerChainService.sync()).toEqual({ success: true, data: TIP });
+    requests = [];
+  });
+
+  it('syncs from the retarget period of the last checkpoint', async () => {
+    const header = await headerChainService.getHeader(2 * RETARGET_INTERVAL + 5);
+    expect(header.data?.hash).toBe(headerHash(chain[2 * RETARGET_INTERVAL + 5]));
+    expect(requests).toEqual([]);
+  });
+
+  it('validates older periods back to a block below the checkpoint', async () => {
+    const header = await headerChainService.getHeader(100);
+    expect(header.success).toBe(true);
+    expect(header.data?.hash).toBe(headerHash(chain[100]));
+    expect(requests).toEqual([RETARGET_INTERVAL, 0]);
+
+    // Once validated, the older periods are only checked against their stored ends
+    const headers = await headerChainService.getHeaders(RETARGET_INTERVAL - 2, 4);
+    expect(headers.data?.map(h => h.hash)).toEqual(
+      chain.slice(RETARGET_INTERVAL - 2, RETARGET_INTERVAL + 2).map(headerHash)
+    );
+  });
+
+  it('rejects older headers that do not link to the checkpointed chain', async () => {
+    // Same heights, but another chain
+    served = [...mineChain(2 * RETARGET_INTERVAL, 1500000000), ...chain.slice(2 * RETARGET_INTERVAL)];
+
+    const header = await headerChainService.getHeader(RETARGET_INTERVAL + 1);
+    expect(header.success).toBe(false);
+    expect(header.error).toContain("don't link to the validated chain");
+  });
+});
@@ -0,0 +1,143 @@
+import { MemoryStorageBackend, storageService } from '@/services/storage';
+
+// Each unlock runs scrypt
+jest.setTimeout(60000);
+
+/**
+ * Memory backend whose writes start failing after a number of them, like an app killed mid-write
+ */
+class FailingBackend extends MemoryStorageBackend {
+  writesLeft = Infinity;
+
+  async setItem(key: string, value: string): Promise<void> {
+    if (this.writesLeft-- <= 0) {
+      throw new Error('Write failed');
+    }
+    await super.setItem(key, value);
+  }
+}
+
+async function storeSecrets(): Promise<void> {
+  await storageService.unlock('1234');
+  await storageService.setSecret('mnemonic', 'abandon about');
+  await storageService.setSecret('wif', 'L1aW4aubDFB7yfras2S1mN3bqg9nwySY8nkoLmJebSLD5BWv3ENZ');
+  await storageService.setSecret('seed', '000102030405060708090a0b0c0d0e0f');
+}
+
+async function expectSecretsUnlockedBy(pin: string): Promise<void> {
+  storageService.lock();
+  expect((await storageService.unlock(pin)).success).toBe(true);
+  expect(await storageService.getSecret('mnemonic')).toBe('abandon about');
+  expect(await storageService.getSecret('wif')).toBe('L1aW4aubDFB7yfras2S1mN3bqg9nwySY8nkoLmJebSLD5BWv3ENZ');
+  expect(await storageService.getSecret('seed')).toBe('000102030405060708090a0b0c0d0e0f');
+}
+
+describe('storage service', () => {
+  let backend: MemoryStorageBackend;
+
+  beforeEach(() => {
+    backend = new MemoryStorageBackend();
+    storageService.setBackend(backend);
+  });
+
+  it('stores JSON values without a PIN', async () => {
+    expect(await storageService.getJSON('settings')).toBeNull();
+    await storageService.setJSON('settings', { network: 'testnet' });
+    expect(await storageService.getJSON('settings')).toEqual({ network: 'testnet' });
+
+    await storageService.remove('settings');
+    expect(await storageService.getJSON('settings')).toBeNull();
+  });
+
+  it('starts locked and sets the PIN on the first unlock', async () => {
+    expect(storageService.isLocked()).toBe(true);
+    expect(await storageService.hasPin()).toBe(false);
+
+    expect(await storageService.unlock('1234')).toEqual({ success: true, data: true });
+    expect(storageService.isLocked()).toBe(false);
+    expect(await storageService.hasPin()).toBe(true);
+  });
+
+  it('refuses secrets while locked', async () => {
+    await expect(storageService.getSecret('mnemonic')).rejects.toThrow('Wallet storage is locked');
+    await expect(storageService.setSecret('mnemonic', 'words')).rejects.toThrow('Wallet storage is locked');
+  });
+
+  it('encrypts secrets and reads them back after unlocking again', async () => {
+    await storageService.unlock('1234');
+    await storageService.setSecret('mnemonic', 'abandon about');
+
+    const stored = (await backend.getAllKeys()).map(key => backend.getItem(key));
+    for (const value of await Promise.all(stored)) {
+      expect(value).not.toContain('abandon');
+    }
+
+    storageService.lock();
+    expect(storageService.isLocked()).toBe(true);
+
+    expect(await storageService.unlock('0000')).toEqual({ success: false, error: 'Incorrect PIN' });
+    expect(storageService.isLocked()).toBe(true);
+
+    expect((await storageService.unlock('1234')).success).toBe(true);
+    expect(await storageService.getSecret('mnemonic')).toBe('abandon about');
+  });
+
+  it('re-encrypts secrets under a changed PIN', async () => {
+    await storageService.unlock('1234');
+    await storageService.setSecret('mnemonic', 'abandon about');
+    await storageService.setSecret('wif', 'L1aW4aubDFB7yfras2S1mN3bqg9nwySY8nkoLmJebSLD5BWv3ENZ');
+
+    expect((await storageService.changePin('0000', '5678')).success).toBe(false);
+    expect((await storageService.changePin('1234', '5678')).success).toBe(true);
+
+    storageService.lock();
+    expect((await storageService.unlock('1234')).success).toBe(false);
+    expect((await storageService.unlock('5678')).success).toBe(true);
+    expect(await storageService.getSecret('mnemonic')).toBe('abandon about');
+    expect(await storageService.getSecret('wif')).toBe('L1aW4aubDFB7yfras2S1mN3bqg9nwySY8nkoLmJebSLD5BWv3ENZ');
+  });
+
+  it('keeps the old PIN working when a PIN change fails while re-encrypting', async () => {
+    const failing = new FailingBackend();
+    storageService.setBackend(failing);
+    await storeSecrets();
+
+    // Fails on the second secret re-encrypted under the new PIN
+    failing.writesLeft = 1;
+    const changed = await storageService.changePin('1234', '5678');
+    expect(changed.success).toBe(false);
+    expect(changed.error).toContain('Write failed');
+
+    failing.writesLeft = Infinity;
+    await expectSecretsUnlockedBy('1234');
+    storageService.lock();
+    expect((await storageService.unlock('5678')).success).toBe(false);
+    expect((await failing.getAllKeys()).filter(key => key.includes('pending'))).toEqual([]);
+  });
+
+  it('finishes a PIN change cut short after the new keystore was written', async () => {
+    const failing = new FailingBackend();
+    storageService.setBackend(failing);
+    await storeSecrets();
+
+    // Three staged secrets, the staged keystore and the keystore itself, then the first swap fails
+    failing.writesLeft = 5;
+    expect((await storageService.changePin('1234', '5678')).success).toBe(false);
+
+    failing.writesLeft = Infinity;
+    storageService.lock();
+    expect((await storageService.unlock('1234')).success).toBe(false);
+    await expectSecretsUnlockedBy('5678');
+  });
+
+  it('clears everything, including the PIN', async () => {
+    await storageService.unlock('1234');
+    await storageService.setJSON('settings', { network: 'testnet' });
+    await storageService.setSecret('mnemonic', 'abandon about');
+
+    await storageService.clear();
+    expect(storageService.isLocked()).toBe(true);
+    expect(await storageService.hasPin()).toBe(false);
+    expect(await backend.getAllKeys()).toEqual([]);
+  });
+});
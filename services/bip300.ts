@@ -1,116 +1,117 @@
-import { BitcoinNetwork, BlockchainResponse, SidechainInfo, WithdrawalBundle } from '@/types/blockchain';
+import { Psbt, Transaction as BitcoinTransaction } from 'bitcoinjs-lib';
+import { AddressHistoryEntry, BitcoinNetwork, BlockchainResponse, DepositTransaction, SidechainInfo, Transaction, WalletUtxo, WithdrawalBundle, WithdrawalTransaction } from '@/types/blockchain';
 import { electrumService } from '@/services/electrum';
+import { headerChainService } from '@/services/headers';
+import { storageService } from '@/services/storage';
+import { Satoshis } from '@/utils/amount';
+import { getDepositAddressScript, getEscrowScript, getEscrowSidechain } from '@/utils/bip300';
+import { applyBlock, BIP300_PARAMS, Bip300Params, Bip300State, BundleProgress, createInitialState, getBundleProgress } from '@/utils/bip300State';
+import { verifyMerkleProof } from '@/utils/headers';
+import { finalizePsbt } from '@/utils/psbt';
+import { buildPsbt, RBF_SEQUENCE, toTransaction, TxRecipient } from '@/utils/transaction';
+
+/**
+ * Size of the parts of an M5 deposit that don't come from the wallet:
+ * the CTIP input, spent with an empty scriptSig, and the OP_DRIVECHAIN escrow output
+ */
+export const CTIP_INPUT_VSIZE = 41;
+export const ESCROW_OUTPUT_SCRIPT_LENGTH = 4;
+
+// Height BIP300 activated at on each network, where it has
+const BIP300_ACTIVATION_HEIGHT: Record<BitcoinNetwork, number | null> = {
+  [BitcoinNetwork.MAINNET]: null,
+  [BitcoinNetwork.TESTNET]: null,
+  [BitcoinNetwork.REGTEST]: 1,
+};
+
+// Blocks whose coinbases are requested at a time while scanning
+const COINBASE_BATCH = 100;
+
+// Blocks of sidechain state kept to undo a chain reorganization
+const UNDO_DEPTH = 144;
+
+// Storage key prefix of the sidechain states. States stored under the unversioned key were
+// scanned without M6 payouts and still hold paid bundles, so they are dropped and scanned again.
+const STATE_KEY = 'bip300:v2';
+const LEGACY_STATE_KEY = 'bip300';
+
+/**
+ * Sidechain state (D1 and D2) as of a block of the validated chain
+ */
+interface AppliedState {
+  state: Bip300State;
+  blockHash: string;
+}
+
+/**
+ * Something that happened to the sidechain state
+ * A state event means D1 or D2 changed, through new blocks, a reorg or a CTIP moving.
+ */
+export type SidechainStateEvent = { type: 'state'; height: number };
 
 /**
  * BIP300 service for interacting with sidechains
- * Handles communication with BIP300 specific functionality
+ * Keeps D1 and D2 by scanning the coinbases of the validated header chain for M1-M4 messages
  */
 class BIP300Service {
   private network: BitcoinNetwork = BitcoinNetwork.TESTNET;
-  private sidechains: SidechainInfo[] = [];
-  private withdrawalBundles: WithdrawalBundle[] = [];
+  private applied: AppliedState[] = []; // The last UNDO_DEPTH + 1 states, oldest first
+  private loaded = false;
+  private syncPromise: Promise<BlockchainResponse<number>> | null = null;
+  private listeners = new Set<(event: SidechainStateEvent) => void>();
 
-  constructor() {
-    // Initialize with mock data for demo purposes
-    this.initializeMockData();
+  /**
+   * Set the current network
+   */
+  setNetwork(network: BitcoinNetwork): void {
+    if (network !== this.network) {
+      this.network = network;
+      this.applied = [];
+      this.loaded = false;
+    }
   }
 
   /**
-   * Initialize with mock data for demo purposes
-   * In a real implementation, this would fetch data from the blockchain
+   * Scan the blocks of the validated header chain not applied yet
+   * Blocks a reorg replaced are undone first. Concurrent calls share one sync.
+   * @returns The height of the last block applied, -1 on networks without BIP300
    */
-  private initializeMockData() {
-    // Mock sidechains - in a real implementation, these would be fetched from the blockchain
-    this.sidechains = [
-      {
-        escrowNumber: 0,
-        version: 1,
-        name: 'BitNames',
-        description: 'Own one username that you use everywhere — replaces DNS, logging in, and email',
-        tarballHash: '0000000000000000000000000000000000000000000000000000000000000000',
-        gitCommitHash: '0000000000000000000000000000000000000000',
-        isActive: true,
-        ctip: {
-          txid: '7ea0d7c5fa0a5a5c1b5f2c8209d90b0cc459450c1ad025680bd7861ed970379c',
-          vout: 0,
-        },
-      },
-      {
-        escrowNumber: 1,
-        version: 1,
-        name: 'BitAssets',
-        description: 'A sidechain for issuing Bit-Art (NFTs) and digital assets (ICOs, tokens)',
-        tarballHash: '0000000000000000000000000000000000000000000000000000000000000000',
-        gitCommitHash: '0000000000000000000000000000000000000000',
-        isActive: true,
-        ctip: {
-          txid: '8fa1d8c6fb1b6b6c2c6f3c9d0a90b1cc4694a1c2ad026771bd7972fe981479d',
-          vout: 0,
-        },
-      },
-      {
-        escrowNumber: 2,
-        version: 1,
-        name: 'zSide',
-        description: 'A zCash clone, for privacy',
-        tarballHash: '0000000000000000000000000000000000000000000000000000000000000000',
-        gitCommitHash: '0000000000000000000000000000000000000000',
-        isActive: true,
-        ctip: {
-          txid: '9gb2e9d7fc2c7c7d3d7f4dad1a91b2dd5795b2d3be137862ce8983gf992580e',
-          vout: 0,
-        },
-      },
-      {
-        escrowNumber: 3,
-        version: 1,
-        name: 'Thunder',
-        description: 'A high performance largeblock sidechain',
-        tarballHash: '0000000000000000000000000000000000000000000000000000000000000000',
-        gitCommitHash: '0000000000000000000000000000000000000000',
-        isActive: true,
-        ctip: {
-          txid: 'agc3fad8gd3d8d8e4e8gadad2a92c3ee6896c3e4cf248963df9a94hga93691f',
-          vout: 0,
-        },
-      },
-    ];
-
-    // Mock withdrawal bundles - in a real implementation, these would be fetched from the blockchain
-    this.withdrawalBundles = [
-      {
-        sidechainNumber: 0,
-        bundleHash: '0000000000000000000000000000000000000000000000000000000000000001',
-        workScore: 5000,
-        blocksRemaining: 10000,
-      },
-      {
-        sidechainNumber: 2,
-        bundleHash: '0000000000000000000000000000000000000000000000000000000000000002',
-        workScore: 8000,
-        blocksRemaining: 8000,
-      },
-    ];
+  sync(): Promise<BlockchainResponse<number>> {
+    if (!this.syncPromise) {
+      this.syncPromise = this.syncState().finally(() => {
+        this.syncPromise = null;
+      });
+    }
+    return this.syncPromise;
   }
 
   /**
-   * Set the current network
+   * Listen for changes to the sidechain state
+   * @returns A function that removes the listener
    */
-  setNetwork(network: BitcoinNetwork): void {
-    this.network = network;
+  addListener(listener: (event: SidechainStateEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Voting windows and thresholds of the current network
+   */
+  getParams(): Bip300Params {
+    return BIP300_PARAMS[this.network];
   }
 
   /**
-   * Get active sidechains 
-   * In a real implementation, this would query the blockchain
+   * Get the sidechain list (D1): active sidechains and activation proposals
    */
   async getSidechains(): Promise<BlockchainResponse<SidechainInfo[]>> {
     try {
-      // In a real implementation, we would query the blockchain for the latest
-      // sidechain information from the D1 database
+      const state = await this.getState();
       return {
         success: true,
-        data: this.sidechains,
+        data: state?.sidechains ?? [],
       };
     } catch (error) {
       return {
@@ -121,11 +122,12 @@ class BIP300Service {
   }
 
   /**
-   * Get sidechain by escrow number
+   * Get the active sidechain in an escrow slot
    */
   async getSidechain(escrowNumber: number): Promise<BlockchainResponse<SidechainInfo>> {
     try {
-      const sidechain = this.sidechains.find(sc => sc.escrowNumber === escrowNumber);
+      const state = await this.getState();
+      const sidechain = state?.sidechains.find(sc => sc.isActive && sc.escrowNumber === escrowNumber);
       
       if (!sidechain) {
         return {
@@ -147,16 +149,14 @@ class BIP300Service {
   }
 
   /**
-   * Get withdrawal bundles
-   * In a real implementation, this would query the blockchain
+   * Get the withdrawal list (D2)
    */
   async getWithdrawalBundles(): Promise<BlockchainResponse<WithdrawalBundle[]>> {
     try {
-      // In a real implementation, we would query the blockchain for the latest
-      // withdrawal bundle information from the D2 database
+      const state = await this.getState();
       return {
         success: true,
-        data: this.withdrawalBundles,
+        data: state?.withdrawalBundles ?? [],
       };
     } catch (error) {
       return {
@@ -171,7 +171,8 @@ class BIP300Service {
    */
   async getWithdrawalBundlesForSidechain(sidechainNumber: number): Promise<BlockchainResponse<WithdrawalBundle[]>> {
     try {
-      const bundles = this.withdrawalBundles.filter(bundle => bundle.sidechainNumber === sidechainNumber);
+      const state = await this.getState();
+      const bundles = (state?.withdrawalBundles ?? []).filter(bundle => bundle.sidechainNumber === sidechainNumber);
       
       return {
         success: true,
@@ -186,35 +187,61 @@ class BIP300Service {
   }
 
   /**
-   * Create a deposit transaction (M5)
-   * This creates a transaction that sends BTC to a sidechain
+   * Create, sign and broadcast a deposit transaction (M5)
+   * The transaction spends the sidechain's CTIP and the wallet's UTXOs into a new escrow
+   * output holding exactly the deposit amount more than the CTIP did. Only the wallet's
+   * inputs are signed; the CTIP is spent with an empty scriptSig.
+   * @param depositAddress Sidechain address credited, as returned by parseDepositAddress
+   * @param inputs Wallet UTXOs selected to fund the deposit and its fee
+   * @param change Change output, if any
+   * @param signInputs Signs the wallet inputs of the PSBT, returning how many it signed
    */
   async createDepositTransaction(
     sidechainNumber: number,
-    amount: number,
-    feeRate: number
-  ): Promise<BlockchainResponse<string>> {
+    depositAddress: string,
+    amount: Satoshis,
+    inputs: WalletUtxo[],
+    change: TxRecipient | undefined,
+    signInputs: (psbt: Psbt) => Promise<number>
+  ): Promise<BlockchainResponse<{ transaction: Transaction; hex: string }>> {
     try {
-      // First, check if the sidechain exists
-      const sidechainResponse = await this.getSidechain(sidechainNumber);
-      if (!sidechainResponse.success) {
+      const psbtResponse = await this.createDepositPsbt(sidechainNumber, depositAddress, amount, inputs, change);
+      if (!psbtResponse.success || !psbtResponse.data) {
         return {
           success: false,
-          error: sidechainResponse.error,
+          error: psbtResponse.error,
+          code: psbtResponse.code,
         };
       }
 
-      // In a real implementation, we would:
-      // 1. Get the current CTIP for the sidechain
-      // 2. Create a new transaction that spends the CTIP
-      // 3. Add an output with an OP_DRIVECHAIN script for the sidechain
-      // 4. Add more BTC to the output compared to the input (this is the deposit)
-      // 5. Sign and broadcast the transaction
+      const psbt = psbtResponse.data;
+      const signed = await signInputs(psbt);
+      if (signed !== inputs.length) {
+        return {
+          success: false,
+          error: `Only ${signed} of the deposit's ${inputs.length} wallet inputs could be signed`,
+        };
+      }
+      finalizePsbt(psbt);
+
+      const signedTx = psbt.extractTransaction();
+      const hex = signedTx.toHex();
+      const broadcast = await electrumService.broadcastTransaction(hex);
+      if (!broadcast.success) {
+        return {
+          success: false,
+          error: broadcast.error || 'Failed to broadcast deposit',
+          code: broadcast.code,
+        };
+      }
+
+      // The new escrow output is the CTIP the next deposit or withdrawal spends
+      const transaction = toTransaction(signedTx, this.network);
+      await this.setCtip(sidechainNumber, { txid: transaction.txid, vout: 0 });
 
-      // For now, we'll just return a mock transaction ID
       return {
         success: true,
-        data: '7ea0d7c5fa0a5a5c1b5f2c8209d90b0cc459450c1ad025680bd7861ed970379c',
+        data: { transaction, hex },
       };
     } catch (error) {
       return {
@@ -225,70 +252,76 @@ class BIP300Service {
   }
 
   /**
-   * Create a withdrawal bundle proposal (M3)
-   * This would be called by a sidechain node, not typically by a wallet
+   * Build a deposit transaction (M5) as a PSBT, for signing here or elsewhere
+   * Outputs are the new escrow output, the deposit address OP_RETURN and change. The CTIP
+   * input comes last and is already final, since it needs no signature. The first deposit
+   * to a sidechain has no CTIP to spend.
+   * @param depositAddress Sidechain address credited, as returned by parseDepositAddress
+   * @param inputs Wallet UTXOs selected to fund the deposit and its fee
+   * @param change Change output, if any
    */
-  async createWithdrawalBundleProposal(
+  async createDepositPsbt(
     sidechainNumber: number,
-    bundleHash: string
-  ): Promise<BlockchainResponse<boolean>> {
+    depositAddress: string,
+    amount: Satoshis,
+    inputs: WalletUtxo[],
+    change?: TxRecipient
+  ): Promise<BlockchainResponse<Psbt>> {
     try {
-      // In a real implementation, we would:
-      // 1. Create a transaction that includes an OP_RETURN output with:
-      //    - The bundle hash
-      //    - The sidechain number
-      // 2. This would be included in a coinbase transaction by miners
-
-      // For demonstration purposes, we'll add the bundle to our mock data
-      this.withdrawalBundles.push({
-        sidechainNumber,
-        bundleHash,
-        workScore: 1, // Initial ACK score is 1
-        blocksRemaining: 26299, // Initial blocks remaining is 26,299
-      });
-
-      return {
-        success: true,
-        data: true,
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: `Error creating withdrawal bundle proposal: ${error}`,
-      };
-    }
-  }
+      const sidechainResponse = await this.getSidechain(sidechainNumber);
+      if (!sidechainResponse.success || !sidechainResponse.data) {
+        return {
+          success: false,
+          error: sidechainResponse.error,
+        };
+      }
+      if (!sidechainResponse.data.isActive) {
+        return {
+          success: false,
+          error: `${sidechainResponse.data.name} is not active`,
+        };
+      }
+      if (!Number.isInteger(amount) || amount <= 0) {
+        return {
+          success: false,
+          error: 'Deposit amount must be a positive number of satoshis',
+        };
+      }
 
-  /**
-   * Simulate ACKing a withdrawal bundle (M4)
-   * This would be called by miners, not typically by a wallet
-   */
-  async simulateAckWithdrawalBundle(
-    bundleHash: string,
-    ackCount: number
-  ): Promise<BlockchainResponse<boolean>> {
-    try {
-      // Find the bundle
-      const bundleIndex = this.withdrawalBundles.findIndex(bundle => bundle.bundleHash === bundleHash);
-      
-      if (bundleIndex === -1) {
+      const ctipResponse = await this.getCtipOutput(sidechainResponse.data);
+      if (!ctipResponse.success || ctipResponse.data === undefined) {
         return {
           success: false,
-          error: `Withdrawal bundle with hash ${bundleHash} not found`,
+          error: ctipResponse.error,
+          code: ctipResponse.code,
         };
       }
 
-      // Update the ACK count
-      this.withdrawalBundles[bundleIndex].workScore += ackCount;
+      const ctip = ctipResponse.data;
+      const outputs: TxRecipient[] = [
+        { script: getEscrowScript(sidechainNumber), value: (ctip?.value ?? 0) + amount },
+        { script: getDepositAddressScript(depositAddress), value: 0 },
+        ...(change ? [change] : []),
+      ];
+      const psbt = buildPsbt(inputs, outputs, this.network);
+      if (ctip) {
+        psbt.addInput({
+          hash: ctip.txid,
+          index: ctip.vout,
+          sequence: RBF_SEQUENCE,
+          nonWitnessUtxo: Buffer.from(ctip.previousTx, 'hex'),
+        });
+        psbt.updateInput(psbt.inputCount - 1, { finalScriptSig: Buffer.alloc(0) });
+      }
 
       return {
         success: true,
-        data: true,
+        data: psbt,
       };
     } catch (error) {
       return {
         success: false,
-        error: `Error ACKing withdrawal bundle: ${error}`,
+        error: `Error creating deposit PSBT: ${error}`,
       };
     }
   }
@@ -303,7 +336,8 @@ class BIP300Service {
   ): Promise<BlockchainResponse<string>> {
     try {
       // Find the bundle
-      const bundle = this.withdrawalBundles.find(bundle => bundle.bundleHash === bundleHash);
+      const state = await this.getState();
+      const bundle = state?.withdrawalBundles.find(bundle => bundle.bundleHash === bundleHash);
       
       if (!bundle) {
         return {
@@ -313,10 +347,11 @@ class BIP300Service {
       }
 
       // Check if the bundle has received enough ACKs
-      if (bundle.workScore < 13150) {
+      const { bundleWorkScoreThreshold } = this.getParams();
+      if (bundle.workScore < bundleWorkScoreThreshold) {
         return {
           success: false,
-          error: `Withdrawal bundle has not received enough ACKs (${bundle.workScore}/13150)`,
+          error: `Withdrawal bundle has not received enough ACKs (${bundle.workScore}/${bundleWorkScoreThreshold})`,
         };
       }
 
@@ -342,6 +377,50 @@ class BIP300Service {
     }
   }
 
+  /**
+   * Check a deposit (M5) or withdrawal (M6) against the validated header chain
+   * The transaction must be proven, by merkle proof, to be in the block at its height, and
+   * that block must be the one it claims.
+   * @returns The transaction with its verified flag set
+   */
+  async verifySidechainTransaction<T extends DepositTransaction | WithdrawalTransaction>(
+    transaction: T
+  ): Promise<BlockchainResponse<T>> {
+    try {
+      if (transaction.blockHeight === undefined || transaction.blockHeight <= 0) {
+        return {
+          success: false,
+          error: `Transaction ${transaction.txid} is not confirmed yet`,
+        };
+      }
+
+      const proof = await headerChainService.verifyTransaction(transaction.txid, transaction.blockHeight);
+      if (!proof.success) {
+        return {
+          success: false,
+          error: proof.error,
+          code: proof.code,
+        };
+      }
+
+      let verified = proof.data === true;
+      if (verified && transaction.blockHash) {
+        const header = await headerChainService.getHeader(transaction.blockHeight);
+        verified = header.success && header.data?.hash === transaction.blockHash;
+      }
+
+      return {
+        success: true,
+        data: { ...transaction, verified },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error verifying sidechain transaction: ${error}`,
+      };
+    }
+  }
+
   /**
    * Get the current state of a withdrawal bundle
    * Used to track the progress of a withdrawal
@@ -350,7 +429,8 @@ class BIP300Service {
     bundleHash: string
   ): Promise<BlockchainResponse<WithdrawalBundle>> {
     try {
-      const bundle = this.withdrawalBundles.find(bundle => bundle.bundleHash === bundleHash);
+      const state = await this.getState();
+      const bundle = state?.withdrawalBundles.find(bundle => bundle.bundleHash === bundleHash);
       
       if (!bundle) {
         return {
@@ -370,6 +450,319 @@ class BIP300Service {
       };
     }
   }
+
+  /**
+   * Get a withdrawal bundle with its ACK rate over the recent blocks and projected pay-out or failure
+   */
+  async getWithdrawalBundleProgress(
+    bundleHash: string
+  ): Promise<BlockchainResponse<BundleProgress>> {
+    try {
+      const applied = await this.loadApplied();
+      const progress = getBundleProgress(this.getParams(), applied.map(entry => entry.state), bundleHash);
+
+      if (!progress) {
+        return {
+          success: false,
+          error: `Withdrawal bundle with hash ${bundleHash} not found`,
+        };
+      }
+
+      return {
+        success: true,
+        data: progress,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error getting withdrawal bundle progress: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Look up the value of a sidechain's CTIP, checking it is the sidechain's escrow output
+   * @returns null if the sidechain has no CTIP yet
+   */
+  private async getCtipOutput(sidechain: SidechainInfo): Promise<BlockchainResponse<{
+    txid: string;
+    vout: number;
+    value: Satoshis;
+    previousTx: string;
+  } | null>> {
+    if (!sidechain.ctip) {
+      return {
+        success: true,
+        data: null,
+      };
+    }
+
+    const { txid, vout } = sidechain.ctip;
+    const raw = await electrumService.getRawTransaction(txid);
+    if (!raw.success || !raw.data) {
+      return {
+        success: false,
+        error: raw.error || `Failed to get the CTIP of ${sidechain.name}`,
+        code: raw.code,
+      };
+    }
+
+    const output = BitcoinTransaction.fromHex(raw.data).outs[vout];
+    if (!output || getEscrowSidechain(output.script) !== sidechain.escrowNumber) {
+      return {
+        success: false,
+        error: `${txid}:${vout} is not the escrow output of ${sidechain.name}`,
+      };
+    }
+
+    return {
+      success: true,
+      data: { txid, vout, value: output.value, previousTx: raw.data },
+    };
+  }
+
+  private async syncState(): Promise<BlockchainResponse<number>> {
+    try {
+      const network = this.network;
+      const params = BIP300_PARAMS[network];
+      const activationHeight = BIP300_ACTIVATION_HEIGHT[network];
+      if (activationHeight === null) {
+        // No sidechains to follow where BIP300 isn't active
+        return {
+          success: true,
+          data: -1,
+        };
+      }
+
+      let applied = await this.undoReplacedBlocks(await this.loadApplied());
+      let height = applied.length > 0 ? applied[applied.length - 1].state.height : activationHeight - 1;
+      const tip = headerChainService.getHeight();
+      const escrowHistories = new Map<number, AddressHistoryEntry[]>();
+
+      while (height < tip) {
+        const start = height + 1;
+        const count = Math.min(COINBASE_BATCH, tip - start + 1);
+        const headers = await headerChainService.getHeaders(start, count);
+        if (!headers.success || !headers.data) {
+          return {
+            success: false,
+            error: headers.error || `Failed to get headers from ${start}`,
+            code: headers.code,
+          };
+        }
+        const coinbases = await electrumService.getCoinbaseTransactions(start, count);
+        if (!coinbases.success || !coinbases.data) {
+          return {
+            success: false,
+            error: coinbases.error || `Failed to get coinbases from ${start}`,
+            code: coinbases.code,
+          };
+        }
+
+        let state = applied.length > 0 ? applied[applied.length - 1].state : createInitialState(height);
+        const payouts = await this.findPayouts(params, state, start, count, escrowHistories);
+        if (network !== this.network) {
+          return {
+            success: false,
+            error: 'Network changed during sidechain sync',
+          };
+        }
+
+        const next = [...applied];
+        coinbases.data.forEach(({ txid, merkle, hex }, i) => {
+          const header = headers.data![i];
+          const coinbase = BitcoinTransaction.fromHex(hex);
+          if (!coinbase.isCoinbase() || coinbase.getId() !== txid || !verifyMerkleProof(txid, merkle, 0, header.merkleRoot)) {
+            throw new Error(`Coinbase of block ${start + i} doesn't match its header`);
+          }
+          state = applyBlock(params, state, start + i, coinbase.outs.map(output => output.script), payouts.get(start + i));
+          next.push({ state, blockHash: header.hash });
+        });
+
+        applied = next.slice(-(UNDO_DEPTH + 1));
+        height = state.height;
+        await this.persist(applied);
+        this.emit({ type: 'state', height });
+      }
+
+      await this.refreshCtips();
+
+      return {
+        success: true,
+        data: height,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error syncing sidechain state: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Find the M6s in a run of blocks, by the sidechains they pay out of
+   * Only sidechains with a bundle that can be approved by the end of the run are looked at. An M6
+   * spends the sidechain's CTIP into a smaller escrow output; a deposit (M5) into a larger one.
+   * @param histories Escrow histories already fetched during this sync, by sidechain
+   * @returns Sidechains paid out of, by block height
+   */
+  private async findPayouts(
+    params: Bip300Params,
+    state: Bip300State,
+    start: number,
+    count: number,
+    histories: Map<number, AddressHistoryEntry[]>
+  ): Promise<Map<number, number[]>> {
+    const payouts = new Map<number, number[]>();
+    const end = start + count - 1;
+    const sidechainNumbers = new Set(state.withdrawalBundles
+      .filter(bundle => bundle.workScore + count >= params.bundleWorkScoreThreshold)
+      .map(bundle => bundle.sidechainNumber));
+
+    for (const sidechainNumber of sidechainNumbers) {
+      const escrowScript = getEscrowScript(sidechainNumber);
+      if (!histories.has(sidechainNumber)) {
+        const history = await electrumService.getScriptHistory(escrowScript);
+        if (!history.success || !history.data) {
+          throw new Error(history.error || `Failed to get the escrow history of sidechain ${sidechainNumber}`);
+        }
+        histories.set(sidechainNumber, history.data);
+      }
+
+      for (const entry of histories.get(sidechainNumber)!.filter(entry => entry.height >= start && entry.height <= end)) {
+        const raw = await electrumService.getRawTransaction(entry.txid);
+        if (!raw.success || !raw.data) {
+          throw new Error(raw.error || `Failed to get escrow transaction ${entry.txid}`);
+        }
+        const tx = BitcoinTransaction.fromHex(raw.data);
+        const escrowOutput = tx.outs.find(output => output.script.equals(escrowScript));
+
+        // Deposits are the only escrow transactions that may not spend a CTIP: the first one
+        const ctip = tx.ins[0];
+        const previous = await electrumService.getRawTransaction(Buffer.from(ctip.hash).reverse().toString('hex'));
+        if (!previous.success || !previous.data) {
+          throw new Error(previous.error || `Failed to get the output ${entry.txid} spends`);
+        }
+        const spent = BitcoinTransaction.fromHex(previous.data).outs[ctip.index];
+        if (spent?.script.equals(escrowScript) && (escrowOutput?.value ?? 0) < spent.value) {
+          payouts.set(entry.height, [...(payouts.get(entry.height) ?? []), sidechainNumber]);
+        }
+      }
+    }
+
+    return payouts;
+  }
+
+  /**
+   * Drop the states of blocks no longer in the validated chain, after a chain reorganization
+   * A reorg deeper than the states kept means scanning again from activation.
+   */
+  private async undoReplacedBlocks(applied: AppliedState[]): Promise<AppliedState[]> {
+    if (applied.length === 0 || headerChainService.getHeight() < 0) {
+      return applied;
+    }
+
+    const first = applied[0].state.height;
+    const last = applied[applied.length - 1].state.height;
+    const end = Math.min(last, headerChainService.getHeight());
+    const headers = end >= first ? await headerChainService.getHeaders(first, end - first + 1) : null;
+    if (headers && !headers.success) {
+      throw new Error(headers.error);
+    }
+
+    const replaced = applied.findIndex((entry, i) => headers?.data?.[i]?.hash !== entry.blockHash);
+    if (replaced === -1) {
+      return applied;
+    }
+
+    const matching = applied.slice(0, replaced);
+
+    console.warn(`Sidechain state rolled back from block ${last}`);
+    await this.persist(matching);
+    this.emit({
+      type: 'state',
+      height: matching.length > 0 ? matching[matching.length - 1].state.height : first - 1,
+    });
+    return matching;
+  }
+
+  /**
+   * Look up the CTIP of each active sidechain: the unspent output of its escrow script
+   * With a deposit still unconfirmed, that is the deposit's new escrow output.
+   */
+  private async refreshCtips(): Promise<void> {
+    const state = await this.getState();
+    if (!state) {
+      return;
+    }
+
+    for (const sidechain of state.sidechains.filter(sc => sc.isActive)) {
+      const unspent = await electrumService.getScriptUnspent(getEscrowScript(sidechain.escrowNumber));
+      if (!unspent.success || !unspent.data) {
+        console.error(`Failed to look up the CTIP of ${sidechain.name}:`, unspent.error);
+        continue;
+      }
+
+      // Mempool outputs (height 0) are the newest
+      const rank = (height: number) => height === 0 ? Number.MAX_SAFE_INTEGER : height;
+      const [latest] = [...unspent.data].sort((a, b) => rank(b.height) - rank(a.height));
+      if (latest && (latest.txid !== sidechain.ctip?.txid || latest.vout !== sidechain.ctip?.vout)) {
+        await this.setCtip(sidechain.escrowNumber, { txid: latest.txid, vout: latest.vout });
+      }
+    }
+  }
+
+  /**
+   * Record a sidechain's new CTIP in the current state
+   */
+  private async setCtip(sidechainNumber: number, ctip: { txid: string; vout: number }): Promise<void> {
+    const applied = await this.loadApplied();
+    const current = applied[applied.length - 1];
+    if (!current) {
+      return;
+    }
+
+    const state: Bip300State = {
+      ...current.state,
+      sidechains: current.state.sidechains.map(sidechain =>
+        sidechain.isActive && sidechain.escrowNumber === sidechainNumber ? { ...sidechain, ctip } : sidechain
+      ),
+    };
+    await this.persist([...applied.slice(0, -1), { ...current, state }]);
+    this.emit({ type: 'state', height: state.height });
+  }
+
+  /**
+   * State as of the last block applied, or null before the first sync
+   */
+  private async getState(): Promise<Bip300State | null> {
+    const applied = await this.loadApplied();
+    return applied.length > 0 ? applied[applied.length - 1].state : null;
+  }
+
+  private async loadApplied(): Promise<AppliedState[]> {
+    if (!this.loaded) {
+      this.applied = await storageService.getJSON<AppliedState[]>(`${STATE_KEY}:${this.network}`) ?? [];
+      await storageService.remove(`${LEGACY_STATE_KEY}:${this.network}`);
+      this.loaded = true;
+    }
+    return this.applied;
+  }
+
+  private async persist(applied: AppliedState[]): Promise<void> {
+    this.applied = applied;
+    await storageService.setJSON<AppliedState[]>(`${STATE_KEY}:${this.network}`, applied);
+  }
+
+  private emit(event: SidechainStateEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Sidechain state listener failed:', error);
+      }
+    });
+  }
 }
 
 // Export a singleton instance
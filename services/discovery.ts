@@ -0,0 +1,277 @@
+import { AddressHistoryEntry, AddressScriptType, BitcoinNetwork, BlockchainResponse, HDAccount, ScriptType, WalletAddress } from '@/types/blockchain';
+import { electrumService } from '@/services/electrum';
+import { deriveAddress } from '@/utils/hd';
+
+/**
+ * Default BIP44 gap limit: stop a chain after this many consecutive unused addresses
+ */
+export const DEFAULT_GAP_LIMIT = 20;
+
+/**
+ * Progress of an address discovery run
+ */
+export interface DiscoveryProgress {
+  scriptType: AddressScriptType;
+  change: boolean;
+  addressesScanned: number;
+  usedAddresses: number;
+  progress: number; // 0..1, fraction of chains finished
+}
+
+/**
+ * Options for an address discovery run
+ */
+export interface DiscoveryOptions {
+  gapLimit?: number;
+  onProgress?: (progress: DiscoveryProgress) => void;
+}
+
+/**
+ * Result of an address discovery run
+ */
+export interface DiscoveryResult {
+  accounts: HDAccount[]; // With next receive/change indexes past the last used address
+  usedAccounts: ScriptType[];
+  usedAddresses: WalletAddress[];
+  history: AddressHistoryEntry[];
+}
+
+/**
+ * Used addresses and their history
+ */
+export interface AddressDiscoveryResult {
+  usedAddresses: WalletAddress[];
+  history: AddressHistoryEntry[];
+}
+
+/**
+ * Result of discovering a single receive/change chain pair
+ */
+export interface ChainDiscoveryResult extends AddressDiscoveryResult {
+  nextIndexes: { receive: number; change: number }; // Past the last used address
+}
+
+/**
+ * Running totals of a discovery run, shared across its chains
+ */
+interface ScanState {
+  gapLimit: number;
+  totalChains: number;
+  chainsDone: number;
+  addressesScanned: number;
+  usedAddresses: WalletAddress[];
+  history: Map<string, AddressHistoryEntry>;
+}
+
+/**
+ * Address discovery service
+ * Walks the receive and change chains of HD accounts (or multisig vaults) up to the gap limit,
+ * or checks a fixed set of addresses such as an imported key's, and collects the history of
+ * every used address
+ */
+class DiscoveryService {
+  /**
+   * Discover used addresses and history for a set of accounts
+   */
+  async discoverAccounts(
+    accounts: HDAccount[],
+    network: BitcoinNetwork,
+    options: DiscoveryOptions = {}
+  ): Promise<BlockchainResponse<DiscoveryResult>> {
+    try {
+      const state = this.createScanState(accounts.length * 2, options);
+      const updatedAccounts: HDAccount[] = [];
+
+      for (const account of accounts) {
+        const nextIndexes = await this.scanChains(
+          account.scriptType,
+          (change, index) => deriveAddress(account, network, change, index),
+          state,
+          options
+        );
+
+        updatedAccounts.push({
+          ...account,
+          nextReceiveIndex: Math.max(account.nextReceiveIndex, nextIndexes.receive),
+          nextChangeIndex: Math.max(account.nextChangeIndex, nextIndexes.change),
+        });
+      }
+
+      this.reportDone(accounts[accounts.length - 1]?.scriptType ?? ScriptType.P2WPKH, state, options);
+
+      return {
+        success: true,
+        data: {
+          accounts: updatedAccounts,
+          usedAccounts: updatedAccounts
+            .filter(account => state.usedAddresses.some(address => address.scriptType === account.scriptType))
+            .map(account => account.scriptType),
+          usedAddresses: state.usedAddresses,
+          history: Array.from(state.history.values()),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error discovering addresses: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Discover used addresses and history for one receive/change chain pair,
+   * such as a multisig vault's, given a function deriving its addresses
+   */
+  async discoverChains(
+    scriptType: AddressScriptType,
+    derive: (change: boolean, index: number) => WalletAddress,
+    options: DiscoveryOptions = {}
+  ): Promise<BlockchainResponse<ChainDiscoveryResult>> {
+    try {
+      const state = this.createScanState(2, options);
+      const nextIndexes = await this.scanChains(scriptType, derive, state, options);
+      this.reportDone(scriptType, state, options);
+
+      return {
+        success: true,
+        data: {
+          nextIndexes,
+          usedAddresses: state.usedAddresses,
+          history: Array.from(state.history.values()),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error discovering addresses: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Look up the history of a fixed set of addresses, e.g. an imported key under each script type
+   */
+  async discoverAddresses(
+    addresses: WalletAddress[],
+    options: DiscoveryOptions = {}
+  ): Promise<BlockchainResponse<AddressDiscoveryResult>> {
+    try {
+      const usedAddresses: WalletAddress[] = [];
+      const history = new Map<string, AddressHistoryEntry>();
+
+      const response = await electrumService.getAddressHistories(addresses.map(address => address.address));
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to get address history');
+      }
+
+      response.data.forEach((entries, i) => {
+        if (entries.length > 0) {
+          usedAddresses.push(addresses[i]);
+          entries.forEach(entry => history.set(entry.txid, entry));
+        }
+      });
+
+      options.onProgress?.({
+        scriptType: addresses[addresses.length - 1]?.scriptType ?? ScriptType.P2WPKH,
+        change: false,
+        addressesScanned: addresses.length,
+        usedAddresses: usedAddresses.length,
+        progress: 1,
+      });
+
+      return {
+        success: true,
+        data: {
+          usedAddresses,
+          history: Array.from(history.values()),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error discovering addresses: ${error}`,
+      };
+    }
+  }
+
+  private createScanState(totalChains: number, options: DiscoveryOptions): ScanState {
+    return {
+      gapLimit: options.gapLimit ?? DEFAULT_GAP_LIMIT,
+      totalChains,
+      chainsDone: 0,
+      addressesScanned: 0,
+      usedAddresses: [],
+      history: new Map(),
+    };
+  }
+
+  /**
+   * Walk the receive then change chain, recording used addresses and history in the scan state
+   * @returns The next unused index of each chain
+   */
+  private async scanChains(
+    scriptType: AddressScriptType,
+    derive: (change: boolean, index: number) => WalletAddress,
+    state: ScanState,
+    options: DiscoveryOptions
+  ): Promise<{ receive: number; change: number }> {
+    const { gapLimit } = state;
+    const nextIndexes = { receive: 0, change: 0 };
+
+    for (const change of [false, true]) {
+      let index = 0;
+      let lastUsedIndex = -1;
+
+      // Query a gap-limit sized window per batch until a whole window past the last used address is empty
+      while (index - lastUsedIndex <= gapLimit) {
+        const window = Array.from({ length: gapLimit }, (_, i) => derive(change, index + i));
+
+        const response = await electrumService.getAddressHistories(window.map(address => address.address));
+        if (!response.success || !response.data) {
+          throw new Error(response.error || 'Failed to get address history');
+        }
+
+        response.data.forEach((entries, i) => {
+          if (entries.length > 0) {
+            lastUsedIndex = window[i].index;
+            state.usedAddresses.push(window[i]);
+            entries.forEach(entry => state.history.set(entry.txid, entry));
+          }
+        });
+
+        index += gapLimit;
+        state.addressesScanned += gapLimit;
+
+        options.onProgress?.({
+          scriptType,
+          change,
+          addressesScanned: state.addressesScanned,
+          usedAddresses: state.usedAddresses.length,
+          progress: state.chainsDone / state.totalChains,
+        });
+      }
+
+      if (change) {
+        nextIndexes.change = lastUsedIndex + 1;
+      } else {
+        nextIndexes.receive = lastUsedIndex + 1;
+      }
+      state.chainsDone++;
+    }
+
+    return nextIndexes;
+  }
+
+  private reportDone(scriptType: AddressScriptType, state: ScanState, options: DiscoveryOptions): void {
+    options.onProgress?.({
+      scriptType,
+      change: true,
+      addressesScanned: state.addressesScanned,
+      usedAddresses: state.usedAddresses.length,
+      progress: 1,
+    });
+  }
+}
+
+// Export a singleton instance
+export const discoveryService = new DiscoveryService();
@@ -1,4 +1,16 @@
-import { BitcoinNetwork, BlockchainResponse, UTXO } from '@/types/blockchain';
+import { address as bitcoinAddress } from 'bitcoinjs-lib';
+import { AddressHistoryEntry, BitcoinNetwork, BlockchainResponse, ElectrumServer, UTXO } from '@/types/blockchain';
+import { Satoshis } from '@/utils/amount';
+import { getNetworkParams } from '@/utils/hd';
+import {
+  ElectrumClient,
+  ElectrumError,
+  ElectrumErrorCode,
+  ElectrumTransport,
+  TcpSocketTransport,
+  addressToScripthash,
+  scriptToScripthash,
+} from '@/services/electrumClient';
 
 /**
  * Electrum server connection status
@@ -30,82 +42,87 @@ const DEFAULT_SERVERS: Record<BitcoinNetwork, ElectrumServer[]> = {
 };
 
 /**
- * Type for server configuration
+ * Backoff between attempts to reconnect after the connection drops
  */
-export interface ElectrumServer {
-  host: string;
-  port: number;
-  protocol: 'tcp' | 'ssl';
+const RECONNECT_MIN_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 60 * 1000;
+
+/**
+ * Unspent output as answered by blockchain.scripthash.listunspent
+ */
+interface ElectrumUnspent {
+  tx_hash: string;
+  tx_pos: number;
+  height: number;
+  value: number;
 }
 
+/**
+ * History item as answered by blockchain.scripthash.get_history
+ * Height is 0 for mempool transactions, -1 if they also have unconfirmed parents.
+ */
+interface ElectrumHistoryItem {
+  tx_hash: string;
+  height: number;
+  fee?: number;
+}
+
+/**
+ * Something the server pushed, or a change of connection
+ * Address status is a hash of the address's history (null if it has none), so any new
+ * or newly confirmed transaction changes it.
+ */
+export type ElectrumEvent =
+  | { type: 'connection'; status: ConnectionStatus }
+  | { type: 'status'; address: string; status: string | null }
+  | { type: 'tip'; height: number };
+
 /**
  * Electrum client service for SPV wallet functionality
  */
 class ElectrumService {
-  private client: any = null;
+  private client: ElectrumClient | null = null;
+  private createTransport: () => ElectrumTransport = () => new TcpSocketTransport();
   private network: BitcoinNetwork = BitcoinNetwork.TESTNET;
   private server: ElectrumServer | null = null;
+  private customServer: ElectrumServer | undefined;
   private connectionStatus: ConnectionStatus = ConnectionStatus.DISCONNECTED;
-  private connectionPromise: Promise<boolean> | null = null;
+  private connectionPromise: Promise<BlockchainResponse<boolean>> | null = null;
+  private tipHeight = 0;
+  private subscriptions = new Map<string, string>(); // scripthash -> address
+  private statuses = new Map<string, string | null>(); // address -> last status seen
+  private listeners = new Set<(event: ElectrumEvent) => void>();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+
+  /**
+   * Replace how connections are opened (e.g. with a transport to a local mock server in tests)
+   */
+  setTransport(createTransport: () => ElectrumTransport): void {
+    this.createTransport = createTransport;
+  }
 
   /**
    * Connect to an Electrum server
+   * Without a custom server, the network's default servers are tried in random order.
    */
   async connect(
     network: BitcoinNetwork = BitcoinNetwork.TESTNET,
     customServer?: ElectrumServer
   ): Promise<BlockchainResponse<boolean>> {
-    try {
-      if (this.connectionStatus === ConnectionStatus.CONNECTING) {
-        // Wait for existing connection attempt to finish
-        if (this.connectionPromise) {
-          return {
-            success: await this.connectionPromise,
-          };
-        }
+    if (this.connectionStatus === ConnectionStatus.CONNECTING && this.connectionPromise) {
+      // Wait for existing connection attempt to finish, and use it if it was for this network
+      const result = await this.connectionPromise;
+      if (this.network === network && !customServer) {
+        return result;
       }
+    }
 
-      this.network = network;
-      this.connectionStatus = ConnectionStatus.CONNECTING;
-
-      // Use custom server if provided, otherwise pick a random server from defaults
-      const servers = customServer 
-        ? [customServer] 
-        : DEFAULT_SERVERS[network];
-      
-      const randomIndex = Math.floor(Math.random() * servers.length);
-      this.server = servers[randomIndex];
-
-      // Create connection promise
-      this.connectionPromise = new Promise(async (resolve) => {
-        try {
-          // In a real implementation, we would use a library like react-native-electrum-client
-          // For now, we'll simulate the connection
-          setTimeout(() => {
-            this.connectionStatus = ConnectionStatus.CONNECTED;
-            resolve(true);
-          }, 1000);
-        } catch (error) {
-          this.connectionStatus = ConnectionStatus.ERROR;
-          console.error('Failed to connect to Electrum server:', error);
-          resolve(false);
-        }
-      });
-
-      const connected = await this.connectionPromise;
-      this.connectionPromise = null;
-
-      return {
-        success: connected,
-        error: connected ? undefined : 'Failed to connect to Electrum server',
-      };
-    } catch (error) {
-      this.connectionStatus = ConnectionStatus.ERROR;
+    this.connectionPromise = this.openConnection(network, customServer);
+    try {
+      return await this.connectionPromise;
+    } finally {
       this.connectionPromise = null;
-      return {
-        success: false,
-        error: `Error connecting to Electrum server: ${error}`,
-      };
     }
   }
 
@@ -113,15 +130,17 @@ class ElectrumService {
    * Disconnect from the Electrum server
    */
   async disconnect(): Promise<BlockchainResponse<boolean>> {
+    this.cancelReconnect();
     if (this.connectionStatus === ConnectionStatus.DISCONNECTED) {
       return { success: true };
     }
 
     try {
-      // In a real implementation, we would close the connection
-      // For now, we'll simulate the disconnection
-      this.connectionStatus = ConnectionStatus.DISCONNECTED;
+      const client = this.client;
+      this.client = null;
+      client?.close();
       this.server = null;
+      this.setStatus(ConnectionStatus.DISCONNECTED);
       return { success: true };
     } catch (error) {
       return {
@@ -132,157 +151,482 @@ class ElectrumService {
   }
 
   /**
-   * Get the balance for an address
+   * Get the balance for an address (blockchain.scripthash.get_balance)
    */
-  async getAddressBalance(address: string): Promise<BlockchainResponse<{ confirmed: number; unconfirmed: number }>> {
-    if (this.connectionStatus !== ConnectionStatus.CONNECTED) {
-      return {
-        success: false,
-        error: 'Not connected to Electrum server',
-      };
+  async getAddressBalance(address: string): Promise<BlockchainResponse<{ confirmed: Satoshis; unconfirmed: Satoshis }>> {
+    if (!this.client || this.connectionStatus !== ConnectionStatus.CONNECTED) {
+      return notConnected();
     }
 
     try {
-      // In a real implementation, we would call the Electrum server
-      // For now, we'll return mock data
+      const balance = await this.client.request<{ confirmed: number; unconfirmed: number }>(
+        'blockchain.scripthash.get_balance',
+        [addressToScripthash(address, this.network)]
+      );
       return {
         success: true,
         data: {
-          confirmed: 0.05,
-          unconfirmed: 0,
+          confirmed: balance.confirmed,
+          unconfirmed: balance.unconfirmed,
         },
       };
     } catch (error) {
       return {
         success: false,
         error: `Error getting address balance: ${error}`,
+        code: getErrorCode(error),
       };
     }
   }
 
   /**
-   * Get UTXOs for an address
+   * Get the balances of several addresses in one batched request
+   * @returns One balance per address, in the same order
    */
-  async getAddressUtxos(address: string): Promise<BlockchainResponse<UTXO[]>> {
-    if (this.connectionStatus !== ConnectionStatus.CONNECTED) {
+  async getAddressBalances(
+    addresses: string[]
+  ): Promise<BlockchainResponse<{ confirmed: Satoshis; unconfirmed: Satoshis }[]>> {
+    if (!this.client || this.connectionStatus !== ConnectionStatus.CONNECTED) {
+      return notConnected();
+    }
+
+    try {
+      const balances = await this.client.batch<{ confirmed: number; unconfirmed: number }>(addresses.map(address => ({
+        method: 'blockchain.scripthash.get_balance',
+        params: [addressToScripthash(address, this.network)],
+      })));
+      return {
+        success: true,
+        data: balances.map(balance => ({
+          confirmed: balance.confirmed,
+          unconfirmed: balance.unconfirmed,
+        })),
+      };
+    } catch (error) {
       return {
         success: false,
-        error: 'Not connected to Electrum server',
+        error: `Error getting address balances: ${error}`,
+        code: getErrorCode(error),
       };
     }
+  }
+
+  /**
+   * Get UTXOs for an address (blockchain.scripthash.listunspent)
+   */
+  async getAddressUtxos(address: string): Promise<BlockchainResponse<UTXO[]>> {
+    if (!this.client || this.connectionStatus !== ConnectionStatus.CONNECTED) {
+      return notConnected();
+    }
 
     try {
-      // In a real implementation, we would call the Electrum server
-      // For now, we'll return mock data
+      const scriptPubKey = bitcoinAddress.toOutputScript(address, getNetworkParams(this.network)).toString('hex');
+      const unspent = await this.client.request<ElectrumUnspent[]>(
+        'blockchain.scripthash.listunspent',
+        [addressToScripthash(address, this.network)]
+      );
       return {
         success: true,
-        data: [
-          {
-            txid: '7ea0d7c5fa0a5a5c1b5f2c8209d90b0cc459450c1ad025680bd7861ed970379c',
-            vout: 0,
-            address,
-            scriptPubKey: '76a914e6aad9d712c419ea8febf009a4f421347d6d4ee588ac',
-            amount: 0.05,
-            confirmations: 10,
-            spendable: true,
-          },
-        ],
+        data: unspent.map(utxo => ({
+          txid: utxo.tx_hash,
+          vout: utxo.tx_pos,
+          address,
+          scriptPubKey,
+          amount: utxo.value,
+          confirmations: utxo.height > 0 ? Math.max(this.tipHeight - utxo.height + 1, 1) : 0,
+          spendable: true,
+        })),
       };
     } catch (error) {
       return {
         success: false,
         error: `Error getting address UTXOs: ${error}`,
+        code: getErrorCode(error),
+      };
+    }
+  }
+
+  /**
+   * Get the unspent outputs of a script without an address, such as a sidechain escrow
+   * (blockchain.scripthash.listunspent)
+   * @returns Outputs with the height they confirmed at, 0 if unconfirmed
+   */
+  async getScriptUnspent(
+    script: Buffer
+  ): Promise<BlockchainResponse<{ txid: string; vout: number; value: Satoshis; height: number }[]>> {
+    if (!this.client || this.connectionStatus !== ConnectionStatus.CONNECTED) {
+      return notConnected();
+    }
+
+    try {
+      const unspent = await this.client.request<ElectrumUnspent[]>(
+        'blockchain.scripthash.listunspent',
+        [scriptToScripthash(script)]
+      );
+      return {
+        success: true,
+        data: unspent.map(utxo => ({
+          txid: utxo.tx_hash,
+          vout: utxo.tx_pos,
+          value: utxo.value,
+          height: Math.max(utxo.height, 0),
+        })),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error getting script UTXOs: ${error}`,
+        code: getErrorCode(error),
       };
     }
   }
 
   /**
-   * Get transaction history for an address
+   * Get the transaction history of a script without an address, such as a sidechain escrow
+   * (blockchain.scripthash.get_history)
    */
-  async getAddressHistory(address: string): Promise<BlockchainResponse<any[]>> {
-    if (this.connectionStatus !== ConnectionStatus.CONNECTED) {
+  async getScriptHistory(script: Buffer): Promise<BlockchainResponse<AddressHistoryEntry[]>> {
+    if (!this.client || this.connectionStatus !== ConnectionStatus.CONNECTED) {
+      return notConnected();
+    }
+
+    try {
+      const history = await this.client.request<ElectrumHistoryItem[]>(
+        'blockchain.scripthash.get_history',
+        [scriptToScripthash(script)]
+      );
+      return {
+        success: true,
+        data: history.map(item => ({
+          txid: item.tx_hash,
+          height: item.height,
+          fee: item.fee,
+        })),
+      };
+    } catch (error) {
       return {
         success: false,
-        error: 'Not connected to Electrum server',
+        error: `Error getting script history: ${error}`,
+        code: getErrorCode(error),
       };
     }
+  }
+
+  /**
+   * Get transaction history for an address (blockchain.scripthash.get_history)
+   */
+  async getAddressHistory(address: string): Promise<BlockchainResponse<AddressHistoryEntry[]>> {
+    const response = await this.getAddressHistories([address]);
+    return {
+      ...response,
+      data: response.data?.[0],
+    };
+  }
+
+  /**
+   * Get the transaction histories of several addresses in one batched request
+   * @returns One history per address, in the same order
+   */
+  async getAddressHistories(addresses: string[]): Promise<BlockchainResponse<AddressHistoryEntry[][]>> {
+    if (!this.client || this.connectionStatus !== ConnectionStatus.CONNECTED) {
+      return notConnected();
+    }
 
     try {
-      // In a real implementation, we would call the Electrum server
-      // For now, we'll return mock data
+      const histories = await this.client.batch<ElectrumHistoryItem[]>(addresses.map(address => ({
+        method: 'blockchain.scripthash.get_history',
+        params: [addressToScripthash(address, this.network)],
+      })));
       return {
         success: true,
-        data: [
-          {
-            txid: '7ea0d7c5fa0a5a5c1b5f2c8209d90b0cc459450c1ad025680bd7861ed970379c',
-            height: 700000,
-          },
-        ],
+        data: histories.map(history => history.map(item => ({
+          txid: item.tx_hash,
+          height: item.height,
+          fee: item.fee,
+        }))),
       };
     } catch (error) {
       return {
         success: false,
         error: `Error getting address history: ${error}`,
+        code: getErrorCode(error),
       };
     }
   }
 
   /**
-   * Get transaction details
+   * Get transaction details (verbose blockchain.transaction.get)
+   * Not every server supports verbose transactions; those answer with an error code.
    */
   async getTransaction(txid: string): Promise<BlockchainResponse<any>> {
-    if (this.connectionStatus !== ConnectionStatus.CONNECTED) {
+    if (!this.client || this.connectionStatus !== ConnectionStatus.CONNECTED) {
+      return notConnected();
+    }
+
+    try {
+      return {
+        success: true,
+        data: await this.client.request<any>('blockchain.transaction.get', [txid, true]),
+      };
+    } catch (error) {
       return {
         success: false,
-        error: 'Not connected to Electrum server',
+        error: `Error getting transaction: ${error}`,
+        code: getErrorCode(error),
       };
     }
+  }
+
+  /**
+   * Get a transaction as raw hex (blockchain.transaction.get)
+   */
+  async getRawTransaction(txid: string): Promise<BlockchainResponse<string>> {
+    if (!this.client || this.connectionStatus !== ConnectionStatus.CONNECTED) {
+      return notConnected();
+    }
 
     try {
-      // In a real implementation, we would call the Electrum server
-      // For now, we'll return mock data
+      return {
+        success: true,
+        data: await this.client.request<string>('blockchain.transaction.get', [txid]),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error getting raw transaction: ${error}`,
+        code: getErrorCode(error),
+      };
+    }
+  }
+
+  /**
+   * Broadcast a transaction (blockchain.transaction.broadcast)
+   * Rejections by the node come back with the server's error code and message.
+   */
+  async broadcastTransaction(rawTx: string): Promise<BlockchainResponse<string>> {
+    if (!this.client || this.connectionStatus !== ConnectionStatus.CONNECTED) {
+      return notConnected();
+    }
+
+    try {
+      return {
+        success: true,
+        data: await this.client.request<string>('blockchain.transaction.broadcast', [rawTx]),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error broadcasting transaction: ${error}`,
+        code: getErrorCode(error),
+      };
+    }
+  }
+
+  /**
+   * Get a run of raw block headers (blockchain.block.headers)
+   * Servers return at most 2016 headers per call, and fewer past their tip.
+   * @returns 80-byte headers as hex, from startHeight up
+   */
+  async getBlockHeaders(startHeight: number, count: number): Promise<BlockchainResponse<string[]>> {
+    if (!this.client || this.connectionStatus !== ConnectionStatus.CONNECTED) {
+      return notConnected();
+    }
+
+    try {
+      const response = await this.client.request<{ count: number; hex: string }>(
+        'blockchain.block.headers',
+        [startHeight, count]
+      );
+      return {
+        success: true,
+        data: Array.from({ length: response.count }, (_, i) => response.hex.slice(i * 160, (i + 1) * 160)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error getting block headers: ${error}`,
+        code: getErrorCode(error),
+      };
+    }
+  }
+
+  /**
+   * Get the merkle branch proving a transaction is in a block (blockchain.transaction.get_merkle)
+   * @param height Height of the block the transaction confirmed in
+   */
+  async getMerkleProof(
+    txid: string,
+    height: number
+  ): Promise<BlockchainResponse<{ blockHeight: number; merkle: string[]; pos: number }>> {
+    if (!this.client || this.connectionStatus !== ConnectionStatus.CONNECTED) {
+      return notConnected();
+    }
+
+    try {
+      const proof = await this.client.request<{ block_height: number; merkle: string[]; pos: number }>(
+        'blockchain.transaction.get_merkle',
+        [txid, height]
+      );
       return {
         success: true,
         data: {
-          txid,
-          confirmations: 10,
-          // ... other transaction data
+          blockHeight: proof.block_height,
+          merkle: proof.merkle,
+          pos: proof.pos,
         },
       };
     } catch (error) {
       return {
         success: false,
-        error: `Error getting transaction: ${error}`,
+        error: `Error getting merkle proof: ${error}`,
+        code: getErrorCode(error),
       };
     }
   }
 
   /**
-   * Broadcast a transaction
+   * Get the coinbase transactions of a run of blocks, with their merkle branches
+   * (blockchain.transaction.id_from_pos and blockchain.transaction.get, batched)
+   * @returns Coinbases from startHeight up, as raw hex
    */
-  async broadcastTransaction(rawTx: string): Promise<BlockchainResponse<string>> {
-    if (this.connectionStatus !== ConnectionStatus.CONNECTED) {
+  async getCoinbaseTransactions(
+    startHeight: number,
+    count: number
+  ): Promise<BlockchainResponse<{ height: number; txid: string; merkle: string[]; hex: string }[]>> {
+    if (!this.client || this.connectionStatus !== ConnectionStatus.CONNECTED) {
+      return notConnected();
+    }
+
+    try {
+      const heights = Array.from({ length: count }, (_, i) => startHeight + i);
+      const positions = await this.client.batch<{ tx_hash: string; merkle: string[] }>(heights.map(height => ({
+        method: 'blockchain.transaction.id_from_pos',
+        params: [height, 0, true],
+      })));
+      const transactions = await this.client.batch<string>(positions.map(position => ({
+        method: 'blockchain.transaction.get',
+        params: [position.tx_hash],
+      })));
+      return {
+        success: true,
+        data: heights.map((height, i) => ({
+          height,
+          txid: positions[i].tx_hash,
+          merkle: positions[i].merkle,
+          hex: transactions[i],
+        })),
+      };
+    } catch (error) {
       return {
         success: false,
-        error: 'Not connected to Electrum server',
+        error: `Error getting coinbase transactions: ${error}`,
+        code: getErrorCode(error),
       };
     }
+  }
+
+  /**
+   * Estimate the fee rate needed to confirm within a number of blocks (blockchain.estimatefee)
+   * @returns Fee rate in sat/vB, or -1 if the server has no estimate
+   */
+  async estimateFee(targetBlocks: number): Promise<BlockchainResponse<number>> {
+    if (!this.client || this.connectionStatus !== ConnectionStatus.CONNECTED) {
+      return notConnected();
+    }
 
     try {
-      // In a real implementation, we would call the Electrum server
-      // For now, we'll return a mock txid
+      // The server answers in BTC/kB
+      const btcPerKb = await this.client.request<number>('blockchain.estimatefee', [targetBlocks]);
       return {
         success: true,
-        data: '7ea0d7c5fa0a5a5c1b5f2c8209d90b0cc459450c1ad025680bd7861ed970379c',
+        data: btcPerKb < 0 ? -1 : (btcPerKb * 100000000) / 1000,
       };
     } catch (error) {
       return {
         success: false,
-        error: `Error broadcasting transaction: ${error}`,
+        error: `Error estimating fee: ${error}`,
+        code: getErrorCode(error),
       };
     }
   }
 
+  /**
+   * Get the mempool fee histogram (mempool.get_fee_histogram)
+   * @returns [feeRate (sat/vB), vsize] pairs in descending fee rate order
+   */
+  async getFeeHistogram(): Promise<BlockchainResponse<[number, number][]>> {
+    if (!this.client || this.connectionStatus !== ConnectionStatus.CONNECTED) {
+      return notConnected();
+    }
+
+    try {
+      return {
+        success: true,
+        data: await this.client.request<[number, number][]>('mempool.get_fee_histogram'),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error getting fee histogram: ${error}`,
+        code: getErrorCode(error),
+      };
+    }
+  }
+
+  /**
+   * Get the height of the server's chain tip, kept current by blockchain.headers.subscribe
+   */
+  getTipHeight(): number {
+    return this.tipHeight;
+  }
+
+  /**
+   * Watch addresses for new transactions (blockchain.scripthash.subscribe)
+   * Subscriptions outlive the connection: they are renewed after every reconnect, and a
+   * status event is emitted whenever an address's status differs from the last one seen.
+   */
+  async subscribeAddresses(addresses: string[]): Promise<BlockchainResponse<boolean>> {
+    try {
+      const known = new Set(this.subscriptions.values());
+      const added = Array.from(new Set(addresses.filter(address => !known.has(address))));
+      added.forEach(address => this.subscriptions.set(addressToScripthash(address, this.network), address));
+
+      if (added.length > 0 && this.client && this.connectionStatus === ConnectionStatus.CONNECTED) {
+        await this.sendSubscriptions(this.client, added);
+      }
+
+      return {
+        success: true,
+        data: true,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error subscribing to addresses: ${error}`,
+        code: getErrorCode(error),
+      };
+    }
+  }
+
+  /**
+   * Forget every address subscription, e.g. when the wallets are reset
+   */
+  clearSubscriptions(): void {
+    this.subscriptions.clear();
+    this.statuses.clear();
+  }
+
+  /**
+   * Listen for address status changes, new blocks and connection changes
+   * @returns A function removing the listener
+   */
+  addListener(listener: (event: ElectrumEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
   /**
    * Get the current connection status
    */
@@ -303,7 +647,192 @@ class ElectrumService {
   getServer(): ElectrumServer | null {
     return this.server;
   }
+
+  /**
+   * Try the candidate servers until one answers the version handshake
+   */
+  private async openConnection(
+    network: BitcoinNetwork,
+    customServer?: ElectrumServer
+  ): Promise<BlockchainResponse<boolean>> {
+    await this.disconnect();
+    if (network !== this.network) {
+      // Addresses of another network can't be watched here
+      this.clearSubscriptions();
+    }
+    this.network = network;
+    this.customServer = customServer;
+    this.setStatus(ConnectionStatus.CONNECTING);
+
+    // Use custom server if provided, otherwise start from a random default server
+    const servers = customServer
+      ? [customServer]
+      : DEFAULT_SERVERS[network];
+    const randomIndex = Math.floor(Math.random() * servers.length);
+    const candidates = [...servers.slice(randomIndex), ...servers.slice(0, randomIndex)];
+
+    let lastError: unknown = null;
+    for (const server of candidates) {
+      const client: ElectrumClient = new ElectrumClient(this.createTransport(), {
+        onNotification: (method, params) => this.handleNotification(client, method, params),
+        onClose: error => this.handleClose(client, error),
+      });
+      try {
+        await client.connect(server);
+        const tip = await client.request<{ height: number }>('blockchain.headers.subscribe');
+        this.client = client;
+        this.server = server;
+        this.reconnectAttempts = 0;
+        this.setStatus(ConnectionStatus.CONNECTED);
+        this.setTipHeight(tip.height);
+
+        // Renew the address subscriptions, catching up on anything missed while disconnected
+        const addresses = Array.from(this.subscriptions.values());
+        if (addresses.length > 0) {
+          await this.sendSubscriptions(client, addresses).catch(error =>
+            console.error('Failed to renew address subscriptions:', error)
+          );
+        }
+        return { success: true };
+      } catch (error) {
+        client.close();
+        lastError = error;
+        console.error(`Failed to connect to Electrum server ${server.host}:${server.port}:`, error);
+      }
+    }
+
+    this.setStatus(ConnectionStatus.ERROR);
+    return {
+      success: false,
+      error: `Error connecting to Electrum server: ${lastError}`,
+      code: getErrorCode(lastError),
+    };
+  }
+
+  /**
+   * Track a dropped connection and start reconnecting
+   */
+  private handleClose(client: ElectrumClient, error?: Error): void {
+    if (client !== this.client) return;
+
+    this.client = null;
+    this.setStatus(error ? ConnectionStatus.ERROR : ConnectionStatus.DISCONNECTED);
+    this.scheduleReconnect();
+  }
+
+  /**
+   * Reconnect to the same network (and custom server, if one was chosen) after a growing delay
+   * A successful reconnect re-subscribes to headers and every watched address; a failed one
+   * schedules the next attempt. disconnect() and connect() cancel it.
+   */
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) return;
+
+    const delay = Math.min(RECONNECT_MIN_DELAY_MS * 2 ** this.reconnectAttempts, RECONNECT_MAX_DELAY_MS);
+    this.reconnectAttempts++;
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      if (this.connectionStatus === ConnectionStatus.CONNECTED || this.connectionStatus === ConnectionStatus.CONNECTING) {
+        return;
+      }
+
+      const response = await this.connect(this.network, this.customServer);
+      if (!response.success) {
+        this.scheduleReconnect();
+      }
+    }, delay);
+  }
+
+  private cancelReconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  /**
+   * Apply a subscription notification from the current connection
+   */
+  private handleNotification(client: ElectrumClient, method: string, params: unknown[]): void {
+    if (client !== this.client) return;
+
+    if (method === 'blockchain.headers.subscribe') {
+      const header = params[0];
+      if (typeof header === 'object' && header !== null && 'height' in header && typeof header.height === 'number') {
+        this.setTipHeight(header.height);
+      }
+    } else if (method === 'blockchain.scripthash.subscribe' && typeof params[0] === 'string') {
+      const address = this.subscriptions.get(params[0]);
+      const status = params[1];
+      if (address && (typeof status === 'string' || status === null || status === undefined)) {
+        this.setAddressStatus(address, status ?? null);
+      }
+    }
+  }
+
+  /**
+   * Subscribe addresses in one batch and record their current statuses
+   */
+  private async sendSubscriptions(client: ElectrumClient, addresses: string[]): Promise<void> {
+    const statuses = await client.batch<string | null>(addresses.map(address => ({
+      method: 'blockchain.scripthash.subscribe',
+      params: [addressToScripthash(address, this.network)],
+    })));
+    addresses.forEach((address, i) => this.setAddressStatus(address, statuses[i]));
+  }
+
+  private setAddressStatus(address: string, status: string | null): void {
+    const previous = this.statuses.get(address);
+    this.statuses.set(address, status);
+
+    // An address first seen without history has nothing to refresh
+    if (previous !== status && !(previous === undefined && status === null)) {
+      this.emit({ type: 'status', address, status });
+    }
+  }
+
+  private setTipHeight(height: number): void {
+    if (height !== this.tipHeight) {
+      this.tipHeight = height;
+      this.emit({ type: 'tip', height });
+    }
+  }
+
+  private setStatus(status: ConnectionStatus): void {
+    if (status !== this.connectionStatus) {
+      this.connectionStatus = status;
+      this.emit({ type: 'connection', status });
+    }
+  }
+
+  private emit(event: ElectrumEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Electrum event listener failed:', error);
+      }
+    });
+  }
 }
 
 // Export a singleton instance
-export const electrumService = new ElectrumService(); 
\ No newline at end of file
+export const electrumService = new ElectrumService();
+
+/**
+ * Response for calls made while disconnected
+ */
+function notConnected<T>(): BlockchainResponse<T> {
+  return {
+    success: false,
+    error: 'Not connected to Electrum server',
+    code: ElectrumErrorCode.NOT_CONNECTED,
+  };
+}
+
+/**
+ * Code of a server or connection error, for BlockchainResponse.code
+ */
+function getErrorCode(error: unknown): number | undefined {
+  return error instanceof ElectrumError ? error.code : undefined;
+}
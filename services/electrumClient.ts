@@ -0,0 +1,361 @@
+import TcpSocket from 'react-native-tcp-socket';
+import { address as bitcoinAddress, crypto } from 'bitcoinjs-lib';
+import { BitcoinNetwork, ElectrumServer } from '@/types/blockchain';
+import { getNetworkParams } from '@/utils/hd';
+
+/**
+ * Electrum protocol client: newline-delimited JSON-RPC over TCP or TLS
+ * https://electrumx-spesmilo.readthedocs.io/en/latest/protocol.html
+ */
+
+export const CLIENT_NAME = 'BIP300 Wallet';
+export const PROTOCOL_VERSION = '1.4';
+
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Error codes surfaced in BlockchainResponse.code
+ * Positive and JSON-RPC codes come from the server; the negative local ones are
+ * outside the range JSON-RPC reserves.
+ */
+export enum ElectrumErrorCode {
+  // Answered by the server
+  BAD_REQUEST = 1,
+  DAEMON_ERROR = 2,
+  PARSE_ERROR = -32700,
+  INVALID_REQUEST = -32600,
+  METHOD_NOT_FOUND = -32601,
+  INVALID_PARAMS = -32602,
+  INTERNAL_ERROR = -32603,
+  // Raised locally
+  NOT_CONNECTED = -1,
+  CONNECTION_FAILED = -2,
+  CONNECTION_CLOSED = -3,
+  TIMEOUT = -4,
+  INVALID_RESPONSE = -5,
+}
+
+/**
+ * An error answered by the server or raised by the client, with its code
+ */
+export class ElectrumError extends Error {
+  constructor(message: string, public code: number) {
+    super(message);
+    this.name = 'ElectrumError';
+  }
+}
+
+/**
+ * Callbacks a transport reports incoming data and disconnection through
+ */
+export interface ElectrumTransportHandlers {
+  onData(chunk: string): void;
+  onClose(error?: Error): void;
+}
+
+/**
+ * Byte stream to an Electrum server
+ * Implement this to run the client over another socket library or against a test server.
+ */
+export interface ElectrumTransport {
+  connect(server: ElectrumServer, handlers: ElectrumTransportHandlers): Promise<void>;
+  write(data: string): void;
+  close(): void;
+}
+
+/**
+ * Default transport using the device's TCP/TLS sockets
+ */
+export class TcpSocketTransport implements ElectrumTransport {
+  private socket: ReturnType<typeof TcpSocket.createConnection> | null = null;
+
+  connect(server: ElectrumServer, handlers: ElectrumTransportHandlers): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let connected = false;
+      const options = {
+        host: server.host,
+        port: server.port,
+        tls: server.protocol === 'ssl',
+      };
+
+      const socket = TcpSocket.createConnection(options, () => {
+        connected = true;
+        resolve();
+      });
+      socket.setEncoding('utf8');
+      socket.on('data', data => handlers.onData(data.toString()));
+      socket.on('error', error => {
+        if (!connected) {
+          reject(error);
+        }
+        handlers.onClose(error);
+      });
+      socket.on('close', () => handlers.onClose());
+      this.socket = socket;
+    });
+  }
+
+  write(data: string): void {
+    this.socket?.write(data, 'utf8');
+  }
+
+  close(): void {
+    this.socket?.destroy();
+    this.socket = null;
+  }
+}
+
+/**
+ * A call in a batch
+ */
+export interface ElectrumRequest {
+  method: string;
+  params: unknown[];
+}
+
+/**
+ * Callbacks for what the server sends without being asked
+ */
+export interface ElectrumClientHandlers {
+  onNotification?(method: string, params: unknown[]): void;
+  onClose?(error?: Error): void; // Called when the connection drops after being established
+}
+
+interface PendingRequest {
+  resolve(result: unknown): void;
+  reject(error: ElectrumError): void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * JSON-RPC session with one Electrum server
+ */
+export class ElectrumClient {
+  private nextId = 0;
+  private pending = new Map<number, PendingRequest>();
+  private buffer = '';
+  private open = false;
+  private serverVersion: [string, string] | null = null;
+
+  constructor(
+    private transport: ElectrumTransport,
+    private handlers: ElectrumClientHandlers = {},
+    private timeoutMs = REQUEST_TIMEOUT_MS
+  ) {}
+
+  /**
+   * Open the connection and negotiate the protocol version (server.version)
+   * @returns The server software and the negotiated protocol version
+   */
+  async connect(server: ElectrumServer): Promise<[string, string]> {
+    try {
+      await this.transport.connect(server, {
+        onData: chunk => this.handleData(chunk),
+        onClose: error => this.handleClose(error),
+      });
+    } catch (error) {
+      throw new ElectrumError(
+        `Could not reach ${server.host}:${server.port} (${(error as Error).message ?? error})`,
+        ElectrumErrorCode.CONNECTION_FAILED
+      );
+    }
+
+    this.open = true;
+    try {
+      this.serverVersion = await this.request<[string, string]>('server.version', [CLIENT_NAME, PROTOCOL_VERSION]);
+    } catch (error) {
+      this.close();
+      throw error;
+    }
+    return this.serverVersion;
+  }
+
+  /**
+   * Close the connection, failing any requests still waiting for an answer
+   */
+  close(): void {
+    if (!this.open) return;
+    this.open = false;
+    this.transport.close();
+    this.failPending(new ElectrumError('Connection closed', ElectrumErrorCode.CONNECTION_CLOSED));
+  }
+
+  /**
+   * Whether the connection is open
+   */
+  isOpen(): boolean {
+    return this.open;
+  }
+
+  /**
+   * The server software and protocol version agreed on connect
+   */
+  getServerVersion(): [string, string] | null {
+    return this.serverVersion;
+  }
+
+  /**
+   * Send one request and wait for its result
+   */
+  request<T>(method: string, params: unknown[] = []): Promise<T> {
+    const [message, promise] = this.prepare<T>({ method, params });
+    this.send(JSON.stringify(message));
+    return promise;
+  }
+
+  /**
+   * Send several requests as one JSON-RPC batch
+   * Rejects with the first error if any call fails.
+   */
+  batch<T>(requests: ElectrumRequest[]): Promise<T[]> {
+    if (requests.length === 0) {
+      return Promise.resolve([]);
+    }
+
+    const prepared = requests.map(request => this.prepare<T>(request));
+    this.send(JSON.stringify(prepared.map(([message]) => message)));
+    return Promise.all(prepared.map(([, promise]) => promise));
+  }
+
+  /**
+   * Register a pending request and build its message
+   */
+  private prepare<T>(request: ElectrumRequest): [object, Promise<T>] {
+    const id = this.nextId++;
+    const message = { jsonrpc: '2.0', id, method: request.method, params: request.params };
+    const promise = new Promise<T>((resolve, reject) => {
+      if (!this.open) {
+        reject(new ElectrumError('Not connected to Electrum server', ElectrumErrorCode.NOT_CONNECTED));
+        return;
+      }
+
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new ElectrumError(`${request.method} timed out`, ElectrumErrorCode.TIMEOUT));
+      }, this.timeoutMs);
+      this.pending.set(id, { resolve, reject, timer });
+    });
+    return [message, promise];
+  }
+
+  /**
+   * Write one newline-terminated message
+   */
+  private send(data: string): void {
+    if (this.open) {
+      this.transport.write(data + '\n');
+    }
+  }
+
+  /**
+   * Split incoming data into messages on newlines
+   */
+  private handleData(chunk: string): void {
+    this.buffer += chunk;
+
+    let newline = this.buffer.indexOf('\n');
+    while (newline !== -1) {
+      const line = this.buffer.slice(0, newline).trim();
+      this.buffer = this.buffer.slice(newline + 1);
+      if (line) {
+        this.handleLine(line);
+      }
+      newline = this.buffer.indexOf('\n');
+    }
+  }
+
+  /**
+   * Resolve the requests a message (or batch of messages) answers, or pass on notifications
+   */
+  private handleLine(line: string): void {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      this.close();
+      this.handlers.onClose?.(new ElectrumError('Server sent invalid JSON', ElectrumErrorCode.INVALID_RESPONSE));
+      return;
+    }
+
+    const messages: unknown[] = Array.isArray(parsed) ? parsed : [parsed];
+    messages.forEach(message => {
+      if (!isObject(message)) return;
+
+      // Subscription notifications carry a method and no id
+      if (typeof message.method === 'string' && message.id === undefined) {
+        this.handlers.onNotification?.(message.method, Array.isArray(message.params) ? message.params : []);
+        return;
+      }
+      if (typeof message.id !== 'number') return;
+
+      const pending = this.pending.get(message.id);
+      if (!pending) return;
+
+      this.pending.delete(message.id);
+      clearTimeout(pending.timer);
+      if (message.error) {
+        pending.reject(toElectrumError(message.error));
+      } else {
+        pending.resolve(message.result);
+      }
+    });
+  }
+
+  /**
+   * Fail pending requests once the transport drops
+   */
+  private handleClose(error?: Error): void {
+    if (!this.open) return;
+    this.open = false;
+    this.failPending(new ElectrumError(
+      error ? `Connection lost (${error.message})` : 'Connection closed by server',
+      ElectrumErrorCode.CONNECTION_CLOSED
+    ));
+    this.handlers.onClose?.(error);
+  }
+
+  private failPending(error: ElectrumError): void {
+    this.pending.forEach(pending => {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+    });
+    this.pending.clear();
+    this.buffer = '';
+  }
+}
+
+/**
+ * Electrum script hash of an address: the reversed sha256 of its output script, in hex
+ */
+export function addressToScripthash(address: string, network: BitcoinNetwork): string {
+  return scriptToScripthash(bitcoinAddress.toOutputScript(address, getNetworkParams(network)));
+}
+
+/**
+ * Electrum script hash of an output script, for scripts without an address
+ */
+export function scriptToScripthash(script: Buffer): string {
+  return Buffer.from(crypto.sha256(script)).reverse().toString('hex');
+}
+
+/**
+ * Map a JSON-RPC error object to an ElectrumError
+ * Servers answer either { code, message } or, in older versions, a bare string.
+ */
+function toElectrumError(error: unknown): ElectrumError {
+  if (typeof error === 'string') {
+    return new ElectrumError(error, ElectrumErrorCode.BAD_REQUEST);
+  }
+
+  const fields = isObject(error) ? error : {};
+  const code = typeof fields.code === 'number' ? fields.code : ElectrumErrorCode.INVALID_RESPONSE;
+  const message = typeof fields.message === 'string' ? fields.message : JSON.stringify(error);
+  return new ElectrumError(message, code);
+}
+
+/**
+ * Whether a parsed JSON value is an object whose fields can be inspected
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
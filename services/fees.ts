@@ -0,0 +1,172 @@
+import { BlockchainResponse } from '@/types/blockchain';
+import { electrumService } from '@/services/electrum';
+import { Satoshis } from '@/utils/amount';
+
+/**
+ * Fee priority presets
+ */
+export type FeePriority = 'slow' | 'normal' | 'fast';
+
+/**
+ * A fee rate suggestion for a priority
+ */
+export interface FeeEstimate {
+  priority: FeePriority;
+  feeRate: number; // sat/vB
+  targetBlocks: number;
+  expectedMinutes: number;
+}
+
+/**
+ * Confirmation targets of the presets
+ */
+export const FEE_PRIORITY_TARGETS: Record<FeePriority, number> = {
+  fast: 1,
+  normal: 6,
+  slow: 24,
+};
+
+/**
+ * Relay floor and a sanity ceiling for fee rates (sat/vB)
+ */
+export const MIN_FEE_RATE = 1;
+export const MAX_FEE_RATE = 5000;
+
+const BLOCK_VSIZE = 1000000;
+const MINUTES_PER_BLOCK = 10;
+const CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * Fee estimation service
+ * Combines the server's estimatefee answers with the mempool fee histogram
+ */
+class FeeService {
+  private cache: { estimates: FeeEstimate[]; fetchedAt: number } | null = null;
+
+  /**
+   * Get fee rate suggestions for the slow, normal and fast presets
+   * @param forceRefresh Ignore the cached estimates
+   */
+  async getFeeEstimates(forceRefresh = false): Promise<BlockchainResponse<FeeEstimate[]>> {
+    try {
+      if (!forceRefresh && this.cache && Date.now() - this.cache.fetchedAt < CACHE_TTL_MS) {
+        return {
+          success: true,
+          data: this.cache.estimates,
+        };
+      }
+
+      const histogramResponse = await electrumService.getFeeHistogram();
+      const histogram = histogramResponse.success ? histogramResponse.data || [] : [];
+
+      const priorities: FeePriority[] = ['slow', 'normal', 'fast'];
+      const estimates: FeeEstimate[] = [];
+
+      for (const priority of priorities) {
+        const targetBlocks = FEE_PRIORITY_TARGETS[priority];
+        const response = await electrumService.estimateFee(targetBlocks);
+
+        const serverRate = response.success && response.data !== undefined && response.data > 0
+          ? response.data
+          : null;
+        const histogramRate = this.feeRateFromHistogram(histogram, targetBlocks);
+
+        if (serverRate === null && histogramRate === null) {
+          return {
+            success: false,
+            error: response.error || 'No fee estimate available',
+          };
+        }
+
+        // The histogram reflects the mempool right now, so let it raise a stale server estimate
+        const feeRate = Math.max(serverRate ?? 0, histogramRate ?? 0, MIN_FEE_RATE);
+
+        estimates.push({
+          priority,
+          feeRate: Math.ceil(feeRate),
+          targetBlocks,
+          expectedMinutes: targetBlocks * MINUTES_PER_BLOCK,
+        });
+      }
+
+      // Keep the presets ordered even when sources disagree
+      estimates[1].feeRate = Math.max(estimates[1].feeRate, estimates[0].feeRate);
+      estimates[2].feeRate = Math.max(estimates[2].feeRate, estimates[1].feeRate);
+
+      this.cache = { estimates, fetchedAt: Date.now() };
+
+      return {
+        success: true,
+        data: estimates,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error estimating fees: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Get the suggested fee rate for a priority
+   */
+  async getFeeRate(priority: FeePriority): Promise<BlockchainResponse<number>> {
+    const response = await this.getFeeEstimates();
+    if (!response.success || !response.data) {
+      return {
+        success: false,
+        error: response.error,
+      };
+    }
+
+    return {
+      success: true,
+      data: response.data.find(estimate => estimate.priority === priority)!.feeRate,
+    };
+  }
+
+  /**
+   * Validate a custom fee rate entered by the user
+   * @returns An error message, or null if the rate is acceptable
+   */
+  validateFeeRate(feeRate: number): string | null {
+    if (!Number.isFinite(feeRate)) {
+      return 'Enter a fee rate in sat/vB';
+    }
+    if (feeRate < MIN_FEE_RATE) {
+      return `Fee rate must be at least ${MIN_FEE_RATE} sat/vB`;
+    }
+    if (feeRate > MAX_FEE_RATE) {
+      return `Fee rate above ${MAX_FEE_RATE} sat/vB is almost certainly a mistake`;
+    }
+    return null;
+  }
+
+  /**
+   * Absolute fee for a transaction of the given virtual size
+   */
+  calculateFee(vsize: number, feeRate: number): Satoshis {
+    return Math.ceil(vsize * feeRate);
+  }
+
+  /**
+   * Lowest fee rate that would get into the next `targetBlocks` blocks if the
+   * mempool were mined as-is, or null if the mempool would clear sooner
+   */
+  private feeRateFromHistogram(histogram: [number, number][], targetBlocks: number): number | null {
+    const capacity = targetBlocks * BLOCK_VSIZE;
+    let cumulative = 0;
+
+    for (const [feeRate, vsize] of histogram) {
+      cumulative += vsize;
+      if (cumulative >= capacity) {
+        return feeRate;
+      }
+    }
+
+    return histogram.length > 0 ? MIN_FEE_RATE : null;
+  }
+}
+
+// Export a singleton instance
+export const feeService = new FeeService();
@@ -0,0 +1,580 @@
+import { BitcoinNetwork, BlockchainResponse } from '@/types/blockchain';
+import { electrumService } from '@/services/electrum';
+import { storageService } from '@/services/storage';
+import {
+  BlockHeader,
+  checkProofOfWork,
+  getRequiredBits,
+  HEADER_CHAIN_PARAMS,
+  parseHeader,
+  RETARGET_INTERVAL,
+  validateHeader,
+  verifyMerkleProof,
+} from '@/utils/headers';
+
+/**
+ * Header chain as persisted per network
+ * Only the last one or two retarget periods are kept whole. Older periods are summed up by
+ * the hash of their last header, which a period fetched again later must link up to.
+ */
+interface StoredHeaderChain {
+  anchorHeight: number; // Start of the oldest validated retarget period: the checkpoint's, or one extended back to
+  periodEnds: string[]; // Hash of the last header of each complete period from anchorHeight
+  recentHeight: number; // Height of recent[0], the start of a retarget period
+  recent: string[]; // Raw headers from recentHeight to the tip
+  fetched: Record<number, string>; // Older headers fetched again to verify transactions
+}
+
+/**
+ * Something that happened to the validated chain
+ * A reorg means the headers above forkHeight, up to previousHeight, were replaced by the server's chain.
+ */
+export type HeaderChainEvent = { type: 'reorg'; forkHeight: number; previousHeight: number };
+
+// Headers requested at a time while looking for where the server's chain forked from ours
+const FORK_SEARCH_BATCH = 144;
+
+/**
+ * Header chain service
+ * Downloads and validates block headers, and checks transactions against them with merkle proofs (SPV)
+ */
+class HeaderChainService {
+  private network: BitcoinNetwork = BitcoinNetwork.TESTNET;
+  private chain: StoredHeaderChain | null = null;
+  private loaded = false;
+  private parsed = new Map<number, BlockHeader>();
+  private period: { start: number; headers: BlockHeader[] } | null = null; // Last older period fetched again
+  private syncPromise: Promise<BlockchainResponse<number>> | null = null;
+  private listeners = new Set<(event: HeaderChainEvent) => void>();
+
+  /**
+   * Set the current network
+   */
+  setNetwork(network: BitcoinNetwork): void {
+    if (network !== this.network) {
+      this.network = network;
+      this.chain = null;
+      this.loaded = false;
+      this.parsed.clear();
+      this.period = null;
+    }
+  }
+
+  /**
+   * Height of the last validated header, or -1 before the first sync
+   */
+  getHeight(): number {
+    return this.chain ? this.getChainHeight(this.chain) : -1;
+  }
+
+  /**
+   * Download and validate headers up to the server's tip
+   * Concurrent calls share one sync.
+   * @returns The height of the validated chain
+   */
+  sync(): Promise<BlockchainResponse<number>> {
+    if (!this.syncPromise) {
+      this.syncPromise = this.syncHeaders().finally(() => {
+        this.syncPromise = null;
+      });
+    }
+    return this.syncPromise;
+  }
+
+  /**
+   * Listen for chain reorganizations
+   * @returns A function that removes the listener
+   */
+  addListener(listener: (event: HeaderChainEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get a validated header
+   * Headers of older periods are fetched again and checked against the period's stored end hash;
+   * headers below the checkpoint the chain was synced from are validated back to first.
+   */
+  async getHeader(height: number): Promise<BlockchainResponse<BlockHeader>> {
+    try {
+      let chain = await this.loadChain();
+      if (!chain || height > this.getHeight()) {
+        return {
+          success: false,
+          error: `Block ${height} is past the synced header chain`,
+        };
+      }
+      if (height < chain.anchorHeight) {
+        chain = await this.extendBack(chain, height);
+      }
+
+      const known = this.getStoredHeader(chain, height);
+      if (known) {
+        return {
+          success: true,
+          data: known,
+        };
+      }
+
+      const start = height - (height % RETARGET_INTERVAL);
+      const period = await this.getPeriodHeaders(chain, start);
+      if (!period.success || !period.data) {
+        return {
+          success: false,
+          error: period.error,
+          code: period.code,
+        };
+      }
+
+      const header = period.data[height - start];
+      chain.fetched[height] = header.raw;
+      await this.persist(chain);
+
+      return {
+        success: true,
+        data: header,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error getting block header: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Get a run of validated headers, for scanning blocks
+   * Unlike getHeader, headers of older periods are not stored; only the last period fetched is kept in memory.
+   */
+  async getHeaders(startHeight: number, count: number): Promise<BlockchainResponse<BlockHeader[]>> {
+    try {
+      let chain = await this.loadChain();
+      const endHeight = startHeight + count - 1;
+      if (!chain || endHeight > this.getHeight()) {
+        return {
+          success: false,
+          error: `Block ${endHeight} is past the synced header chain`,
+        };
+      }
+      if (startHeight < chain.anchorHeight) {
+        chain = await this.extendBack(chain, startHeight);
+      }
+
+      const headers: BlockHeader[] = [];
+      for (let height = startHeight; height <= endHeight; height++) {
+        const known = height >= chain.recentHeight ? this.getStoredHeader(chain, height) : undefined;
+        if (known) {
+          headers.push(known);
+          continue;
+        }
+
+        const start = height - (height % RETARGET_INTERVAL);
+        const period = await this.getPeriodHeaders(chain, start);
+        if (!period.success || !period.data) {
+          return {
+            success: false,
+            error: period.error,
+            code: period.code,
+          };
+        }
+        headers.push(period.data[height - start]);
+      }
+
+      return {
+        success: true,
+        data: headers,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error getting block headers: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Check that a transaction is included in the block at a height of the validated chain
+   * @returns true if the server's merkle proof checks out, false if it doesn't
+   */
+  async verifyTransaction(txid: string, height: number): Promise<BlockchainResponse<boolean>> {
+    try {
+      if (height > this.getHeight()) {
+        const synced = await this.sync();
+        if (!synced.success) {
+          return {
+            success: false,
+            error: synced.error,
+            code: synced.code,
+          };
+        }
+      }
+
+      const header = await this.getHeader(height);
+      if (!header.success || !header.data) {
+        return {
+          success: false,
+          error: header.error,
+          code: header.code,
+        };
+      }
+
+      const proof = await electrumService.getMerkleProof(txid, height);
+      if (!proof.success || !proof.data) {
+        return {
+          success: false,
+          error: proof.error || `Failed to get a merkle proof for ${txid}`,
+          code: proof.code,
+        };
+      }
+
+      return {
+        success: true,
+        data: proof.data.blockHeight === height &&
+          verifyMerkleProof(txid, proof.data.merkle, proof.data.pos, header.data.merkleRoot),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error verifying transaction: ${error}`,
+      };
+    }
+  }
+
+  private async syncHeaders(): Promise<BlockchainResponse<number>> {
+    try {
+      const network = this.network;
+      const params = HEADER_CHAIN_PARAMS[network];
+      const serverTip = electrumService.getTipHeight();
+
+      let chain = await this.loadChain();
+      if (!chain) {
+        // Start from the retarget period of the newest checkpoint the server has reached
+        const checkpoint = [...params.checkpoints].reverse().find(c => c.height <= serverTip) ?? params.checkpoints[0];
+        const anchorHeight = checkpoint.height - (checkpoint.height % RETARGET_INTERVAL);
+        chain = { anchorHeight, periodEnds: [], recentHeight: anchorHeight, recent: [], fetched: {} };
+      } else {
+        // Roll back to where the server's chain forked from ours before extending it
+        const previousHeight = this.getChainHeight(chain);
+        const forkHeight = await this.findForkHeight(chain, serverTip);
+        if (network !== this.network) {
+          return {
+            success: false,
+            error: 'Network changed during header sync',
+          };
+        }
+        if (forkHeight < previousHeight) {
+          chain = this.truncate(chain, forkHeight);
+          this.chain = chain;
+          await this.persist(chain);
+          this.emit({ type: 'reorg', forkHeight, previousHeight });
+        }
+      }
+
+      while (this.getChainHeight(chain) < serverTip) {
+        // Request up to the end of the current period, so each batch sits within one retarget period
+        const start = this.getChainHeight(chain) + 1;
+        const count = Math.min(RETARGET_INTERVAL - (start % RETARGET_INTERVAL), serverTip - start + 1);
+        const response = await electrumService.getBlockHeaders(start, count);
+        if (!response.success || !response.data) {
+          return {
+            success: false,
+            error: response.error || `Failed to get headers from ${start}`,
+            code: response.code,
+          };
+        }
+        if (response.data.length === 0 || network !== this.network) {
+          break;
+        }
+
+        chain = this.appendHeaders(chain, start, response.data.map(parseHeader));
+        this.chain = chain;
+        await this.persist(chain);
+      }
+
+      return {
+        success: true,
+        data: this.getChainHeight(chain),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error syncing block headers: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Validate a batch of headers on top of the chain
+   * @returns The extended chain; the one passed in is left untouched if any header is invalid
+   */
+  private appendHeaders(chain: StoredHeaderChain, start: number, headers: BlockHeader[]): StoredHeaderChain {
+    const params = HEADER_CHAIN_PARAMS[this.network];
+    const next: StoredHeaderChain = {
+      ...chain,
+      periodEnds: [...chain.periodEnds],
+      recent: [...chain.recent],
+    };
+    const batch = new Map<number, BlockHeader>();
+    const lookup = (height: number) => batch.get(height) ?? this.getStoredHeader(next, height);
+
+    headers.forEach((header, i) => {
+      const height = start + i;
+      if (height === next.anchorHeight) {
+        // Nothing to link to; the checkpoint inside this period vouches for it
+        checkProofOfWork(params, height, header);
+      } else {
+        const previous = lookup(height - 1);
+        if (!previous) {
+          throw new Error(`Header ${height - 1} is missing`);
+        }
+        validateHeader(params, height, header, previous, lookup);
+      }
+
+      const checkpoint = params.checkpoints.find(c => c.height === height);
+      if (checkpoint && checkpoint.hash !== header.hash) {
+        throw new Error(`Header ${height} does not match the checkpoint ${checkpoint.hash}`);
+      }
+
+      batch.set(height, header);
+      next.recent.push(header.raw);
+      if ((height + 1) % RETARGET_INTERVAL === 0) {
+        next.periodEnds.push(header.hash);
+      }
+    });
+
+    // Headers of the first period are only trusted once the checkpoint in it has been passed
+    const anchorCheckpoint = params.checkpoints.filter(c => c.height < next.anchorHeight + RETARGET_INTERVAL).pop();
+    if (anchorCheckpoint && this.getChainHeight(next) < anchorCheckpoint.height) {
+      throw new Error(`Headers end before the checkpoint at ${anchorCheckpoint.height}`);
+    }
+
+    batch.forEach((header, height) => this.parsed.set(height, header));
+
+    // Keep the previous period whole for retargeting and drop anything older
+    while (next.recent.length > 2 * RETARGET_INTERVAL) {
+      next.recent.splice(0, RETARGET_INTERVAL);
+      next.recentHeight += RETARGET_INTERVAL;
+    }
+    this.parsed.forEach((_, height) => {
+      if (height < next.recentHeight) {
+        this.parsed.delete(height);
+      }
+    });
+
+    return next;
+  }
+
+  /**
+   * Find the last header of the chain the server agrees with
+   * A server that is behind us but on our chain leaves the chain as it is.
+   */
+  private async findForkHeight(chain: StoredHeaderChain, serverTip: number): Promise<number> {
+    const tip = this.getChainHeight(chain);
+    let height = Math.min(tip, serverTip);
+    let first = true;
+
+    while (height >= chain.recentHeight) {
+      const start = first ? height : Math.max(chain.recentHeight, height - FORK_SEARCH_BATCH + 1);
+      const response = await electrumService.getBlockHeaders(start, height - start + 1);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || `Failed to get headers from ${start}`);
+      }
+
+      for (let i = response.data.length - 1; i >= 0; i--) {
+        if (parseHeader(response.data[i]).hash === this.getStoredHeader(chain, start + i)?.hash) {
+          return first ? tip : start + i;
+        }
+      }
+      height = start - 1;
+      first = false;
+    }
+
+    if (tip < chain.recentHeight) {
+      return tip;
+    }
+    throw new Error(`Chain reorganization goes deeper than the stored headers from ${chain.recentHeight}`);
+  }
+
+  /**
+   * Drop the headers above a height
+   * Headers fetched again for older periods all sit below the recent ones, so they are kept.
+   */
+  private truncate(chain: StoredHeaderChain, height: number): StoredHeaderChain {
+    this.parsed.forEach((_, parsedHeight) => {
+      if (parsedHeight > height) {
+        this.parsed.delete(parsedHeight);
+      }
+    });
+
+    return {
+      ...chain,
+      periodEnds: chain.periodEnds.slice(0, Math.floor((height + 1 - chain.anchorHeight) / RETARGET_INTERVAL)),
+      recent: chain.recent.slice(0, height - chain.recentHeight + 1),
+    };
+  }
+
+  /**
+   * Validate whole retarget periods below the anchor, back to the one holding a height
+   * Each period must link to the first header of the period after it and retarget to that
+   * header's difficulty bits, so it takes as much work to fake as the anchor's own period.
+   * @returns The chain with its anchor moved back
+   */
+  private async extendBack(chain: StoredHeaderChain, height: number): Promise<StoredHeaderChain> {
+    const network = this.network;
+    const params = HEADER_CHAIN_PARAMS[network];
+    let next = chain;
+
+    while (height < next.anchorHeight) {
+      const anchorHeight = next.anchorHeight;
+      let anchorHeader = this.getStoredHeader(next, anchorHeight);
+      if (!anchorHeader) {
+        const period = await this.getPeriodHeaders(next, anchorHeight);
+        if (!period.success || !period.data) {
+          throw new Error(period.error || `Failed to get headers from ${anchorHeight}`);
+        }
+        anchorHeader = period.data[0];
+      }
+
+      const start = anchorHeight - RETARGET_INTERVAL;
+      const response = await electrumService.getBlockHeaders(start, RETARGET_INTERVAL);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || `Failed to get headers from ${start}`);
+      }
+      if (response.data.length !== RETARGET_INTERVAL) {
+        throw new Error(`Server sent ${response.data.length} of headers ${start}-${anchorHeight - 1}`);
+      }
+
+      const headers = response.data.map(parseHeader);
+      const lookup = (h: number) => headers[h - start];
+      headers.forEach((header, i) => {
+        if (i === 0) {
+          checkProofOfWork(params, start, header);
+        } else {
+          validateHeader(params, start + i, header, headers[i - 1], lookup);
+        }
+
+        const checkpoint = params.checkpoints.find(c => c.height === start + i);
+        if (checkpoint && checkpoint.hash !== header.hash) {
+          throw new Error(`Header ${start + i} does not match the checkpoint ${checkpoint.hash}`);
+        }
+      });
+
+      const last = headers[RETARGET_INTERVAL - 1];
+      if (anchorHeader.prevHash !== last.hash) {
+        throw new Error(`Headers ${start}-${anchorHeight - 1} don't link to the validated chain`);
+      }
+      if (getRequiredBits(params, anchorHeight, anchorHeader, last, lookup) !== anchorHeader.bits) {
+        throw new Error(`Headers ${start}-${anchorHeight - 1} don't retarget to the difficulty of block ${anchorHeight}`);
+      }
+
+      // Sync may have extended the chain meanwhile; move the anchor of the current one
+      const current = this.chain;
+      if (network !== this.network || !current || current.anchorHeight !== anchorHeight) {
+        throw new Error('Header chain changed while extending it back');
+      }
+      next = {
+        ...current,
+        anchorHeight: start,
+        periodEnds: [last.hash, ...current.periodEnds],
+      };
+      this.chain = next;
+      this.period = { start, headers };
+      await this.persist(next);
+    }
+
+    return next;
+  }
+
+  /**
+   * Fetch a whole older period again and check it hashes up to the end we validated
+   */
+  private async getPeriodHeaders(chain: StoredHeaderChain, start: number): Promise<BlockchainResponse<BlockHeader[]>> {
+    if (this.period?.start === start) {
+      return {
+        success: true,
+        data: this.period.headers,
+      };
+    }
+
+    const response = await electrumService.getBlockHeaders(start, RETARGET_INTERVAL);
+    if (!response.success || !response.data) {
+      return {
+        success: false,
+        error: response.error || `Failed to get headers from ${start}`,
+        code: response.code,
+      };
+    }
+
+    const headers = response.data.map(parseHeader);
+    const periodEnd = chain.periodEnds[(start - chain.anchorHeight) / RETARGET_INTERVAL];
+    const linked = headers.length === RETARGET_INTERVAL &&
+      headers.every((header, i) => i === 0 || header.prevHash === headers[i - 1].hash) &&
+      headers[headers.length - 1].hash === periodEnd;
+    if (!linked) {
+      return {
+        success: false,
+        error: `Headers ${start}-${start + RETARGET_INTERVAL - 1} from the server don't match the validated chain`,
+      };
+    }
+
+    this.period = { start, headers };
+    return {
+      success: true,
+      data: headers,
+    };
+  }
+
+  /**
+   * Get a header already held: recent, or fetched again for a transaction
+   */
+  private getStoredHeader(chain: StoredHeaderChain, height: number): BlockHeader | undefined {
+    const cached = this.parsed.get(height);
+    if (cached && height >= chain.recentHeight) {
+      return cached;
+    }
+
+    const raw = height >= chain.recentHeight
+      ? chain.recent[height - chain.recentHeight]
+      : chain.fetched[height];
+    if (!raw) {
+      return undefined;
+    }
+
+    const header = parseHeader(raw);
+    if (height >= chain.recentHeight) {
+      this.parsed.set(height, header);
+    }
+    return header;
+  }
+
+  private getChainHeight(chain: StoredHeaderChain): number {
+    return chain.recentHeight + chain.recent.length - 1;
+  }
+
+  private async loadChain(): Promise<StoredHeaderChain | null> {
+    if (!this.loaded) {
+      this.chain = await storageService.getJSON<StoredHeaderChain>(`headers:${this.network}`);
+      this.loaded = true;
+    }
+    return this.chain;
+  }
+
+  private async persist(chain: StoredHeaderChain): Promise<void> {
+    await storageService.setJSON<StoredHeaderChain>(`headers:${this.network}`, chain);
+  }
+
+  private emit(event: HeaderChainEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Header chain event listener failed:', error);
+      }
+    });
+  }
+}
+
+// Export a singleton instance
+export const headerChainService = new HeaderChainService();
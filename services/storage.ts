@@ -0,0 +1,354 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { bytesToHex, bytesToUtf8, hexToBytes, utf8ToBytes } from '@noble/ciphers/utils';
+import { randomBytes } from '@noble/ciphers/webcrypto';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { BlockchainResponse } from '@/types/blockchain';
+
+/**
+ * Key/value backend the storage service persists to
+ * Implement this to run the wallet against a file, a test fixture or another store.
+ */
+export interface StorageBackend {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  getAllKeys(): Promise<readonly string[]>;
+}
+
+/**
+ * Default backend using the device's AsyncStorage
+ */
+export class AsyncStorageBackend implements StorageBackend {
+  getItem(key: string): Promise<string | null> {
+    return AsyncStorage.getItem(key);
+  }
+
+  setItem(key: string, value: string): Promise<void> {
+    return AsyncStorage.setItem(key, value);
+  }
+
+  removeItem(key: string): Promise<void> {
+    return AsyncStorage.removeItem(key);
+  }
+
+  getAllKeys(): Promise<readonly string[]> {
+    return AsyncStorage.getAllKeys();
+  }
+}
+
+/**
+ * Non-persistent backend, useful for tests
+ */
+export class MemoryStorageBackend implements StorageBackend {
+  private items = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+
+  async getAllKeys(): Promise<readonly string[]> {
+    return Array.from(this.items.keys());
+  }
+}
+
+/**
+ * Storage keys
+ */
+const KEY_PREFIX = 'bip300-wallet:';
+const KEYSTORE_KEY = 'keystore';
+const SECRET_PREFIX = 'secret:';
+// Staging area of a PIN change: the new keystore and the secrets re-encrypted under it
+const PENDING_KEYSTORE_KEY = 'pending-keystore';
+const PENDING_SECRET_PREFIX = 'pending-secret:';
+
+/**
+ * scrypt parameters for deriving the encryption key from the PIN/password
+ */
+const KDF_PARAMS = { N: 2 ** 15, r: 8, p: 1, dkLen: 32 };
+
+/**
+ * Known plaintext used to check a PIN without decrypting any wallet secret
+ */
+const VERIFIER_PLAINTEXT = 'bip300-wallet-keystore';
+
+/**
+ * Encrypted payload as stored in the backend
+ */
+interface EncryptedValue {
+  nonce: string;
+  data: string;
+}
+
+/**
+ * Keystore metadata: the KDF salt/params and the PIN verifier
+ */
+interface Keystore {
+  version: number;
+  salt: string;
+  kdf: typeof KDF_PARAMS;
+  verifier: EncryptedValue;
+}
+
+/**
+ * Storage service
+ * Persists wallet state as JSON and wallet secrets encrypted under a PIN-derived key
+ */
+class StorageService {
+  private backend: StorageBackend = new AsyncStorageBackend();
+  private encryptionKey: Uint8Array | null = null;
+
+  /**
+   * Replace the storage backend (e.g. with a MemoryStorageBackend in tests)
+   */
+  setBackend(backend: StorageBackend): void {
+    this.backend = backend;
+    this.encryptionKey = null;
+  }
+
+  /**
+   * Read a JSON value
+   */
+  async getJSON<T>(key: string): Promise<T | null> {
+    const value = await this.backend.getItem(KEY_PREFIX + key);
+    return value === null ? null : JSON.parse(value) as T;
+  }
+
+  /**
+   * Write a JSON value
+   */
+  async setJSON<T>(key: string, value: T): Promise<void> {
+    await this.backend.setItem(KEY_PREFIX + key, JSON.stringify(value));
+  }
+
+  /**
+   * Remove a value (plain or secret)
+   */
+  async remove(key: string): Promise<void> {
+    await this.backend.removeItem(KEY_PREFIX + key);
+    await this.backend.removeItem(KEY_PREFIX + SECRET_PREFIX + key);
+  }
+
+  /**
+   * Whether a PIN has been set up
+   */
+  async hasPin(): Promise<boolean> {
+    return (await this.getJSON<Keystore>(KEYSTORE_KEY)) !== null;
+  }
+
+  /**
+   * Whether secrets can currently be read and written
+   */
+  isLocked(): boolean {
+    return this.encryptionKey === null;
+  }
+
+  /**
+   * Unlock secret storage with the user's PIN/password
+   * The first unlock sets up the keystore with this PIN.
+   */
+  async unlock(pin: string): Promise<BlockchainResponse<boolean>> {
+    try {
+      await this.recoverPinChange();
+      const keystore = await this.getJSON<Keystore>(KEYSTORE_KEY);
+
+      if (!keystore) {
+        this.encryptionKey = await this.createKeystore(pin);
+        return { success: true, data: true };
+      }
+
+      const key = await scryptAsync(pin, hexToBytes(keystore.salt), keystore.kdf);
+      try {
+        if (decrypt(key, keystore.verifier) !== VERIFIER_PLAINTEXT) {
+          throw new Error('Verifier mismatch');
+        }
+      } catch {
+        return {
+          success: false,
+          error: 'Incorrect PIN',
+        };
+      }
+
+      this.encryptionKey = key;
+      return { success: true, data: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error unlocking storage: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Forget the encryption key
+   */
+  lock(): void {
+    this.encryptionKey = null;
+  }
+
+  /**
+   * Change the PIN and re-encrypt every stored secret under the new key
+   * The secrets are staged under the new key first and the new keystore is written last, so
+   * until then the current PIN keeps working; a change cut short is finished or rolled back
+   * by the next unlock.
+   */
+  async changePin(currentPin: string, newPin: string): Promise<BlockchainResponse<boolean>> {
+    try {
+      const unlocked = await this.unlock(currentPin);
+      if (!unlocked.success) {
+        return unlocked;
+      }
+
+      const secretKeys = await this.getSecretKeys();
+      const secrets = await Promise.all(secretKeys.map(key => this.getSecret(key)));
+      const { keystore, key: newKey } = await deriveKeystore(newPin);
+
+      for (let i = 0; i < secretKeys.length; i++) {
+        if (secrets[i] !== null) {
+          await this.setJSON(PENDING_SECRET_PREFIX + secretKeys[i], encrypt(newKey, secrets[i]!));
+        }
+      }
+      await this.setJSON<Keystore>(PENDING_KEYSTORE_KEY, keystore);
+
+      // From here on the new PIN is the one that unlocks
+      await this.setJSON<Keystore>(KEYSTORE_KEY, keystore);
+      this.encryptionKey = newKey;
+      await this.recoverPinChange();
+
+      return { success: true, data: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error changing PIN: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Read and decrypt a secret
+   */
+  async getSecret(key: string): Promise<string | null> {
+    const encryptionKey = this.requireKey();
+    const value = await this.getJSON<EncryptedValue>(SECRET_PREFIX + key);
+    return value === null ? null : decrypt(encryptionKey, value);
+  }
+
+  /**
+   * Encrypt and write a secret
+   */
+  async setSecret(key: string, value: string): Promise<void> {
+    const encryptionKey = this.requireKey();
+    await this.setJSON(SECRET_PREFIX + key, encrypt(encryptionKey, value));
+  }
+
+  /**
+   * Delete everything this app has stored, including the keystore
+   */
+  async clear(): Promise<void> {
+    const keys = await this.backend.getAllKeys();
+    await Promise.all(
+      keys
+        .filter(key => key.startsWith(KEY_PREFIX))
+        .map(key => this.backend.removeItem(key))
+    );
+    this.encryptionKey = null;
+  }
+
+  private requireKey(): Uint8Array {
+    if (!this.encryptionKey) {
+      throw new Error('Wallet storage is locked');
+    }
+    return this.encryptionKey;
+  }
+
+  private async createKeystore(pin: string): Promise<Uint8Array> {
+    const { keystore, key } = await deriveKeystore(pin);
+    await this.setJSON<Keystore>(KEYSTORE_KEY, keystore);
+    return key;
+  }
+
+  /**
+   * Finish or roll back a PIN change that was cut short
+   * Once the new keystore is in place the staged secrets replace the old ones; before that
+   * they are dropped and the current PIN still decrypts the secrets in place.
+   */
+  private async recoverPinChange(): Promise<void> {
+    const pendingKeys = await this.getKeysWithPrefix(PENDING_SECRET_PREFIX);
+    const pendingKeystore = await this.getJSON<Keystore>(PENDING_KEYSTORE_KEY);
+    if (pendingKeys.length === 0 && !pendingKeystore) {
+      return;
+    }
+
+    const keystore = await this.getJSON<Keystore>(KEYSTORE_KEY);
+    const committed = pendingKeystore !== null && keystore?.salt === pendingKeystore.salt;
+
+    for (const key of pendingKeys) {
+      if (committed) {
+        const value = await this.backend.getItem(KEY_PREFIX + PENDING_SECRET_PREFIX + key);
+        if (value !== null) {
+          await this.backend.setItem(KEY_PREFIX + SECRET_PREFIX + key, value);
+        }
+      }
+      await this.backend.removeItem(KEY_PREFIX + PENDING_SECRET_PREFIX + key);
+    }
+    await this.backend.removeItem(KEY_PREFIX + PENDING_KEYSTORE_KEY);
+  }
+
+  private getSecretKeys(): Promise<string[]> {
+    return this.getKeysWithPrefix(SECRET_PREFIX);
+  }
+
+  private async getKeysWithPrefix(prefix: string): Promise<string[]> {
+    const fullPrefix = KEY_PREFIX + prefix;
+    const keys = await this.backend.getAllKeys();
+    return keys
+      .filter(key => key.startsWith(fullPrefix))
+      .map(key => key.slice(fullPrefix.length));
+  }
+}
+
+/**
+ * Derive a new key from the PIN under a fresh salt, and the keystore that checks it
+ */
+async function deriveKeystore(pin: string): Promise<{ keystore: Keystore; key: Uint8Array }> {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(pin, salt, KDF_PARAMS);
+
+  return {
+    keystore: {
+      version: 1,
+      salt: bytesToHex(salt),
+      kdf: KDF_PARAMS,
+      verifier: encrypt(key, VERIFIER_PLAINTEXT),
+    },
+    key,
+  };
+}
+
+/**
+ * Encrypt a string with XChaCha20-Poly1305 under a random nonce
+ */
+function encrypt(key: Uint8Array, plaintext: string): EncryptedValue {
+  const nonce = randomBytes(24);
+  const data = xchacha20poly1305(key, nonce).encrypt(utf8ToBytes(plaintext));
+  return { nonce: bytesToHex(nonce), data: bytesToHex(data) };
+}
+
+/**
+ * Decrypt a value produced by encrypt(); throws if the key is wrong or the data was tampered with
+ */
+function decrypt(key: Uint8Array, value: EncryptedValue): string {
+  const plaintext = xchacha20poly1305(key, hexToBytes(value.nonce)).decrypt(hexToBytes(value.data));
+  return bytesToUtf8(plaintext);
+}
+
+// Export a singleton instance
+export const storageService = new StorageService();
@@ -1,6 +1,131 @@
-import { BitcoinNetwork, BlockchainResponse, HDWalletInfo, WalletAccount } from '@/types/blockchain';
-import { electrumService } from '@/services/electrum';
-import { bip300Service } from '@/services/bip300';
+import { Psbt } from 'bitcoinjs-lib';
+import { ECPairInterface } from 'ecpair';
+import { AddressHistoryEntry, AddressScriptType, BitcoinNetwork, BlockchainResponse, HDAccount, HDWalletInfo, MultisigScriptType, MultisigWalletInfo, OutgoingTransaction, ScriptType, Transaction, WalletAccount, WalletAddress, WalletUtxo } from '@/types/blockchain';
+import { ElectrumEvent, electrumService } from '@/services/electrum';
+import { bip300Service, CTIP_INPUT_VSIZE, ESCROW_OUTPUT_SCRIPT_LENGTH } from '@/services/bip300';
+import { DiscoveryOptions, DiscoveryResult, discoveryService } from '@/services/discovery';
+import { headerChainService } from '@/services/headers';
+import { storageService } from '@/services/storage';
+import { Satoshis, sumAmounts } from '@/utils/amount';
+import { getDepositAddressScript, getEscrowScript, parseDepositAddress } from '@/utils/bip300';
+import { CoinSelection, CoinSelectionParams, CoinSelectionResult, finalizeSelection, selectCoins, selectManual } from '@/utils/coinSelection';
+import { descriptorKeyToAccount, descriptorsToAccounts, descriptorsToMultisig, getAccountDescriptors, getMultisigDescriptors, parseDescriptors } from '@/utils/descriptor';
+import { deriveAccount, deriveAccountAtPath, deriveAddress, parseExtendedPublicKey, SUPPORTED_SCRIPT_TYPES } from '@/utils/hd';
+import { generateMnemonic, mnemonicToSeed, MnemonicLength, normalizeMnemonic, validateMnemonic } from '@/utils/mnemonic';
+import { deriveCosigner, deriveMultisigAddress, findCosignerInputs, formatMultisigConfig, MultisigConfig, parseMultisigConfig, signCosignerInputs, validateMultisigPolicy } from '@/utils/multisig';
+import { addKeyOrigins, finalizePsbt, findWalletInputs, summarizePsbt } from '@/utils/psbt';
+import { deriveKeyAddress, getKeyScriptTypes, parsePrivateKeys } from '@/utils/privateKey';
+import { addressToScript, buildPsbt, DUST_THRESHOLD, estimateVsize, getCpfpChildFee, getDustThreshold, getVsize, INCREMENTAL_RELAY_FEE_RATE, InputSizing, OUTPUT_SCRIPT_LENGTH, SIGNABLE_SCRIPT_TYPES, signPsbt, signPsbtWithKeys, toTransaction, TxRecipient } from '@/utils/transaction';
+
+/**
+ * User settings persisted alongside the wallets
+ */
+export interface AppSettings {
+  network: BitcoinNetwork;
+  biometricEnabled: boolean;
+  notificationsEnabled: boolean;
+}
+
+const DEFAULT_SETTINGS: AppSettings = {
+  network: BitcoinNetwork.TESTNET,
+  biometricEnabled: false,
+  notificationsEnabled: true,
+};
+
+/**
+ * Options for spending wallet funds
+ */
+export interface SpendOptions {
+  inputs?: string[]; // Manual coin control: outpoints ("txid:vout") to spend, exactly
+}
+
+/**
+ * A child-pays-for-parent transaction ready to be signed
+ */
+export interface CpfpPreview {
+  parentTxid: string;
+  parentFee: Satoshis;
+  parentVsize: number;
+  inputs: WalletUtxo[]; // The parent's outputs we control, plus confirmed UTXOs if those are too small
+  childFee: Satoshis;
+  childVsize: number;
+  output: Satoshis; // Paid back to a change address
+  packageFeeRate: number; // Effective sat/vB of parent and child together
+}
+
+/**
+ * Funds found for a set of private keys, and what sweeping them would pay
+ */
+export interface SweepPreview {
+  inputs: WalletUtxo[];
+  total: Satoshis;
+  fee: Satoshis;
+  amount: Satoshis; // Received by the active wallet
+  vsize: number;
+}
+
+/**
+ * A change pushed by the server, for screens to refresh on
+ */
+export type WalletEvent =
+  | { type: 'balance'; walletId: string }
+  | { type: 'history'; walletId: string; txids: string[] } // New or newly confirmed transactions
+  | { type: 'tip'; height: number }
+  | { type: 'reorg'; walletId: string; txids: string[]; dropped: string[] } // Confirmed transactions a reorg took out of their block, and those of them no longer known at all
+  | { type: 'lock'; locked: boolean }; // Wallet storage was locked or unlocked
+
+/**
+ * Balance of one address
+ */
+interface AddressBalance {
+  confirmed: Satoshis;
+  unconfirmed: Satoshis;
+}
+
+/**
+ * A funded spend, ready to be built into a transaction
+ */
+interface PreparedSpend {
+  selection: CoinSelection;
+  outputs: TxRecipient[];
+  changeAddress?: WalletAddress;
+}
+
+/**
+ * Wallet list as persisted
+ */
+interface StoredWalletList {
+  wallets: WalletAccount[];
+  activeWalletId: string | null;
+}
+
+/**
+ * Per-wallet state as persisted (everything except the encrypted secrets)
+ */
+interface StoredWalletState {
+  hd?: Omit<HDWalletInfo, 'mnemonic' | 'seed' | 'passphrase'>;
+  multisig?: MultisigWalletInfo;
+  addresses: WalletAddress[];
+  history: AddressHistoryEntry[];
+  labels: Record<string, string>;
+  frozenUtxos?: string[];
+  outgoing?: OutgoingTransaction[];
+}
+
+/**
+ * Wallet secrets, stored encrypted under the user's PIN
+ */
+interface WalletSecrets {
+  mnemonic: string;
+  seed: string;
+}
+
+/**
+ * Secrets of an imported wallet
+ */
+interface ImportedKeySecrets {
+  privateKeys: string[]; // WIF
+}
 
 /**
  * Wallet Service
@@ -9,43 +134,305 @@ import { bip300Service } from '@/services/bip300';
 class WalletService {
   private wallets: WalletAccount[] = [];
   private activeWalletId: string | null = null;
+  private hdWallets: Record<string, HDWalletInfo> = {};
+  private multisigWallets: Record<string, MultisigWalletInfo> = {};
+  private addresses: Record<string, WalletAddress[]> = {};
+  private history: Record<string, AddressHistoryEntry[]> = {};
+  private labels: Record<string, Record<string, string>> = {};
+  private frozenUtxos: Record<string, string[]> = {};
+  private outgoing: Record<string, OutgoingTransaction[]> = {};
+  private addressBalances: Record<string, Record<string, AddressBalance>> = {};
+  private listeners = new Set<(event: WalletEvent) => void>();
   private network: BitcoinNetwork = BitcoinNetwork.TESTNET;
+  private settings: AppSettings = { ...DEFAULT_SETTINGS };
+  private initialized: Promise<BlockchainResponse<boolean>> | null = null;
+
+  /**
+   * Load wallets and settings from storage
+   * Safe to call repeatedly; storage is only read once.
+   */
+  initialize(): Promise<BlockchainResponse<boolean>> {
+    if (!this.initialized) {
+      this.initialized = this.loadFromStorage();
+    }
+    return this.initialized;
+  }
+
+  private async loadFromStorage(): Promise<BlockchainResponse<boolean>> {
+    try {
+      this.settings = {
+        ...DEFAULT_SETTINGS,
+        ...(await storageService.getJSON<AppSettings>('settings')),
+      };
+      this.setNetwork(this.settings.network);
+
+      const list = await storageService.getJSON<StoredWalletList>('wallets');
+      this.wallets = list?.wallets ?? [];
+      this.activeWalletId = list?.activeWalletId ?? null;
+
+      for (const wallet of this.wallets) {
+        const state = await storageService.getJSON<StoredWalletState>(`wallet:${wallet.id}`);
+        if (state?.hd) {
+          this.hdWallets[wallet.id] = { ...state.hd };
+        }
+        if (state?.multisig) {
+          this.multisigWallets[wallet.id] = state.multisig;
+        }
+        this.addresses[wallet.id] = state?.addresses ?? [];
+        this.history[wallet.id] = state?.history ?? [];
+        this.labels[wallet.id] = state?.labels ?? {};
+        this.frozenUtxos[wallet.id] = state?.frozenUtxos ?? [];
+        this.outgoing[wallet.id] = state?.outgoing ?? [];
+      }
+
+      // Keep balances and history current as the server pushes changes
+      electrumService.addListener(event => this.handleElectrumEvent(event));
+      headerChainService.addListener(event => {
+        this.handleReorg(event.forkHeight).catch(error => console.error('Error handling chain reorganization:', error));
+      });
+      this.watchAddresses();
+
+      return {
+        success: true,
+        data: true,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error loading wallets: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Write the wallet list, settings and the given wallet's state to storage
+   */
+  private async persist(walletId?: string): Promise<void> {
+    await storageService.setJSON<AppSettings>('settings', this.settings);
+    await storageService.setJSON<StoredWalletList>('wallets', {
+      wallets: this.wallets,
+      activeWalletId: this.activeWalletId,
+    });
+
+    if (walletId) {
+      const hdInfo = this.hdWallets[walletId];
+      let hd: StoredWalletState['hd'];
+      if (hdInfo) {
+        const { mnemonic, seed, passphrase, ...publicInfo } = hdInfo;
+        hd = publicInfo;
+      }
+
+      await storageService.setJSON<StoredWalletState>(`wallet:${walletId}`, {
+        hd,
+        multisig: this.multisigWallets[walletId],
+        addresses: this.addresses[walletId] || [],
+        history: this.history[walletId] || [],
+        labels: this.labels[walletId] || {},
+        frozenUtxos: this.frozenUtxos[walletId] || [],
+        outgoing: this.outgoing[walletId] || [],
+      });
 
-  constructor() {
-    // Initialize with a mock wallet for demo purposes
-    this.initializeMockData();
+      // Newly derived or imported addresses are watched from now on
+      this.watchAddresses(walletId);
+    }
   }
 
   /**
-   * Initialize with mock data for demo purposes
+   * Unlock encrypted wallet storage with the user's PIN/password
+   * The first unlock sets the PIN.
    */
-  private initializeMockData() {
-    const mockWallet: WalletAccount = {
-      id: '1',
-      name: 'Demo Wallet',
-      type: 'hd',
-      network: BitcoinNetwork.TESTNET,
-      balance: {
-        confirmed: 0.1,
-        unconfirmed: 0.05,
-        total: 0.15,
-      },
-      sidechainBalances: {
-        0: { // BitNames sidechain
-          confirmed: 0.02,
-          unconfirmed: 0,
-          total: 0.02,
-        },
-        2: { // zSide sidechain
-          confirmed: 0.03,
-          unconfirmed: 0,
-          total: 0.03,
-        },
-      },
-    };
+  async unlock(pin: string): Promise<BlockchainResponse<boolean>> {
+    const response = await storageService.unlock(pin);
+    if (response.success) {
+      this.emit({ type: 'lock', locked: false });
+    }
+    return response;
+  }
+
+  /**
+   * Lock wallet storage and drop decrypted secrets from memory
+   */
+  lock(): void {
+    storageService.lock();
+    Object.values(this.hdWallets).forEach(hdInfo => {
+      delete hdInfo.mnemonic;
+      delete hdInfo.seed;
+      delete hdInfo.passphrase;
+    });
+    this.emit({ type: 'lock', locked: true });
+  }
+
+  /**
+   * Whether wallet storage is locked, so keys can't be created, read or used
+   */
+  isLocked(): boolean {
+    return storageService.isLocked();
+  }
+
+  /**
+   * Whether a PIN has been set up (if not, the first unlock sets it)
+   */
+  async hasPin(): Promise<boolean> {
+    return storageService.hasPin();
+  }
+
+  /**
+   * Change the PIN/password protecting wallet secrets
+   */
+  async changePin(currentPin: string, newPin: string): Promise<BlockchainResponse<boolean>> {
+    return storageService.changePin(currentPin, newPin);
+  }
+
+  /**
+   * Get the decrypted mnemonic of a wallet (requires unlocked storage)
+   */
+  async getMnemonic(walletId?: string): Promise<BlockchainResponse<string>> {
+    try {
+      const secrets = await this.loadSecrets(walletId ?? this.activeWalletId ?? '');
+      return {
+        success: true,
+        data: secrets.mnemonic,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error getting mnemonic: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Load a wallet's secrets from memory or encrypted storage
+   */
+  private async loadSecrets(walletId: string): Promise<WalletSecrets> {
+    if (this.getWallet(walletId)?.type === 'watch-only') {
+      throw new Error('Watch-only wallets have no keys; export a PSBT to sign elsewhere');
+    }
+    if (this.multisigWallets[walletId]) {
+      throw new Error('Vaults hold no keys; export a PSBT for the co-signers to sign');
+    }
+    if (this.getWallet(walletId)?.type === 'imported') {
+      throw new Error('Imported wallets have no recovery phrase; back up their private keys instead');
+    }
+
+    const hdInfo = this.hdWallets[walletId];
+    if (!hdInfo) {
+      throw new Error('HD wallet not found');
+    }
+
+    if (!hdInfo.mnemonic || !hdInfo.seed) {
+      const stored = await storageService.getSecret(`wallet:${walletId}`);
+      if (!stored) {
+        throw new Error('Wallet secrets not found');
+      }
+      const secrets: WalletSecrets = JSON.parse(stored);
+      hdInfo.mnemonic = secrets.mnemonic;
+      hdInfo.seed = secrets.seed;
+    }
+
+    return { mnemonic: hdInfo.mnemonic, seed: hdInfo.seed };
+  }
+
+  /**
+   * Load an imported wallet's private keys from encrypted storage
+   */
+  private async loadPrivateKeys(walletId: string): Promise<ECPairInterface[]> {
+    const stored = await storageService.getSecret(`wallet:${walletId}`);
+    if (!stored) {
+      throw new Error('Wallet secrets not found');
+    }
+    const secrets: ImportedKeySecrets = JSON.parse(stored);
+    return parsePrivateKeys(secrets.privateKeys.join('\n'), this.getWallet(walletId)!.network);
+  }
+
+  /**
+   * Get the decrypted WIF private keys of an imported wallet (requires unlocked storage)
+   */
+  async getPrivateKeys(walletId?: string): Promise<BlockchainResponse<string[]>> {
+    try {
+      const id = walletId ?? this.activeWalletId ?? '';
+      if (this.getWallet(id)?.type !== 'imported') {
+        return {
+          success: false,
+          error: 'Not an imported wallet',
+        };
+      }
+
+      const keyPairs = await this.loadPrivateKeys(id);
+      return {
+        success: true,
+        data: keyPairs.map(keyPair => keyPair.toWIF()),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error getting private keys: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Get the persisted app settings
+   */
+  getSettings(): AppSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * Update and persist app settings
+   */
+  async updateSettings(settings: Partial<AppSettings>): Promise<BlockchainResponse<AppSettings>> {
+    try {
+      this.settings = { ...this.settings, ...settings };
+      if (settings.network && settings.network !== this.network) {
+        this.setNetwork(settings.network);
+      }
+      await this.persist();
+
+      return {
+        success: true,
+        data: this.getSettings(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error updating settings: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Delete all wallets, secrets and settings
+   */
+  async resetWallets(): Promise<BlockchainResponse<boolean>> {
+    try {
+      await storageService.clear();
+      this.wallets = [];
+      this.activeWalletId = null;
+      this.hdWallets = {};
+      this.multisigWallets = {};
+      this.addresses = {};
+      this.history = {};
+      this.labels = {};
+      this.frozenUtxos = {};
+      this.outgoing = {};
+      this.addressBalances = {};
+      this.settings = { ...DEFAULT_SETTINGS, network: this.network };
+      electrumService.clearSubscriptions();
+
+      // Clearing storage removed the PIN too; a new one is set before the next wallet
+      this.emit({ type: 'lock', locked: true });
 
-    this.wallets.push(mockWallet);
-    this.activeWalletId = mockWallet.id;
+      return {
+        success: true,
+        data: true,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error resetting wallets: ${error}`,
+      };
+    }
   }
 
   /**
@@ -53,9 +440,11 @@ class WalletService {
    */
   setNetwork(network: BitcoinNetwork): void {
     this.network = network;
+    this.settings.network = network;
     // Update the network for all services
-    electrumService.connect(network);
+    electrumService.connect(network).then(() => this.watchAddresses());
     bip300Service.setNetwork(network);
+    headerChainService.setNetwork(network);
   }
 
   /**
@@ -69,290 +458,2083 @@ class WalletService {
    * Create a new HD wallet
    * @param name The name of the wallet
    * @param passphrase Optional passphrase for additional security
+   * @param wordCount Number of words in the generated mnemonic
    */
   async createWallet(
     name: string,
-    passphrase?: string
+    passphrase?: string,
+    wordCount: MnemonicLength = 12
   ): Promise<BlockchainResponse<{ wallet: WalletAccount; mnemonic: string }>> {
     try {
-      // In a real implementation, we would:
-      // 1. Generate a mnemonic using bip39
-      // 2. Derive the HD wallet seed
-      // 3. Create the master key
-      // 4. Derive the first address
-      // 5. Store the encrypted seed and derivation info
+      const mnemonic = generateMnemonic(wordCount);
+      const wallet = await this.addHDWallet(name, mnemonic, passphrase);
+
+      return {
+        success: true,
+        data: {
+          wallet,
+          mnemonic,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error creating wallet: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Restore a wallet from a mnemonic phrase
+   * @param name The name of the wallet
+   * @param mnemonic The mnemonic phrase
+   * @param passphrase Optional passphrase for additional security
+   * @param discoveryOptions Gap limit and progress callback for the history scan
+   * @param descriptors The wallet's descriptors (e.g. from Bitcoin Core) to take account paths
+   * from instead of the standard BIP44/49/84/86 ones
+   */
+  async restoreWallet(
+    name: string,
+    mnemonic: string,
+    passphrase?: string,
+    discoveryOptions?: DiscoveryOptions,
+    descriptors?: string
+  ): Promise<BlockchainResponse<WalletAccount>> {
+    try {
+      const validation = validateMnemonic(mnemonic);
+      if (!validation.valid) {
+        return {
+          success: false,
+          error: validation.error,
+        };
+      }
+
+      const descriptorAccounts = descriptors
+        ? descriptorsToAccounts(parseDescriptors(descriptors, this.network), this.network)
+        : undefined;
+      const wallet = await this.addHDWallet(name, normalizeMnemonic(mnemonic), passphrase, descriptorAccounts);
+
+      // Scan for transaction history; the wallet is kept even if the scan fails so it can be rescanned later
+      const scan = await this.rescanWallet(wallet.id, discoveryOptions);
+      if (!scan.success) {
+        console.warn('Restored wallet without history:', scan.error);
+      }
+
+      return {
+        success: true,
+        data: wallet,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error restoring wallet: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Import a watch-only wallet from an extended public key or BIP380 descriptors
+   * No secrets are stored, so storage doesn't need to be unlocked; spends are
+   * exported as unsigned PSBTs.
+   * @param name The name of the wallet
+   * @param keyOrDescriptors An xpub/ypub/zpub (tpub/upub/vpub), or pkh/sh(wpkh)/wpkh/tr descriptors
+   * one per line or as Bitcoin Core's listdescriptors JSON
+   * @param scriptType Script type for a plain xpub/tpub, which doesn't say; defaults to P2WPKH
+   * @param discoveryOptions Gap limit and progress callback for the history scan
+   */
+  async importWatchOnly(
+    name: string,
+    keyOrDescriptors: string,
+    scriptType?: ScriptType,
+    discoveryOptions?: DiscoveryOptions
+  ): Promise<BlockchainResponse<WalletAccount>> {
+    try {
+      const input = keyOrDescriptors.trim();
+      let accounts: HDAccount[];
+
+      if (input.includes('(')) {
+        accounts = descriptorsToAccounts(parseDescriptors(input, this.network), this.network);
+      } else {
+        const key = parseExtendedPublicKey(input, this.network);
+        if (key.scriptType && scriptType && key.scriptType !== scriptType) {
+          return {
+            success: false,
+            error: `This key is for ${key.scriptType} addresses`,
+          };
+        }
+        accounts = [descriptorKeyToAccount(
+          { xpub: key.xpub, chains: [0, 1] },
+          key.scriptType ?? scriptType ?? ScriptType.P2WPKH,
+          this.network
+        )];
+      }
+
+      const xpubs = new Set(accounts.map(account => account.xpub));
+      const duplicate = this.wallets.find(wallet =>
+        wallet.network === this.network
+        && Object.values(this.hdWallets[wallet.id]?.accounts ?? {}).some(existing => xpubs.has(existing.xpub))
+      );
+      if (duplicate) {
+        return {
+          success: false,
+          error: `This key is already in wallet "${duplicate.name}"`,
+        };
+      }
+
+      const newWallet: WalletAccount = {
+        id: (this.wallets.length + 1).toString(),
+        name,
+        type: 'watch-only',
+        network: this.network,
+        balance: {
+          confirmed: 0,
+          unconfirmed: 0,
+          total: 0,
+        },
+        sidechainBalances: {},
+      };
+
+      this.history[newWallet.id] = [];
+      this.labels[newWallet.id] = {};
+      this.frozenUtxos[newWallet.id] = [];
+      this.outgoing[newWallet.id] = [];
+      // Descriptor accounts come back in order of preference
+      const accountsByType: Partial<Record<ScriptType, HDAccount>> = {};
+      accounts.forEach(account => {
+        accountsByType[account.scriptType] = account;
+      });
+      this.hdWallets[newWallet.id] = {
+        derivationPath: accounts[0].path,
+        accountIndex: 0,
+        scriptType: accounts[0].scriptType,
+        accounts: accountsByType,
+      };
+      this.addresses[newWallet.id] = [];
+
+      this.wallets.push(newWallet);
+      this.activeWalletId = newWallet.id;
+      await this.persist(newWallet.id);
+
+      // As with restores, keep the wallet even if the scan fails so it can be rescanned later
+      const scan = await this.rescanWallet(newWallet.id, discoveryOptions);
+      if (!scan.success) {
+        console.warn('Imported watch-only wallet without history:', scan.error);
+      }
+
+      return {
+        success: true,
+        data: newWallet,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error importing watch-only wallet: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Create a multisig vault from its co-signers' account xpubs
+   * Like watch-only wallets, vaults store no secrets; spends and deposits are exported
+   * as PSBTs that collect partial signatures until the threshold is met.
+   * @param name The name of the vault
+   * @param config Threshold, script type and co-signers (fingerprint, account path and xpub)
+   * @param discoveryOptions Gap limit and progress callback for the history scan
+   */
+  async createMultisigWallet(
+    name: string,
+    config: Omit<MultisigConfig, 'name'>,
+    discoveryOptions?: DiscoveryOptions
+  ): Promise<BlockchainResponse<WalletAccount>> {
+    try {
+      validateMultisigPolicy(config, this.network);
+      if (!SIGNABLE_SCRIPT_TYPES.includes(config.scriptType)) {
+        return {
+          success: false,
+          error: 'Legacy P2SH vaults are not supported; use P2WSH, P2SH-P2WSH or P2TR',
+        };
+      }
+
+      const xpubs = config.cosigners.map(cosigner => cosigner.xpub).sort().join();
+      const duplicate = this.wallets.find(wallet => {
+        const existing = this.multisigWallets[wallet.id];
+        return wallet.network === this.network && !!existing &&
+          existing.threshold === config.threshold &&
+          existing.scriptType === config.scriptType &&
+          existing.cosigners.map(cosigner => cosigner.xpub).sort().join() === xpubs;
+      });
+      if (duplicate) {
+        return {
+          success: false,
+          error: `This vault is already set up as "${duplicate.name}"`,
+        };
+      }
+
+      const newWallet: WalletAccount = {
+        id: (this.wallets.length + 1).toString(),
+        name,
+        type: 'multisig',
+        network: this.network,
+        balance: {
+          confirmed: 0,
+          unconfirmed: 0,
+          total: 0,
+        },
+        sidechainBalances: {},
+      };
+
+      this.history[newWallet.id] = [];
+      this.labels[newWallet.id] = {};
+      this.frozenUtxos[newWallet.id] = [];
+      this.outgoing[newWallet.id] = [];
+      this.multisigWallets[newWallet.id] = {
+        threshold: config.threshold,
+        scriptType: config.scriptType,
+        cosigners: config.cosigners.map(cosigner => ({ ...cosigner })),
+        nextReceiveIndex: 0,
+        nextChangeIndex: 0,
+      };
+      this.addresses[newWallet.id] = [];
+
+      this.wallets.push(newWallet);
+      this.activeWalletId = newWallet.id;
+      await this.persist(newWallet.id);
+
+      // As with restores, keep the vault even if the scan fails so it can be rescanned later
+      const scan = await this.rescanWallet(newWallet.id, discoveryOptions);
+      if (!scan.success) {
+        console.warn('Created vault without history:', scan.error);
+      }
+
+      return {
+        success: true,
+        data: newWallet,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error creating vault: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Import a multisig vault from a Coldcard/Sparrow setup file or sortedmulti descriptors
+   * @param name The name of the vault; defaults to the name in the setup file
+   * @param configOrDescriptors The setup file's text, or descriptors one per line
+   * @param discoveryOptions Gap limit and progress callback for the history scan
+   */
+  async importMultisigWallet(
+    name: string | undefined,
+    configOrDescriptors: string,
+    discoveryOptions?: DiscoveryOptions
+  ): Promise<BlockchainResponse<WalletAccount>> {
+    try {
+      const input = configOrDescriptors.trim();
+      const config: MultisigConfig = input.includes('(')
+        ? descriptorsToMultisig(parseDescriptors(input, this.network), this.network)
+        : parseMultisigConfig(input, this.network);
+
+      return this.createMultisigWallet(name || config.name || 'Vault', config, discoveryOptions);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error importing vault: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Get the policy and co-signers of a multisig vault
+   */
+  getMultisigInfo(walletId?: string): MultisigWalletInfo | undefined {
+    return this.multisigWallets[walletId ?? this.activeWalletId ?? ''];
+  }
+
+  /**
+   * Export a multisig vault as a Coldcard/Sparrow setup file, for co-signers to register
+   */
+  exportMultisigConfig(walletId?: string): BlockchainResponse<string> {
+    const wallet = walletId ? this.getWallet(walletId) : this.getActiveWallet();
+    const info = wallet && this.multisigWallets[wallet.id];
+
+    if (!wallet || !info) {
+      return {
+        success: false,
+        error: 'Vault not found',
+      };
+    }
+
+    return {
+      success: true,
+      data: formatMultisigConfig(wallet.name, info),
+    };
+  }
+
+  /**
+   * Import WIF private keys as a wallet
+   * Each key is looked up under every script type it can have (only P2PKH for uncompressed keys)
+   * and the addresses with history are kept; keys without history keep their first candidate.
+   * Imported wallets have no change chain, so change returns to their first address.
+   * @param name The name of the wallet
+   * @param privateKeys WIF keys separated by whitespace or commas
+   * @param discoveryOptions Progress callback for the history lookups
+   */
+  async importPrivateKeys(
+    name: string,
+    privateKeys: string,
+    discoveryOptions?: DiscoveryOptions
+  ): Promise<BlockchainResponse<WalletAccount>> {
+    try {
+      const keyPairs = parsePrivateKeys(privateKeys, this.network);
+      const candidates = keyPairs.map((keyPair, index) =>
+        getKeyScriptTypes(keyPair).map(scriptType => deriveKeyAddress(keyPair, scriptType, this.network, index))
+      );
+
+      const candidateAddresses = new Set(candidates.flat().map(address => address.address));
+      const duplicate = this.wallets.find(wallet =>
+        wallet.network === this.network
+        && (this.addresses[wallet.id] || []).some(address => candidateAddresses.has(address.address))
+      );
+      if (duplicate) {
+        return {
+          success: false,
+          error: `This key is already in wallet "${duplicate.name}"`,
+        };
+      }
+
+      const scan = await discoveryService.discoverAddresses(candidates.flat(), discoveryOptions);
+      if (!scan.success || !scan.data) {
+        return {
+          success: false,
+          error: scan.error,
+        };
+      }
+      const used = new Set(scan.data.usedAddresses.map(address => address.address));
+
+      const newWallet: WalletAccount = {
+        id: (this.wallets.length + 1).toString(),
+        name,
+        type: 'imported',
+        network: this.network,
+        balance: {
+          confirmed: 0,
+          unconfirmed: 0,
+          total: 0,
+        },
+        sidechainBalances: {},
+      };
+
+      // Write the keys first so a locked storage fails before anything is registered
+      const secrets: ImportedKeySecrets = { privateKeys: keyPairs.map(keyPair => keyPair.toWIF()) };
+      await storageService.setSecret(`wallet:${newWallet.id}`, JSON.stringify(secrets));
+
+      this.history[newWallet.id] = scan.data.history;
+      this.labels[newWallet.id] = {};
+      this.frozenUtxos[newWallet.id] = [];
+      this.outgoing[newWallet.id] = [];
+      this.addresses[newWallet.id] = candidates.flatMap(keyAddresses => {
+        const usedAddresses = keyAddresses.filter(address => used.has(address.address));
+        return usedAddresses.length > 0 ? usedAddresses : [keyAddresses[0]];
+      });
+
+      this.wallets.push(newWallet);
+      this.activeWalletId = newWallet.id;
+      await this.persist(newWallet.id);
+
+      return {
+        success: true,
+        data: newWallet,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error importing private keys: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Find the funds of WIF private keys and what sweeping them into the active wallet would pay
+   * @param privateKeys WIF keys separated by whitespace or commas
+   * @param feeRate Fee rate in sat/vB
+   */
+  async previewSweep(privateKeys: string, feeRate: number): Promise<BlockchainResponse<SweepPreview>> {
+    try {
+      const wallet = this.getActiveWallet();
+      const destination = wallet && this.getChangeSizing(wallet.id);
+
+      if (!wallet || !destination) {
+        return {
+          success: false,
+          error: 'No active wallet',
+        };
+      }
+
+      const keyPairs = parsePrivateKeys(privateKeys, wallet.network);
+      const candidates = keyPairs.flatMap((keyPair, index) =>
+        getKeyScriptTypes(keyPair).map(scriptType => deriveKeyAddress(keyPair, scriptType, wallet.network, index))
+      );
+
+      const scan = await discoveryService.discoverAddresses(candidates);
+      if (!scan.success || !scan.data) {
+        return {
+          success: false,
+          error: scan.error,
+        };
+      }
+
+      const inputs: WalletUtxo[] = [];
+      for (const address of scan.data.usedAddresses) {
+        const response = await electrumService.getAddressUtxos(address.address);
+        if (!response.success || !response.data) {
+          return {
+            success: false,
+            error: response.error || `Failed to get UTXOs for ${address.address}`,
+          };
+        }
+        response.data.forEach(utxo => inputs.push({
+          ...utxo,
+          scriptType: address.scriptType,
+          path: address.path,
+          publicKey: address.publicKey,
+        }));
+      }
+
+      if (inputs.length === 0) {
+        return {
+          success: false,
+          error: 'No funds found for these keys',
+        };
+      }
+
+      const total = sumAmounts(inputs.map(utxo => utxo.amount));
+      const vsize = estimateVsize(inputs, [OUTPUT_SCRIPT_LENGTH[destination.scriptType]]);
+      const fee = Math.ceil(vsize * feeRate);
+      if (total - fee < DUST_THRESHOLD[destination.scriptType]) {
+        return {
+          success: false,
+          error: 'The funds found are too small to sweep at this fee rate',
+        };
+      }
+
+      return {
+        success: true,
+        data: { inputs, total, fee, amount: total - fee, vsize },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error preparing sweep: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Sweep all funds of WIF private keys to a fresh address of the active wallet
+   * The keys are used once and not stored.
+   * @param privateKeys WIF keys separated by whitespace or commas
+   * @param feeRate Fee rate in sat/vB
+   * @returns The sweep's txid
+   */
+  async sweepPrivateKeys(privateKeys: string, feeRate: number): Promise<BlockchainResponse<string>> {
+    try {
+      const previewResult = await this.previewSweep(privateKeys, feeRate);
+      if (!previewResult.success || !previewResult.data) {
+        return {
+          success: false,
+          error: previewResult.error,
+        };
+      }
+
+      const wallet = this.getActiveWallet()!;
+      const preview = previewResult.data;
+      const destination = this.deriveNextAddress(false);
+      const inputs = await this.withPreviousTransactions(preview.inputs);
+
+      const psbt = buildPsbt(inputs, [{
+        script: Buffer.from(destination.scriptPubKey, 'hex'),
+        value: preview.amount,
+      }], wallet.network);
+      signPsbtWithKeys(psbt, inputs, parsePrivateKeys(privateKeys, wallet.network));
+      psbt.finalizeAllInputs();
+
+      const signedTx = psbt.extractTransaction();
+      const broadcast = await electrumService.broadcastTransaction(signedTx.toHex());
+      if (!broadcast.success) {
+        return {
+          success: false,
+          error: broadcast.error || 'Failed to broadcast transaction',
+        };
+      }
+
+      const txid = signedTx.getId();
+      this.history[wallet.id].push({ txid, height: 0, fee: preview.fee });
+      await this.persist(wallet.id);
+
+      return {
+        success: true,
+        data: txid,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error sweeping private keys: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Get this wallet's BIP48 co-signer key, for other co-signers to add to a vault
+   * @returns The key with its origin, e.g. [fingerprint/48h/1h/0h/2h]tpub...
+   */
+  async getCosignerKey(
+    scriptType: Exclude<MultisigScriptType, MultisigScriptType.P2SH>,
+    walletId?: string
+  ): Promise<BlockchainResponse<string>> {
+    try {
+      const wallet = walletId ? this.getWallet(walletId) : this.getActiveWallet();
+      if (!wallet) {
+        return {
+          success: false,
+          error: 'Wallet not found',
+        };
+      }
+
+      const { seed } = await this.loadSecrets(wallet.id);
+      const cosigner = deriveCosigner(Buffer.from(seed, 'hex'), scriptType, wallet.network, this.hdWallets[wallet.id].accountIndex);
+      return {
+        success: true,
+        data: `[${cosigner.fingerprint}${cosigner.path.replace(/^m/, '').replace(/'/g, 'h')}]${cosigner.xpub}`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error getting co-signer key: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Derive the seed for a mnemonic and register a new HD wallet for it
+   * @param descriptorAccounts Accounts to derive instead of the standard ones; each must
+   * match what the seed derives at its path
+   */
+  private async addHDWallet(
+    name: string,
+    mnemonic: string,
+    passphrase?: string,
+    descriptorAccounts?: HDAccount[]
+  ): Promise<WalletAccount> {
+    if (storageService.isLocked()) {
+      throw new Error('Wallet storage is locked; unlock it with your PIN first');
+    }
+
+    const seed = await mnemonicToSeed(mnemonic, passphrase);
+    let defaultScriptType = ScriptType.P2WPKH;
+    let accountIndex = 0;
+
+    const accounts: Partial<Record<ScriptType, HDAccount>> = {};
+    if (descriptorAccounts) {
+      descriptorAccounts.forEach(expected => {
+        const account = deriveAccountAtPath(seed, expected.scriptType, this.network, expected.path);
+        if (account.xpub !== expected.xpub || account.masterFingerprint !== expected.masterFingerprint) {
+          throw new Error(`The ${expected.scriptType} descriptor does not belong to this recovery phrase`);
+        }
+        accounts[expected.scriptType] = account;
+      });
+      defaultScriptType = descriptorAccounts[0].scriptType;
+      accountIndex = parseInt(descriptorAccounts[0].path.split('/').pop() ?? '', 10) || 0;
+    } else {
+      // Derive one account per supported script type
+      SUPPORTED_SCRIPT_TYPES.forEach(scriptType => {
+        accounts[scriptType] = deriveAccount(seed, scriptType, this.network, accountIndex);
+      });
+    }
+
+    const newWallet: WalletAccount = {
+      id: (this.wallets.length + 1).toString(),
+      name,
+      type: 'hd',
+      network: this.network,
+      balance: {
+        confirmed: 0,
+        unconfirmed: 0,
+        total: 0,
+      },
+      sidechainBalances: {},
+    };
+
+    this.history[newWallet.id] = [];
+    this.labels[newWallet.id] = {};
+    this.frozenUtxos[newWallet.id] = [];
+    this.outgoing[newWallet.id] = [];
+    this.hdWallets[newWallet.id] = {
+      mnemonic,
+      seed: seed.toString('hex'),
+      passphrase,
+      derivationPath: accounts[defaultScriptType]!.path,
+      accountIndex,
+      scriptType: defaultScriptType,
+      accounts,
+    };
+    this.addresses[newWallet.id] = [];
+
+    this.wallets.push(newWallet);
+    this.activeWalletId = newWallet.id;
+
+    const secrets: WalletSecrets = { mnemonic, seed: seed.toString('hex') };
+    await storageService.setSecret(`wallet:${newWallet.id}`, JSON.stringify(secrets));
+    await this.persist(newWallet.id);
+
+    return newWallet;
+  }
+
+  /**
+   * Rescan all accounts of an HD wallet for used addresses and transaction history
+   * @param walletId The wallet to rescan, defaults to the active wallet
+   * @param options Gap limit and progress callback
+   */
+  async rescanWallet(
+    walletId?: string,
+    options?: DiscoveryOptions
+  ): Promise<BlockchainResponse<DiscoveryResult>> {
+    try {
+      const wallet = walletId ? this.getWallet(walletId) : this.getActiveWallet();
+      const multisigInfo = wallet && this.multisigWallets[wallet.id];
+      if (wallet && multisigInfo) {
+        return this.rescanMultisigWallet(wallet, multisigInfo, options);
+      }
+      if (wallet?.type === 'imported') {
+        return this.rescanImportedWallet(wallet, options);
+      }
+
+      const hdInfo = wallet && this.hdWallets[wallet.id];
+      if (!wallet || !hdInfo) {
+        return {
+          success: false,
+          error: 'HD wallet not found',
+        };
+      }
+
+      const response = await discoveryService.discoverAccounts(
+        Object.values(hdInfo.accounts),
+        wallet.network,
+        options
+      );
+
+      if (!response.success || !response.data) {
+        return response;
+      }
+
+      const result = response.data;
+      result.accounts.forEach(account => {
+        hdInfo.accounts[account.scriptType] = account;
+      });
+
+      // Prefer a script type the wallet has actually used for new addresses
+      if (result.usedAccounts.length > 0 && !result.usedAccounts.includes(hdInfo.scriptType)) {
+        hdInfo.scriptType = result.usedAccounts[0];
+        hdInfo.derivationPath = hdInfo.accounts[hdInfo.scriptType]!.path;
+      }
+
+      const known = new Set(this.addresses[wallet.id].map(address => address.address));
+      result.usedAddresses
+        .filter(address => !known.has(address.address))
+        .forEach(address => this.addresses[wallet.id].push(address));
+
+      this.history[wallet.id] = result.history;
+      await this.persist(wallet.id);
+
+      return response;
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error rescanning wallet: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Rescan both chains of a multisig vault
+   */
+  private async rescanMultisigWallet(
+    wallet: WalletAccount,
+    info: MultisigWalletInfo,
+    options?: DiscoveryOptions
+  ): Promise<BlockchainResponse<DiscoveryResult>> {
+    const response = await discoveryService.discoverChains(
+      info.scriptType,
+      (change, index) => deriveMultisigAddress(info, wallet.network, change, index),
+      options
+    );
+    if (!response.success || !response.data) {
+      return {
+        success: false,
+        error: response.error,
+      };
+    }
+
+    const { nextIndexes, usedAddresses, history } = response.data;
+    info.nextReceiveIndex = Math.max(info.nextReceiveIndex, nextIndexes.receive);
+    info.nextChangeIndex = Math.max(info.nextChangeIndex, nextIndexes.change);
+
+    const known = new Set(this.addresses[wallet.id].map(address => address.address));
+    usedAddresses
+      .filter(address => !known.has(address.address))
+      .forEach(address => this.addresses[wallet.id].push(address));
+
+    this.history[wallet.id] = history;
+    await this.persist(wallet.id);
+
+    return {
+      success: true,
+      data: { accounts: [], usedAccounts: [], usedAddresses, history },
+    };
+  }
+
+  /**
+   * Refresh the history of an imported wallet's addresses
+   */
+  private async rescanImportedWallet(
+    wallet: WalletAccount,
+    options?: DiscoveryOptions
+  ): Promise<BlockchainResponse<DiscoveryResult>> {
+    const response = await discoveryService.discoverAddresses(this.addresses[wallet.id], options);
+    if (!response.success || !response.data) {
+      return {
+        success: false,
+        error: response.error,
+      };
+    }
+
+    this.history[wallet.id] = response.data.history;
+    await this.persist(wallet.id);
+
+    return {
+      success: true,
+      data: { accounts: [], usedAccounts: [], ...response.data },
+    };
+  }
+
+  /**
+   * Get all wallets
+   */
+  getWallets(): WalletAccount[] {
+    return this.wallets;
+  }
+
+  /**
+   * Get a wallet by ID
+   */
+  getWallet(id: string): WalletAccount | undefined {
+    return this.wallets.find(wallet => wallet.id === id);
+  }
+
+  /**
+   * Get the active wallet
+   */
+  getActiveWallet(): WalletAccount | undefined {
+    if (!this.activeWalletId) return undefined;
+    return this.getWallet(this.activeWalletId);
+  }
+
+  /**
+   * Set the active wallet
+   */
+  setActiveWallet(id: string): boolean {
+    const wallet = this.getWallet(id);
+    if (!wallet) return false;
+    this.activeWalletId = id;
+    this.persist().catch(error => console.error('Error saving active wallet:', error));
+    return true;
+  }
+
+  /**
+   * Set or clear (empty string) the label of an address, transaction or output
+   */
+  async setLabel(key: string, label: string, walletId?: string): Promise<BlockchainResponse<boolean>> {
+    try {
+      const id = walletId ?? this.activeWalletId;
+      if (!id || !this.getWallet(id)) {
+        return {
+          success: false,
+          error: 'Wallet not found',
+        };
+      }
+
+      const labels = this.labels[id] || (this.labels[id] = {});
+      if (label) {
+        labels[key] = label;
+      } else {
+        delete labels[key];
+      }
+      await this.persist(id);
+
+      return {
+        success: true,
+        data: true,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error saving label: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Get all labels of a wallet keyed by address, txid or txid:vout
+   */
+  getLabels(walletId?: string): Record<string, string> {
+    return this.labels[walletId ?? this.activeWalletId ?? ''] || {};
+  }
+
+  /**
+   * Update a wallet's balance from the balances of all its addresses, in one batched request
+   * Sidechain balances come from the sidechains themselves and are left as they are.
+   */
+  async updateBalances(walletId?: string): Promise<BlockchainResponse<boolean>> {
+    try {
+      const wallet = walletId ? this.getWallet(walletId) : this.getActiveWallet();
+      
+      if (!wallet) {
+        return {
+          success: false,
+          error: 'Wallet not found',
+        };
+      }
+
+      const addresses = this.addresses[wallet.id] || [];
+      const response = await electrumService.getAddressBalances(addresses.map(address => address.address));
+      if (!response.success || !response.data) {
+        return {
+          success: false,
+          error: response.error || 'Failed to get address balances',
+          code: response.code,
+        };
+      }
+
+      const balances: Record<string, AddressBalance> = {};
+      addresses.forEach((address, i) => {
+        balances[address.address] = response.data![i];
+      });
+      this.addressBalances[wallet.id] = balances;
+      await this.applyAddressBalances(wallet);
+
+      return {
+        success: true,
+        data: true,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error updating balances: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Listen for balance, history and chain tip changes pushed by the server
+   * @returns A function removing the listener
+   */
+  addListener(listener: (event: WalletEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get the UTXOs of every address of a wallet
+   */
+  async getUtxos(walletId?: string): Promise<BlockchainResponse<WalletUtxo[]>> {
+    try {
+      const id = walletId ?? this.activeWalletId ?? '';
+      const addresses = this.addresses[id];
+      if (!addresses) {
+        return {
+          success: false,
+          error: 'Wallet not found',
+        };
+      }
+
+      const responses = await Promise.all(
+        addresses.map(address => electrumService.getAddressUtxos(address.address))
+      );
+
+      const frozen = new Set(this.frozenUtxos[id] || []);
+      const labels = this.labels[id] || {};
+      const utxos = new Map<string, WalletUtxo>();
+      for (let i = 0; i < responses.length; i++) {
+        const response = responses[i];
+        if (!response.success || !response.data) {
+          return {
+            success: false,
+            error: response.error || `Failed to get UTXOs for ${addresses[i].address}`,
+          };
+        }
+
+        response.data.forEach(utxo => {
+          const outpoint = `${utxo.txid}:${utxo.vout}`;
+          utxos.set(outpoint, {
+            ...utxo,
+            scriptType: addresses[i].scriptType,
+            path: addresses[i].path,
+            publicKey: addresses[i].publicKey,
+            multisig: addresses[i].multisig,
+            frozen: frozen.has(outpoint),
+            label: labels[outpoint] ?? labels[utxo.address],
+          });
+        });
+      }
+
+      return {
+        success: true,
+        data: Array.from(utxos.values()),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error getting UTXOs: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Freeze or unfreeze a UTXO; frozen outputs are never picked by automatic coin selection
+   * @param outpoint The output as "txid:vout"
+   */
+  async setUtxoFrozen(
+    outpoint: string,
+    frozen: boolean,
+    walletId?: string
+  ): Promise<BlockchainResponse<boolean>> {
+    try {
+      const id = walletId ?? this.activeWalletId;
+      if (!id || !this.getWallet(id)) {
+        return {
+          success: false,
+          error: 'Wallet not found',
+        };
+      }
+
+      const current = (this.frozenUtxos[id] || []).filter(entry => entry !== outpoint);
+      this.frozenUtxos[id] = frozen ? [...current, outpoint] : current;
+      await this.persist(id);
+
+      return {
+        success: true,
+        data: true,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error updating frozen outputs: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Get the outpoints ("txid:vout") of a wallet's frozen UTXOs
+   */
+  getFrozenUtxos(walletId?: string): string[] {
+    return this.frozenUtxos[walletId ?? this.activeWalletId ?? ''] || [];
+  }
+
+  /**
+   * Pick the UTXOs a spend may use: the manually selected ones, or every signable UTXO
+   */
+  private async getSpendCandidates(
+    walletId: string,
+    options: SpendOptions
+  ): Promise<{ utxos: WalletUtxo[]; manual: boolean }> {
+    const response = await this.getUtxos(walletId);
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to get UTXOs');
+    }
+
+    const signable = response.data.filter(utxo => SIGNABLE_SCRIPT_TYPES.includes(utxo.scriptType));
+    if (!options.inputs) {
+      return { utxos: signable, manual: false };
+    }
+
+    const utxos = options.inputs.map(outpoint => {
+      const utxo = signable.find(u => `${u.txid}:${u.vout}` === outpoint);
+      if (!utxo) {
+        throw new Error(`Selected output ${outpoint} is not a spendable wallet UTXO`);
+      }
+      return utxo;
+    });
+
+    return { utxos, manual: true };
+  }
+
+  /**
+   * Create and send a transaction
+   * @param amount Amount to send in satoshis
+   * @param feeRate Fee rate in sat/vB
+   * @param options Manual coin control
+   */
+  async sendTransaction(
+    recipientAddress: string,
+    amount: Satoshis,
+    feeRate: number,
+    options: SpendOptions = {}
+  ): Promise<BlockchainResponse<{ txid: string; transaction: Transaction }>> {
+    try {
+      const prepared = await this.prepareSend(recipientAddress, amount, feeRate, options);
+      if (!prepared.success || !prepared.data) {
+        return {
+          success: false,
+          error: prepared.error,
+        };
+      }
+
+      const wallet = this.getActiveWallet()!;
+      const { selection, outputs, changeAddress } = prepared.data;
+      const recipientScript = outputs[0].script;
+
+      const broadcast = await this.signAndBroadcast(wallet.id, selection, outputs);
+      if (!broadcast.success || !broadcast.data) {
+        return {
+          success: false,
+          error: broadcast.error,
+        };
+      }
+
+      const { transaction, hex } = broadcast.data;
+      this.outgoing[wallet.id].push({
+        txid: transaction.txid,
+        type: 'send',
+        hex,
+        inputs: selection.inputs,
+        recipients: [{ scriptPubKey: recipientScript.toString('hex'), address: recipientAddress, value: amount }],
+        change: changeAddress && {
+          scriptPubKey: changeAddress.scriptPubKey,
+          scriptType: changeAddress.scriptType,
+          value: selection.change,
+        },
+        fee: selection.fee,
+        vsize: transaction.vsize,
+        timestamp: Date.now(),
+      });
+      await this.persist(wallet.id);
+
+      return {
+        success: true,
+        data: {
+          txid: transaction.txid,
+          transaction,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error sending transaction: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Select coins and lay out the outputs of a send, deriving a change address if needed
+   */
+  private async prepareSend(
+    recipientAddress: string,
+    amount: Satoshis,
+    feeRate: number,
+    options: SpendOptions
+  ): Promise<BlockchainResponse<PreparedSpend>> {
+    const wallet = this.getActiveWallet();
+    const change = wallet && this.getChangeSizing(wallet.id);
+
+    if (!wallet || !change) {
+      return {
+        success: false,
+        error: 'No active wallet',
+      };
+    }
+
+    const recipientScript = addressToScript(recipientAddress, wallet.network);
+
+    const candidates = await this.getSpendCandidates(wallet.id, options);
+    const selectionParams: CoinSelectionParams = {
+      utxos: candidates.utxos,
+      outputs: [{
+        scriptLength: recipientScript.length,
+        value: amount,
+        dustThreshold: getDustThreshold(recipientScript),
+      }],
+      changeScriptType: change.scriptType,
+      changeMultisig: change.multisig,
+      feeRate,
+    };
+    const selectionResult = candidates.manual
+      ? selectManual(selectionParams)
+      : selectCoins(selectionParams);
+
+    if (!selectionResult.success || !selectionResult.data) {
+      return {
+        success: false,
+        error: selectionResult.error,
+      };
+    }
+    const selection = selectionResult.data;
+
+    const outputs: TxRecipient[] = [{ script: recipientScript, value: amount }];
+    let changeAddress: WalletAddress | undefined;
+    if (selection.change > 0) {
+      changeAddress = this.deriveNextAddress(true);
+      outputs.push({
+        script: Buffer.from(changeAddress.scriptPubKey, 'hex'),
+        value: selection.change,
+      });
+    }
+
+    return {
+      success: true,
+      data: { selection, outputs, changeAddress },
+    };
+  }
+
+  /**
+   * Create an unsigned PSBT for a send, for signing elsewhere
+   * @param amount Amount to send in satoshis
+   * @param feeRate Fee rate in sat/vB
+   * @param options Manual coin control
+   */
+  async createSendPsbt(
+    recipientAddress: string,
+    amount: Satoshis,
+    feeRate: number,
+    options: SpendOptions = {}
+  ): Promise<BlockchainResponse<Psbt>> {
+    try {
+      const prepared = await this.prepareSend(recipientAddress, amount, feeRate, options);
+      if (!prepared.success || !prepared.data) {
+        return {
+          success: false,
+          error: prepared.error,
+        };
+      }
+
+      return {
+        success: true,
+        data: await this.buildWalletPsbt(prepared.data),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error creating PSBT: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Create an unsigned PSBT merging UTXOs into a single output on our change chain
+   * @param feeRate Fee rate in sat/vB
+   * @param options The outputs to merge; defaults to every confirmed, unfrozen UTXO
+   */
+  async createConsolidationPsbt(
+    feeRate: number,
+    options: SpendOptions = {}
+  ): Promise<BlockchainResponse<Psbt>> {
+    try {
+      const wallet = this.getActiveWallet();
+      const change = wallet && this.getChangeSizing(wallet.id);
+
+      if (!wallet || !change) {
+        return {
+          success: false,
+          error: 'No active wallet',
+        };
+      }
+
+      const candidates = await this.getSpendCandidates(wallet.id, options);
+      const inputs = candidates.manual
+        ? candidates.utxos
+        : candidates.utxos.filter(utxo => utxo.spendable && !utxo.frozen && utxo.confirmations > 0);
+
+      const frozen = inputs.find(utxo => utxo.frozen);
+      if (frozen) {
+        return {
+          success: false,
+          error: `Output ${frozen.txid}:${frozen.vout} is frozen; unfreeze it before spending`,
+        };
+      }
+      if (inputs.length < 2) {
+        return {
+          success: false,
+          error: 'Consolidation needs at least two outputs',
+        };
+      }
+
+      const vsize = estimateVsize(inputs, [OUTPUT_SCRIPT_LENGTH[change.scriptType]]);
+      const fee = Math.ceil(vsize * feeRate);
+      const value = sumAmounts(inputs.map(utxo => utxo.amount)) - fee;
+      if (value < DUST_THRESHOLD[change.scriptType]) {
+        return {
+          success: false,
+          error: 'The selected outputs are too small to consolidate at this fee rate',
+        };
+      }
+
+      const changeAddress = this.deriveNextAddress(true);
+      const psbt = await this.buildWalletPsbt({
+        selection: { inputs, fee, change: value, vsize },
+        outputs: [{ script: Buffer.from(changeAddress.scriptPubKey, 'hex'), value }],
+        changeAddress,
+      });
+
+      return {
+        success: true,
+        data: psbt,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error creating consolidation PSBT: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Build an unsigned PSBT with key origins, so hardware and offline signers can
+   * find their keys and recognise our change
+   */
+  private async buildWalletPsbt(spend: PreparedSpend): Promise<Psbt> {
+    const wallet = this.getActiveWallet()!;
+    const psbt = buildPsbt(await this.withPreviousTransactions(spend.selection.inputs), spend.outputs, wallet.network);
+
+    const changeIndex = spend.changeAddress
+      ? spend.outputs.findIndex(output => output.script.toString('hex') === spend.changeAddress!.scriptPubKey)
+      : -1;
+    addKeyOrigins(
+      psbt,
+      spend.selection.inputs,
+      changeIndex >= 0 ? [{ index: changeIndex, address: spend.changeAddress! }] : [],
+      wallet.network,
+      this.hdWallets[wallet.id] ? this.getMasterFingerprint(wallet.id) : undefined
+    );
+
+    // The change address was used up
+    await this.persist(wallet.id);
+    return psbt;
+  }
+
+  /**
+   * Fingerprint of the active wallet's master key, if it holds keys
+   * Used to recognise vault inputs this wallet co-signs.
+   */
+  getSigningFingerprint(): string | undefined {
+    const wallet = this.getActiveWallet();
+    return wallet?.type === 'hd' && this.hdWallets[wallet.id] ? this.getMasterFingerprint(wallet.id) : undefined;
+  }
+
+  /**
+   * Fingerprint of a wallet's master key
+   */
+  private getMasterFingerprint(walletId: string): string {
+    const account = Object.values(this.hdWallets[walletId]?.accounts ?? {})[0];
+    if (!account) {
+      throw new Error('HD wallet not found');
+    }
+    return account.masterFingerprint;
+  }
+
+  /**
+   * Script type (and policy, for vaults) of a wallet's change outputs
+   */
+  private getChangeSizing(walletId: string): InputSizing | undefined {
+    const multisigInfo = this.multisigWallets[walletId];
+    if (multisigInfo) {
+      return {
+        scriptType: multisigInfo.scriptType,
+        multisig: { threshold: multisigInfo.threshold, keys: multisigInfo.cosigners },
+      };
+    }
+
+    if (this.getWallet(walletId)?.type === 'imported') {
+      const [first] = this.addresses[walletId] || [];
+      return first && { scriptType: first.scriptType, publicKey: first.publicKey };
+    }
+
+    const hdInfo = this.hdWallets[walletId];
+    return hdInfo && { scriptType: hdInfo.scriptType };
+  }
+
+  /**
+   * Sign every input of a PSBT that spends from this wallet, including multisig
+   * inputs of vaults this wallet is a co-signer of (found by key origin)
+   * @returns The number of inputs signed
+   */
+  async signPsbt(psbt: Psbt): Promise<BlockchainResponse<number>> {
+    try {
+      const wallet = this.getActiveWallet();
+
+      if (wallet && this.multisigWallets[wallet.id]) {
+        return {
+          success: false,
+          error: 'Vaults hold no keys; share the PSBT with the co-signers to sign',
+        };
+      }
+      if (!wallet || (!this.hdWallets[wallet.id] && wallet.type !== 'imported')) {
+        return {
+          success: false,
+          error: 'No active wallet',
+        };
+      }
+
+      const inputs = findWalletInputs(psbt, this.addresses[wallet.id] || [], wallet.network);
+      const cosignerInputs = wallet.type === 'hd'
+        ? findCosignerInputs(psbt, this.getMasterFingerprint(wallet.id))
+        : [];
+      if (inputs.length === 0 && cosignerInputs.length === 0) {
+        return {
+          success: false,
+          error: 'This wallet has no keys for the unsigned inputs of this PSBT',
+        };
+      }
+
+      let signed = inputs.length > 0 ? await this.signWalletInputs(wallet.id, psbt, inputs) : 0;
+      if (cosignerInputs.length > 0) {
+        const { seed } = await this.loadSecrets(wallet.id);
+        signed += signCosignerInputs(psbt, cosignerInputs, Buffer.from(seed, 'hex'), wallet.network);
+      }
+
+      return {
+        success: true,
+        data: signed,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error signing PSBT: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Finalize a fully signed PSBT, extract the transaction and broadcast it
+   */
+  async broadcastPsbt(psbt: Psbt): Promise<BlockchainResponse<string>> {
+    try {
+      const wallet = this.getActiveWallet();
+
+      if (!wallet) {
+        return {
+          success: false,
+          error: 'No active wallet',
+        };
+      }
+
+      const summary = summarizePsbt(psbt, this.addresses[wallet.id] || [], wallet.network);
+      if (!finalizePsbt(psbt)) {
+        return {
+          success: false,
+          error: 'The PSBT is missing signatures',
+        };
+      }
+
+      const hex = psbt.extractTransaction().toHex();
+      const broadcast = await electrumService.broadcastTransaction(hex);
+      if (!broadcast.success) {
+        return {
+          success: false,
+          error: broadcast.error || 'Failed to broadcast transaction',
+        };
+      }
+
+      const txid = psbt.extractTransaction().getId();
+      if (summary.inputs.some(input => input.ours) || summary.outputs.some(output => output.ours)) {
+        this.history[wallet.id].push({ txid, height: 0, fee: summary.fee });
+        await this.persist(wallet.id);
+      }
+
+      return {
+        success: true,
+        data: txid,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error broadcasting PSBT: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Sign a selection's inputs, broadcast the transaction and add it to the wallet history
+   */
+  private async signAndBroadcast(
+    walletId: string,
+    selection: CoinSelection,
+    outputs: TxRecipient[]
+  ): Promise<BlockchainResponse<{ transaction: Transaction; hex: string }>> {
+    const wallet = this.getWallet(walletId)!;
+    const inputs = await this.withPreviousTransactions(selection.inputs);
+    const psbt = buildPsbt(inputs, outputs, wallet.network);
+    await this.signWalletInputs(walletId, psbt, inputs);
+    psbt.finalizeAllInputs();
+
+    const signedTx = psbt.extractTransaction();
+    const hex = signedTx.toHex();
+    const broadcast = await electrumService.broadcastTransaction(hex);
+    if (!broadcast.success) {
+      return {
+        success: false,
+        error: broadcast.error || 'Failed to broadcast transaction',
+      };
+    }
+
+    const transaction = toTransaction(signedTx, wallet.network);
+    this.history[walletId].push({ txid: transaction.txid, height: 0, fee: selection.fee });
+
+    return {
+      success: true,
+      data: { transaction, hex },
+    };
+  }
+
+  /**
+   * Sign the given wallet inputs of a PSBT with the wallet's seed, or its keys if imported
+   * @returns The number of inputs signed
+   */
+  private async signWalletInputs(walletId: string, psbt: Psbt, inputs: WalletUtxo[]): Promise<number> {
+    const wallet = this.getWallet(walletId)!;
+    if (wallet.type === 'imported') {
+      return signPsbtWithKeys(psbt, inputs, await this.loadPrivateKeys(walletId));
+    }
+
+    const { seed } = await this.loadSecrets(walletId);
+    return signPsbt(psbt, inputs, Buffer.from(seed, 'hex'), wallet.network);
+  }
+
+  /**
+   * Attach the full previous transaction to P2PKH inputs, which need it to be signed
+   */
+  private async withPreviousTransactions(inputs: WalletUtxo[]): Promise<WalletUtxo[]> {
+    return Promise.all(inputs.map(async utxo => {
+      if (utxo.scriptType !== ScriptType.P2PKH || utxo.previousTx) {
+        return utxo;
+      }
+
+      const raw = await electrumService.getRawTransaction(utxo.txid);
+      if (!raw.success || !raw.data) {
+        throw new Error(raw.error || `Failed to get transaction ${utxo.txid}`);
+      }
+      return { ...utxo, previousTx: raw.data };
+    }));
+  }
+
+  /**
+   * Get the transactions this wallet has built and broadcast, newest first
+   */
+  getOutgoingTransactions(walletId?: string): OutgoingTransaction[] {
+    const records = this.outgoing[walletId ?? this.activeWalletId ?? ''] || [];
+    return [...records].sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  /**
+   * Whether an outgoing transaction can still be fee-bumped or cancelled
+   */
+  canReplace(txid: string, walletId?: string): boolean {
+    try {
+      this.getReplaceableTransaction(walletId ?? this.activeWalletId ?? '', txid);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Find an unconfirmed, not yet replaced outgoing transaction
+   */
+  private getReplaceableTransaction(walletId: string, txid: string): OutgoingTransaction {
+    const record = (this.outgoing[walletId] || []).find(tx => tx.txid === txid);
+    if (!record) {
+      throw new Error('Only transactions sent from this wallet can be replaced');
+    }
+    if (record.replacedBy) {
+      throw new Error(`Transaction was already replaced by ${record.replacedBy}`);
+    }
+    if (record.type === 'deposit') {
+      // A replacement built from the wallet's inputs alone would no longer spend the CTIP
+      throw new Error('Deposits spend the sidechain CTIP and can only be accelerated with CPFP');
+    }
+
+    const entry = (this.history[walletId] || []).find(tx => tx.txid === txid);
+    if (entry && entry.height > 0) {
+      throw new Error('Transaction is already confirmed');
+    }
+
+    return record;
+  }
+
+  /**
+   * Select inputs and fee for replacing an outgoing transaction (BIP125) without sending it
+   * A bump keeps the recipients and shrinks the change, adding confirmed inputs if
+   * the change can't cover the new fee. A cancel pays every input back to our change address.
+   * @param feeRate New fee rate in sat/vB
+   * @param cancel Double-spend back to ourselves instead of bumping
+   */
+  async previewReplacement(
+    txid: string,
+    feeRate: number,
+    cancel = false
+  ): Promise<CoinSelectionResult> {
+    try {
+      const wallet = this.getActiveWallet();
+      const changeSizing = wallet && this.getChangeSizing(wallet.id);
+
+      if (!wallet || !changeSizing) {
+        return {
+          success: false,
+          error: 'No active wallet',
+        };
+      }
+
+      const record = this.getReplaceableTransaction(wallet.id, txid);
+      const changeScriptType = record.change?.scriptType ?? changeSizing.scriptType;
+      let selection: CoinSelection | null;
+
+      if (cancel) {
+        const vsize = estimateVsize(record.inputs, [OUTPUT_SCRIPT_LENGTH[changeScriptType]]);
+        const fee = Math.ceil(vsize * feeRate);
+        const change = sumAmounts(record.inputs.map(utxo => utxo.amount)) - fee;
+        selection = change >= DUST_THRESHOLD[changeScriptType]
+          ? { inputs: record.inputs, fee, change, vsize }
+          : null;
+      } else {
+        const selectionParams: CoinSelectionParams = {
+          utxos: record.inputs,
+          outputs: record.recipients.map(recipient => {
+            const script = Buffer.from(recipient.scriptPubKey, 'hex');
+            return { scriptLength: script.length, value: recipient.value, dustThreshold: getDustThreshold(script) };
+          }),
+          changeScriptType,
+          feeRate,
+        };
+        selection = finalizeSelection(record.inputs, selectionParams);
+
+        if (!selection) {
+          // A replacement may only add confirmed inputs (BIP125 rule 2)
+          const utxosResponse = await this.getUtxos(wallet.id);
+          const extra = (utxosResponse.data || [])
+            .filter(utxo =>
+              utxo.spendable && !utxo.frozen && utxo.confirmations > 0 &&
+              SIGNABLE_SCRIPT_TYPES.includes(utxo.scriptType) &&
+              !record.inputs.some(input => input.txid === utxo.txid && input.vout === utxo.vout)
+            )
+            .sort((a, b) => b.amount - a.amount);
+
+          const inputs = [...record.inputs];
+          for (const utxo of extra) {
+            inputs.push(utxo);
+            selection = finalizeSelection(inputs, selectionParams);
+            if (selection) break;
+          }
+        }
+      }
+
+      if (!selection) {
+        return {
+          success: false,
+          reason: 'insufficient-funds',
+          error: cancel
+            ? 'The inputs are too small to cancel at this fee rate'
+            : 'Insufficient funds to bump the fee to this rate',
+        };
+      }
+
+      // The replacement must pay for its own relay on top of everything it replaces (BIP125 rules 3 and 4)
+      const minimumFee = record.fee + Math.ceil(selection.vsize * INCREMENTAL_RELAY_FEE_RATE);
+      if (selection.fee < minimumFee || feeRate <= record.fee / record.vsize) {
+        const minimumRate = Math.ceil(Math.max(minimumFee / selection.vsize, record.fee / record.vsize + 1));
+        return {
+          success: false,
+          error: `Fee rate too low to replace the transaction; use at least ${minimumRate} sat/vB`,
+        };
+      }
+
+      return {
+        success: true,
+        data: selection,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error preparing replacement: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Replace an unconfirmed outgoing transaction with one paying a higher fee rate
+   * @param feeRate New fee rate in sat/vB
+   */
+  async bumpFee(txid: string, feeRate: number): Promise<BlockchainResponse<string>> {
+    return this.replaceTransaction(txid, feeRate, false);
+  }
+
+  /**
+   * Cancel an unconfirmed outgoing transaction by double-spending its inputs back to ourselves
+   * @param feeRate New fee rate in sat/vB
+   */
+  async cancelTransaction(txid: string, feeRate: number): Promise<BlockchainResponse<string>> {
+    return this.replaceTransaction(txid, feeRate, true);
+  }
+
+  /**
+   * Build, sign and broadcast a BIP125 replacement and mark the original as replaced
+   */
+  private async replaceTransaction(
+    txid: string,
+    feeRate: number,
+    cancel: boolean
+  ): Promise<BlockchainResponse<string>> {
+    try {
+      const selectionResult = await this.previewReplacement(txid, feeRate, cancel);
+      if (!selectionResult.success || !selectionResult.data) {
+        return {
+          success: false,
+          error: selectionResult.error,
+        };
+      }
+
+      const wallet = this.getActiveWallet()!;
+      const record = this.getReplaceableTransaction(wallet.id, txid);
+      const selection = selectionResult.data;
+
+      const recipients = cancel ? [] : record.recipients;
+      const outputs: TxRecipient[] = recipients.map(recipient => ({
+        script: Buffer.from(recipient.scriptPubKey, 'hex'),
+        value: recipient.value,
+      }));
+
+      let change: OutgoingTransaction['change'];
+      if (selection.change > 0) {
+        // Reuse the original change address so the replacement doesn't burn a new one
+        const changeAddress = record.change
+          ? { scriptPubKey: record.change.scriptPubKey, scriptType: record.change.scriptType }
+          : this.deriveNextAddress(true);
+        change = {
+          scriptPubKey: changeAddress.scriptPubKey,
+          scriptType: changeAddress.scriptType,
+          value: selection.change,
+        };
+        outputs.push({ script: Buffer.from(change.scriptPubKey, 'hex'), value: change.value });
+      }
+
+      const broadcast = await this.signAndBroadcast(wallet.id, selection, outputs);
+      if (!broadcast.success || !broadcast.data) {
+        return {
+          success: false,
+          error: broadcast.error,
+        };
+      }
+
+      const { transaction: replacement, hex } = broadcast.data;
+      record.replacedBy = replacement.txid;
+      this.history[wallet.id] = this.history[wallet.id].filter(entry => entry.txid !== txid);
+      this.outgoing[wallet.id].push({
+        txid: replacement.txid,
+        type: record.type,
+        hex,
+        inputs: selection.inputs,
+        recipients,
+        change,
+        fee: selection.fee,
+        vsize: replacement.vsize,
+        timestamp: Date.now(),
+        replaces: txid,
+        cancelled: cancel,
+      });
+      await this.persist(wallet.id);
+
+      return {
+        success: true,
+        data: replacement.txid,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error replacing transaction: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Work out a child transaction that pulls an unconfirmed parent up to a target package fee rate (CPFP)
+   * Works for incoming payments and our own sends and deposits, as long as one of the
+   * parent's outputs belongs to the wallet.
+   * @param targetFeeRate Desired fee rate of parent and child together, in sat/vB
+   */
+  async previewCpfp(parentTxid: string, targetFeeRate: number): Promise<BlockchainResponse<CpfpPreview>> {
+    try {
+      const wallet = this.getActiveWallet();
+      const changeSizing = wallet && this.getChangeSizing(wallet.id);
+
+      if (!wallet || !changeSizing) {
+        return {
+          success: false,
+          error: 'No active wallet',
+        };
+      }
+
+      const parent = await this.getParentFee(wallet.id, parentTxid);
+      const parentFeeRate = parent.fee / parent.vsize;
+      if (targetFeeRate <= parentFeeRate) {
+        return {
+          success: false,
+          error: `The transaction already pays ${parentFeeRate.toFixed(1)} sat/vB`,
+        };
+      }
+
+      const utxosResponse = await this.getUtxos(wallet.id);
+      if (!utxosResponse.success || !utxosResponse.data) {
+        return {
+          success: false,
+          error: utxosResponse.error,
+        };
+      }
+
+      const spendable = utxosResponse.data.filter(utxo =>
+        !utxo.frozen && SIGNABLE_SCRIPT_TYPES.includes(utxo.scriptType)
+      );
+      const inputs = spendable.filter(utxo => utxo.txid === parentTxid && utxo.confirmations === 0);
+      if (inputs.length === 0) {
+        return {
+          success: false,
+          error: 'None of the unconfirmed outputs of this transaction can be spent by the wallet',
+        };
+      }
 
-      // For now, we'll create a mock wallet
-      const mockMnemonic = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
-      
-      const newWallet: WalletAccount = {
-        id: (this.wallets.length + 1).toString(),
-        name,
-        type: 'hd',
-        network: this.network,
-        balance: {
-          confirmed: 0,
-          unconfirmed: 0,
-          total: 0,
-        },
-        sidechainBalances: {},
-      };
+      // Top up with confirmed coins if the parent's outputs can't pay the child fee on their own
+      const extra = spendable
+        .filter(utxo => utxo.confirmations > 0)
+        .sort((a, b) => b.amount - a.amount);
+      const changeScriptType = changeSizing.scriptType;
 
-      this.wallets.push(newWallet);
-      this.activeWalletId = newWallet.id;
+      for (;;) {
+        const childVsize = estimateVsize(inputs, [OUTPUT_SCRIPT_LENGTH[changeScriptType]]);
+        const childFee = getCpfpChildFee(parent.fee, parent.vsize, childVsize, targetFeeRate);
+        const output = sumAmounts(inputs.map(utxo => utxo.amount)) - childFee;
 
-      return {
-        success: true,
-        data: {
-          wallet: newWallet,
-          mnemonic: mockMnemonic,
-        },
-      };
+        if (output >= DUST_THRESHOLD[changeScriptType]) {
+          return {
+            success: true,
+            data: {
+              parentTxid,
+              parentFee: parent.fee,
+              parentVsize: parent.vsize,
+              inputs,
+              childFee,
+              childVsize,
+              output,
+              packageFeeRate: (parent.fee + childFee) / (parent.vsize + childVsize),
+            },
+          };
+        }
+
+        const next = extra.shift();
+        if (!next) {
+          return {
+            success: false,
+            error: 'Insufficient funds to pay the child fee at this rate',
+          };
+        }
+        inputs.push(next);
+      }
     } catch (error) {
       return {
         success: false,
-        error: `Error creating wallet: ${error}`,
+        error: `Error preparing CPFP: ${error}`,
       };
     }
   }
 
   /**
-   * Restore a wallet from a mnemonic phrase
-   * @param name The name of the wallet
-   * @param mnemonic The mnemonic phrase
-   * @param passphrase Optional passphrase for additional security
+   * Accelerate an unconfirmed transaction by spending one of its outputs with a high-fee child (CPFP)
+   * @param targetFeeRate Desired fee rate of parent and child together, in sat/vB
    */
-  async restoreWallet(
-    name: string,
-    mnemonic: string,
-    passphrase?: string
-  ): Promise<BlockchainResponse<WalletAccount>> {
+  async accelerateWithCpfp(parentTxid: string, targetFeeRate: number): Promise<BlockchainResponse<string>> {
     try {
-      // In a real implementation, we would:
-      // 1. Validate the mnemonic
-      // 2. Derive the HD wallet seed
-      // 3. Create the master key
-      // 4. Derive the first address
-      // 5. Store the encrypted seed and derivation info
-      // 6. Scan for transaction history
+      const previewResult = await this.previewCpfp(parentTxid, targetFeeRate);
+      if (!previewResult.success || !previewResult.data) {
+        return {
+          success: false,
+          error: previewResult.error,
+        };
+      }
 
-      // For now, we'll create a mock wallet
-      const newWallet: WalletAccount = {
-        id: (this.wallets.length + 1).toString(),
-        name,
-        type: 'hd',
-        network: this.network,
-        balance: {
-          confirmed: 0,
-          unconfirmed: 0,
-          total: 0,
-        },
-        sidechainBalances: {},
+      const wallet = this.getActiveWallet()!;
+      const preview = previewResult.data;
+      const changeAddress = this.deriveNextAddress(true);
+      const selection: CoinSelection = {
+        inputs: preview.inputs,
+        fee: preview.childFee,
+        change: preview.output,
+        vsize: preview.childVsize,
       };
 
-      this.wallets.push(newWallet);
-      this.activeWalletId = newWallet.id;
+      const broadcast = await this.signAndBroadcast(wallet.id, selection, [{
+        script: Buffer.from(changeAddress.scriptPubKey, 'hex'),
+        value: preview.output,
+      }]);
+      if (!broadcast.success || !broadcast.data) {
+        return {
+          success: false,
+          error: broadcast.error,
+        };
+      }
+
+      await this.persist(wallet.id);
 
       return {
         success: true,
-        data: newWallet,
+        data: broadcast.data.transaction.txid,
       };
     } catch (error) {
       return {
         success: false,
-        error: `Error restoring wallet: ${error}`,
+        error: `Error accelerating transaction: ${error}`,
       };
     }
   }
 
   /**
-   * Get all wallets
+   * Fee and virtual size of an unconfirmed transaction
+   * Our own transactions are known locally; for others the fee comes from the
+   * server's mempool history and the size from the raw transaction.
    */
-  getWallets(): WalletAccount[] {
-    return this.wallets;
-  }
+  private async getParentFee(walletId: string, txid: string): Promise<{ fee: Satoshis; vsize: number }> {
+    const entry = (this.history[walletId] || []).find(tx => tx.txid === txid);
+    if (entry && entry.height > 0) {
+      throw new Error('Transaction is already confirmed');
+    }
 
-  /**
-   * Get a wallet by ID
-   */
-  getWallet(id: string): WalletAccount | undefined {
-    return this.wallets.find(wallet => wallet.id === id);
-  }
+    const record = (this.outgoing[walletId] || []).find(tx => tx.txid === txid);
+    if (record) {
+      return { fee: record.fee, vsize: record.vsize };
+    }
 
-  /**
-   * Get the active wallet
-   */
-  getActiveWallet(): WalletAccount | undefined {
-    if (!this.activeWalletId) return undefined;
-    return this.getWallet(this.activeWalletId);
-  }
+    if (entry?.fee === undefined) {
+      throw new Error('The fee of this transaction is unknown');
+    }
 
-  /**
-   * Set the active wallet
-   */
-  setActiveWallet(id: string): boolean {
-    const wallet = this.getWallet(id);
-    if (!wallet) return false;
-    this.activeWalletId = id;
-    return true;
+    const raw = await electrumService.getRawTransaction(txid);
+    if (!raw.success || !raw.data) {
+      throw new Error(raw.error || 'Failed to get transaction');
+    }
+
+    return { fee: entry.fee, vsize: getVsize(raw.data) };
   }
 
   /**
-   * Update wallet balances
-   * This would query the blockchain for the latest balances
+   * Select coins for a deposit to a sidechain (M5) without sending it
+   * The fee covers the CTIP input (if the sidechain has one yet), escrow output and deposit
+   * address OP_RETURN as well as the wallet's own inputs and change.
+   * @param depositAddress Sidechain address to credit, plain or in the s<sidechain>_<address>_<checksum> form
+   * @param amount Amount to deposit in satoshis
+   * @param feeRate Fee rate in sat/vB
+   * @param options Manual coin control
    */
-  async updateBalances(walletId?: string): Promise<BlockchainResponse<boolean>> {
+  async previewDeposit(
+    sidechainNumber: number,
+    depositAddress: string,
+    amount: Satoshis,
+    feeRate: number,
+    options: SpendOptions = {}
+  ): Promise<CoinSelectionResult> {
     try {
-      // In a real implementation, we would:
-      // 1. Get all addresses for the wallet
-      // 2. Query the blockchain for the latest balances
-      // 3. Update the wallet balance
+      const addressScript = getDepositAddressScript(parseDepositAddress(depositAddress, sidechainNumber));
+      const wallet = this.getActiveWallet();
+      const change = wallet && this.getChangeSizing(wallet.id);
 
-      // For now, we'll just update the mock wallet with random values
-      const wallet = walletId ? this.getWallet(walletId) : this.getActiveWallet();
-      
-      if (!wallet) {
+      if (!wallet || !change) {
         return {
           success: false,
-          error: 'Wallet not found',
+          error: 'No active wallet',
         };
       }
 
-      // Update mainchain balance
-      wallet.balance = {
-        confirmed: Math.random() * 0.2,
-        unconfirmed: Math.random() * 0.1,
-        total: 0, // Will be calculated
-      };
-      wallet.balance.total = wallet.balance.confirmed + wallet.balance.unconfirmed;
+      const sidechain = await bip300Service.getSidechain(sidechainNumber);
+      if (!sidechain.success || !sidechain.data) {
+        return {
+          success: false,
+          error: sidechain.error,
+        };
+      }
 
-      // Update sidechain balances
-      wallet.sidechainBalances = {
-        0: { // BitNames sidechain
-          confirmed: Math.random() * 0.05,
-          unconfirmed: 0,
-          total: 0, // Will be calculated
-        },
-        2: { // zSide sidechain
-          confirmed: Math.random() * 0.05,
-          unconfirmed: 0,
-          total: 0, // Will be calculated
-        },
+      const candidates = await this.getSpendCandidates(wallet.id, options);
+      const selectionParams: CoinSelectionParams = {
+        utxos: candidates.utxos,
+        // The CTIP's value carries over into the escrow output, so the wallet only funds the deposit
+        outputs: [
+          { scriptLength: ESCROW_OUTPUT_SCRIPT_LENGTH, value: amount, dustThreshold: 1 },
+          { scriptLength: addressScript.length, value: 0, dustThreshold: 0 },
+        ],
+        changeScriptType: change.scriptType,
+        changeMultisig: change.multisig,
+        feeRate,
+        extraVsize: sidechain.data.ctip ? CTIP_INPUT_VSIZE : 0,
       };
 
-      // Calculate totals
-      Object.keys(wallet.sidechainBalances).forEach(key => {
-        const sidechain = wallet.sidechainBalances[parseInt(key)];
-        sidechain.total = sidechain.confirmed + sidechain.unconfirmed;
-      });
-
-      return {
-        success: true,
-        data: true,
-      };
+      return candidates.manual
+        ? selectManual(selectionParams)
+        : selectCoins(selectionParams);
     } catch (error) {
       return {
         success: false,
-        error: `Error updating balances: ${error}`,
+        error: `Error previewing deposit: ${error}`,
       };
     }
   }
 
   /**
-   * Create and send a transaction
+   * Create an unsigned PSBT for a deposit to a sidechain (M5), for signing elsewhere
+   * @param depositAddress Sidechain address to credit, plain or in the s<sidechain>_<address>_<checksum> form
+   * @param amount Amount to deposit in satoshis
+   * @param feeRate Fee rate in sat/vB
+   * @param options Manual coin control
    */
-  async sendTransaction(
-    recipientAddress: string,
-    amount: number,
-    feeRate: number
-  ): Promise<BlockchainResponse<string>> {
+  async createDepositPsbt(
+    sidechainNumber: number,
+    depositAddress: string,
+    amount: Satoshis,
+    feeRate: number,
+    options: SpendOptions = {}
+  ): Promise<BlockchainResponse<Psbt>> {
     try {
-      const wallet = this.getActiveWallet();
-      
-      if (!wallet) {
+      const selectionResult = await this.previewDeposit(sidechainNumber, depositAddress, amount, feeRate, options);
+      if (!selectionResult.success || !selectionResult.data) {
         return {
           success: false,
-          error: 'No active wallet',
+          error: selectionResult.error,
         };
       }
 
-      // Check if the wallet has enough funds
-      if (wallet.balance.total < amount) {
+      const wallet = this.getActiveWallet()!;
+      const selection = selectionResult.data;
+      const changeAddress = selection.change > 0 ? this.deriveNextAddress(true) : undefined;
+      const change = changeAddress && {
+        script: Buffer.from(changeAddress.scriptPubKey, 'hex'),
+        value: selection.change,
+      };
+
+      const response = await bip300Service.createDepositPsbt(
+        sidechainNumber,
+        parseDepositAddress(depositAddress, sidechainNumber),
+        amount,
+        await this.withPreviousTransactions(selection.inputs),
+        change
+      );
+      if (!response.success || !response.data) {
         return {
           success: false,
-          error: 'Insufficient funds',
+          error: response.error,
         };
       }
 
-      // In a real implementation, we would:
-      // 1. Get UTXOs for the wallet
-      // 2. Create a transaction that spends the UTXOs
-      // 3. Add the recipient output
-      // 4. Add a change output if necessary
-      // 5. Sign the transaction
-      // 6. Broadcast the transaction
+      const psbt = response.data;
+      const changeIndex = changeAddress
+        ? psbt.txOutputs.findIndex(output => output.script.toString('hex') === changeAddress.scriptPubKey)
+        : -1;
+      addKeyOrigins(
+        psbt,
+        selection.inputs,
+        changeIndex >= 0 ? [{ index: changeIndex, address: changeAddress! }] : [],
+        wallet.network,
+        this.hdWallets[wallet.id] ? this.getMasterFingerprint(wallet.id) : undefined
+      );
+      await this.persist(wallet.id);
 
-      // For now, we'll just return a mock transaction ID
       return {
         success: true,
-        data: '9gb2e9d7fc2c7c7d3d7f4dad1a91b2dd5795b2d3be137862ce8983gf992580e',
+        data: psbt,
       };
     } catch (error) {
       return {
         success: false,
-        error: `Error sending transaction: ${error}`,
+        error: `Error creating deposit PSBT: ${error}`,
       };
     }
   }
 
   /**
    * Create and send a deposit to a sidechain (M5)
+   * @param depositAddress Sidechain address to credit, plain or in the s<sidechain>_<address>_<checksum> form
+   * @param amount Amount to deposit in satoshis
+   * @param feeRate Fee rate in sat/vB
+   * @param options Manual coin control
    */
   async depositToSidechain(
     sidechainNumber: number,
-    amount: number,
-    feeRate: number
+    depositAddress: string,
+    amount: Satoshis,
+    feeRate: number,
+    options: SpendOptions = {}
   ): Promise<BlockchainResponse<string>> {
     try {
-      const wallet = this.getActiveWallet();
-      
-      if (!wallet) {
+      const selectionResult = await this.previewDeposit(sidechainNumber, depositAddress, amount, feeRate, options);
+      if (!selectionResult.success || !selectionResult.data) {
         return {
           success: false,
-          error: 'No active wallet',
+          error: selectionResult.error,
         };
       }
 
-      // Check if the wallet has enough funds
-      if (wallet.balance.total < amount) {
-        return {
-          success: false,
-          error: 'Insufficient funds',
-        };
-      }
+      const wallet = this.getActiveWallet()!;
+      const selection = selectionResult.data;
+      const address = parseDepositAddress(depositAddress, sidechainNumber);
+      const changeAddress = selection.change > 0 ? this.deriveNextAddress(true) : undefined;
+      const change = changeAddress && {
+        script: Buffer.from(changeAddress.scriptPubKey, 'hex'),
+        value: selection.change,
+      };
 
-      // Use the BIP300 service to create a deposit transaction
+      const inputs = await this.withPreviousTransactions(selection.inputs);
       const response = await bip300Service.createDepositTransaction(
         sidechainNumber,
+        address,
         amount,
-        feeRate
+        inputs,
+        change,
+        psbt => this.signWalletInputs(wallet.id, psbt, inputs)
       );
-
-      if (response.success && response.data) {
-        // Update balances after deposit
-        // This would happen automatically in a real wallet as it would receive the transaction
-        this.updateBalances();
-
-        return {
-          success: true,
-          data: response.data,
-        };
-      } else {
+      if (!response.success || !response.data) {
         return {
           success: false,
           error: response.error || 'Error creating deposit transaction',
         };
       }
+
+      // Remember the fee so a stuck deposit can be accelerated with CPFP
+      const { transaction, hex } = response.data;
+      this.history[wallet.id].push({ txid: transaction.txid, height: 0, fee: selection.fee });
+      this.outgoing[wallet.id].push({
+        txid: transaction.txid,
+        type: 'deposit',
+        hex,
+        inputs: selection.inputs,
+        recipients: [{ scriptPubKey: getEscrowScript(sidechainNumber).toString('hex'), address, value: amount }],
+        change: changeAddress && {
+          scriptPubKey: changeAddress.scriptPubKey,
+          scriptType: changeAddress.scriptType,
+          value: selection.change,
+        },
+        fee: selection.fee,
+        vsize: transaction.vsize,
+        timestamp: Date.now(),
+        sidechainNumber,
+      });
+      await this.persist(wallet.id);
+
+      return {
+        success: true,
+        data: transaction.txid,
+      };
     } catch (error) {
       return {
         success: false,
@@ -363,14 +2545,14 @@ class WalletService {
 
   /**
    * Create a new receiving address
+   * @param scriptType Script type of the address, defaults to the wallet's script type
    */
-  async getNewAddress(): Promise<BlockchainResponse<string>> {
+  async getNewAddress(scriptType?: ScriptType): Promise<BlockchainResponse<string>> {
     try {
-      // In a real implementation, we would derive a new address from the HD wallet
-      // For now, we'll just return a mock address
+      const address = this.deriveNextAddress(false, scriptType);
       return {
         success: true,
-        data: 'tb1qnv5luf8mav8263sxfa4fdr3m6kws74n0yfzzrx',
+        data: address.address,
       };
     } catch (error) {
       return {
@@ -379,6 +2561,313 @@ class WalletService {
       };
     }
   }
+
+  /**
+   * Create a new change address
+   * @param scriptType Script type of the address, defaults to the wallet's script type
+   */
+  async getChangeAddress(scriptType?: ScriptType): Promise<BlockchainResponse<string>> {
+    try {
+      const address = this.deriveNextAddress(true, scriptType);
+      return {
+        success: true,
+        data: address.address,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error getting change address: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Get the account xpubs of an HD wallet by script type
+   */
+  getAccountXpubs(walletId?: string): Partial<Record<ScriptType, string>> {
+    const hdInfo = this.hdWallets[walletId ?? this.activeWalletId ?? ''];
+    if (!hdInfo) return {};
+
+    const xpubs: Partial<Record<ScriptType, string>> = {};
+    Object.values(hdInfo.accounts).forEach(account => {
+      xpubs[account.scriptType] = account.xpub;
+    });
+    return xpubs;
+  }
+
+  /**
+   * Get the receive and change output descriptors of each account of a wallet
+   * Descriptors carry key origins and checksums, so Bitcoin Core and other wallets
+   * can import them without guessing derivation paths.
+   */
+  getDescriptors(walletId?: string): { scriptType: AddressScriptType; receive: string; change: string }[] {
+    const id = walletId ?? this.activeWalletId ?? '';
+    const multisigInfo = this.multisigWallets[id];
+    if (multisigInfo) {
+      return [{ scriptType: multisigInfo.scriptType, ...getMultisigDescriptors(multisigInfo) }];
+    }
+
+    const hdInfo = this.hdWallets[id];
+    if (!hdInfo) return [];
+
+    return SUPPORTED_SCRIPT_TYPES
+      .filter(scriptType => hdInfo.accounts[scriptType])
+      .map(scriptType => ({ scriptType, ...getAccountDescriptors(hdInfo.accounts[scriptType]!) }));
+  }
+
+  /**
+   * Get all addresses handed out so far for a wallet
+   */
+  getAddresses(walletId?: string): WalletAddress[] {
+    return this.addresses[walletId ?? this.activeWalletId ?? ''] || [];
+  }
+
+  /**
+   * Get the transaction history found for a wallet's addresses
+   */
+  getHistory(walletId?: string): AddressHistoryEntry[] {
+    return this.history[walletId ?? this.activeWalletId ?? ''] || [];
+  }
+
+  /**
+   * Check confirmed transactions against the validated header chain with merkle proofs (SPV)
+   * A transaction whose proof doesn't match its block is flagged verified: false; one that
+   * couldn't be checked yet stays pending and is tried again on the next block.
+   * @returns Number of transactions newly verified
+   */
+  async verifyHistory(walletId?: string): Promise<BlockchainResponse<number>> {
+    try {
+      const ids = walletId
+        ? [walletId]
+        : this.wallets.filter(wallet => wallet.network === this.network).map(wallet => wallet.id);
+
+      let verified = 0;
+      for (const id of ids) {
+        const pending = (this.history[id] || []).filter(entry => entry.height > 0 && entry.verified === undefined);
+        const txids: string[] = [];
+        for (const entry of pending) {
+          const response = await headerChainService.verifyTransaction(entry.txid, entry.height);
+          if (!response.success) {
+            console.warn(`Could not verify ${entry.txid}:`, response.error);
+            continue;
+          }
+
+          entry.verified = response.data;
+          txids.push(entry.txid);
+          if (response.data) {
+            verified++;
+          } else {
+            console.warn(`Merkle proof of ${entry.txid} does not match block ${entry.height}`);
+          }
+        }
+
+        if (txids.length > 0) {
+          await this.persist(id);
+          this.emit({ type: 'history', walletId: id, txids });
+        }
+      }
+
+      return {
+        success: true,
+        data: verified,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error verifying transactions: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Subscribe to the addresses of one wallet, or of every wallet on the current network
+   */
+  private watchAddresses(walletId?: string): void {
+    const addresses = this.wallets
+      .filter(wallet => (walletId ? wallet.id === walletId : true) && wallet.network === this.network)
+      .flatMap(wallet => (this.addresses[wallet.id] || []).map(address => address.address));
+    if (addresses.length === 0) return;
+
+    electrumService.subscribeAddresses(addresses).then(response => {
+      if (!response.success) {
+        console.error('Failed to watch wallet addresses:', response.error);
+      }
+    });
+  }
+
+  /**
+   * React to address status changes and new blocks
+   */
+  private handleElectrumEvent(event: ElectrumEvent): void {
+    if (event.type === 'status') {
+      this.refreshAddress(event.address).catch(error =>
+        console.error(`Error refreshing ${event.address}:`, error)
+      );
+    } else if (event.type === 'tip') {
+      this.emit({ type: 'tip', height: event.height });
+      // Syncing headers first notices reorgs before anything is checked against the new block
+      headerChainService.sync()
+        .then(() => Promise.all([
+          this.verifyHistory(),
+          bip300Service.sync().then(response => {
+            if (!response.success) {
+              console.error('Failed to sync sidechain state:', response.error);
+            }
+          }),
+        ]))
+        .catch(error => console.error('Error verifying transactions:', error));
+    }
+  }
+
+  /**
+   * Fetch the history and balance of an address whose status changed, and merge them into its wallet
+   */
+  private async refreshAddress(address: string): Promise<void> {
+    const wallet = this.wallets.find(w => (this.addresses[w.id] || []).some(a => a.address === address));
+    if (!wallet) return;
+
+    const [historyResponse, balanceResponse] = await Promise.all([
+      electrumService.getAddressHistory(address),
+      electrumService.getAddressBalance(address),
+    ]);
+    if (!historyResponse.success || !historyResponse.data) {
+      throw new Error(historyResponse.error || 'Failed to get address history');
+    }
+    if (!balanceResponse.success || !balanceResponse.data) {
+      throw new Error(balanceResponse.error || 'Failed to get address balance');
+    }
+
+    // Record new transactions and confirmations, keeping fees we already know
+    const history = this.history[wallet.id] || (this.history[wallet.id] = []);
+    const txids: string[] = [];
+    historyResponse.data.forEach(entry => {
+      const known = history.find(h => h.txid === entry.txid);
+      if (!known) {
+        history.push(entry);
+        txids.push(entry.txid);
+      } else if (known.height !== entry.height) {
+        known.height = entry.height;
+        known.fee = known.fee ?? entry.fee;
+        known.verified = undefined;
+        txids.push(entry.txid);
+      }
+    });
+
+    if (this.addressBalances[wallet.id]) {
+      this.addressBalances[wallet.id][address] = balanceResponse.data;
+      await this.applyAddressBalances(wallet);
+    } else {
+      // The other addresses' balances aren't known yet
+      await this.updateBalances(wallet.id);
+    }
+
+    if (txids.length > 0) {
+      await this.persist(wallet.id);
+      this.emit({ type: 'history', walletId: wallet.id, txids });
+      await this.verifyHistory(wallet.id);
+    }
+  }
+
+  /**
+   * Roll back transactions confirmed in blocks a reorg replaced, then look up where they ended up:
+   * confirmed again in the new chain, back in the mempool, or gone (e.g. double-spent)
+   */
+  private async handleReorg(forkHeight: number): Promise<void> {
+    const wallets = this.wallets.filter(wallet => wallet.network === this.network);
+    for (const wallet of wallets) {
+      const history = this.history[wallet.id] || [];
+      const rolledBack = history.filter(entry => entry.height > forkHeight);
+      if (rolledBack.length === 0) continue;
+
+      rolledBack.forEach(entry => {
+        entry.height = 0;
+        entry.verified = undefined;
+      });
+
+      let dropped: string[] = [];
+      const addresses = (this.addresses[wallet.id] || []).map(address => address.address);
+      const response = await electrumService.getAddressHistories(addresses);
+      if (response.success && response.data) {
+        const current = new Map(response.data.flat().map(entry => [entry.txid, entry]));
+        rolledBack.forEach(entry => {
+          entry.height = current.get(entry.txid)?.height ?? 0;
+        });
+        dropped = rolledBack.filter(entry => !current.has(entry.txid)).map(entry => entry.txid);
+        this.history[wallet.id] = history.filter(entry => !dropped.includes(entry.txid));
+      } else {
+        console.error(`Failed to look up transactions after the reorg of ${wallet.name}:`, response.error);
+      }
+
+      await this.persist(wallet.id);
+      this.emit({ type: 'reorg', walletId: wallet.id, txids: rolledBack.map(entry => entry.txid), dropped });
+      await this.updateBalances(wallet.id);
+      await this.verifyHistory(wallet.id);
+    }
+  }
+
+  /**
+   * Total a wallet's address balances into its balance and persist it
+   */
+  private async applyAddressBalances(wallet: WalletAccount): Promise<void> {
+    const balances = Object.values(this.addressBalances[wallet.id] || {});
+    const confirmed = sumAmounts(balances.map(balance => balance.confirmed));
+    const unconfirmed = sumAmounts(balances.map(balance => balance.unconfirmed));
+    wallet.balance = {
+      confirmed,
+      unconfirmed,
+      total: sumAmounts([confirmed, unconfirmed]),
+    };
+
+    await this.persist();
+    this.emit({ type: 'balance', walletId: wallet.id });
+  }
+
+  private emit(event: WalletEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Wallet event listener failed:', error);
+      }
+    });
+  }
+
+  /**
+   * Derive the next unused address on the receive or change chain of the active wallet
+   */
+  private deriveNextAddress(change: boolean, scriptType?: ScriptType): WalletAddress {
+    const wallet = this.getActiveWallet();
+    const multisigInfo = wallet && this.multisigWallets[wallet.id];
+    if (wallet && multisigInfo) {
+      const index = change ? multisigInfo.nextChangeIndex++ : multisigInfo.nextReceiveIndex++;
+      const address = deriveMultisigAddress(multisigInfo, wallet.network, change, index);
+      this.addresses[wallet.id].push(address);
+      this.persist(wallet.id).catch(error => console.error('Error saving address index:', error));
+      return address;
+    }
+
+    // Imported wallets have no chains to derive from and reuse their first address
+    if (wallet?.type === 'imported' && this.addresses[wallet.id].length > 0) {
+      return this.addresses[wallet.id][0];
+    }
+
+    const hdInfo = wallet && this.hdWallets[wallet.id];
+    if (!wallet || !hdInfo) {
+      throw new Error('No active HD wallet');
+    }
+
+    const account = hdInfo.accounts[scriptType ?? hdInfo.scriptType];
+    if (!account) {
+      throw new Error(`Wallet has no ${scriptType} account`);
+    }
+
+    const index = change ? account.nextChangeIndex++ : account.nextReceiveIndex++;
+    const address = deriveAddress(account, wallet.network, change, index);
+    this.addresses[wallet.id].push(address);
+    this.persist(wallet.id).catch(error => console.error('Error saving address index:', error));
+
+    return address;
+  }
 }
 
 // Export a singleton instance
@@ -0,0 +1,509 @@
+import { Transaction as BitcoinTransaction } from 'bitcoinjs-lib';
+import { BlockchainResponse, TrackedWithdrawal, WithdrawalBundle, WithdrawalTransaction } from '@/types/blockchain';
+import { bip300Service } from '@/services/bip300';
+import { electrumService } from '@/services/electrum';
+import { headerChainService } from '@/services/headers';
+import { storageService } from '@/services/storage';
+import { walletService } from '@/services/wallet';
+import { Satoshis, sumAmounts } from '@/utils/amount';
+import { getEscrowSidechain } from '@/utils/bip300';
+import { toTransaction } from '@/utils/transaction';
+
+// Shares of the work score threshold worth telling the user their bundle has reached
+const ACK_MILESTONES = [0.25, 0.5, 0.75];
+
+/**
+ * A tracked withdrawal reaching a new stage
+ * progress is sent as its bundle passes each of ACK_MILESTONES, approved once it reaches the
+ * threshold. reorg means a reorganization took its payout out of its block, or dropped it.
+ */
+export type WithdrawalEvent =
+  | { type: 'bundled' | 'approved' | 'failed' | 'paid' | 'confirmed' | 'reorg'; withdrawal: TrackedWithdrawal }
+  | { type: 'progress'; withdrawal: TrackedWithdrawal; workScore: number; threshold: number };
+
+/**
+ * Withdrawal tracking service
+ * Follows the user's sidechain withdrawals through D2 to the M6 paying them. M3 only commits to
+ * a bundle's hash, so the first bundle the sidechain proposes after a withdrawal is registered is
+ * taken to include it, unless the user links the one their sidechain wallet shows. The M6 pays
+ * one of the wallet's own addresses, so the wallet's balance credits it like any other payment.
+ */
+class WithdrawalService {
+  private withdrawals: TrackedWithdrawal[] = [];
+  private listeners = new Set<(event: WithdrawalEvent) => void>();
+  private initialized: Promise<BlockchainResponse<boolean>> | null = null;
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Load tracked withdrawals and start watching sidechain state and wallet history
+   * Safe to call repeatedly; storage is only read once.
+   */
+  initialize(): Promise<BlockchainResponse<boolean>> {
+    if (!this.initialized) {
+      this.initialized = this.loadFromStorage();
+    }
+    return this.initialized;
+  }
+
+  private async loadFromStorage(): Promise<BlockchainResponse<boolean>> {
+    try {
+      await walletService.initialize();
+      this.withdrawals = await storageService.getJSON<TrackedWithdrawal[]>('withdrawals') ?? [];
+
+      bip300Service.addListener(() => {
+        this.enqueue(async () => {
+          await this.checkBundles();
+          await this.checkConfirmations();
+        });
+      });
+      walletService.addListener(event => {
+        if (event.type === 'history') {
+          this.enqueue(async () => {
+            await this.checkPayouts(event.walletId, event.txids);
+            await this.checkConfirmations();
+          });
+        } else if (event.type === 'reorg') {
+          this.enqueue(() => this.handleReorg(event.txids, event.dropped));
+        }
+      });
+
+      // Catch up on what happened while the app was closed
+      this.enqueue(async () => {
+        await this.checkBundles();
+        for (const walletId of new Set(this.getOpen().map(withdrawal => withdrawal.walletId))) {
+          const since = Math.min(...this.getOpen()
+            .filter(withdrawal => withdrawal.walletId === walletId)
+            .map(withdrawal => withdrawal.registeredHeight));
+          await this.checkPayouts(walletId, this.getTxidsSince(walletId, since));
+        }
+        await this.checkConfirmations();
+      });
+
+      return {
+        success: true,
+        data: true,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error loading withdrawals: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Get the tracked withdrawals of a wallet, newest first
+   */
+  getWithdrawals(walletId?: string): TrackedWithdrawal[] {
+    const id = walletId ?? walletService.getActiveWallet()?.id;
+    return this.withdrawals
+      .filter(withdrawal => withdrawal.walletId === id)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Start tracking a withdrawal requested in a sidechain's wallet
+   * @param address Mainchain address the withdrawal pays, which must belong to the active wallet
+   * @param amount Amount the M6 pays to the address
+   */
+  async registerWithdrawal(
+    sidechainNumber: number,
+    address: string,
+    amount: Satoshis
+  ): Promise<BlockchainResponse<TrackedWithdrawal>> {
+    try {
+      await this.initialize();
+
+      const wallet = walletService.getActiveWallet();
+      if (!wallet) {
+        return {
+          success: false,
+          error: 'No active wallet',
+        };
+      }
+
+      const sidechain = await bip300Service.getSidechain(sidechainNumber);
+      if (!sidechain.success || !sidechain.data) {
+        return {
+          success: false,
+          error: sidechain.error || `Sidechain ${sidechainNumber} is not active`,
+        };
+      }
+
+      const trimmed = address.trim();
+      if (!walletService.getAddresses(wallet.id).some(walletAddress => walletAddress.address === trimmed)) {
+        return {
+          success: false,
+          error: 'The withdrawal must pay an address of this wallet for it to be tracked',
+        };
+      }
+
+      if (!Number.isSafeInteger(amount) || amount <= 0) {
+        return {
+          success: false,
+          error: 'Invalid withdrawal amount',
+        };
+      }
+
+      const bundles = await bip300Service.getWithdrawalBundlesForSidechain(sidechainNumber);
+      if (!bundles.success || !bundles.data) {
+        return {
+          success: false,
+          error: bundles.error || 'Failed to load withdrawal bundles',
+        };
+      }
+
+      const withdrawal: TrackedWithdrawal = {
+        id: Date.now().toString(),
+        walletId: wallet.id,
+        sidechainNumber,
+        address: trimmed,
+        amount,
+        status: 'pending',
+        createdAt: Date.now(),
+        registeredHeight: headerChainService.getHeight(),
+        seenBundles: bundles.data.map(bundle => bundle.bundleHash),
+      };
+      this.withdrawals.push(withdrawal);
+      await this.persist();
+
+      return {
+        success: true,
+        data: withdrawal,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error registering withdrawal: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Link a withdrawal to the bundle (M3) its sidechain wallet says includes it
+   * Overrides the bundle it was taken to be in, if any.
+   */
+  async linkBundle(id: string, bundleHash: string): Promise<BlockchainResponse<TrackedWithdrawal>> {
+    try {
+      await this.initialize();
+
+      const withdrawal = this.withdrawals.find(withdrawal => withdrawal.id === id);
+      if (!withdrawal) {
+        return {
+          success: false,
+          error: 'Withdrawal not found',
+        };
+      }
+      if (withdrawal.status === 'paid' || withdrawal.status === 'confirmed') {
+        return {
+          success: false,
+          error: 'This withdrawal has already been paid out',
+        };
+      }
+
+      const hash = bundleHash.trim().toLowerCase();
+      const bundles = await bip300Service.getWithdrawalBundlesForSidechain(withdrawal.sidechainNumber);
+      const bundle = bundles.data?.find(bundle => bundle.bundleHash === hash);
+      if (!bundle) {
+        return {
+          success: false,
+          error: bundles.error || `No bundle ${hash} is being voted on for sidechain ${withdrawal.sidechainNumber}`,
+        };
+      }
+
+      this.setBundle(withdrawal, bundle);
+      await this.persist();
+
+      return {
+        success: true,
+        data: withdrawal,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error linking withdrawal bundle: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Stop tracking a withdrawal
+   */
+  async removeWithdrawal(id: string): Promise<BlockchainResponse<boolean>> {
+    try {
+      await this.initialize();
+      this.withdrawals = this.withdrawals.filter(withdrawal => withdrawal.id !== id);
+      await this.persist();
+      return {
+        success: true,
+        data: true,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Error removing withdrawal: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Listen for tracked withdrawals reaching new stages
+   * @returns A function removing the listener
+   */
+  addListener(listener: (event: WithdrawalEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Follow unpaid withdrawals through D2: into a bundle, up its work score, or out with it when it fails
+   */
+  private async checkBundles(): Promise<void> {
+    const { bundleWorkScoreThreshold } = bip300Service.getParams();
+    let changed = false;
+
+    for (const withdrawal of this.getOpen()) {
+      const response = await bip300Service.getWithdrawalBundlesForSidechain(withdrawal.sidechainNumber);
+      if (!response.success || !response.data) {
+        console.warn('Could not load withdrawal bundles:', response.error);
+        continue;
+      }
+      const bundles = response.data;
+
+      if (withdrawal.status !== 'bundled') {
+        const bundle = bundles.find(bundle => !withdrawal.seenBundles.includes(bundle.bundleHash));
+        if (bundle) {
+          this.setBundle(withdrawal, bundle);
+          changed = true;
+        }
+        continue;
+      }
+
+      const bundle = bundles.find(bundle => bundle.bundleHash === withdrawal.bundleHash);
+      const previous = withdrawal.workScore ?? 0;
+      if (!bundle) {
+        // An approved bundle leaves D2 once an M6 pays it out. The wallet may not have passed
+        // the payout on yet, so look for it before taking the bundle to have left this one out.
+        if (previous >= bundleWorkScoreThreshold) {
+          await this.checkPayouts(withdrawal.walletId, this.getTxidsSince(withdrawal.walletId, withdrawal.registeredHeight));
+          if (withdrawal.payout) continue;
+        }
+
+        withdrawal.seenBundles.push(withdrawal.bundleHash!);
+        withdrawal.status = 'failed';
+        changed = true;
+        this.emit({ type: 'failed', withdrawal });
+        continue;
+      }
+
+      if (bundle.workScore === previous) continue;
+      withdrawal.workScore = bundle.workScore;
+      changed = true;
+
+      if (previous < bundleWorkScoreThreshold && bundle.workScore >= bundleWorkScoreThreshold) {
+        this.emit({ type: 'approved', withdrawal });
+        continue;
+      }
+      const milestone = ACK_MILESTONES.filter(share => {
+        const score = share * bundleWorkScoreThreshold;
+        return previous < score && bundle.workScore >= score;
+      }).pop();
+      if (milestone !== undefined) {
+        this.emit({ type: 'progress', withdrawal, workScore: bundle.workScore, threshold: bundleWorkScoreThreshold });
+      }
+    }
+
+    if (changed) {
+      await this.persist();
+    }
+  }
+
+  /**
+   * Look for the M6 paying each unpaid withdrawal among new transactions of a wallet
+   * An M6 spends its sidechain's escrow output, and pays the withdrawal's address its exact amount.
+   */
+  private async checkPayouts(walletId: string, txids: string[]): Promise<void> {
+    const open = this.getOpen().filter(withdrawal => withdrawal.walletId === walletId);
+    if (open.length === 0) return;
+
+    const network = walletService.getNetwork();
+    const history = walletService.getHistory(walletId);
+    let changed = false;
+
+    for (const txid of txids) {
+      const raw = await electrumService.getRawTransaction(txid);
+      if (!raw.success || !raw.data) {
+        console.warn(`Could not load transaction ${txid}:`, raw.error);
+        continue;
+      }
+      const tx = BitcoinTransaction.fromHex(raw.data);
+      const transaction = toTransaction(tx, network);
+
+      const matches = open.filter(withdrawal => !withdrawal.payout && transaction.outputs.some(output =>
+        output.address === withdrawal.address && output.value === withdrawal.amount
+      ));
+      if (matches.length === 0) continue;
+
+      const sidechainNumber = await this.getSpentEscrow(tx);
+      for (const withdrawal of matches.filter(withdrawal => withdrawal.sidechainNumber === sidechainNumber)) {
+        // Withdrawals of the same amount to the same address each need an output of their own
+        const isSame = (other: TrackedWithdrawal) => other.address === withdrawal.address && other.amount === withdrawal.amount;
+        const outputs = transaction.outputs.filter(output => output.address === withdrawal.address && output.value === withdrawal.amount);
+        if (this.withdrawals.filter(other => other.payout?.txid === txid && isSame(other)).length >= outputs.length) {
+          continue;
+        }
+
+        // The new escrow output and the fee OP_RETURN have no address
+        const recipients = transaction.outputs
+          .filter(output => output.address)
+          .map(output => ({ address: output.address!, amount: output.value }));
+        const entry = history.find(entry => entry.txid === txid);
+
+        const payout: WithdrawalTransaction = {
+          ...transaction,
+          blockHeight: entry && entry.height > 0 ? entry.height : undefined,
+          sidechainNumber: withdrawal.sidechainNumber,
+          withdrawalAmount: sumAmounts(recipients.map(recipient => recipient.amount)),
+          bundleHash: withdrawal.bundleHash ?? '',
+          recipients,
+        };
+        withdrawal.payout = payout;
+        withdrawal.status = 'paid';
+        changed = true;
+        this.emit({ type: 'paid', withdrawal });
+      }
+    }
+
+    if (changed) {
+      await this.persist();
+    }
+  }
+
+  /**
+   * Confirm paid withdrawals once their M6 is in a block and proven against the header chain
+   */
+  private async checkConfirmations(): Promise<void> {
+    let changed = false;
+
+    for (const withdrawal of this.withdrawals.filter(withdrawal => withdrawal.status === 'paid' && withdrawal.payout)) {
+      if (walletService.getWallet(withdrawal.walletId)?.network !== walletService.getNetwork()) continue;
+
+      const entry = walletService.getHistory(withdrawal.walletId).find(entry => entry.txid === withdrawal.payout!.txid);
+      if (!entry || entry.height <= 0) continue;
+
+      const response = await bip300Service.verifySidechainTransaction({ ...withdrawal.payout!, blockHeight: entry.height });
+      if (!response.success || !response.data) {
+        console.warn(`Could not verify withdrawal ${withdrawal.payout!.txid}:`, response.error);
+        continue;
+      }
+
+      withdrawal.payout = response.data;
+      changed = true;
+      if (response.data.verified) {
+        withdrawal.status = 'confirmed';
+        this.emit({ type: 'confirmed', withdrawal });
+      } else {
+        console.warn(`Merkle proof of withdrawal ${withdrawal.payout.txid} does not match block ${entry.height}`);
+      }
+    }
+
+    if (changed) {
+      await this.persist();
+    }
+  }
+
+  /**
+   * Move withdrawals whose payout a reorg unconfirmed back to paid, or whose payout it dropped back to their bundle
+   */
+  private async handleReorg(txids: string[], dropped: string[]): Promise<void> {
+    let changed = false;
+
+    for (const withdrawal of this.withdrawals) {
+      const txid = withdrawal.payout?.txid;
+      if (!txid || !txids.includes(txid)) continue;
+
+      if (dropped.includes(txid)) {
+        withdrawal.payout = undefined;
+        withdrawal.status = withdrawal.bundleHash ? 'bundled' : 'pending';
+      } else {
+        withdrawal.payout = { ...withdrawal.payout!, blockHeight: undefined, verified: undefined };
+        withdrawal.status = 'paid';
+      }
+      changed = true;
+      this.emit({ type: 'reorg', withdrawal });
+    }
+
+    if (changed) {
+      await this.persist();
+    }
+  }
+
+  /**
+   * Sidechain whose escrow output a transaction spends first, as an M6 does
+   */
+  private async getSpentEscrow(tx: BitcoinTransaction): Promise<number | undefined> {
+    const input = tx.ins[0];
+    const raw = await electrumService.getRawTransaction(Buffer.from(input.hash).reverse().toString('hex'));
+    if (!raw.success || !raw.data) {
+      console.warn('Could not load the output an M6 spends:', raw.error);
+      return undefined;
+    }
+    const prevout = BitcoinTransaction.fromHex(raw.data).outs[input.index];
+    return prevout && getEscrowSidechain(prevout.script);
+  }
+
+  private setBundle(withdrawal: TrackedWithdrawal, bundle: WithdrawalBundle): void {
+    if (withdrawal.bundleHash && withdrawal.bundleHash !== bundle.bundleHash &&
+      !withdrawal.seenBundles.includes(withdrawal.bundleHash)) {
+      withdrawal.seenBundles.push(withdrawal.bundleHash);
+    }
+    withdrawal.bundleHash = bundle.bundleHash;
+    withdrawal.workScore = bundle.workScore;
+    withdrawal.status = 'bundled';
+    this.emit({ type: 'bundled', withdrawal });
+  }
+
+  /**
+   * Transactions of a wallet confirmed from a height on, or still unconfirmed
+   */
+  private getTxidsSince(walletId: string, height: number): string[] {
+    return walletService.getHistory(walletId)
+      .filter(entry => entry.height <= 0 || entry.height >= height)
+      .map(entry => entry.txid);
+  }
+
+  /**
+   * Unpaid withdrawals of wallets on the current network
+   */
+  private getOpen(): TrackedWithdrawal[] {
+    const network = walletService.getNetwork();
+    return this.withdrawals.filter(withdrawal =>
+      !withdrawal.payout && walletService.getWallet(withdrawal.walletId)?.network === network
+    );
+  }
+
+  // Run checks one at a time, so they never work from each other's half-updated withdrawals
+  private enqueue(task: () => Promise<void>): void {
+    this.queue = this.queue
+      .then(task)
+      .catch(error => console.error('Error tracking withdrawals:', error));
+  }
+
+  private async persist(): Promise<void> {
+    await storageService.setJSON<TrackedWithdrawal[]>('withdrawals', this.withdrawals);
+  }
+
+  private emit(event: WithdrawalEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Withdrawal event listener failed:', error);
+      }
+    });
+  }
+}
+
+export const withdrawalService = new WithdrawalService();
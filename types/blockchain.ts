@@ -1,6 +1,8 @@
 /**
  * BIP300 Types for Sidechain and Withdrawal Management
+ * All amounts are integer satoshis (see utils/amount.ts).
  */
+import { Satoshis } from '@/utils/amount';
 
 /**
  * Bitcoin Networks
@@ -11,6 +13,31 @@ export enum BitcoinNetwork {
   REGTEST = 'regtest',
 }
 
+/**
+ * Output script types the wallet can derive addresses for
+ */
+export enum ScriptType {
+  P2PKH = 'p2pkh', // BIP44 legacy
+  P2SH_P2WPKH = 'p2sh-p2wpkh', // BIP49 nested segwit
+  P2WPKH = 'p2wpkh', // BIP84 native segwit
+  P2TR = 'p2tr', // BIP86 taproot
+}
+
+/**
+ * Output script types of multisig descriptors
+ */
+export enum MultisigScriptType {
+  P2SH = 'p2sh', // sh(multi()) legacy
+  P2SH_P2WSH = 'p2sh-p2wsh', // sh(wsh(multi())) nested segwit
+  P2WSH = 'p2wsh', // wsh(multi()) native segwit
+  P2TR = 'p2tr-multi', // tr(NUMS, multi_a()) taproot script path
+}
+
+/**
+ * Script type of any wallet address, single-key or multisig
+ */
+export type AddressScriptType = ScriptType | MultisigScriptType;
+
 /**
  * Sidechain information as stored in D1 database (The Sidechain List)
  */
@@ -22,11 +49,12 @@ export interface SidechainInfo {
   tarballHash: string;
   gitCommitHash: string;
   isActive: boolean;
+  proposalHash?: string; // SHA-256d of the M1 description, which ACKs (M2) name
   activationStatus?: {
     age: number;
     fails: number;
   };
-  ctip: {
+  ctip?: { // Missing until the first deposit
     txid: string;
     vout: number;
   };
@@ -56,7 +84,7 @@ export interface TxInput {
  * Transaction output
  */
 export interface TxOutput {
-  value: number;
+  value: Satoshis;
   scriptPubKey: string;
   address?: string;
 }
@@ -78,6 +106,7 @@ export interface Transaction {
   blockHash?: string;
   blockHeight?: number;
   confirmations?: number;
+  verified?: boolean; // Merkle proof checked against the validated header chain (SPV)
 }
 
 /**
@@ -85,7 +114,7 @@ export interface Transaction {
  */
 export interface DepositTransaction extends Transaction {
   sidechainNumber: number;
-  depositAmount: number;
+  depositAmount: Satoshis;
 }
 
 /**
@@ -93,14 +122,52 @@ export interface DepositTransaction extends Transaction {
  */
 export interface WithdrawalTransaction extends Transaction {
   sidechainNumber: number;
-  withdrawalAmount: number;
+  withdrawalAmount: Satoshis;
   bundleHash: string;
   recipients: {
     address: string;
-    amount: number;
+    amount: Satoshis;
   }[];
 }
 
+/**
+ * Stage of a withdrawal the user is waiting on
+ * pending: not in a withdrawal bundle (M3) yet
+ * bundled: in a bundle miners are voting on (M4)
+ * failed: its bundle expired without enough ACKs, or was paid out without it; the next bundle of the sidechain is watched for
+ * paid: the M6 paying it has been seen
+ * confirmed: the M6 is confirmed and proven against the header chain
+ */
+export type WithdrawalStatus = 'pending' | 'bundled' | 'failed' | 'paid' | 'confirmed';
+
+/**
+ * A sidechain withdrawal to one of the wallet's addresses, followed through to its M6 payout
+ */
+export interface TrackedWithdrawal {
+  id: string;
+  walletId: string;
+  sidechainNumber: number;
+  address: string; // Mainchain address of the wallet the M6 pays
+  amount: Satoshis;
+  status: WithdrawalStatus;
+  createdAt: number;
+  registeredHeight: number;
+  seenBundles: string[]; // Bundles proposed before it was, or that failed, which can't include it
+  bundleHash?: string;
+  workScore?: number; // ACKs of its bundle when last checked
+  payout?: WithdrawalTransaction;
+}
+
+/**
+ * Entry of an address's transaction history (height <= 0 means unconfirmed)
+ */
+export interface AddressHistoryEntry {
+  txid: string;
+  height: number;
+  fee?: Satoshis;
+  verified?: boolean; // Merkle proof checked against the validated header chain (SPV)
+}
+
 /**
  * UTXO (Unspent Transaction Output)
  */
@@ -109,33 +176,100 @@ export interface UTXO {
   vout: number;
   address: string;
   scriptPubKey: string;
-  amount: number;
+  amount: Satoshis;
   confirmations: number;
   spendable: boolean;
 }
 
+/**
+ * UTXO owned by a wallet, with what is needed to sign for it
+ */
+export interface WalletUtxo extends UTXO {
+  scriptType: AddressScriptType;
+  path: string;
+  publicKey?: string; // Single-key outputs
+  multisig?: MultisigScript; // Multisig outputs
+  previousTx?: string; // Full previous transaction (hex), needed to spend P2PKH outputs
+  frozen?: boolean; // Excluded from automatic coin selection
+  label?: string;
+}
+
+/**
+ * A transaction built and broadcast by this wallet
+ * Kept so it can be replaced (BIP125) while unconfirmed
+ */
+export interface OutgoingTransaction {
+  txid: string;
+  type: 'send' | 'deposit';
+  hex: string;
+  inputs: WalletUtxo[];
+  recipients: {
+    scriptPubKey: string;
+    address?: string;
+    value: Satoshis;
+  }[];
+  change?: {
+    scriptPubKey: string;
+    scriptType: AddressScriptType;
+    value: Satoshis;
+  };
+  fee: Satoshis;
+  vsize: number;
+  timestamp: number;
+  replaces?: string; // txid of the transaction this one replaced
+  replacedBy?: string;
+  cancelled?: boolean; // Replacement paying everything back to our own change address
+  sidechainNumber?: number; // Deposits: the sidechain whose escrow was paid into
+}
+
 /**
  * Wallet account information
  */
 export interface WalletAccount {
   id: string;
   name: string;
-  type: 'hd' | 'imported';
+  type: 'hd' | 'imported' | 'watch-only' | 'multisig';
   network: BitcoinNetwork;
   balance: {
-    confirmed: number;
-    unconfirmed: number;
-    total: number;
+    confirmed: Satoshis;
+    unconfirmed: Satoshis;
+    total: Satoshis;
   };
   sidechainBalances: {
     [sidechainNumber: number]: {
-      confirmed: number;
-      unconfirmed: number;
-      total: number;
+      confirmed: Satoshis;
+      unconfirmed: Satoshis;
+      total: Satoshis;
     };
   };
 }
 
+/**
+ * An HD account (one purpose/coin type/account branch) and its address indexes
+ */
+export interface HDAccount {
+  scriptType: ScriptType;
+  path: string; // e.g. m/84'/1'/0'
+  masterFingerprint: string;
+  xpub: string;
+  nextReceiveIndex: number;
+  nextChangeIndex: number;
+}
+
+/**
+ * An address derived from an HD account or multisig vault
+ */
+export interface WalletAddress {
+  address: string;
+  scriptPubKey: string;
+  publicKey?: string; // Single-key addresses
+  multisig?: MultisigScript; // Multisig addresses
+  scriptType: AddressScriptType;
+  path: string; // From the master key (m for imported keys); for multisig, below each co-signer's account key
+  change: boolean;
+  index: number;
+}
+
 /**
  * HD Wallet specific information
  */
@@ -145,6 +279,51 @@ export interface HDWalletInfo {
   passphrase?: string; // Only stored in memory
   derivationPath: string;
   accountIndex: number;
+  scriptType: ScriptType; // Script type used for new addresses
+  accounts: Partial<Record<ScriptType, HDAccount>>;
+}
+
+/**
+ * The script of a multisig address and the co-signer keys in it
+ */
+export interface MultisigScript {
+  threshold: number;
+  script: string; // Witness or redeem script, or the tapleaf script for P2TR (hex)
+  keys: {
+    publicKey: string;
+    fingerprint: string; // Master key fingerprint of the co-signer
+    path: string; // Full derivation path from the co-signer's master key
+  }[]; // In script order
+}
+
+/**
+ * A co-signer of a multisig vault
+ */
+export interface MultisigCosigner {
+  name?: string;
+  fingerprint: string; // Master key fingerprint
+  path: string; // Account path, e.g. m/48'/1'/0'/2'
+  xpub: string;
+}
+
+/**
+ * Multisig vault: a sortedmulti policy over co-signer xpubs, and its address indexes
+ */
+export interface MultisigWalletInfo {
+  threshold: number;
+  scriptType: MultisigScriptType;
+  cosigners: MultisigCosigner[];
+  nextReceiveIndex: number;
+  nextChangeIndex: number;
+}
+
+/**
+ * Electrum server address
+ */
+export interface ElectrumServer {
+  host: string;
+  port: number;
+  protocol: 'tcp' | 'ssl';
 }
 
 /**
@@ -0,0 +1,203 @@
+import { crypto, opcodes, script as bscript } from 'bitcoinjs-lib';
+import { applyBlock, Bip300Params, Bip300State, createInitialState } from '@/utils/bip300State';
+
+// Small windows, so each rule is reached in a few dozen blocks
+const PARAMS: Bip300Params = {
+  unusedSlotMaxAge: 20,
+  unusedSlotMaxFails: 5,
+  usedSlotMaxAge: 40,
+  usedSlotMaxFails: 20,
+  bundleWorkScoreThreshold: 100,
+  bundleMaxAge: 200,
+};
+
+const BUNDLE_1 = 'b1'.repeat(32);
+const BUNDLE_2 = 'b2'.repeat(32);
+const BUNDLE_3 = 'b3'.repeat(32);
+
+// Coinbase outputs of the BIP300 messages
+const byte = (n: number) => n.toString(16).padStart(2, '0');
+const opReturn = (hex: string) => bscript.compile([opcodes.OP_RETURN, Buffer.from(hex, 'hex')]);
+const compactString = (text: string) => byte(Buffer.byteLength(text)) + Buffer.from(text).toString('hex');
+const declaration = (title: string) =>
+  '00' + compactString(title) + compactString(`${title} sidechain`) + '11'.repeat(32) + '22'.repeat(20);
+const proposalHash = (title: string) => crypto.hash256(Buffer.from(declaration(title), 'hex')).toString('hex');
+
+const m1 = (sidechainNumber: number, title: string) => opReturn('d5e0c4af' + byte(sidechainNumber) + declaration(title));
+const m2 = (sidechainNumber: number, title: string) => opReturn('d6e1c5bf' + byte(sidechainNumber) + proposalHash(title));
+const m3 = (sidechainNumber: number, bundleHash: string) => opReturn('d45aa943' + bundleHash + byte(sidechainNumber));
+const m4 = (votes: number[]) => opReturn('d77d1776' + '02' + votes.map(byte).join(''));
+const m4RepeatPrevious = () => Buffer.from([opcodes.OP_RETURN, 0xd7, 0x7d, 0x17, 0x76, 0x01]);
+const m4LeadingBy50 = () => opReturn('d77d1776' + '04');
+const ABSTAIN = 0xff;
+const ALARM = 0xfe;
+
+function applyBlocks(state: Bip300State, blocks: Buffer[][], payouts: Record<number, number[]> = {}): Bip300State {
+  return blocks.reduce((next, outputs) => applyBlock(PARAMS, next, next.height + 1, outputs, payouts[next.height + 1]), state);
+}
+
+function repeatBlock(count: number, outputs: () => Buffer[]): Buffer[][] {
+  return Array.from({ length: count }, outputs);
+}
+
+// Activate a sidechain in an unused slot: its M1, then the ACKs it needs
+function activate(state: Bip300State, sidechainNumber: number, title: string): Bip300State {
+  const acksNeeded = PARAMS.unusedSlotMaxAge - PARAMS.unusedSlotMaxFails;
+  return applyBlocks(state, [[m1(sidechainNumber, title)], ...repeatBlock(acksNeeded, () => [m2(sidechainNumber, title)])]);
+}
+
+function workScore(state: Bip300State, bundleHash: string): number | undefined {
+  return state.withdrawalBundles.find(bundle => bundle.bundleHash === bundleHash)?.workScore;
+}
+
+describe('applyBlock', () => {
+  it('applies blocks in order only, leaving the state passed in untouched', () => {
+    const state = createInitialState(10);
+    expect(() => applyBlock(PARAMS, state, 12, [])).toThrow('Expected block 11, not 12');
+
+    const next = applyBlock(PARAMS, state, 11, [m1(0, 'Thunder')]);
+    expect(next.height).toBe(11);
+    expect(state.sidechains).toEqual([]);
+  });
+
+  describe('sidechain proposals (M1/M2)', () => {
+    it('adds a proposal once, with the fields of its declaration', () => {
+      const state = applyBlocks(createInitialState(0), [[m1(3, 'Thunder')], [m1(3, 'Thunder')]]);
+
+      expect(state.sidechains).toHaveLength(1);
+      expect(state.sidechains[0]).toMatchObject({
+        escrowNumber: 3,
+        name: 'Thunder',
+        description: 'Thunder sidechain',
+        isActive: false,
+        proposalHash: proposalHash('Thunder'),
+        activationStatus: { age: 1, fails: 1 },
+      });
+    });
+
+    it('activates an unused slot proposal once it has enough ACKs', () => {
+      const acksNeeded = PARAMS.unusedSlotMaxAge - PARAMS.unusedSlotMaxFails;
+      const proposed = applyBlocks(createInitialState(0), [[m1(0, 'Thunder')]]);
+
+      // ACKs for another proposal don't count
+      const almost = applyBlocks(proposed, repeatBlock(acksNeeded - 1, () => [m2(0, 'Thunder'), m2(0, 'Other')]));
+      expect(almost.sidechains[0].isActive).toBe(false);
+      expect(almost.sidechains[0].activationStatus).toEqual({ age: acksNeeded - 1, fails: 0 });
+
+      const active = applyBlocks(almost, [[m2(0, 'Thunder')]]);
+      expect(active.sidechains[0].isActive).toBe(true);
+      expect(active.sidechains[0].activationStatus).toBeUndefined();
+    });
+
+    it('drops a proposal once it fails more blocks than allowed', () => {
+      const proposed = applyBlocks(createInitialState(0), [[m1(1, 'Dud')]]);
+
+      const lastChance = applyBlocks(proposed, repeatBlock(PARAMS.unusedSlotMaxFails, () => []));
+      expect(lastChance.sidechains).toHaveLength(1);
+
+      expect(applyBlocks(lastChance, [[]]).sidechains).toEqual([]);
+    });
+
+    it('replaces an active sidechain only after the used slot ACKs, with its bundles', () => {
+      let state = activate(createInitialState(0), 0, 'Thunder');
+      state = applyBlocks(state, [[m3(0, BUNDLE_1)], [m1(0, 'Zside')]]);
+
+      const acksNeeded = PARAMS.usedSlotMaxAge - PARAMS.usedSlotMaxFails;
+      state = applyBlocks(state, repeatBlock(acksNeeded - 1, () => [m2(0, 'Zside')]));
+      expect(state.sidechains.map(sc => [sc.name, sc.isActive])).toEqual([['Thunder', true], ['Zside', false]]);
+      expect(state.withdrawalBundles).toHaveLength(1);
+
+      state = applyBlocks(state, [[m2(0, 'Zside')]]);
+      expect(state.sidechains.map(sc => [sc.name, sc.isActive])).toEqual([['Zside', true]]);
+      expect(state.withdrawalBundles).toEqual([]);
+    });
+  });
+
+  describe('withdrawal bundles (M3/M4)', () => {
+    let state: Bip300State;
+
+    beforeEach(() => {
+      state = activate(activate(createInitialState(0), 0, 'Thunder'), 1, 'Zside');
+    });
+
+    it('adds one bundle per active sidechain and block', () => {
+      state = applyBlocks(state, [[m3(0, BUNDLE_1), m3(0, BUNDLE_2), m3(5, BUNDLE_3)]]);
+
+      expect(state.withdrawalBundles).toEqual([
+        { sidechainNumber: 0, bundleHash: BUNDLE_1, workScore: 0, blocksRemaining: PARAMS.bundleMaxAge },
+      ]);
+    });
+
+    it('upvotes the bundle voted for and downvotes the others of its sidechain', () => {
+      state = applyBlocks(state, [[m3(0, BUNDLE_1)], [m3(0, BUNDLE_2), m3(1, BUNDLE_3)]]);
+
+      state = applyBlocks(state, [[m4([0, 0])], [m4([0, 0])]]);
+      expect([workScore(state, BUNDLE_1), workScore(state, BUNDLE_2), workScore(state, BUNDLE_3)]).toEqual([2, 0, 2]);
+
+      state = applyBlocks(state, [[m4([1, ABSTAIN])]]);
+      expect([workScore(state, BUNDLE_1), workScore(state, BUNDLE_2), workScore(state, BUNDLE_3)]).toEqual([1, 1, 2]);
+    });
+
+    it('repeats the votes of the previous block', () => {
+      state = applyBlocks(state, [[m3(0, BUNDLE_1), m3(1, BUNDLE_3)], [m4([0, ALARM])]]);
+      expect([workScore(state, BUNDLE_1), workScore(state, BUNDLE_3)]).toEqual([1, 0]);
+
+      state = applyBlocks(state, [[m4([ABSTAIN, 0])], [m4([ABSTAIN, 0])], [m4([0, ABSTAIN])], [m4RepeatPrevious()]]);
+      expect([workScore(state, BUNDLE_1), workScore(state, BUNDLE_3)]).toEqual([3, 2]);
+    });
+
+    it('downvotes every bundle of a sidechain on an alarm', () => {
+      state = applyBlocks(state, [[m3(0, BUNDLE_1)], [m3(0, BUNDLE_2)], [m4([0])], [m4([0])], [m4([1])]]);
+      expect([workScore(state, BUNDLE_1), workScore(state, BUNDLE_2)]).toEqual([1, 1]);
+
+      state = applyBlocks(state, [[m4([ALARM])]]);
+      expect([workScore(state, BUNDLE_1), workScore(state, BUNDLE_2)]).toEqual([0, 0]);
+    });
+
+    it('abstains on every sidechain in a block without an M4', () => {
+      state = applyBlocks(state, [[m3(0, BUNDLE_1)], [m4([0])], []]);
+
+      expect(workScore(state, BUNDLE_1)).toBe(1);
+      expect(state.withdrawalBundles[0].blocksRemaining).toBe(PARAMS.bundleMaxAge - 2);
+    });
+
+    it('upvotes a leading-by-50 bundle only once it leads the next by 50', () => {
+      state = applyBlocks(state, [[m3(0, BUNDLE_1)], [m3(0, BUNDLE_2)], ...repeatBlock(49, () => [m4([0])])]);
+      expect([workScore(state, BUNDLE_1), workScore(state, BUNDLE_2)]).toEqual([49, 0]);
+
+      state = applyBlocks(state, [[m4LeadingBy50()]]);
+      expect([workScore(state, BUNDLE_1), workScore(state, BUNDLE_2)]).toEqual([49, 0]);
+
+      state = applyBlocks(state, [[m4([0])], [m4LeadingBy50()]]);
+      expect([workScore(state, BUNDLE_1), workScore(state, BUNDLE_2)]).toEqual([51, 0]);
+    });
+
+    it('drops a bundle that runs out of blocks before it is approved', () => {
+      const votes = PARAMS.bundleWorkScoreThreshold - 1;
+      state = applyBlocks(state, [
+        [m3(0, BUNDLE_1)],
+        ...repeatBlock(votes, () => [m4([0])]),
+        ...repeatBlock(PARAMS.bundleMaxAge - votes - 1, () => []),
+      ]);
+      expect(state.withdrawalBundles[0]).toMatchObject({ workScore: votes, blocksRemaining: 1 });
+
+      expect(applyBlocks(state, [[]]).withdrawalBundles).toEqual([]);
+    });
+
+    it('keeps an approved bundle until an M6 pays it out', () => {
+      const threshold = PARAMS.bundleWorkScoreThreshold;
+      state = applyBlocks(state, [[m3(0, BUNDLE_1), m3(1, BUNDLE_3)], ...repeatBlock(threshold, () => [m4([0, ABSTAIN])])]);
+      state = applyBlocks(state, repeatBlock(PARAMS.bundleMaxAge, () => []));
+      expect(state.withdrawalBundles.map(bundle => bundle.bundleHash)).toEqual([BUNDLE_1]);
+      expect(workScore(state, BUNDLE_1)).toBe(threshold);
+
+      // A payout out of a sidechain without an approved bundle changes nothing
+      const paidHeight = state.height + 1;
+      state = applyBlocks(state, [[m3(1, BUNDLE_2)]], { [paidHeight]: [1] });
+      expect(state.withdrawalBundles.map(bundle => bundle.bundleHash)).toEqual([BUNDLE_1, BUNDLE_2]);
+
+      state = applyBlocks(state, [[]], { [paidHeight + 1]: [0] });
+      expect(state.withdrawalBundles.map(bundle => bundle.bundleHash)).toEqual([BUNDLE_2]);
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { ScriptType, WalletUtxo } from '@/types/blockchain';
+import { formatAmount } from '@/utils/amount';
+import {
+  CoinSelectionParams,
+  getWaste,
+  selectBranchAndBound,
+  selectCoins,
+  selectKnapsack,
+  selectSingleRandomDraw,
+} from '@/utils/coinSelection';
+
+// P2WPKH everywhere: 68 vB inputs, 31 vB outputs, 42 vB for everything but the inputs of a one-output transaction
+const P2WPKH_OUTPUT_SCRIPT_LENGTH = 22;
+
+let nextTxid = 0;
+
+function utxo(amount: number, overrides: Partial<WalletUtxo> = {}): WalletUtxo {
+  return {
+    txid: (nextTxid++).toString(16).padStart(64, '0'),
+    vout: 0,
+    address: 'bcrt1qtest',
+    scriptPubKey: '0014' + '00'.repeat(20),
+    amount,
+    confirmations: 6,
+    spendable: true,
+    scriptType: ScriptType.P2WPKH,
+    path: "m/84'/1'/0'/0/0",
+    ...overrides,
+  };
+}
+
+function params(utxos: WalletUtxo[], value: number, overrides: Partial<CoinSelectionParams> = {}): CoinSelectionParams {
+  return {
+    utxos,
+    outputs: [{ scriptLength: P2WPKH_OUTPUT_SCRIPT_LENGTH, value }],
+    changeScriptType: ScriptType.P2WPKH,
+    feeRate: 1,
+    longTermFeeRate: 10,
+    ...overrides,
+  };
+}
+
+// Deterministic stand-in for Math.random (a linear congruential generator)
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2 ** 31;
+    return state / 2 ** 31;
+  };
+}
+
+const amounts = (inputs: WalletUtxo[]) => inputs.map(input => input.amount).sort((a, b) => a - b);
+
+describe('selectBranchAndBound', () => {
+  it('finds an exact changeless match', () => {
+    // 10110 sats less its 68 sat input fee covers the 10000 sat output and 42 sats of the rest
+    const selection = selectBranchAndBound([utxo(50000), utxo(10110), utxo(3000)], params([], 10000));
+
+    expect(selection).toEqual({ inputs: [expect.objectContaining({ amount: 10110 })], fee: 110, change: 0, vsize: 110 });
+  });
+
+  it('backtracks past the largest coin to a combination that fits', () => {
+    const selection = selectBranchAndBound([utxo(6068), utxo(5068), utxo(5110)], params([], 10000));
+
+    expect(amounts(selection!.inputs)).toEqual([5068, 5110]);
+    expect(selection).toMatchObject({ fee: 178, change: 0, vsize: 178 });
+  });
+
+  it('gives up when every match would overpay by more than a change output costs', () => {
+    expect(selectBranchAndBound([utxo(50000), utxo(3000)], params([], 10000))).toBeNull();
+  });
+});
+
+describe('selectKnapsack', () => {
+  it('finds the smallest total covering the outputs and a change output', () => {
+    const utxos = [utxo(30000), utxo(12000), utxo(7000), utxo(5000)];
+    const selection = selectKnapsack(utxos, params([], 10000), seededRandom(1));
+
+    expect(amounts(selection!.inputs)).toEqual([5000, 7000]);
+    expect(selection).toMatchObject({ fee: 209, change: 1791, vsize: 209 });
+  });
+
+  it('fails when all coins together fall short', () => {
+    expect(selectKnapsack([utxo(5000), utxo(5000)], params([], 10000), seededRandom(1))).toBeNull();
+  });
+});
+
+describe('selectSingleRandomDraw', () => {
+  it('adds coins in the drawn order until there is change', () => {
+    const small = utxo(3000);
+    const large = utxo(100000);
+    const send = params([], 2000, { feeRate: 10 });
+
+    // A draw that keeps the order spends the small coin, too short on its own, before the large one
+    expect(selectSingleRandomDraw([small, large], send, () => 0.99)!.inputs).toEqual([small, large]);
+    expect(selectSingleRandomDraw([small, large], send, () => 0)!.inputs).toEqual([large]);
+  });
+});
+
+describe('getWaste', () => {
+  it('counts the excess of a changeless selection and the cost of change otherwise', () => {
+    const send = params([], 10000);
+    const input = utxo(20000);
+
+    // 68 vB at 1 sat/vB instead of 10 saves 612 sats
+    expect(getWaste({ inputs: [input], fee: 110, change: 0, vsize: 110 }, send)).toBe(-612);
+    expect(getWaste({ inputs: [input], fee: 150, change: 0, vsize: 110 }, send)).toBe(-572);
+    // Change costs 31 vB now at 1 sat/vB and a 68 vB input later at 10 sat/vB
+    expect(getWaste({ inputs: [input], fee: 141, change: 9859, vsize: 141 }, send)).toBe(-612 + 31 + 680);
+  });
+});
+
+describe('selectCoins', () => {
+  it('picks the selection with the lowest waste', () => {
+    const utxos = [utxo(50000), utxo(10110), utxo(3000)];
+
+    const largestFirst = selectCoins(params(utxos, 10000, { algorithms: ['largest-first'] }));
+    expect(largestFirst.data).toMatchObject({ algorithm: 'largest-first', waste: 99 });
+
+    const best = selectCoins(params(utxos, 10000));
+    expect(best.data).toMatchObject({ algorithm: 'bnb', waste: -612, change: 0 });
+    expect(best.data!.inputs.map(input => input.amount)).toEqual([10110]);
+  });
+
+  it('breaks a tie in waste with fewer inputs', () => {
+    // At the long-term fee rate inputs cost no waste, so both selections waste only the cost of
+    // change; a draw that keeps the order has the random draw spend both coins
+    jest.spyOn(Math, 'random').mockReturnValue(0.99);
+    const utxos = [utxo(3000), utxo(100000)];
+    const result = selectCoins(params(utxos, 2000, { feeRate: 10, algorithms: ['srd', 'largest-first'] }));
+    jest.restoreAllMocks();
+
+    expect(result.data).toMatchObject({ algorithm: 'largest-first', waste: 310 + 680 });
+    expect(result.data!.inputs).toHaveLength(1);
+  });
+
+  it('refuses an output below the dust limit', () => {
+    const result = selectCoins(params([utxo(50000)], 200));
+
+    expect(result).toMatchObject({ success: false, reason: 'dust' });
+    expect(result.error).toContain('below the dust limit');
+  });
+
+  it('refuses a selection that needs more inputs than allowed', () => {
+    const utxos = [utxo(5000), utxo(5000), utxo(5000)];
+
+    expect(selectCoins(params(utxos, 12000)).success).toBe(true);
+
+    const result = selectCoins(params(utxos, 12000, { maxInputs: 2 }));
+    expect(result).toMatchObject({ success: false, reason: 'too-many-inputs' });
+    expect(result.error).toContain('more than 2 inputs');
+  });
+
+  it('leaves frozen, unspendable and unconfirmed coins out', () => {
+    const utxos = [
+      utxo(5000),
+      utxo(20000, { frozen: true }),
+      utxo(30000, { spendable: false }),
+      utxo(40000, { confirmations: 0 }),
+    ];
+
+    const result = selectCoins(params(utxos, 10000));
+    expect(result).toMatchObject({ success: false, reason: 'insufficient-funds' });
+    expect(result.error).toBe(
+      `Insufficient funds: ${formatAmount(10000)} plus fees needed, ${formatAmount(5000)} available ` +
+      `(${formatAmount(90000)} more is unconfirmed or not spendable)`
+    );
+
+    // Unconfirmed coins count once the threshold allows them
+    const unconfirmed = selectCoins(params(utxos, 10000, { minConfirmations: 0 }));
+    expect(unconfirmed.data!.inputs.map(input => input.amount)).not.toContain(20000);
+    expect(unconfirmed.data!.inputs.map(input => input.amount)).toContain(40000);
+  });
+
+  it('reports a plain shortfall when no coins were left out', () => {
+    const result = selectCoins(params([utxo(5000)], 10000));
+
+    expect(result.reason).toBe('insufficient-funds');
+    expect(result.error).not.toContain('more is unconfirmed');
+  });
+});
@@ -0,0 +1,64 @@
+import { BitcoinNetwork, ScriptType } from '@/types/blockchain';
+import { deriveAccount, deriveAccountAtPath, deriveAddress, getAccountPath } from '@/utils/hd';
+import { mnemonicToSeed } from '@/utils/mnemonic';
+
+// Test mnemonic of BIP49, BIP84 and BIP86
+const MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+describe('account paths', () => {
+  it('uses the BIP43 purpose of the script type and the SLIP-44 coin type of the network', () => {
+    expect(getAccountPath(ScriptType.P2PKH, BitcoinNetwork.MAINNET)).toBe("m/44'/0'/0'");
+    expect(getAccountPath(ScriptType.P2SH_P2WPKH, BitcoinNetwork.TESTNET)).toBe("m/49'/1'/0'");
+    expect(getAccountPath(ScriptType.P2WPKH, BitcoinNetwork.REGTEST, 2)).toBe("m/84'/1'/2'");
+    expect(getAccountPath(ScriptType.P2TR, BitcoinNetwork.MAINNET)).toBe("m/86'/0'/0'");
+  });
+});
+
+describe('BIP32 test vector 1', () => {
+  const seed = Buffer.from('000102030405060708090a0b0c0d0e0f', 'hex');
+
+  it('derives the extended public key at m/0H/1/2H/2/1000000000', () => {
+    const account = deriveAccountAtPath(seed, ScriptType.P2PKH, BitcoinNetwork.MAINNET, "m/0'/1/2'/2/1000000000");
+    expect(account.xpub).toBe(
+      'xpub6H1LXWLaKsWFhvm6RVpEL9P4KfRZSW7abD2ttkWP3SSQvnyA8FSVqNTEcYFgJS2UaFcxupHiYkro49S8yGasTvXEYBVPamhGW6cFJodrTHy'
+    );
+    expect(account.masterFingerprint).toBe('3442193e');
+  });
+});
+
+describe('account address vectors', () => {
+  let seed: Buffer;
+
+  beforeAll(async () => {
+    seed = await mnemonicToSeed(MNEMONIC);
+  });
+
+  it('derives BIP44 legacy addresses', () => {
+    const account = deriveAccount(seed, ScriptType.P2PKH, BitcoinNetwork.MAINNET);
+    expect(account.xpub).toBe(
+      'xpub6BosfCnifzxcFwrSzQiqu2DBVTshkCXacvNsWGYJVVhhawA7d4R5WSWGFNbi8Aw6ZRc1brxMyWMzG3DSSSSoekkudhUd9yLb6qx39T9nMdj'
+    );
+    expect(deriveAddress(account, BitcoinNetwork.MAINNET, false, 0).address).toBe('1LqBGSKuX5yYUonjxT5qGfpUsXKYYWeabA');
+  });
+
+  it('derives BIP49 nested segwit addresses', () => {
+    const account = deriveAccount(seed, ScriptType.P2SH_P2WPKH, BitcoinNetwork.TESTNET);
+    const address = deriveAddress(account, BitcoinNetwork.TESTNET, false, 0);
+    expect(address.address).toBe('2Mww8dCYPUpKHofjgcXcBCEGmniw9CoaiD2');
+    expect(address.path).toBe("m/49'/1'/0'/0/0");
+  });
+
+  it('derives BIP84 native segwit addresses', () => {
+    const account = deriveAccount(seed, ScriptType.P2WPKH, BitcoinNetwork.MAINNET);
+    expect(deriveAddress(account, BitcoinNetwork.MAINNET, false, 0).address).toBe('bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu');
+    expect(deriveAddress(account, BitcoinNetwork.MAINNET, false, 1).address).toBe('bc1qnjg0jd8228aq7egyzacy8cys3knf9xvrerkf9g');
+    expect(deriveAddress(account, BitcoinNetwork.MAINNET, true, 0).address).toBe('bc1q8c6fshw2dlwun7ekn9qwf37cu2rn755upcp6el');
+  });
+
+  it('derives BIP86 taproot addresses', () => {
+    const account = deriveAccount(seed, ScriptType.P2TR, BitcoinNetwork.MAINNET);
+    expect(deriveAddress(account, BitcoinNetwork.MAINNET, false, 0).address).toBe('bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr');
+    expect(deriveAddress(account, BitcoinNetwork.MAINNET, false, 1).address).toBe('bc1p4qhjn9zdvkux4e44uhx8tc55attvtyu358kutcqkudyccelu0was9fqzwh');
+    expect(deriveAddress(account, BitcoinNetwork.MAINNET, true, 0).address).toBe('bc1p3qkhfews2uk44qtvauqyr2ttdsw7svhkl9nkm9s9c3x4ax5h60wqwruhk7');
+  });
+});
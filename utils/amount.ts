@@ -0,0 +1,103 @@
+/**
+ * Bitcoin amounts as integer satoshis
+ * All balances, UTXO values and fees in the wallet are Satoshis; BTC decimals
+ * only exist at the edges, when parsing user input and formatting for display.
+ */
+export type Satoshis = number;
+
+export const SATS_PER_BTC = 100_000_000;
+
+/**
+ * Display units and how many decimals each has relative to satoshis
+ */
+export type AmountUnit = 'BTC' | 'mBTC' | 'bits' | 'sats';
+
+export const UNIT_DECIMALS: Record<AmountUnit, number> = {
+  BTC: 8,
+  mBTC: 5,
+  bits: 2,
+  sats: 0,
+};
+
+/**
+ * Throw unless a value is a safe integer number of satoshis
+ */
+export function assertSatoshis(value: number): Satoshis {
+  if (!Number.isSafeInteger(value)) {
+    throw new Error(`Invalid satoshi amount: ${value}`);
+  }
+  return value;
+}
+
+/**
+ * Parse a decimal string in the given unit into satoshis
+ * Parsing is done on the digits, so "0.1" + "0.2" BTC is exactly 30000000 sats.
+ * Throws on malformed input or more decimals than the unit allows.
+ */
+export function parseAmount(input: string, unit: AmountUnit = 'BTC'): Satoshis {
+  const decimals = UNIT_DECIMALS[unit];
+  const match = input.trim().replace(',', '.').match(/^(-)?(\d*)(?:\.(\d*))?$/);
+
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid amount: "${input}"`);
+  }
+
+  const [, sign, whole = '', fraction = ''] = match;
+  if (fraction.length > decimals) {
+    throw new Error(`Amount has more than ${decimals} decimal places for ${unit}`);
+  }
+
+  const digits = `${whole || '0'}${fraction.padEnd(decimals, '0')}`;
+  const sats = assertSatoshis(Number(digits));
+  return sign ? -sats : sats;
+}
+
+/**
+ * Parse an amount, returning null instead of throwing for invalid input
+ */
+export function tryParseAmount(input: string, unit: AmountUnit = 'BTC'): Satoshis | null {
+  try {
+    return parseAmount(input, unit);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Format satoshis in the given unit
+ * @param options.withUnit Append the unit name (default true)
+ * @param options.trimZeros Drop trailing fractional zeros (default false)
+ */
+export function formatAmount(
+  sats: Satoshis,
+  unit: AmountUnit = 'BTC',
+  options: { withUnit?: boolean; trimZeros?: boolean } = {}
+): string {
+  assertSatoshis(sats);
+  const { withUnit = true, trimZeros = false } = options;
+  const decimals = UNIT_DECIMALS[unit];
+
+  const digits = Math.abs(sats).toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  let fraction = digits.slice(digits.length - decimals);
+  if (trimZeros) {
+    fraction = fraction.replace(/0+$/, '');
+  }
+
+  const value = `${sats < 0 ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+  return withUnit ? `${value} ${unit}` : value;
+}
+
+/**
+ * Convert a BTC-denominated number from an external API into satoshis
+ */
+export function btcToSats(btc: number): Satoshis {
+  return assertSatoshis(Math.round(btc * SATS_PER_BTC));
+}
+
+/**
+ * Sum a list of satoshi amounts
+ */
+export function sumAmounts(amounts: Satoshis[]): Satoshis {
+  return assertSatoshis(amounts.reduce((total, amount) => total + amount, 0));
+}
@@ -0,0 +1,264 @@
+import { crypto, opcodes, payments } from 'bitcoinjs-lib';
+
+/**
+ * BIP300 scripts: sidechain escrow outputs (OP_DRIVECHAIN), deposit address OP_RETURNs and
+ * the M1-M4 messages miners put in coinbase outputs
+ */
+
+// OP_DRIVECHAIN redefines OP_NOP5
+const OP_DRIVECHAIN = opcodes.OP_NOP5;
+
+// Standard relay policy allows at most 80 bytes of OP_RETURN data
+export const MAX_DEPOSIT_ADDRESS_LENGTH = 80;
+
+/**
+ * Escrow output script of a sidechain: OP_DRIVECHAIN <sidechain number> OP_TRUE
+ * The one unspent output with this script is the sidechain's CTIP.
+ */
+export function getEscrowScript(sidechainNumber: number): Buffer {
+  if (!Number.isInteger(sidechainNumber) || sidechainNumber < 0 || sidechainNumber > 255) {
+    throw new Error(`Invalid sidechain number ${sidechainNumber}`);
+  }
+  return Buffer.from([OP_DRIVECHAIN, 0x01, sidechainNumber, opcodes.OP_TRUE]);
+}
+
+/**
+ * Sidechain number of an escrow output script, if it is one
+ */
+export function getEscrowSidechain(script: Buffer): number | undefined {
+  const isEscrow = script.length === 4 &&
+    script[0] === OP_DRIVECHAIN && script[1] === 0x01 && script[3] === opcodes.OP_TRUE;
+  return isEscrow ? script[2] : undefined;
+}
+
+/**
+ * Get the sidechain address to deposit to
+ * Accepts a plain sidechain address, or one in the s<sidechain>_<address>_<checksum> form
+ * sidechain wallets show, whose sidechain number and checksum (the first 6 hex digits of
+ * the SHA-256 of everything before it) are checked.
+ */
+export function parseDepositAddress(input: string, sidechainNumber: number): string {
+  const trimmed = input.trim();
+  const formatted = trimmed.match(/^s(\d+)_(.+)_([0-9a-f]{6})$/i);
+
+  let address = trimmed;
+  if (formatted) {
+    const [, number, inner, checksum] = formatted;
+    if (Number(number) !== sidechainNumber) {
+      throw new Error(`This deposit address is for sidechain ${number}, not ${sidechainNumber}`);
+    }
+
+    const expected = crypto.sha256(Buffer.from(`s${number}_${inner}_`, 'utf8')).toString('hex').slice(0, 6);
+    if (checksum.toLowerCase() !== expected) {
+      throw new Error('Deposit address checksum does not match');
+    }
+    address = inner;
+  }
+
+  if (!address) {
+    throw new Error('Enter the sidechain address to deposit to');
+  }
+  if (/\s/.test(address)) {
+    throw new Error('Sidechain addresses cannot contain spaces');
+  }
+  if (Buffer.byteLength(address, 'utf8') > MAX_DEPOSIT_ADDRESS_LENGTH) {
+    throw new Error(`Sidechain addresses can be at most ${MAX_DEPOSIT_ADDRESS_LENGTH} bytes`);
+  }
+  return address;
+}
+
+/**
+ * OP_RETURN output script telling the sidechain which address a deposit credits
+ */
+export function getDepositAddressScript(address: string): Buffer {
+  return payments.embed({ data: [Buffer.from(address, 'utf8')] }).output!;
+}
+
+// Coinbase message headers, the 4 bytes following OP_RETURN
+const M1_PROPOSE_SIDECHAIN = 'd5e0c4af';
+const M2_ACK_SIDECHAIN = 'd6e1c5bf';
+const M3_PROPOSE_BUNDLE = 'd45aa943';
+const M4_ACK_BUNDLES = 'd77d1776';
+
+/**
+ * How an M4 message votes on the bundles of each active sidechain
+ * repeat-previous: the same votes as the block before
+ * votes: per active sidechain in escrow number order, the index of the bundle to upvote among
+ * that sidechain's bundles, or BUNDLE_VOTE_ABSTAIN/BUNDLE_VOTE_ALARM (sent as one or two bytes each)
+ * leading-by-50: upvote each sidechain's leading bundle if it leads the next by 50 or more
+ */
+export type BundleVotes =
+  | { type: 'repeat-previous' }
+  | { type: 'votes'; votes: number[] }
+  | { type: 'leading-by-50' };
+
+export const BUNDLE_VOTE_ABSTAIN = -1;
+export const BUNDLE_VOTE_ALARM = -2;
+
+/**
+ * A sidechain proposal's description (M1), in version 0 of the sidechain declaration format
+ */
+export interface SidechainDeclaration {
+  version: number;
+  title: string;
+  description: string;
+  tarballHash: string; // Hash ID 1: SHA-256 of the release tarball, as sha256sum prints it
+  gitCommitHash: string; // Hash ID 2: commit the release was built from, as git prints it
+}
+
+/**
+ * A BIP300 message decoded from a coinbase output
+ */
+export type Bip300Message =
+  | {
+    type: 'M1';
+    sidechainNumber: number;
+    proposalHash: string; // SHA-256d of the description, which M2 ACKs name
+    declaration?: SidechainDeclaration; // Missing if the description isn't in a known format
+  }
+  | { type: 'M2'; sidechainNumber: number; proposalHash: string }
+  | { type: 'M3'; sidechainNumber: number; bundleHash: string }
+  | { type: 'M4'; votes: BundleVotes };
+
+/**
+ * Decode a BIP300 message from a coinbase output script
+ * The message bytes follow OP_RETURN directly, or as a single push.
+ * @returns undefined for any other output, or a malformed message
+ */
+export function parseBip300Message(script: Buffer): Bip300Message | undefined {
+  const payload = getOpReturnPayload(script);
+  if (!payload || payload.length < 4) {
+    return undefined;
+  }
+
+  const header = payload.subarray(0, 4).toString('hex');
+  const body = payload.subarray(4);
+
+  switch (header) {
+    case M1_PROPOSE_SIDECHAIN: {
+      if (body.length < 2) return undefined;
+      const description = body.subarray(1);
+      return {
+        type: 'M1',
+        sidechainNumber: body[0],
+        proposalHash: crypto.hash256(description).toString('hex'),
+        declaration: parseDeclaration(description),
+      };
+    }
+    case M2_ACK_SIDECHAIN:
+      if (body.length !== 33) return undefined;
+      return { type: 'M2', sidechainNumber: body[0], proposalHash: body.subarray(1).toString('hex') };
+    case M3_PROPOSE_BUNDLE:
+      if (body.length !== 33) return undefined;
+      return { type: 'M3', sidechainNumber: body[32], bundleHash: body.subarray(0, 32).toString('hex') };
+    case M4_ACK_BUNDLES: {
+      const votes = parseBundleVotes(body);
+      return votes && { type: 'M4', votes };
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Data following OP_RETURN, unwrapping it if it's a single push
+ */
+function getOpReturnPayload(script: Buffer): Buffer | undefined {
+  if (script.length < 2 || script[0] !== opcodes.OP_RETURN) {
+    return undefined;
+  }
+
+  const rest = script.subarray(1);
+  if (rest[0] > opcodes.OP_PUSHDATA4) {
+    return rest;
+  }
+
+  let offset = 1;
+  let length = rest[0];
+  if (rest[0] === opcodes.OP_PUSHDATA1) {
+    length = rest[1];
+    offset = 2;
+  } else if (rest[0] === opcodes.OP_PUSHDATA2) {
+    length = rest.readUInt16LE(1);
+    offset = 3;
+  } else if (rest[0] === opcodes.OP_PUSHDATA4) {
+    length = rest.readUInt32LE(1);
+    offset = 5;
+  }
+  return rest.length === offset + length ? rest.subarray(offset) : undefined;
+}
+
+function parseBundleVotes(body: Buffer): BundleVotes | undefined {
+  const version = body[0];
+  const data = body.subarray(1);
+
+  switch (version) {
+    case 0x01:
+      return data.length === 0 ? { type: 'repeat-previous' } : undefined;
+    case 0x02:
+      return {
+        type: 'votes',
+        votes: [...data].map(vote =>
+          vote === 0xff ? BUNDLE_VOTE_ABSTAIN : vote === 0xfe ? BUNDLE_VOTE_ALARM : vote
+        ),
+      };
+    case 0x03: {
+      if (data.length % 2 !== 0) return undefined;
+      const votes = Array.from({ length: data.length / 2 }, (_, i) => {
+        const vote = data.readUInt16LE(i * 2);
+        return vote === 0xffff ? BUNDLE_VOTE_ABSTAIN : vote === 0xfffe ? BUNDLE_VOTE_ALARM : vote;
+      });
+      return { type: 'votes', votes };
+    }
+    case 0x04:
+      return data.length === 0 ? { type: 'leading-by-50' } : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Parse a version 0 sidechain declaration:
+ * version (1), title and description (CompactSize length + UTF-8), hash ID 1 (32), hash ID 2 (20)
+ * The hash IDs are serialized as uint256/uint160, byte-reversed from the hex sha256sum and git show.
+ */
+function parseDeclaration(description: Buffer): SidechainDeclaration | undefined {
+  if (description[0] !== 0) {
+    return undefined;
+  }
+
+  let offset = 1;
+  const readString = (): string | undefined => {
+    const length = readCompactSize(description, offset);
+    if (!length || offset + length.size + length.value > description.length) {
+      return undefined;
+    }
+    offset += length.size;
+    const value = description.subarray(offset, offset + length.value).toString('utf8');
+    offset += length.value;
+    return value;
+  };
+
+  const title = readString();
+  const text = readString();
+  if (title === undefined || text === undefined || description.length !== offset + 32 + 20) {
+    return undefined;
+  }
+
+  return {
+    version: 0,
+    title,
+    description: text,
+    tarballHash: Buffer.from(description.subarray(offset, offset + 32)).reverse().toString('hex'),
+    gitCommitHash: Buffer.from(description.subarray(offset + 32)).reverse().toString('hex'),
+  };
+}
+
+function readCompactSize(buffer: Buffer, offset: number): { value: number; size: number } | undefined {
+  if (offset >= buffer.length) return undefined;
+  const first = buffer[offset];
+  if (first < 0xfd) return { value: first, size: 1 };
+  if (first === 0xfd && offset + 3 <= buffer.length) return { value: buffer.readUInt16LE(offset + 1), size: 3 };
+  if (first === 0xfe && offset + 5 <= buffer.length) return { value: buffer.readUInt32LE(offset + 1), size: 5 };
+  return undefined;
+}
@@ -0,0 +1,390 @@
+import { BitcoinNetwork, SidechainInfo, WithdrawalBundle } from '@/types/blockchain';
+import { Bip300Message, BUNDLE_VOTE_ABSTAIN, BUNDLE_VOTE_ALARM, parseBip300Message } from '@/utils/bip300';
+
+/**
+ * BIP300 state engine: D1 (the sidechain list) and D2 (the withdrawal list), block by block
+ * from the M1-M4 messages in coinbase outputs and the M6 payouts in the block
+ */
+
+/**
+ * Voting windows and thresholds D1 and D2 are kept by
+ */
+export interface Bip300Params {
+  unusedSlotMaxAge: number; // Blocks a proposal for an unused slot has to gather its ACKs
+  unusedSlotMaxFails: number; // Blocks without an ACK it can afford
+  usedSlotMaxAge: number; // The same for a proposal replacing an active sidechain
+  usedSlotMaxFails: number;
+  bundleWorkScoreThreshold: number; // ACKs a bundle needs to be paid out (M6)
+  bundleMaxAge: number; // Blocks a bundle has to reach the threshold
+}
+
+// Unused slots: 1815 ACKs in 2016 blocks. Used slots and bundles: 13150 ACKs in 26300 blocks.
+const BIP300_MAINNET_PARAMS: Bip300Params = {
+  unusedSlotMaxAge: 2016,
+  unusedSlotMaxFails: 201,
+  usedSlotMaxAge: 26300,
+  usedSlotMaxFails: 13150,
+  bundleWorkScoreThreshold: 13150,
+  bundleMaxAge: 26300,
+};
+
+// Regtest blocks are mined on demand, so the windows are short enough to activate a sidechain
+// and pay out a bundle in a test session. Unused slots: 15 ACKs in 20 blocks. Used slots: 50 ACKs
+// in 100 blocks. Bundles: 100 ACKs in 200 blocks, which still leaves room for a leading-by-50 M4.
+const BIP300_REGTEST_PARAMS: Bip300Params = {
+  unusedSlotMaxAge: 20,
+  unusedSlotMaxFails: 5,
+  usedSlotMaxAge: 100,
+  usedSlotMaxFails: 50,
+  bundleWorkScoreThreshold: 100,
+  bundleMaxAge: 200,
+};
+
+// BIP300 isn't active on testnet, so it has no windows of its own yet; a testnet activation
+// would come with the mainnet ones unless its deployment says otherwise
+export const BIP300_PARAMS: Record<BitcoinNetwork, Bip300Params> = {
+  [BitcoinNetwork.MAINNET]: BIP300_MAINNET_PARAMS,
+  [BitcoinNetwork.TESTNET]: BIP300_MAINNET_PARAMS,
+  [BitcoinNetwork.REGTEST]: BIP300_REGTEST_PARAMS,
+};
+
+// How far a bundle must lead the next to get the votes of a leading-by-50 M4
+const LEADING_BY = 50;
+
+// Vote of the last block on a sidechain: the upvoted bundle's hash, or this for an alarm
+const ALARM = 'alarm';
+
+/**
+ * D1 and D2 as of a block
+ */
+export interface Bip300State {
+  height: number; // Last block applied
+  sidechains: SidechainInfo[]; // D1: active sidechains, and proposals with isActive false
+  withdrawalBundles: WithdrawalBundle[]; // D2, in the order bundles were proposed
+  lastVotes: Record<number, string>; // Bundle votes of the last block by sidechain, for a repeat-previous M4
+}
+
+/**
+ * State before any block: no sidechains and no bundles
+ * @param height Height of the block before the first one to apply
+ */
+export function createInitialState(height: number): Bip300State {
+  return {
+    height,
+    sidechains: [],
+    withdrawalBundles: [],
+    lastVotes: {},
+  };
+}
+
+/**
+ * Apply the next block to the state
+ * @param coinbaseOutputs Output scripts of the block's coinbase transaction
+ * @param payouts Sidechains an M6 in the block paid out of
+ * @returns The state as of the block; the one passed in is left untouched
+ */
+export function applyBlock(
+  params: Bip300Params,
+  state: Bip300State,
+  height: number,
+  coinbaseOutputs: Buffer[],
+  payouts: number[] = []
+): Bip300State {
+  if (height !== state.height + 1) {
+    throw new Error(`Expected block ${state.height + 1}, not ${height}`);
+  }
+
+  const messages = coinbaseOutputs
+    .map(parseBip300Message)
+    .filter((message): message is Bip300Message => message !== undefined);
+
+  const sidechains = applySidechainMessages(params, state.sidechains, messages);
+  const activeNumbers = new Set(sidechains.filter(sc => sc.isActive).map(sc => sc.escrowNumber));
+  const activated = sidechains.filter(sc => sc.isActive && !state.sidechains.includes(sc));
+
+  // Bundles of a slot that was just taken over belong to the sidechain it replaced, and an
+  // approved bundle leaves with the M6 paying it out
+  let withdrawalBundles = state.withdrawalBundles.filter(bundle =>
+    !activated.some(sc => sc.escrowNumber === bundle.sidechainNumber) &&
+    !(payouts.includes(bundle.sidechainNumber) && bundle.workScore >= params.bundleWorkScoreThreshold)
+  );
+
+  const { bundles, votes } = applyBundleVotes(params, state, withdrawalBundles, messages);
+  withdrawalBundles = applyBundleProposals(params, bundles, messages, activeNumbers);
+
+  return {
+    height,
+    sidechains,
+    withdrawalBundles,
+    lastVotes: votes,
+  };
+}
+
+/**
+ * How far a sidechain proposal (M1) is from activating or being dropped
+ */
+export interface ProposalProgress {
+  acks: number; // Blocks that ACKed it (M2)
+  fails: number; // Blocks that didn't
+  acksNeeded: number;
+  maxFails: number;
+  usedSlot: boolean; // Replacing an active sidechain
+  blocksToActivation: number; // If every block from now ACKs it
+  blocksToExpiry: number; // If no block from now ACKs it
+}
+
+/**
+ * Get the activation progress of a proposal in the sidechain list
+ */
+export function getProposalProgress(
+  params: Bip300Params,
+  sidechains: SidechainInfo[],
+  proposal: SidechainInfo
+): ProposalProgress {
+  const { age, fails } = proposal.activationStatus ?? { age: 0, fails: 0 };
+  const usedSlot = isUsedSlotProposal(sidechains, proposal);
+  const maxFails = usedSlot ? params.usedSlotMaxFails : params.unusedSlotMaxFails;
+  const acksNeeded = (usedSlot ? params.usedSlotMaxAge : params.unusedSlotMaxAge) - maxFails;
+  const acks = age - fails;
+
+  return {
+    acks,
+    fails,
+    acksNeeded,
+    maxFails,
+    usedSlot,
+    blocksToActivation: Math.max(acksNeeded - acks, 0),
+    blocksToExpiry: Math.max(maxFails - fails + 1, 0),
+  };
+}
+
+/**
+ * Where a withdrawal bundle (M3) is headed at its recent ACK rate
+ */
+export interface BundleProgress {
+  bundle: WithdrawalBundle;
+  height: number; // Block the state is as of
+  ackRate: number; // Net ACKs per block over the recent blocks, negative while downvoted
+  sampleBlocks: number; // Blocks the rate was measured over
+  approved: boolean; // Reached the threshold, so an M6 can pay it out
+  payoutHeight: number | null; // First block an M6 could pay it out in at this rate, null if it won't get there
+  expiryHeight: number; // Block it is dropped in unless approved by then
+}
+
+/**
+ * Project a bundle's outcome from how its work score moved over recent blocks
+ * @param recent States of the last blocks, oldest first, ending with the current one
+ */
+export function getBundleProgress(
+  params: Bip300Params,
+  recent: Bip300State[],
+  bundleHash: string
+): BundleProgress | undefined {
+  const current = recent[recent.length - 1];
+  const bundle = current?.withdrawalBundles.find(b => b.bundleHash === bundleHash);
+  if (!bundle) {
+    return undefined;
+  }
+
+  const first = recent.find(state => state.withdrawalBundles.some(b => b.bundleHash === bundleHash))!;
+  const firstScore = first.withdrawalBundles.find(b => b.bundleHash === bundleHash)!.workScore;
+  const sampleBlocks = current.height - first.height;
+  const ackRate = sampleBlocks > 0 ? (bundle.workScore - firstScore) / sampleBlocks : 0;
+  const approved = bundle.workScore >= params.bundleWorkScoreThreshold;
+
+  let payoutHeight: number | null = null;
+  if (approved) {
+    payoutHeight = current.height + 1;
+  } else if (ackRate > 0) {
+    const blocks = Math.ceil((params.bundleWorkScoreThreshold - bundle.workScore) / ackRate);
+    if (blocks <= bundle.blocksRemaining) {
+      payoutHeight = current.height + blocks + 1;
+    }
+  }
+
+  return {
+    bundle,
+    height: current.height,
+    ackRate,
+    sampleBlocks,
+    approved,
+    payoutHeight,
+    expiryHeight: current.height + bundle.blocksRemaining,
+  };
+}
+
+/**
+ * Whether a sidechain proposal replaces an active sidechain, and so needs the used slot's ACKs
+ */
+export function isUsedSlotProposal(sidechains: SidechainInfo[], proposal: SidechainInfo): boolean {
+  return sidechains.some(sc => sc.isActive && sc.escrowNumber === proposal.escrowNumber);
+}
+
+/**
+ * D1: age proposals, count their ACKs (M2), activate or drop them, and add new ones (M1)
+ */
+function applySidechainMessages(
+  params: Bip300Params,
+  sidechains: SidechainInfo[],
+  messages: Bip300Message[]
+): SidechainInfo[] {
+  // At most one ACK per slot counts in each block
+  const acks = new Map<number, string>();
+  messages.forEach(message => {
+    if (message.type === 'M2' && !acks.has(message.sidechainNumber)) {
+      acks.set(message.sidechainNumber, message.proposalHash);
+    }
+  });
+
+  let next = sidechains.map(sidechain => {
+    if (sidechain.isActive || !sidechain.activationStatus) {
+      return sidechain;
+    }
+    const acked = acks.get(sidechain.escrowNumber) === sidechain.proposalHash;
+    return {
+      ...sidechain,
+      activationStatus: {
+        age: sidechain.activationStatus.age + 1,
+        fails: sidechain.activationStatus.fails + (acked ? 0 : 1),
+      },
+    };
+  });
+
+  next.filter(sc => !sc.isActive).forEach(proposal => {
+    const { age, fails } = proposal.activationStatus!;
+    const usedSlot = isUsedSlotProposal(next, proposal);
+    const maxAge = usedSlot ? params.usedSlotMaxAge : params.unusedSlotMaxAge;
+    const maxFails = usedSlot ? params.usedSlotMaxFails : params.unusedSlotMaxFails;
+
+    if (fails > maxFails) {
+      next = next.filter(sc => sc !== proposal);
+    } else if (age - fails >= maxAge - maxFails) {
+      // The new sidechain takes the slot over from the one it replaces, if any
+      const active: SidechainInfo = { ...proposal, isActive: true, activationStatus: undefined };
+      next = next
+        .filter(sc => sc.escrowNumber !== proposal.escrowNumber || (sc !== proposal && !sc.isActive))
+        .concat(active);
+    }
+  });
+
+  messages.forEach(message => {
+    if (message.type !== 'M1' || next.some(sc => sc.proposalHash === message.proposalHash)) {
+      return;
+    }
+    const { declaration } = message;
+    next = next.concat({
+      escrowNumber: message.sidechainNumber,
+      version: declaration?.version ?? 0,
+      name: declaration?.title || `Sidechain ${message.sidechainNumber}`,
+      description: declaration?.description ?? '',
+      tarballHash: declaration?.tarballHash ?? '',
+      gitCommitHash: declaration?.gitCommitHash ?? '',
+      isActive: false,
+      proposalHash: message.proposalHash,
+      activationStatus: { age: 0, fails: 0 },
+    });
+  });
+
+  return next.sort((a, b) => a.escrowNumber - b.escrowNumber || Number(b.isActive) - Number(a.isActive));
+}
+
+/**
+ * D2: count down the bundles' blocks remaining and apply the block's bundle votes (M4)
+ * A block without an M4 abstains on every sidechain. Bundles that reach the threshold stay
+ * until an M6 pays them out (see applyBlock); the rest are dropped when their time runs out.
+ */
+function applyBundleVotes(
+  params: Bip300Params,
+  state: Bip300State,
+  bundles: WithdrawalBundle[],
+  messages: Bip300Message[]
+): { bundles: WithdrawalBundle[]; votes: Record<number, string> } {
+  const active = state.sidechains.filter(sc => sc.isActive).map(sc => sc.escrowNumber);
+  const bundlesOf = (sidechainNumber: number) => bundles.filter(b => b.sidechainNumber === sidechainNumber);
+  const m4 = messages.find(message => message.type === 'M4');
+
+  // Resolve this block's votes to a bundle hash or an alarm per sidechain
+  const votes: Record<number, string> = {};
+  if (m4?.type === 'M4') {
+    const { votes: bundleVotes } = m4;
+    if (bundleVotes.type === 'repeat-previous') {
+      Object.assign(votes, state.lastVotes);
+    } else if (bundleVotes.type === 'votes') {
+      active.forEach((sidechainNumber, i) => {
+        const vote = bundleVotes.votes[i] ?? BUNDLE_VOTE_ABSTAIN;
+        if (vote === BUNDLE_VOTE_ALARM) {
+          votes[sidechainNumber] = ALARM;
+        } else if (vote !== BUNDLE_VOTE_ABSTAIN && bundlesOf(sidechainNumber)[vote]) {
+          votes[sidechainNumber] = bundlesOf(sidechainNumber)[vote].bundleHash;
+        }
+      });
+    } else {
+      active.forEach(sidechainNumber => {
+        const [leader, next] = [...bundlesOf(sidechainNumber)].sort((a, b) => b.workScore - a.workScore);
+        if (leader && leader.workScore - (next?.workScore ?? 0) >= LEADING_BY) {
+          votes[sidechainNumber] = leader.bundleHash;
+        }
+      });
+    }
+  }
+
+  const next = bundles
+    .map(bundle => {
+      const vote = votes[bundle.sidechainNumber];
+      let workScore = bundle.workScore;
+      if (vote === bundle.bundleHash) {
+        workScore += 1;
+      } else if (vote !== undefined) {
+        workScore = Math.max(0, workScore - 1);
+      }
+      return {
+        ...bundle,
+        workScore,
+        blocksRemaining: Math.max(0, bundle.blocksRemaining - 1),
+      };
+    })
+    .filter(bundle => bundle.blocksRemaining > 0 || bundle.workScore >= params.bundleWorkScoreThreshold);
+
+  // A vote for a bundle that is gone can't be repeated
+  Object.keys(votes).forEach(key => {
+    const sidechainNumber = Number(key);
+    if (votes[sidechainNumber] !== ALARM && !next.some(b => b.bundleHash === votes[sidechainNumber])) {
+      delete votes[sidechainNumber];
+    }
+  });
+
+  return { bundles: next, votes };
+}
+
+/**
+ * D2: add the bundles proposed in the block (M3), one per active sidechain
+ */
+function applyBundleProposals(
+  params: Bip300Params,
+  bundles: WithdrawalBundle[],
+  messages: Bip300Message[],
+  activeNumbers: Set<number>
+): WithdrawalBundle[] {
+  const proposed = new Set<number>();
+  let next = bundles;
+
+  messages.forEach(message => {
+    if (
+      message.type !== 'M3' ||
+      !activeNumbers.has(message.sidechainNumber) ||
+      proposed.has(message.sidechainNumber) ||
+      next.some(b => b.bundleHash === message.bundleHash)
+    ) {
+      return;
+    }
+    proposed.add(message.sidechainNumber);
+    next = next.concat({
+      sidechainNumber: message.sidechainNumber,
+      bundleHash: message.bundleHash,
+      workScore: 0,
+      blocksRemaining: params.bundleMaxAge,
+    });
+  });
+
+  return next;
+}
@@ -0,0 +1,469 @@
+import { AddressScriptType, BlockchainResponse, ScriptType, WalletUtxo } from '@/types/blockchain';
+import { formatAmount, Satoshis } from '@/utils/amount';
+import { DUST_THRESHOLD, estimateVsize, getInputVsize, InputSizing, OUTPUT_SCRIPT_LENGTH, outputVsize } from '@/utils/transaction';
+
+/**
+ * Available coin selection algorithms
+ */
+export type CoinSelectionAlgorithm = 'bnb' | 'knapsack' | 'largest-first' | 'srd';
+
+export const COIN_SELECTION_ALGORITHMS: CoinSelectionAlgorithm[] = ['bnb', 'knapsack', 'largest-first', 'srd'];
+
+/**
+ * Why a selection could not be made
+ */
+export type CoinSelectionFailure = 'insufficient-funds' | 'dust' | 'too-many-inputs';
+
+/**
+ * Default fee rate (sat/vB) we expect to pay in the long run; spending inputs
+ * now is cheaper than later when the current rate is below it
+ */
+export const DEFAULT_LONG_TERM_FEE_RATE = 10;
+
+/**
+ * Default limit on inputs, well inside the 400k weight standardness limit
+ */
+export const DEFAULT_MAX_INPUTS = 500;
+
+const BNB_MAX_TRIES = 100000;
+const KNAPSACK_ITERATIONS = 1000;
+
+/**
+ * An output the selected inputs must fund
+ */
+export interface SelectionOutput {
+  scriptLength: number;
+  value: Satoshis;
+  dustThreshold?: Satoshis; // Defaults to the P2WPKH dust limit
+}
+
+/**
+ * Inputs to coin selection
+ */
+export interface CoinSelectionParams {
+  utxos: WalletUtxo[];
+  outputs: SelectionOutput[];
+  changeScriptType: AddressScriptType;
+  changeMultisig?: InputSizing['multisig']; // Policy of multisig change, for the cost of spending it later
+  feeRate: number; // sat/vB
+  extraVsize?: number; // Size of inputs added outside coin selection, e.g. a sidechain CTIP
+  longTermFeeRate?: number; // sat/vB, used by the waste metric
+  minConfirmations?: number;
+  maxInputs?: number;
+  algorithms?: CoinSelectionAlgorithm[];
+}
+
+/**
+ * A funded selection of inputs
+ */
+export interface CoinSelection {
+  inputs: WalletUtxo[];
+  fee: Satoshis;
+  change: Satoshis; // 0 when the transaction has no change output
+  vsize: number;
+  algorithm?: CoinSelectionAlgorithm;
+  waste?: number;
+}
+
+/**
+ * Result of coin selection; `reason` tells the UI why a send can't be funded
+ */
+export interface CoinSelectionResult extends BlockchainResponse<CoinSelection> {
+  reason?: CoinSelectionFailure;
+}
+
+/**
+ * Sum of the values of the outputs being funded
+ */
+function getTarget(params: CoinSelectionParams): Satoshis {
+  return params.outputs.reduce((total, output) => total + output.value, 0);
+}
+
+/**
+ * Value of a UTXO after paying for its own input at the given fee rate
+ */
+function effectiveValue(utxo: WalletUtxo, feeRate: number): number {
+  return utxo.amount - getInputVsize(utxo) * feeRate;
+}
+
+/**
+ * Finish a selection: decide whether a change output is worth adding and compute the fee
+ * Returns null if the inputs don't cover the outputs and fee.
+ * @param allowChange Set to false to force a changeless transaction
+ */
+export function finalizeSelection(
+  inputs: WalletUtxo[],
+  params: CoinSelectionParams,
+  allowChange = true
+): CoinSelection | null {
+  const target = getTarget(params);
+  const outputScriptLengths = params.outputs.map(output => output.scriptLength);
+  const inputTotal = inputs.reduce((total, utxo) => total + utxo.amount, 0);
+  const extraVsize = params.extraVsize ?? 0;
+
+  if (allowChange) {
+    const vsizeWithChange = estimateVsize(inputs, [
+      ...outputScriptLengths,
+      OUTPUT_SCRIPT_LENGTH[params.changeScriptType],
+    ]) + extraVsize;
+    const feeWithChange = Math.ceil(vsizeWithChange * params.feeRate);
+    const change = inputTotal - target - feeWithChange;
+
+    if (change >= DUST_THRESHOLD[params.changeScriptType]) {
+      return { inputs, fee: feeWithChange, change, vsize: vsizeWithChange };
+    }
+  }
+
+  // Without change, anything left over goes to the miner
+  const vsize = estimateVsize(inputs, outputScriptLengths) + extraVsize;
+  const minimumFee = Math.ceil(vsize * params.feeRate);
+  if (inputTotal - target < minimumFee) {
+    return null;
+  }
+
+  return { inputs, fee: inputTotal - target, change: 0, vsize };
+}
+
+/**
+ * Waste of a selection (Bitcoin Core's metric)
+ * The fee paid for inputs now versus at the long-term rate, plus either the
+ * cost of creating and later spending the change output or the excess given
+ * to the miner by a changeless transaction.
+ */
+export function getWaste(selection: CoinSelection, params: CoinSelectionParams): number {
+  const longTermFeeRate = params.longTermFeeRate ?? DEFAULT_LONG_TERM_FEE_RATE;
+
+  const inputWaste = selection.inputs.reduce(
+    (total, utxo) => total + getInputVsize(utxo) * (params.feeRate - longTermFeeRate),
+    0
+  );
+
+  if (selection.change > 0) {
+    return inputWaste + getCostOfChange(params);
+  }
+
+  const vsize = estimateVsize(selection.inputs, params.outputs.map(o => o.scriptLength)) +
+    (params.extraVsize ?? 0);
+  const minimumFee = Math.ceil(vsize * params.feeRate);
+  return inputWaste + (selection.fee - minimumFee);
+}
+
+/**
+ * Cost of adding a change output now and spending it later
+ */
+function getCostOfChange(params: CoinSelectionParams): number {
+  const longTermFeeRate = params.longTermFeeRate ?? DEFAULT_LONG_TERM_FEE_RATE;
+  return outputVsize(OUTPUT_SCRIPT_LENGTH[params.changeScriptType]) * params.feeRate +
+    getInputVsize({ scriptType: params.changeScriptType, multisig: params.changeMultisig }) * longTermFeeRate;
+}
+
+/**
+ * Fee for everything except the selected inputs (overhead, segwit marker, outputs and extra inputs)
+ */
+function getNonInputFee(params: CoinSelectionParams): number {
+  const p2wpkhInput = { scriptType: ScriptType.P2WPKH };
+  const vsize = estimateVsize([p2wpkhInput], params.outputs.map(o => o.scriptLength)) -
+    getInputVsize(p2wpkhInput) + (params.extraVsize ?? 0);
+  return vsize * params.feeRate;
+}
+
+/**
+ * Largest-first selection: add the biggest UTXOs until the outputs and fee are covered
+ */
+export function selectLargestFirst(utxos: WalletUtxo[], params: CoinSelectionParams): CoinSelection | null {
+  const sorted = [...utxos].sort((a, b) => b.amount - a.amount);
+  const inputs: WalletUtxo[] = [];
+
+  for (const utxo of sorted) {
+    inputs.push(utxo);
+    const selection = finalizeSelection(inputs, params);
+    if (selection) {
+      return selection;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Branch-and-bound selection: depth-first search for an input set whose
+ * effective value lands between the target and the target plus the cost of
+ * change, so no change output is needed
+ */
+export function selectBranchAndBound(utxos: WalletUtxo[], params: CoinSelectionParams): CoinSelection | null {
+  const pool = utxos
+    .map(utxo => ({ utxo, value: effectiveValue(utxo, params.feeRate) }))
+    .filter(candidate => candidate.value > 0)
+    .sort((a, b) => b.value - a.value);
+
+  const target = getTarget(params) + getNonInputFee(params);
+  const upperBound = target + getCostOfChange(params);
+
+  let remaining = pool.reduce((total, candidate) => total + candidate.value, 0);
+  if (remaining < target) {
+    return null;
+  }
+
+  const selected: boolean[] = [];
+  let selectedValue = 0;
+  let best: boolean[] | null = null;
+  let bestExcess = Infinity;
+
+  for (let tries = 0, depth = 0; tries < BNB_MAX_TRIES; tries++) {
+    let backtrack = false;
+    if (selectedValue + remaining < target || selectedValue > upperBound) {
+      backtrack = true;
+    } else if (selectedValue >= target) {
+      if (selectedValue - target < bestExcess) {
+        bestExcess = selectedValue - target;
+        best = selected.slice(0, depth);
+      }
+      backtrack = true;
+    }
+
+    if (backtrack) {
+      // Walk back to the last included UTXO and try excluding it instead
+      while (depth > 0 && !selected[depth - 1]) {
+        depth--;
+        remaining += pool[depth].value;
+      }
+      if (depth === 0) break;
+
+      selected[depth - 1] = false;
+      selectedValue -= pool[depth - 1].value;
+    } else {
+      // Include the next UTXO (the bounds above always backtrack once the pool is exhausted)
+      remaining -= pool[depth].value;
+      selected[depth] = true;
+      selectedValue += pool[depth].value;
+      depth++;
+    }
+  }
+
+  if (!best) {
+    return null;
+  }
+
+  const inputs = pool.filter((_, i) => best![i]).map(candidate => candidate.utxo);
+  return finalizeSelection(inputs, params, false);
+}
+
+/**
+ * Knapsack selection: repeated randomized passes looking for the smallest
+ * input total that still covers the target plus a non-dust change output
+ */
+export function selectKnapsack(
+  utxos: WalletUtxo[],
+  params: CoinSelectionParams,
+  random: () => number = Math.random
+): CoinSelection | null {
+  const pool = utxos
+    .map(utxo => ({ utxo, value: effectiveValue(utxo, params.feeRate) }))
+    .filter(candidate => candidate.value > 0);
+
+  const changeOutputFee = outputVsize(OUTPUT_SCRIPT_LENGTH[params.changeScriptType]) * params.feeRate;
+  const target = getTarget(params) + getNonInputFee(params) + changeOutputFee +
+    DUST_THRESHOLD[params.changeScriptType];
+
+  let best: boolean[] | null = null;
+  let bestValue = Infinity;
+
+  for (let iteration = 0; iteration < KNAPSACK_ITERATIONS && bestValue !== target; iteration++) {
+    const included = pool.map(() => false);
+    let total = 0;
+    let reachedTarget = false;
+
+    // Two passes: the first includes coins at random, the second fills in whatever is still missing
+    for (let pass = 0; pass < 2 && !reachedTarget; pass++) {
+      for (let i = 0; i < pool.length; i++) {
+        if (pass === 0 ? random() < 0.5 : !included[i]) {
+          total += pool[i].value;
+          included[i] = true;
+
+          if (total >= target) {
+            reachedTarget = true;
+            if (total < bestValue) {
+              bestValue = total;
+              best = [...included];
+            }
+            total -= pool[i].value;
+            included[i] = false;
+          }
+        }
+      }
+    }
+  }
+
+  if (!best) {
+    return null;
+  }
+
+  const inputs = pool.filter((_, i) => best![i]).map(candidate => candidate.utxo);
+  return finalizeSelection(inputs, params);
+}
+
+/**
+ * Single random draw: add UTXOs in random order until the outputs, fee and a change output are covered
+ */
+export function selectSingleRandomDraw(
+  utxos: WalletUtxo[],
+  params: CoinSelectionParams,
+  random: () => number = Math.random
+): CoinSelection | null {
+  const shuffled = [...utxos];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+
+  const inputs: WalletUtxo[] = [];
+  for (const utxo of shuffled) {
+    inputs.push(utxo);
+    const selection = finalizeSelection(inputs, params);
+    if (selection && selection.change > 0) {
+      return selection;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Fail with a 'dust' result if any output is below its dust limit
+ */
+function checkDustOutputs(params: CoinSelectionParams): CoinSelectionResult | null {
+  const dustOutput = params.outputs.find(
+    output => output.value < (output.dustThreshold ?? DUST_THRESHOLD[ScriptType.P2WPKH])
+  );
+  if (!dustOutput) {
+    return null;
+  }
+
+  return {
+    success: false,
+    reason: 'dust',
+    error: `Output of ${formatAmount(dustOutput.value, 'sats')} is below the dust limit`,
+  };
+}
+
+/**
+ * Manual coin control: spend exactly the given UTXOs, adding change if worthwhile
+ * Confirmation thresholds are not applied; frozen UTXOs are still refused.
+ */
+export function selectManual(params: CoinSelectionParams): CoinSelectionResult {
+  const dustCheck = checkDustOutputs(params);
+  if (dustCheck) {
+    return dustCheck;
+  }
+
+  const frozen = params.utxos.find(utxo => utxo.frozen);
+  if (frozen) {
+    return {
+      success: false,
+      error: `Output ${frozen.txid}:${frozen.vout} is frozen; unfreeze it before spending`,
+    };
+  }
+
+  const maxInputs = params.maxInputs ?? DEFAULT_MAX_INPUTS;
+  if (params.utxos.length > maxInputs) {
+    return {
+      success: false,
+      reason: 'too-many-inputs',
+      error: `Transactions can spend at most ${maxInputs} inputs`,
+    };
+  }
+
+  const selection = finalizeSelection(params.utxos, params);
+  if (!selection) {
+    const available = params.utxos.reduce((total, utxo) => total + utxo.amount, 0);
+    return {
+      success: false,
+      reason: 'insufficient-funds',
+      error: `Insufficient funds: the selected outputs hold ${formatAmount(available)}, ` +
+        `${formatAmount(getTarget(params))} plus fees needed`,
+    };
+  }
+
+  return {
+    success: true,
+    data: selection,
+  };
+}
+
+/**
+ * Select coins to fund the outputs
+ * Every enabled algorithm is run on the eligible UTXOs and the selection with
+ * the lowest waste wins (ties go to fewer inputs).
+ */
+export function selectCoins(params: CoinSelectionParams): CoinSelectionResult {
+  const minConfirmations = params.minConfirmations ?? 1;
+  const maxInputs = params.maxInputs ?? DEFAULT_MAX_INPUTS;
+  const target = getTarget(params);
+
+  const dustCheck = checkDustOutputs(params);
+  if (dustCheck) {
+    return dustCheck;
+  }
+
+  const eligible = params.utxos.filter(
+    utxo => utxo.spendable && !utxo.frozen && utxo.confirmations >= minConfirmations
+  );
+
+  const algorithms: Record<CoinSelectionAlgorithm, (utxos: WalletUtxo[]) => CoinSelection | null> = {
+    'bnb': utxos => selectBranchAndBound(utxos, params),
+    'knapsack': utxos => selectKnapsack(utxos, params),
+    'largest-first': utxos => selectLargestFirst(utxos, params),
+    'srd': utxos => selectSingleRandomDraw(utxos, params),
+  };
+
+  let best: CoinSelection | null = null;
+  let tooManyInputs = false;
+
+  for (const algorithm of params.algorithms ?? COIN_SELECTION_ALGORITHMS) {
+    const selection = algorithms[algorithm](eligible);
+    if (!selection) continue;
+
+    if (selection.inputs.length > maxInputs) {
+      tooManyInputs = true;
+      continue;
+    }
+
+    selection.algorithm = algorithm;
+    selection.waste = getWaste(selection, params);
+
+    if (
+      !best ||
+      selection.waste < best.waste! ||
+      (selection.waste === best.waste && selection.inputs.length < best.inputs.length)
+    ) {
+      best = selection;
+    }
+  }
+
+  if (best) {
+    return {
+      success: true,
+      data: best,
+    };
+  }
+
+  if (tooManyInputs) {
+    return {
+      success: false,
+      reason: 'too-many-inputs',
+      error: `Funding this transaction needs more than ${maxInputs} inputs; consolidate your UTXOs first`,
+    };
+  }
+
+  const available = eligible.reduce((total, utxo) => total + utxo.amount, 0);
+  const excluded = params.utxos
+    .filter(utxo => !eligible.includes(utxo))
+    .reduce((total, utxo) => total + utxo.amount, 0);
+
+  return {
+    success: false,
+    reason: 'insufficient-funds',
+    error: `Insufficient funds: ${formatAmount(target)} plus fees needed, ${formatAmount(available)} available` +
+      (excluded > 0 ? ` (${formatAmount(excluded)} more is unconfirmed or not spendable)` : ''),
+  };
+}
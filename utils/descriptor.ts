@@ -0,0 +1,508 @@
+import { BitcoinNetwork, HDAccount, MultisigCosigner, MultisigScriptType, MultisigWalletInfo, ScriptType } from '@/types/blockchain';
+import { bip32, getNetworkParams, parseExtendedPublicKey, SUPPORTED_SCRIPT_TYPES } from '@/utils/hd';
+import { MAX_MULTISIG_KEYS, NUMS_INTERNAL_KEY } from '@/utils/multisig';
+
+/**
+ * Output descriptors (BIP380-387)
+ */
+
+const INPUT_CHARSET = '0123456789()[],\'/*abcdefgh@:$%{}IJKLMNOPQRSTUVWXYZ&+-.;<=>?!^_|~ijklmnopqrstuvwxyzABCDEFGH`#"\\ ';
+const CHECKSUM_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const POLYMOD_GENERATORS = [
+  BigInt('0xf5dee51989'),
+  BigInt('0xa9fdca3312'),
+  BigInt('0x1bab10e32d'),
+  BigInt('0x3706b1677a'),
+  BigInt('0x644d626ffd'),
+];
+
+/**
+ * Descriptor functions of single-key scripts, outermost first
+ */
+const SINGLE_KEY_FUNCTIONS: Record<ScriptType, string[]> = {
+  [ScriptType.P2PKH]: ['pkh'],
+  [ScriptType.P2SH_P2WPKH]: ['sh', 'wpkh'],
+  [ScriptType.P2WPKH]: ['wpkh'],
+  [ScriptType.P2TR]: ['tr'],
+};
+
+/**
+ * Script functions wrapping multi()/sortedmulti(), outermost first
+ * Taproot uses multi_a()/sortedmulti_a() as the only leaf of tr() instead.
+ */
+const MULTISIG_WRAPPERS: Record<Exclude<MultisigScriptType, MultisigScriptType.P2TR>, string[]> = {
+  [MultisigScriptType.P2SH]: ['sh'],
+  [MultisigScriptType.P2SH_P2WSH]: ['sh', 'wsh'],
+  [MultisigScriptType.P2WSH]: ['wsh'],
+};
+
+/**
+ * A key expression: an extended public key with optional origin and the
+ * chains derived below it
+ */
+export interface DescriptorKey {
+  fingerprint?: string; // Master key fingerprint from the key origin
+  originPath?: string; // Path from the master key, e.g. m/84'/1'/0'
+  xpub: string;
+  chains: number[]; // e.g. [0, 1] for /<0;1>/*, [0] for /0/*
+}
+
+/**
+ * Threshold and script of a multi()/sortedmulti() descriptor
+ */
+export interface MultisigPolicy {
+  threshold: number;
+  sorted: boolean; // sortedmulti()/sortedmulti_a() sort keys per address (BIP67); multi() keeps their order
+  scriptType: MultisigScriptType;
+}
+
+/**
+ * A parsed descriptor: a single key with its script type, or a multisig policy over several keys
+ */
+export interface Descriptor {
+  keys: DescriptorKey[];
+  scriptType?: ScriptType; // Single-key descriptors
+  multisig?: MultisigPolicy; // multi()/sortedmulti() descriptors
+}
+
+/**
+ * Compute the 8-character checksum of a descriptor (without its #checksum)
+ */
+export function getDescriptorChecksum(descriptor: string): string {
+  let c = BigInt(1);
+  let cls = 0;
+  let clsCount = 0;
+
+  for (const char of descriptor) {
+    const pos = INPUT_CHARSET.indexOf(char);
+    if (pos < 0) {
+      throw new Error(`Invalid character "${char}" in descriptor`);
+    }
+    c = polymod(c, pos & 31);
+    cls = cls * 3 + (pos >> 5);
+    if (++clsCount === 3) {
+      c = polymod(c, cls);
+      cls = 0;
+      clsCount = 0;
+    }
+  }
+  if (clsCount > 0) {
+    c = polymod(c, cls);
+  }
+  for (let i = 0; i < 8; i++) {
+    c = polymod(c, 0);
+  }
+  c ^= BigInt(1);
+
+  let checksum = '';
+  for (let i = 0; i < 8; i++) {
+    checksum += CHECKSUM_CHARSET[Number((c >> BigInt(5 * (7 - i))) & BigInt(31))];
+  }
+  return checksum;
+}
+
+/**
+ * Append the checksum to a descriptor
+ */
+export function addDescriptorChecksum(descriptor: string): string {
+  return `${descriptor}#${getDescriptorChecksum(descriptor)}`;
+}
+
+/**
+ * Strip and verify a descriptor's checksum, if it has one
+ */
+export function stripDescriptorChecksum(descriptor: string): string {
+  const [body, checksum, ...rest] = descriptor.trim().split('#');
+  if (rest.length > 0) {
+    throw new Error('Descriptor has more than one checksum');
+  }
+  if (checksum !== undefined && checksum !== getDescriptorChecksum(body)) {
+    throw new Error('Descriptor checksum does not match');
+  }
+  return body;
+}
+
+/**
+ * Parse a descriptor over extended public keys:
+ * pkh(), sh(wpkh()), wpkh(), tr(), multi()/sortedmulti() inside sh(), wsh() or sh(wsh()),
+ * and tr() of the unspendable NUMS key with a multi_a()/sortedmulti_a() leaf
+ */
+export function parseDescriptor(descriptor: string, network: BitcoinNetwork): Descriptor {
+  const body = stripDescriptorChecksum(descriptor);
+
+  // Unwrap script functions down to the one holding keys
+  const functions: string[] = [];
+  let expression = body;
+  let args: string[] = [];
+  for (;;) {
+    const call = splitCall(expression);
+    if (!call) {
+      throw new Error(`Expected a script function, found "${expression}"`);
+    }
+    functions.push(call.name);
+    args = call.args;
+    if (call.name !== 'sh' && call.name !== 'wsh') {
+      break;
+    }
+    if (args.length !== 1) {
+      throw new Error(`${call.name}() takes one script`);
+    }
+    expression = args[0];
+  }
+
+  const name = functions[functions.length - 1];
+  const wrappers = functions.slice(0, -1).join('/');
+
+  if (name === 'multi' || name === 'sortedmulti') {
+    const scriptType = (Object.keys(MULTISIG_WRAPPERS) as (keyof typeof MULTISIG_WRAPPERS)[])
+      .find(type => MULTISIG_WRAPPERS[type].join('/') === wrappers);
+    if (!scriptType) {
+      throw new Error(`${name}() must be inside sh(), wsh() or sh(wsh())`);
+    }
+    return parseMultisig(args, name === 'sortedmulti', scriptType, network);
+  }
+
+  if (name === 'tr' && args.length === 2 && functions.length === 1) {
+    const leaf = splitCall(args[1]);
+    if (args[0].toLowerCase() !== NUMS_INTERNAL_KEY.toString('hex')) {
+      throw new Error('Only tr() descriptors with the unspendable NUMS internal key are supported for multisig');
+    }
+    if (!leaf || (leaf.name !== 'multi_a' && leaf.name !== 'sortedmulti_a')) {
+      throw new Error('The script of a tr() multisig descriptor must be multi_a() or sortedmulti_a()');
+    }
+    return parseMultisig(leaf.args, leaf.name === 'sortedmulti_a', MultisigScriptType.P2TR, network);
+  }
+
+  const scriptType = (Object.keys(SINGLE_KEY_FUNCTIONS) as ScriptType[])
+    .find(type => SINGLE_KEY_FUNCTIONS[type].join('/') === functions.join('/'));
+  if (!scriptType) {
+    throw new Error(`Unsupported descriptor ${wrapFunctions(functions.slice(0, -1), `${name}()`)}`);
+  }
+  if (args.length !== 1) {
+    // tr() with a script tree, or a key list where one key is expected
+    throw new Error(`${name}() descriptors with more than one key are not supported`);
+  }
+
+  return { keys: [parseKeyExpression(args[0], network)], scriptType };
+}
+
+/**
+ * Parse one or more descriptors: one per line, or Bitcoin Core's listdescriptors JSON
+ */
+export function parseDescriptors(text: string, network: BitcoinNetwork): Descriptor[] {
+  const trimmed = text.trim();
+  let descriptors: string[];
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    const json = JSON.parse(trimmed);
+    const entries: unknown[] = Array.isArray(json) ? json : json.descriptors ?? [];
+    descriptors = entries.map(entry =>
+      typeof entry === 'string' ? entry : (entry as { desc?: string }).desc ?? ''
+    );
+  } else {
+    descriptors = trimmed.split(/\s+/);
+  }
+
+  descriptors = descriptors.filter(descriptor => descriptor.length > 0);
+  if (descriptors.length === 0) {
+    throw new Error('No descriptors found');
+  }
+
+  return descriptors.map(descriptor => parseDescriptor(descriptor, network));
+}
+
+/**
+ * Parse a key expression such as [d34db33f/84h/1h/0h]tpub.../<0;1>/*
+ */
+export function parseKeyExpression(expression: string, network: BitcoinNetwork): DescriptorKey {
+  const originMatch = expression.match(/^\[([0-9a-fA-F]{8})((?:\/\d+['hH]?)*)\](.*)$/);
+  const fingerprint = originMatch?.[1].toLowerCase();
+  const originPath = originMatch ? `m${originMatch[2].replace(/[hH]/g, '\'')}` : undefined;
+  const rest = originMatch ? originMatch[3] : expression;
+
+  const [key, ...steps] = rest.split('/');
+  if (!/^[a-km-zA-HJ-NP-Z1-9]{100,112}$/.test(key)) {
+    throw new Error('Only extended public keys are supported in descriptors');
+  }
+  const { xpub } = parseExtendedPublicKey(key, network);
+
+  let chains: number[];
+  if (steps.length === 0) {
+    // A bare account key; receive and change chains are implied
+    chains = [0, 1];
+  } else if (steps.length === 2 && steps[1] === '*') {
+    const multipath = steps[0].match(/^<(\d+);(\d+)>$/);
+    if (multipath) {
+      chains = [Number(multipath[1]), Number(multipath[2])];
+    } else if (/^\d+$/.test(steps[0])) {
+      chains = [Number(steps[0])];
+    } else {
+      throw new Error(`Unsupported derivation "/${steps.join('/')}"`);
+    }
+  } else {
+    throw new Error(`Unsupported derivation "/${steps.join('/')}"; expected /0/* or /<0;1>/*`);
+  }
+
+  return { fingerprint, originPath, xpub, chains };
+}
+
+/**
+ * Format a descriptor with its checksum
+ * @param chain Derive only this chain (e.g. 0 for receive, 1 for change); defaults to the
+ * keys' own chains, written as a BIP389 multipath if there are two
+ */
+export function formatDescriptor(descriptor: Descriptor, chain?: number): string {
+  const keys = descriptor.keys.map(key => formatKeyExpression(key, chain));
+
+  let body: string;
+  if (descriptor.multisig) {
+    const { threshold, sorted, scriptType } = descriptor.multisig;
+    if (scriptType === MultisigScriptType.P2TR) {
+      const leaf = `${sorted ? 'sortedmulti_a' : 'multi_a'}(${threshold},${keys.join(',')})`;
+      body = `tr(${NUMS_INTERNAL_KEY.toString('hex')},${leaf})`;
+    } else {
+      body = wrapFunctions(MULTISIG_WRAPPERS[scriptType], `${sorted ? 'sortedmulti' : 'multi'}(${threshold},${keys.join(',')})`);
+    }
+  } else if (descriptor.scriptType) {
+    const functions = SINGLE_KEY_FUNCTIONS[descriptor.scriptType];
+    body = wrapFunctions(functions.slice(0, -1), `${functions[functions.length - 1]}(${keys[0]})`);
+  } else {
+    throw new Error('Descriptor has neither a script type nor a multisig policy');
+  }
+
+  return addDescriptorChecksum(body);
+}
+
+/**
+ * Format a key expression with its origin
+ */
+export function formatKeyExpression(key: DescriptorKey, chain?: number): string {
+  const origin = key.fingerprint
+    ? `[${key.fingerprint}${(key.originPath ?? 'm').replace(/^m/, '')}]`
+    : '';
+  const chains = chain !== undefined ? [chain] : key.chains;
+  const derivation = chains.length === 1 ? `${chains[0]}` : `<${chains.join(';')}>`;
+  return `${origin}${key.xpub}/${derivation}/*`;
+}
+
+/**
+ * The receive and change descriptors of an HD account
+ */
+export function getAccountDescriptors(account: HDAccount): { receive: string; change: string } {
+  const descriptor: Descriptor = {
+    keys: [{
+      fingerprint: account.masterFingerprint,
+      originPath: account.path,
+      xpub: account.xpub,
+      chains: [0, 1],
+    }],
+    scriptType: account.scriptType,
+  };
+
+  return {
+    receive: formatDescriptor(descriptor, 0),
+    change: formatDescriptor(descriptor, 1),
+  };
+}
+
+/**
+ * The receive and change descriptors of a multisig vault
+ */
+export function getMultisigDescriptors(info: MultisigWalletInfo): { receive: string; change: string } {
+  const descriptor: Descriptor = {
+    keys: info.cosigners.map(cosigner => ({
+      fingerprint: cosigner.fingerprint,
+      originPath: cosigner.path,
+      xpub: cosigner.xpub,
+      chains: [0, 1],
+    })),
+    multisig: { threshold: info.threshold, sorted: true, scriptType: info.scriptType },
+  };
+
+  return {
+    receive: formatDescriptor(descriptor, 0),
+    change: formatDescriptor(descriptor, 1),
+  };
+}
+
+/**
+ * Turn a descriptor key into an account the wallet can derive addresses from
+ * Keys without an origin are treated as their own root (BIP380).
+ */
+export function descriptorKeyToAccount(
+  key: DescriptorKey,
+  scriptType: ScriptType,
+  network: BitcoinNetwork
+): HDAccount {
+  if (key.chains[0] !== 0 || (key.chains.length > 1 && key.chains[1] !== 1)) {
+    throw new Error('Only the standard receive (0) and change (1) chains are supported');
+  }
+
+  return {
+    scriptType,
+    path: key.originPath ?? 'm',
+    masterFingerprint: key.fingerprint
+      ?? bip32.fromBase58(key.xpub, getNetworkParams(network)).fingerprint.toString('hex'),
+    xpub: key.xpub,
+    nextReceiveIndex: 0,
+    nextChangeIndex: 0,
+  };
+}
+
+/**
+ * Turn single-key descriptors into wallet accounts, one per script type
+ * Separate receive (/0/*) and change (/1/*) descriptors of the same key are merged.
+ */
+export function descriptorsToAccounts(descriptors: Descriptor[], network: BitcoinNetwork): HDAccount[] {
+  const keys: Partial<Record<ScriptType, DescriptorKey>> = {};
+
+  for (const descriptor of descriptors) {
+    if (descriptor.multisig || !descriptor.scriptType) {
+      throw new Error('Multisig descriptors cannot be imported as a single-signature wallet; import them as a vault');
+    }
+
+    const key = descriptor.keys[0];
+    const existing = keys[descriptor.scriptType];
+    if (!existing) {
+      keys[descriptor.scriptType] = { ...key, chains: [...key.chains] };
+    } else if (existing.xpub !== key.xpub) {
+      throw new Error(`Descriptors contain two different ${descriptor.scriptType} keys`);
+    } else {
+      existing.chains = Array.from(new Set([...existing.chains, ...key.chains])).sort((a, b) => a - b);
+    }
+  }
+
+  return SUPPORTED_SCRIPT_TYPES
+    .filter(scriptType => keys[scriptType])
+    .map(scriptType => descriptorKeyToAccount(keys[scriptType]!, scriptType, network));
+}
+
+/**
+ * Turn sortedmulti descriptors into a multisig vault policy
+ * Separate receive and change descriptors of the same policy are merged.
+ */
+export function descriptorsToMultisig(
+  descriptors: Descriptor[],
+  network: BitcoinNetwork
+): Pick<MultisigWalletInfo, 'threshold' | 'scriptType' | 'cosigners'> {
+  const [first] = descriptors;
+  if (descriptors.some(descriptor => !descriptor.multisig)) {
+    throw new Error('Expected multisig descriptors');
+  }
+
+  const policy = first.multisig!;
+  if (!policy.sorted) {
+    throw new Error('Only sortedmulti() vaults are supported; multi() fixes the key order per address');
+  }
+  const sameKeys = (descriptor: Descriptor) =>
+    descriptor.keys.map(key => key.xpub).join() === first.keys.map(key => key.xpub).join();
+  if (descriptors.some(descriptor =>
+    descriptor.multisig!.threshold !== policy.threshold ||
+    descriptor.multisig!.scriptType !== policy.scriptType ||
+    descriptor.multisig!.sorted !== policy.sorted ||
+    !sameKeys(descriptor)
+  )) {
+    throw new Error('Descriptors describe more than one multisig policy');
+  }
+
+  const chains = new Set(descriptors.flatMap(descriptor => descriptor.keys[0].chains));
+  if (!chains.has(0) || Array.from(chains).some(chain => chain > 1)) {
+    throw new Error('Only the standard receive (0) and change (1) chains are supported');
+  }
+
+  const cosigners = first.keys.map(key => descriptorKeyToCosigner(key, network));
+
+  return { threshold: policy.threshold, scriptType: policy.scriptType, cosigners };
+}
+
+/**
+ * Turn a descriptor key, e.g. [fingerprint/48h/1h/0h/2h]tpub..., into a vault co-signer
+ * Keys without an origin are treated as their own root (BIP380).
+ */
+export function descriptorKeyToCosigner(key: DescriptorKey, network: BitcoinNetwork): MultisigCosigner {
+  return {
+    fingerprint: key.fingerprint
+      ?? bip32.fromBase58(key.xpub, getNetworkParams(network)).fingerprint.toString('hex'),
+    path: key.originPath ?? 'm',
+    xpub: key.xpub,
+  };
+}
+
+/**
+ * Parse the threshold and keys of a multisig script function
+ */
+function parseMultisig(
+  args: string[],
+  sorted: boolean,
+  scriptType: MultisigScriptType,
+  network: BitcoinNetwork
+): Descriptor {
+  const [thresholdArg, ...keyArgs] = args;
+  const threshold = Number(thresholdArg);
+  if (!/^\d+$/.test(thresholdArg) || threshold < 1 || threshold > keyArgs.length) {
+    throw new Error(`Invalid multisig threshold ${thresholdArg} of ${keyArgs.length}`);
+  }
+  if (keyArgs.length > MAX_MULTISIG_KEYS[scriptType]) {
+    throw new Error(`${scriptType} multisig allows at most ${MAX_MULTISIG_KEYS[scriptType]} keys`);
+  }
+
+  const keys = keyArgs.map(arg => parseKeyExpression(arg, network));
+  if (keys.some(key => key.chains.join(';') !== keys[0].chains.join(';'))) {
+    throw new Error('All multisig keys must derive the same chains');
+  }
+  if (new Set(keys.map(key => key.xpub)).size !== keys.length) {
+    throw new Error('Multisig keys must be distinct');
+  }
+
+  return { keys, multisig: { threshold, sorted, scriptType } };
+}
+
+/**
+ * Split "name(arg,arg,...)" into its name and top-level arguments
+ */
+function splitCall(expression: string): { name: string; args: string[] } | null {
+  const match = expression.match(/^([a-z_]+)\((.*)\)$/);
+  if (!match) {
+    return null;
+  }
+
+  const args: string[] = [];
+  let depth = 0;
+  let start = 0;
+  const inner = match[2];
+  for (let i = 0; i < inner.length; i++) {
+    const char = inner[i];
+    if (char === '(' || char === '[' || char === '{' || char === '<') {
+      depth++;
+    } else if (char === ')' || char === ']' || char === '}' || char === '>') {
+      depth--;
+      if (depth < 0) {
+        return null;
+      }
+    } else if (char === ',' && depth === 0) {
+      args.push(inner.slice(start, i));
+      start = i + 1;
+    }
+  }
+  if (depth !== 0) {
+    return null;
+  }
+  args.push(inner.slice(start));
+
+  return { name: match[1], args };
+}
+
+function wrapFunctions(functions: string[], inner: string): string {
+  return functions.reduceRight((wrapped, name) => `${name}(${wrapped})`, inner);
+}
+
+function polymod(c: bigint, value: number): bigint {
+  const c0 = c >> BigInt(35);
+  c = ((c & BigInt('0x7ffffffff')) << BigInt(5)) ^ BigInt(value);
+  POLYMOD_GENERATORS.forEach((generator, i) => {
+    if ((c0 >> BigInt(i)) & BigInt(1)) {
+      c ^= generator;
+    }
+  });
+  return c;
+}
@@ -0,0 +1,291 @@
+import { BIP32Factory, BIP32Interface } from 'bip32';
+import * as ecc from '@bitcoinerlab/secp256k1';
+import { crypto, initEccLib, networks, payments, Network } from 'bitcoinjs-lib';
+import { BitcoinNetwork, HDAccount, MultisigScriptType, ScriptType, WalletAddress } from '@/types/blockchain';
+
+initEccLib(ecc);
+
+export const bip32 = BIP32Factory(ecc);
+
+/**
+ * BIP43 purpose used for each script type
+ */
+export const SCRIPT_TYPE_PURPOSE: Record<ScriptType, number> = {
+  [ScriptType.P2PKH]: 44,
+  [ScriptType.P2SH_P2WPKH]: 49,
+  [ScriptType.P2WPKH]: 84,
+  [ScriptType.P2TR]: 86,
+};
+
+/**
+ * Script types the wallet derives accounts for, in order of preference
+ */
+export const SUPPORTED_SCRIPT_TYPES: ScriptType[] = [
+  ScriptType.P2WPKH,
+  ScriptType.P2TR,
+  ScriptType.P2SH_P2WPKH,
+  ScriptType.P2PKH,
+];
+
+/**
+ * SLIP-132 version bytes of extended public keys
+ * xpub/tpub don't say which script type they're for.
+ */
+const EXTENDED_PUBLIC_KEY_VERSIONS: Record<string, {
+  mainnet: boolean;
+  scriptType?: ScriptType;
+  multisigScriptType?: MultisigScriptType;
+}> = {
+  '0488b21e': { mainnet: true }, // xpub
+  '049d7cb2': { mainnet: true, scriptType: ScriptType.P2SH_P2WPKH }, // ypub
+  '04b24746': { mainnet: true, scriptType: ScriptType.P2WPKH }, // zpub
+  '0295b43f': { mainnet: true, multisigScriptType: MultisigScriptType.P2SH_P2WSH }, // Ypub
+  '02aa7ed3': { mainnet: true, multisigScriptType: MultisigScriptType.P2WSH }, // Zpub
+  '043587cf': { mainnet: false }, // tpub
+  '044a5262': { mainnet: false, scriptType: ScriptType.P2SH_P2WPKH }, // upub
+  '045f1cf6': { mainnet: false, scriptType: ScriptType.P2WPKH }, // vpub
+  '024289ef': { mainnet: false, multisigScriptType: MultisigScriptType.P2SH_P2WSH }, // Upub
+  '02575483': { mainnet: false, multisigScriptType: MultisigScriptType.P2WSH }, // Vpub
+};
+
+const EXTENDED_PRIVATE_KEY_VERSIONS = ['0488ade4', '049d7878', '04b2430c', '04358394', '044a4e28', '045f18bc'];
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+// Parsed chain nodes keyed by xpub and chain, so address scans don't re-parse the xpub
+const chainNodeCache = new Map<string, BIP32Interface>();
+
+/**
+ * Get the bitcoinjs network parameters for a network
+ */
+export function getNetworkParams(network: BitcoinNetwork): Network {
+  switch (network) {
+    case BitcoinNetwork.MAINNET:
+      return networks.bitcoin;
+    case BitcoinNetwork.REGTEST:
+      return networks.regtest;
+    default:
+      return networks.testnet;
+  }
+}
+
+/**
+ * Get the SLIP-44 coin type for a network (all test networks share coin type 1)
+ */
+export function getCoinType(network: BitcoinNetwork): number {
+  return network === BitcoinNetwork.MAINNET ? 0 : 1;
+}
+
+/**
+ * Get the account derivation path, e.g. m/84'/0'/0'
+ */
+export function getAccountPath(
+  scriptType: ScriptType,
+  network: BitcoinNetwork,
+  accountIndex = 0
+): string {
+  return `m/${SCRIPT_TYPE_PURPOSE[scriptType]}'/${getCoinType(network)}'/${accountIndex}'`;
+}
+
+/**
+ * Convert a compressed public key to its x-only form (BIP340)
+ */
+export function toXOnly(publicKey: Buffer): Buffer {
+  return publicKey.length === 32 ? publicKey : publicKey.subarray(1, 33);
+}
+
+/**
+ * Build the payment (address and output script) for a public key
+ */
+export function getPayment(
+  publicKey: Buffer,
+  scriptType: ScriptType,
+  network: BitcoinNetwork
+): payments.Payment {
+  const params = getNetworkParams(network);
+
+  switch (scriptType) {
+    case ScriptType.P2PKH:
+      return payments.p2pkh({ pubkey: publicKey, network: params });
+    case ScriptType.P2SH_P2WPKH:
+      return payments.p2sh({
+        redeem: payments.p2wpkh({ pubkey: publicKey, network: params }),
+        network: params,
+      });
+    case ScriptType.P2WPKH:
+      return payments.p2wpkh({ pubkey: publicKey, network: params });
+    case ScriptType.P2TR:
+      return payments.p2tr({ internalPubkey: toXOnly(publicKey), network: params });
+    default:
+      throw new Error(`Unsupported script type: ${scriptType}`);
+  }
+}
+
+/**
+ * Derive an account xpub from a BIP39 seed
+ */
+export function deriveAccount(
+  seed: Buffer,
+  scriptType: ScriptType,
+  network: BitcoinNetwork,
+  accountIndex = 0
+): HDAccount {
+  return deriveAccountAtPath(seed, scriptType, network, getAccountPath(scriptType, network, accountIndex));
+}
+
+/**
+ * Derive an account xpub at an explicit path, e.g. one taken from a descriptor's key origin
+ */
+export function deriveAccountAtPath(
+  seed: Buffer,
+  scriptType: ScriptType,
+  network: BitcoinNetwork,
+  path: string
+): HDAccount {
+  const master = bip32.fromSeed(seed, getNetworkParams(network));
+
+  return {
+    scriptType,
+    path,
+    masterFingerprint: master.fingerprint.toString('hex'),
+    xpub: master.derivePath(path).neutered().toBase58(),
+    nextReceiveIndex: 0,
+    nextChangeIndex: 0,
+  };
+}
+
+/**
+ * Derive a receive (change = false) or change (change = true) address of an account
+ */
+export function deriveAddress(
+  account: HDAccount,
+  network: BitcoinNetwork,
+  change: boolean,
+  index: number
+): WalletAddress {
+  const chain = change ? 1 : 0;
+  const publicKey = deriveChildPublicKey(account.xpub, network, chain, index);
+  const payment = getPayment(publicKey, account.scriptType, network);
+
+  if (!payment.address || !payment.output) {
+    throw new Error(`Could not derive ${account.scriptType} address`);
+  }
+
+  return {
+    address: payment.address,
+    scriptPubKey: payment.output.toString('hex'),
+    publicKey: publicKey.toString('hex'),
+    scriptType: account.scriptType,
+    path: `${account.path}/${chain}/${index}`,
+    change,
+    index,
+  };
+}
+
+/**
+ * Derive the public key at chain/index below an xpub
+ */
+export function deriveChildPublicKey(
+  xpub: string,
+  network: BitcoinNetwork,
+  chain: number,
+  index: number
+): Buffer {
+  const cacheKey = `${xpub}/${chain}`;
+
+  let chainNode = chainNodeCache.get(cacheKey);
+  if (!chainNode) {
+    chainNode = bip32.fromBase58(xpub, getNetworkParams(network)).derive(chain);
+    chainNodeCache.set(cacheKey, chainNode);
+  }
+
+  return chainNode.derive(index).publicKey;
+}
+
+/**
+ * Derive the private key node for a full derivation path
+ * Only call this while signing; never keep the result around.
+ */
+export function deriveSigningNode(
+  seed: Buffer,
+  path: string,
+  network: BitcoinNetwork
+): BIP32Interface {
+  return bip32.fromSeed(seed, getNetworkParams(network)).derivePath(path);
+}
+
+/**
+ * Parse an xpub/ypub/zpub/Ypub/Zpub (or tpub/upub/vpub/Upub/Vpub) into a standard xpub/tpub for the network
+ * @returns The standard key and the script type its SLIP-132 prefix implies, if any
+ */
+export function parseExtendedPublicKey(
+  key: string,
+  network: BitcoinNetwork
+): { xpub: string; scriptType?: ScriptType; multisigScriptType?: MultisigScriptType } {
+  const data = base58CheckDecode(key.trim());
+  if (data.length !== 78) {
+    throw new Error('Invalid extended public key length');
+  }
+
+  const versionHex = data.subarray(0, 4).toString('hex');
+  if (EXTENDED_PRIVATE_KEY_VERSIONS.includes(versionHex)) {
+    throw new Error('This is a private key; only extended public keys can be watched');
+  }
+
+  const version = EXTENDED_PUBLIC_KEY_VERSIONS[versionHex];
+  if (!version) {
+    throw new Error('Unknown extended public key version');
+  }
+  if (version.mainnet !== (network === BitcoinNetwork.MAINNET)) {
+    throw new Error(`Extended public key is for ${version.mainnet ? 'mainnet' : 'a test network'}`);
+  }
+
+  const standard = Buffer.from(data);
+  standard.writeUInt32BE(getNetworkParams(network).bip32.public, 0);
+  const xpub = base58CheckEncode(standard);
+
+  // Validates the key itself (curve point, depth/index consistency)
+  bip32.fromBase58(xpub, getNetworkParams(network));
+
+  return { xpub, scriptType: version.scriptType, multisigScriptType: version.multisigScriptType };
+}
+
+function base58CheckDecode(value: string): Buffer {
+  let number = BigInt(0);
+  for (const char of value) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) {
+      throw new Error(`Invalid base58 character "${char}"`);
+    }
+    number = number * BigInt(58) + BigInt(digit);
+  }
+
+  const hex = number.toString(16);
+  const body = Buffer.from(hex.length % 2 ? `0${hex}` : hex, 'hex');
+  const leadingZeros = value.length - value.replace(/^1+/, '').length;
+  const bytes = Buffer.concat([Buffer.alloc(leadingZeros), number > BigInt(0) ? body : Buffer.alloc(0)]);
+
+  const payload = bytes.subarray(0, bytes.length - 4);
+  const checksum = bytes.subarray(bytes.length - 4);
+  if (bytes.length < 4 || !crypto.hash256(payload).subarray(0, 4).equals(checksum)) {
+    throw new Error('Invalid base58 checksum');
+  }
+  return payload;
+}
+
+function base58CheckEncode(payload: Buffer): string {
+  const bytes = Buffer.concat([payload, crypto.hash256(payload).subarray(0, 4)]);
+  let number = BigInt(`0x${bytes.toString('hex')}`);
+
+  let encoded = '';
+  while (number > BigInt(0)) {
+    encoded = BASE58_ALPHABET[Number(number % BigInt(58))] + encoded;
+    number /= BigInt(58);
+  }
+
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    encoded = `1${encoded}`;
+  }
+  return encoded;
+}
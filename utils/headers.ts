@@ -0,0 +1,259 @@
+import { Block, crypto } from 'bitcoinjs-lib';
+import { BitcoinNetwork } from '@/types/blockchain';
+
+/**
+ * Block header validation for SPV: proof of work, difficulty retargeting, checkpoints and merkle proofs
+ */
+
+export const HEADER_SIZE = 80;
+export const RETARGET_INTERVAL = 2016;
+
+const TARGET_TIMESPAN = 14 * 24 * 60 * 60;
+const TARGET_SPACING = 10 * 60;
+
+/**
+ * A known block a header chain must contain
+ */
+export interface Checkpoint {
+  height: number;
+  hash: string;
+}
+
+/**
+ * Consensus rules headers are checked against
+ */
+export interface HeaderChainParams {
+  powLimit: bigint;
+  allowMinDifficultyBlocks: boolean; // Testnet: a block 20 minutes after its parent may use the minimum difficulty
+  noRetargeting: boolean; // Regtest: difficulty never changes
+  checkpoints: Checkpoint[]; // Ascending; the chain is synced from the retarget period of the last one
+}
+
+/**
+ * A parsed block header
+ */
+export interface BlockHeader {
+  hash: string; // Block hash, as displayed
+  prevHash: string;
+  merkleRoot: string;
+  version: number;
+  timestamp: number;
+  bits: number;
+  nonce: number;
+  raw: string; // 80-byte header as hex
+}
+
+const MAINNET_POW_LIMIT = BigInt('0x00000000ffffffffffffffffffffffffffffffffffffffffffffffffffffffff');
+const REGTEST_POW_LIMIT = BigInt('0x7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff');
+
+export const HEADER_CHAIN_PARAMS: Record<BitcoinNetwork, HeaderChainParams> = {
+  [BitcoinNetwork.MAINNET]: {
+    powLimit: MAINNET_POW_LIMIT,
+    allowMinDifficultyBlocks: false,
+    noRetargeting: false,
+    // Bitcoin Core's historic checkpoints, then retarget period starts that shorten the first sync.
+    // Append newer ones at period starts; transactions older than the last are validated back to it.
+    checkpoints: [
+      { height: 0, hash: '000000000019d6689c085ae165831e934ff763ae46a2a6c172b3f1b60a8ce26f' },
+      { height: 11111, hash: '0000000069e244f73d78e8fd29ba2fd2ed618bd6fa2ee92559f542fdb26e7c1d' },
+      { height: 33333, hash: '000000002dd5588a74784eaa7ab0507a18ad16a236e7b1ce69f00d7ddfb5d0a6' },
+      { height: 74000, hash: '0000000000573993a3c9e41ce34471c079dcf5f52a0e824a81e7f953b8661a20' },
+      { height: 105000, hash: '00000000000291ce28027faea320c8d2b054b2e0fe44a773f3eefb151d6bdc97' },
+      { height: 134444, hash: '00000000000005b12ffd4cd315cd34ffd4a594f430ac814c91184a0d42d2b0fe' },
+      { height: 168000, hash: '000000000000099e61ea72015e79632f216fe6cb33d7899acb35b75c8303b763' },
+      { height: 193000, hash: '000000000000059f452a5f7340de6682a977387c17010ff6e6c3bd83ca8b1317' },
+      { height: 210000, hash: '000000000000048b95347e83192f69cf0366076336c639f9b7228e9ba171342e' },
+      { height: 216116, hash: '00000000000001b4f4b433e81ee46494af945cf96014816a4e2370f11b23df4e' },
+      { height: 225430, hash: '00000000000001c108384350f74090433e7fcf79a606b8e797f065b130575932' },
+      { height: 250000, hash: '000000000000003887df1f29024b06fc2200b55f8af8f35453d7be294df2d214' },
+      { height: 279000, hash: '0000000000000001ae8c72a0b0c301f67e3afca10e819efa9041e458e9bd7e40' },
+      { height: 295000, hash: '00000000000000004d9b4ef50f0f9d686fd69db2e03af35a100370c64632a983' },
+      { height: 560448, hash: '00000000000000000020adeb95048ff41daac22d2dd97414fd5c47cdc391923a' },
+    ],
+  },
+  [BitcoinNetwork.TESTNET]: {
+    powLimit: MAINNET_POW_LIMIT,
+    allowMinDifficultyBlocks: true,
+    noRetargeting: false,
+    checkpoints: [
+      { height: 0, hash: '000000000933ea01ad0ee984209779baaec3ced90fa3f408719526f8d77f4943' },
+      { height: 546, hash: '000000002a936ca763904c3c35fce2f3556c559c0214345d31b1bcebf76acb70' },
+      { height: 1455552, hash: '000000000000001f6e65749dd4aee30e9a51d57cb87d529fb28c2fbc365f81df' },
+    ],
+  },
+  [BitcoinNetwork.REGTEST]: {
+    powLimit: REGTEST_POW_LIMIT,
+    allowMinDifficultyBlocks: true,
+    noRetargeting: true,
+    checkpoints: [
+      { height: 0, hash: '0f9188f13cb7b2c71f2a335e3a4fc328bf5beb436012afca590b1a11466e2206' },
+    ],
+  },
+};
+
+/**
+ * Parse an 80-byte header from hex
+ */
+export function parseHeader(raw: string): BlockHeader {
+  if (raw.length !== HEADER_SIZE * 2) {
+    throw new Error(`Block header must be ${HEADER_SIZE} bytes, got ${raw.length / 2}`);
+  }
+
+  const block = Block.fromHex(raw);
+  return {
+    hash: block.getId(),
+    prevHash: Buffer.from(block.prevHash!).reverse().toString('hex'),
+    merkleRoot: Buffer.from(block.merkleRoot!).reverse().toString('hex'),
+    version: block.version,
+    timestamp: block.timestamp,
+    bits: block.bits,
+    nonce: block.nonce,
+    raw,
+  };
+}
+
+/**
+ * Expand compact difficulty bits into a target
+ */
+export function bitsToTarget(bits: number): bigint {
+  const exponent = bits >>> 24;
+  const mantissa = BigInt(bits & 0x007fffff);
+  if (bits & 0x00800000) {
+    throw new Error(`Negative target in bits ${bits.toString(16)}`);
+  }
+
+  return exponent <= 3
+    ? mantissa >> BigInt(8 * (3 - exponent))
+    : mantissa << BigInt(8 * (exponent - 3));
+}
+
+/**
+ * Encode a target as compact difficulty bits, rounding down like Bitcoin Core's GetCompact
+ */
+export function targetToBits(target: bigint): number {
+  let size = target.toString(16).replace(/^0+/, '').length;
+  size = Math.ceil(size / 2);
+
+  let mantissa = size <= 3
+    ? Number(target << BigInt(8 * (3 - size)))
+    : Number(target >> BigInt(8 * (size - 3)));
+
+  // The top mantissa bit is a sign bit, so move a set one into the exponent
+  if (mantissa & 0x00800000) {
+    mantissa >>= 8;
+    size += 1;
+  }
+  return ((size << 24) | mantissa) >>> 0;
+}
+
+/**
+ * Difficulty bits required of the block at a height
+ * @param getHeader Looks up an earlier header of the chain (the previous retarget period must be available)
+ */
+export function getRequiredBits(
+  params: HeaderChainParams,
+  height: number,
+  header: BlockHeader,
+  previous: BlockHeader,
+  getHeader: (height: number) => BlockHeader | undefined
+): number {
+  const powLimitBits = targetToBits(params.powLimit);
+
+  if (height % RETARGET_INTERVAL !== 0) {
+    if (params.allowMinDifficultyBlocks) {
+      if (header.timestamp > previous.timestamp + TARGET_SPACING * 2) {
+        return powLimitBits;
+      }
+
+      // Otherwise the last bits in this period that weren't the minimum difficulty
+      let h = height - 1;
+      let candidate = previous;
+      while (h % RETARGET_INTERVAL !== 0 && candidate.bits === powLimitBits) {
+        const earlier = getHeader(h - 1);
+        if (!earlier) {
+          throw new Error(`Header ${h - 1} is needed to check the difficulty of block ${height}`);
+        }
+        candidate = earlier;
+        h--;
+      }
+      return candidate.bits;
+    }
+    return previous.bits;
+  }
+
+  if (params.noRetargeting) {
+    return previous.bits;
+  }
+
+  const first = getHeader(height - RETARGET_INTERVAL);
+  if (!first) {
+    throw new Error(`Header ${height - RETARGET_INTERVAL} is needed to retarget at block ${height}`);
+  }
+
+  // Limit the adjustment to a factor of four either way
+  let timespan = previous.timestamp - first.timestamp;
+  timespan = Math.min(Math.max(timespan, TARGET_TIMESPAN / 4), TARGET_TIMESPAN * 4);
+
+  let target = (bitsToTarget(previous.bits) * BigInt(timespan)) / BigInt(TARGET_TIMESPAN);
+  if (target > params.powLimit) {
+    target = params.powLimit;
+  }
+  return targetToBits(target);
+}
+
+/**
+ * Check a header against its parent: linkage, difficulty bits and proof of work
+ * Throws describing the first rule broken.
+ */
+export function validateHeader(
+  params: HeaderChainParams,
+  height: number,
+  header: BlockHeader,
+  previous: BlockHeader,
+  getHeader: (height: number) => BlockHeader | undefined
+): void {
+  if (header.prevHash !== previous.hash) {
+    throw new Error(`Header ${height} does not connect to block ${previous.hash}`);
+  }
+
+  const required = getRequiredBits(params, height, header, previous, getHeader);
+  if (header.bits !== required) {
+    throw new Error(`Header ${height} has difficulty bits ${header.bits.toString(16)}, expected ${required.toString(16)}`);
+  }
+
+  checkProofOfWork(params, height, header);
+}
+
+/**
+ * Check that a header's hash meets the target its bits claim, within the network's limit
+ */
+export function checkProofOfWork(params: HeaderChainParams, height: number, header: BlockHeader): void {
+  const target = bitsToTarget(header.bits);
+  if (target === BigInt(0) || target > params.powLimit) {
+    throw new Error(`Header ${height} has an invalid target`);
+  }
+  if (BigInt('0x' + header.hash) > target) {
+    throw new Error(`Header ${height} does not meet its proof-of-work target`);
+  }
+}
+
+/**
+ * Check that a merkle branch links a transaction to a block's merkle root
+ * @param branch Sibling hashes from the transaction up, as displayed (blockchain.transaction.get_merkle)
+ * @param position Index of the transaction in the block
+ */
+export function verifyMerkleProof(txid: string, branch: string[], position: number, merkleRoot: string): boolean {
+  let hash: Buffer = Buffer.from(txid, 'hex').reverse();
+  let index = position;
+
+  for (const sibling of branch) {
+    const siblingHash = Buffer.from(sibling, 'hex').reverse();
+    hash = index & 1
+      ? crypto.hash256(Buffer.concat([siblingHash, hash]))
+      : crypto.hash256(Buffer.concat([hash, siblingHash]));
+    index >>= 1;
+  }
+
+  // Anything left over means the position claims more levels than the branch has
+  return index === 0 && Buffer.from(hash).reverse().toString('hex') === merkleRoot;
+}
@@ -0,0 +1,151 @@
+import * as bip39 from 'bip39';
+
+/**
+ * Supported BIP39 mnemonic lengths (in words)
+ */
+export type MnemonicLength = 12 | 15 | 18 | 21 | 24;
+
+export const MNEMONIC_LENGTHS: MnemonicLength[] = [12, 15, 18, 21, 24];
+
+const WORDLIST = bip39.wordlists.english;
+
+/**
+ * A word in a mnemonic that is not part of the BIP39 wordlist
+ */
+export interface InvalidMnemonicWord {
+  index: number;
+  word: string;
+  suggestions: string[];
+}
+
+/**
+ * Result of validating a mnemonic phrase
+ */
+export interface MnemonicValidation {
+  valid: boolean;
+  error?: string;
+  invalidWords: InvalidMnemonicWord[];
+}
+
+/**
+ * Normalize a user-entered mnemonic: lowercase, NFKD and single spaces
+ */
+export function normalizeMnemonic(mnemonic: string): string {
+  return mnemonic
+    .normalize('NFKD')
+    .toLowerCase()
+    .trim()
+    .split(/\s+/)
+    .join(' ');
+}
+
+/**
+ * Generate a new mnemonic from fresh entropy
+ * @param length Number of words (12, 15, 18, 21 or 24)
+ */
+export function generateMnemonic(length: MnemonicLength = 12): string {
+  if (!MNEMONIC_LENGTHS.includes(length)) {
+    throw new Error(`Unsupported mnemonic length: ${length}`);
+  }
+
+  // Every 3 words encode 32 bits of entropy plus 1 checksum bit
+  const strength = (length / 3) * 32;
+  return bip39.generateMnemonic(strength, undefined, WORDLIST);
+}
+
+/**
+ * Levenshtein distance between two words
+ */
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Suggest wordlist entries for a word that is not in the BIP39 wordlist
+ * BIP39 words are unique in their first four letters, so a matching
+ * prefix is ranked ahead of words that are merely a small edit away.
+ */
+export function suggestWords(word: string, maxSuggestions = 3): string[] {
+  const prefix = word.slice(0, 4);
+
+  return WORDLIST
+    .map(candidate => ({
+      candidate,
+      distance: candidate.startsWith(prefix) && prefix.length === 4
+        ? 0
+        : editDistance(word, candidate),
+    }))
+    .filter(({ distance }) => distance <= 2)
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+    .slice(0, maxSuggestions)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Validate a mnemonic's length, words and checksum
+ */
+export function validateMnemonic(mnemonic: string): MnemonicValidation {
+  const words = normalizeMnemonic(mnemonic).split(' ').filter(Boolean);
+
+  if (!MNEMONIC_LENGTHS.includes(words.length as MnemonicLength)) {
+    return {
+      valid: false,
+      error: `Mnemonic must have 12, 15, 18, 21 or 24 words (got ${words.length})`,
+      invalidWords: [],
+    };
+  }
+
+  const invalidWords: InvalidMnemonicWord[] = words
+    .map((word, index) => ({ word, index }))
+    .filter(({ word }) => !WORDLIST.includes(word))
+    .map(({ word, index }) => ({ index, word, suggestions: suggestWords(word) }));
+
+  if (invalidWords.length > 0) {
+    const details = invalidWords
+      .map(({ index, word, suggestions }) =>
+        `word ${index + 1} "${word}"` +
+        (suggestions.length > 0 ? ` (did you mean ${suggestions.join(', ')}?)` : '')
+      )
+      .join('; ');
+
+    return {
+      valid: false,
+      error: `Unknown BIP39 words: ${details}`,
+      invalidWords,
+    };
+  }
+
+  if (!bip39.validateMnemonic(words.join(' '), WORDLIST)) {
+    return {
+      valid: false,
+      error: 'Invalid mnemonic checksum',
+      invalidWords: [],
+    };
+  }
+
+  return { valid: true, invalidWords: [] };
+}
+
+/**
+ * Derive the BIP39 seed for a mnemonic and optional passphrase
+ */
+export async function mnemonicToSeed(mnemonic: string, passphrase = ''): Promise<Buffer> {
+  return bip39.mnemonicToSeed(normalizeMnemonic(mnemonic), passphrase);
+}
@@ -0,0 +1,653 @@
+import { crypto, opcodes, payments, Psbt, script as bitcoinScript } from 'bitcoinjs-lib';
+import { BitcoinNetwork, MultisigCosigner, MultisigScript, MultisigScriptType, MultisigWalletInfo, WalletAddress } from '@/types/blockchain';
+import { bip32, deriveChildPublicKey, getCoinType, getNetworkParams, parseExtendedPublicKey, toXOnly } from '@/utils/hd';
+
+/**
+ * Multisig vaults: sortedmulti scripts over co-signer xpubs, Coldcard/Sparrow
+ * setup files, and partial signatures in PSBTs
+ */
+
+type PsbtInput = Psbt['data']['inputs'][number];
+type PsbtOutput = Psbt['data']['outputs'][number];
+
+/**
+ * BIP341's provably unspendable internal key (H), so taproot vaults can only be spent through their script
+ */
+export const NUMS_INTERNAL_KEY = Buffer.from('50929b74c1a04954b78b4b6035e97a5e078a5a0f28ec96d547bfee9ace803ac0', 'hex');
+
+const TAPSCRIPT_LEAF_VERSION = 0xc0;
+
+/**
+ * Most keys a multisig script may have (P2SH scripts are limited to 520 bytes,
+ * CHECKMULTISIG to 20 keys and multi_a() to 999)
+ */
+export const MAX_MULTISIG_KEYS: Record<MultisigScriptType, number> = {
+  [MultisigScriptType.P2SH]: 15,
+  [MultisigScriptType.P2SH_P2WSH]: 20,
+  [MultisigScriptType.P2WSH]: 20,
+  [MultisigScriptType.P2TR]: 999,
+};
+
+/**
+ * BIP48 script type index of co-signer account paths, m/48'/coin'/account'/script'
+ * BIP48 assigns 1' and 2'; 3' is the value wallets use for taproot vaults.
+ */
+const BIP48_SCRIPT_TYPES: Record<Exclude<MultisigScriptType, MultisigScriptType.P2SH>, number> = {
+  [MultisigScriptType.P2SH_P2WSH]: 1,
+  [MultisigScriptType.P2WSH]: 2,
+  [MultisigScriptType.P2TR]: 3,
+};
+
+/**
+ * "Format:" values of Coldcard/Sparrow setup files
+ * P2TR is our own extension; other wallets don't define taproot setup files yet.
+ */
+const CONFIG_FORMATS: Record<MultisigScriptType, string> = {
+  [MultisigScriptType.P2SH]: 'P2SH',
+  [MultisigScriptType.P2SH_P2WSH]: 'P2SH-P2WSH',
+  [MultisigScriptType.P2WSH]: 'P2WSH',
+  [MultisigScriptType.P2TR]: 'P2TR',
+};
+
+/**
+ * A vault as described by a setup file
+ */
+export interface MultisigConfig {
+  name?: string;
+  threshold: number;
+  scriptType: MultisigScriptType;
+  cosigners: MultisigCosigner[];
+}
+
+/**
+ * Signature progress of a multisig PSBT input
+ */
+export interface MultisigInputStatus {
+  threshold: number;
+  keyCount: number;
+  signatures: number;
+}
+
+/**
+ * Check a vault's threshold and co-signers
+ */
+export function validateMultisigPolicy(
+  config: Pick<MultisigConfig, 'threshold' | 'scriptType' | 'cosigners'>,
+  network: BitcoinNetwork
+): void {
+  const keyCount = config.cosigners.length;
+  if (keyCount < 2) {
+    throw new Error('A vault needs at least two co-signers');
+  }
+  if (keyCount > MAX_MULTISIG_KEYS[config.scriptType]) {
+    throw new Error(`${config.scriptType} vaults allow at most ${MAX_MULTISIG_KEYS[config.scriptType]} co-signers`);
+  }
+  if (!Number.isInteger(config.threshold) || config.threshold < 1 || config.threshold > keyCount) {
+    throw new Error(`Invalid policy ${config.threshold} of ${keyCount}`);
+  }
+  if (new Set(config.cosigners.map(cosigner => cosigner.xpub)).size !== keyCount) {
+    throw new Error('Co-signer keys must be distinct');
+  }
+
+  config.cosigners.forEach(cosigner => {
+    if (!/^[0-9a-f]{8}$/.test(cosigner.fingerprint)) {
+      throw new Error(`Invalid fingerprint "${cosigner.fingerprint}"`);
+    }
+    if (!/^m(\/\d+')*$/.test(cosigner.path)) {
+      throw new Error(`Invalid derivation path "${cosigner.path}"`);
+    }
+    bip32.fromBase58(cosigner.xpub, getNetworkParams(network));
+  });
+}
+
+/**
+ * Get the BIP48 co-signer account path, e.g. m/48'/0'/0'/2'
+ */
+export function getCosignerPath(
+  scriptType: Exclude<MultisigScriptType, MultisigScriptType.P2SH>,
+  network: BitcoinNetwork,
+  accountIndex = 0
+): string {
+  return `m/48'/${getCoinType(network)}'/${accountIndex}'/${BIP48_SCRIPT_TYPES[scriptType]}'`;
+}
+
+/**
+ * Derive this seed's co-signer key for a vault of the given script type
+ */
+export function deriveCosigner(
+  seed: Buffer,
+  scriptType: Exclude<MultisigScriptType, MultisigScriptType.P2SH>,
+  network: BitcoinNetwork,
+  accountIndex = 0
+): MultisigCosigner {
+  const master = bip32.fromSeed(seed, getNetworkParams(network));
+  const path = getCosignerPath(scriptType, network, accountIndex);
+
+  return {
+    fingerprint: master.fingerprint.toString('hex'),
+    path,
+    xpub: master.derivePath(path).neutered().toBase58(),
+  };
+}
+
+/**
+ * Derive the script of a vault's receive (change = false) or change (change = true) address
+ */
+export function deriveMultisigScript(
+  info: Pick<MultisigWalletInfo, 'threshold' | 'scriptType' | 'cosigners'>,
+  network: BitcoinNetwork,
+  change: boolean,
+  index: number
+): MultisigScript {
+  const chain = change ? 1 : 0;
+  const keys = info.cosigners.map(cosigner => ({
+    publicKey: deriveChildPublicKey(cosigner.xpub, network, chain, index),
+    fingerprint: cosigner.fingerprint,
+    path: `${cosigner.path}/${chain}/${index}`,
+  }));
+
+  let script: Buffer;
+  if (info.scriptType === MultisigScriptType.P2TR) {
+    // sortedmulti_a() sorts the x-only keys
+    keys.sort((a, b) => Buffer.compare(toXOnly(a.publicKey), toXOnly(b.publicKey)));
+    script = compileMultiA(info.threshold, keys.map(key => toXOnly(key.publicKey)));
+  } else {
+    // sortedmulti() sorts the compressed keys (BIP67)
+    keys.sort((a, b) => Buffer.compare(a.publicKey, b.publicKey));
+    script = payments.p2ms({ m: info.threshold, pubkeys: keys.map(key => key.publicKey) }).output!;
+  }
+
+  return {
+    threshold: info.threshold,
+    script: script.toString('hex'),
+    keys: keys.map(key => ({ ...key, publicKey: key.publicKey.toString('hex') })),
+  };
+}
+
+/**
+ * Derive a receive (change = false) or change (change = true) address of a vault
+ */
+export function deriveMultisigAddress(
+  info: Pick<MultisigWalletInfo, 'threshold' | 'scriptType' | 'cosigners'>,
+  network: BitcoinNetwork,
+  change: boolean,
+  index: number
+): WalletAddress {
+  const multisig = deriveMultisigScript(info, network, change, index);
+  const payment = getMultisigPayment(multisig, info.scriptType, network);
+
+  if (!payment.address || !payment.output) {
+    throw new Error(`Could not derive ${info.scriptType} address`);
+  }
+
+  return {
+    address: payment.address,
+    scriptPubKey: payment.output.toString('hex'),
+    multisig,
+    scriptType: info.scriptType,
+    path: `${change ? 1 : 0}/${index}`,
+    change,
+    index,
+  };
+}
+
+/**
+ * Build the payment (address and output script) for a multisig script
+ */
+export function getMultisigPayment(
+  multisig: MultisigScript,
+  scriptType: MultisigScriptType,
+  network: BitcoinNetwork
+): payments.Payment {
+  const params = getNetworkParams(network);
+  const script = Buffer.from(multisig.script, 'hex');
+
+  switch (scriptType) {
+    case MultisigScriptType.P2SH:
+      return payments.p2sh({ redeem: { output: script }, network: params });
+    case MultisigScriptType.P2SH_P2WSH:
+      return payments.p2sh({
+        redeem: payments.p2wsh({ redeem: { output: script }, network: params }),
+        network: params,
+      });
+    case MultisigScriptType.P2WSH:
+      return payments.p2wsh({ redeem: { output: script }, network: params });
+    case MultisigScriptType.P2TR:
+      return payments.p2tr({
+        internalPubkey: NUMS_INTERNAL_KEY,
+        scriptTree: { output: script },
+        redeem: { output: script, redeemVersion: TAPSCRIPT_LEAF_VERSION },
+        network: params,
+      });
+    default:
+      throw new Error(`Unsupported multisig script type: ${scriptType}`);
+  }
+}
+
+/**
+ * PSBT input fields a signer needs to spend a multisig output: its scripts and key origins
+ */
+export function getMultisigInputFields(
+  multisig: MultisigScript,
+  scriptType: MultisigScriptType,
+  network: BitcoinNetwork
+): Partial<PsbtInput> {
+  const script = Buffer.from(multisig.script, 'hex');
+
+  if (scriptType === MultisigScriptType.P2TR) {
+    const witness = getMultisigPayment(multisig, scriptType, network).witness!;
+    return {
+      tapInternalKey: NUMS_INTERNAL_KEY,
+      tapLeafScript: [{ leafVersion: TAPSCRIPT_LEAF_VERSION, script, controlBlock: witness[witness.length - 1] }],
+      ...getMultisigKeyOrigins(multisig, scriptType),
+    };
+  }
+
+  return {
+    ...getRedeemScripts(multisig, scriptType, network),
+    ...getMultisigKeyOrigins(multisig, scriptType),
+  };
+}
+
+/**
+ * PSBT output fields that let co-signers recognise a multisig change output
+ */
+export function getMultisigOutputFields(
+  multisig: MultisigScript,
+  scriptType: MultisigScriptType,
+  network: BitcoinNetwork
+): Partial<PsbtOutput> {
+  if (scriptType === MultisigScriptType.P2TR) {
+    return {
+      tapInternalKey: NUMS_INTERNAL_KEY,
+      tapTree: { leaves: [{ depth: 0, leafVersion: TAPSCRIPT_LEAF_VERSION, script: Buffer.from(multisig.script, 'hex') }] },
+      ...getMultisigKeyOrigins(multisig, scriptType),
+    };
+  }
+
+  return {
+    ...getRedeemScripts(multisig, scriptType, network),
+    ...getMultisigKeyOrigins(multisig, scriptType),
+  };
+}
+
+/**
+ * Count the signatures of a multisig PSBT input
+ * @returns Undefined if the input doesn't spend a multi()/multi_a() script
+ */
+export function getMultisigInputStatus(input: PsbtInput): MultisigInputStatus | undefined {
+  const leaf = input.tapLeafScript?.[0];
+  if (leaf) {
+    const multiA = decodeMultiA(leaf.script);
+    if (!multiA) return undefined;
+    const leafHash = getTapleafHash(leaf.script);
+    return {
+      threshold: multiA.threshold,
+      keyCount: multiA.keys.length,
+      signatures: (input.tapScriptSig ?? []).filter(sig => sig.leafHash.equals(leafHash)).length,
+    };
+  }
+
+  const script = input.witnessScript ?? input.redeemScript;
+  const multi = script && decodeMulti(script);
+  if (!multi) return undefined;
+  return {
+    threshold: multi.m!,
+    keyCount: multi.pubkeys!.length,
+    signatures: (input.partialSig ?? []).filter(sig => multi.pubkeys!.some(key => key.equals(sig.pubkey))).length,
+  };
+}
+
+/**
+ * Finalize a multisig input once it has threshold signatures
+ * Extra signatures are dropped, and keys of a multi_a() script that didn't sign get an empty signature.
+ */
+export function finalizeMultisigInput(psbt: Psbt, index: number): void {
+  const input = psbt.data.inputs[index];
+  const status = getMultisigInputStatus(input);
+  if (!status) {
+    throw new Error(`Input ${index} is not a multisig input`);
+  }
+  if (status.signatures < status.threshold) {
+    throw new Error(`Input ${index} has ${status.signatures} of ${status.threshold} signatures`);
+  }
+
+  const leaf = input.tapLeafScript?.[0];
+  if (leaf) {
+    const leafHash = getTapleafHash(leaf.script);
+    const { keys, threshold } = decodeMultiA(leaf.script)!;
+    let remaining = threshold;
+    const signatures = keys.map(key => {
+      const sig = input.tapScriptSig?.find(s => s.leafHash.equals(leafHash) && s.pubkey.equals(key));
+      if (!sig || remaining === 0) return Buffer.alloc(0);
+      remaining--;
+      return sig.signature;
+    });
+
+    // The first key's CHECKSIG consumes the top of the stack, so signatures go in reverse key order
+    const finalScriptWitness = serializeWitness([...signatures.reverse(), leaf.script, leaf.controlBlock]);
+    psbt.finalizeTaprootInput(index, leafHash, () => ({ finalScriptWitness }));
+    return;
+  }
+
+  psbt.finalizeInput(index, (
+    _inputIndex: number,
+    psbtInput: PsbtInput,
+    script: Buffer,
+    isSegwit: boolean,
+    isP2SH: boolean,
+    isP2WSH: boolean
+  ) => {
+    const multi = decodeMulti(script)!;
+    const signatures = multi.pubkeys!
+      .map(key => psbtInput.partialSig?.find(sig => sig.pubkey.equals(key))?.signature)
+      .filter((signature): signature is Buffer => !!signature)
+      .slice(0, multi.m);
+
+    const payment = payments.p2ms({ output: script, signatures });
+    const p2wsh = isP2WSH ? payments.p2wsh({ redeem: payment }) : undefined;
+    const p2sh = isP2SH ? payments.p2sh({ redeem: p2wsh ?? payment }) : undefined;
+
+    return {
+      finalScriptSig: p2sh?.input ?? (isSegwit ? undefined : payment.input),
+      finalScriptWitness: isSegwit ? serializeWitness((p2wsh ?? payment).witness!) : undefined,
+    };
+  });
+}
+
+/**
+ * Find the multisig inputs of a PSBT that a key with this master fingerprint still has to sign
+ */
+export function findCosignerInputs(psbt: Psbt, masterFingerprint: string): number[] {
+  const fingerprint = Buffer.from(masterFingerprint, 'hex');
+
+  return psbt.data.inputs
+    .map((input, index) => ({ input, index }))
+    .filter(({ input }) => {
+      if (input.finalScriptSig || input.finalScriptWitness || !getMultisigInputStatus(input)) {
+        return false;
+      }
+      return getOurDerivations(input, fingerprint).some(derivation => !hasSigned(input, derivation.pubkey));
+    })
+    .map(({ index }) => index);
+}
+
+/**
+ * Add our partial signatures to multisig inputs we co-sign, found by key origin
+ * @returns The number of inputs signed
+ */
+export function signCosignerInputs(
+  psbt: Psbt,
+  inputIndexes: number[],
+  seed: Buffer,
+  network: BitcoinNetwork
+): number {
+  const master = bip32.fromSeed(seed, getNetworkParams(network));
+  let signed = 0;
+
+  inputIndexes.forEach(index => {
+    const input = psbt.data.inputs[index];
+    const leaf = input.tapLeafScript?.[0];
+
+    getOurDerivations(input, master.fingerprint)
+      .filter(derivation => !hasSigned(input, derivation.pubkey))
+      .forEach(derivation => {
+        const node = master.derivePath(derivation.path);
+        if (!toXOnly(node.publicKey).equals(toXOnly(derivation.pubkey))) {
+          throw new Error(`Key origin of input ${index} doesn't match this wallet's key at ${derivation.path}`);
+        }
+
+        if (leaf) {
+          psbt.signTaprootInput(index, node, getTapleafHash(leaf.script));
+        } else {
+          psbt.signInput(index, node);
+        }
+      });
+    signed++;
+  });
+
+  return signed;
+}
+
+/**
+ * Format a vault as a Coldcard/Sparrow multisig setup file
+ */
+export function formatMultisigConfig(name: string, config: Omit<MultisigConfig, 'name'>): string {
+  const paths = new Set(config.cosigners.map(cosigner => cosigner.path));
+  const lines = [
+    '# Multisig setup file, exported from BIP300 Wallet',
+    '#',
+    // Coldcard rejects names longer than 20 characters
+    `Name: ${name.slice(0, 20)}`,
+    `Policy: ${config.threshold} of ${config.cosigners.length}`,
+    ...(paths.size === 1 ? [`Derivation: ${config.cosigners[0].path}`] : []),
+    `Format: ${CONFIG_FORMATS[config.scriptType]}`,
+    '',
+  ];
+
+  config.cosigners.forEach(cosigner => {
+    if (paths.size > 1) {
+      lines.push(`Derivation: ${cosigner.path}`);
+    }
+    lines.push(`${cosigner.fingerprint.toUpperCase()}: ${cosigner.xpub}`);
+    if (paths.size > 1) {
+      lines.push('');
+    }
+  });
+
+  return `${lines.join('\n').trimEnd()}\n`;
+}
+
+/**
+ * Parse a Coldcard/Sparrow multisig setup file
+ * A Derivation line applies to the keys after it, so files may give one path or one per key.
+ */
+export function parseMultisigConfig(text: string, network: BitcoinNetwork): MultisigConfig {
+  let name: string | undefined;
+  let policy: { threshold: number; keyCount: number } | undefined;
+  // Coldcard assumes P2SH when the file doesn't say
+  let scriptType = MultisigScriptType.P2SH;
+  let derivation: string | undefined;
+  const cosigners: MultisigCosigner[] = [];
+  const keyTypes: (MultisigScriptType | undefined)[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const separator = line.indexOf(':');
+    if (separator < 0) {
+      throw new Error(`Unexpected line "${line}"`);
+    }
+    const key = line.slice(0, separator).trim();
+    const value = line.slice(separator + 1).trim();
+
+    if (/^[0-9a-fA-F]{8}$/.test(key)) {
+      if (!derivation) {
+        throw new Error(`No derivation path given for key ${key}`);
+      }
+      const parsed = parseExtendedPublicKey(value, network);
+      cosigners.push({ fingerprint: key.toLowerCase(), path: derivation, xpub: parsed.xpub });
+      keyTypes.push(parsed.multisigScriptType);
+      continue;
+    }
+
+    switch (key.toLowerCase()) {
+      case 'name':
+        name = value;
+        break;
+      case 'policy': {
+        const match = value.match(/^(\d+)\s*of\s*(\d+)$/i);
+        if (!match) {
+          throw new Error(`Invalid policy "${value}"`);
+        }
+        policy = { threshold: Number(match[1]), keyCount: Number(match[2]) };
+        break;
+      }
+      case 'derivation':
+        if (!/^m(\/\d+['hH]?)*$/.test(value)) {
+          throw new Error(`Invalid derivation path "${value}"`);
+        }
+        derivation = value.replace(/[hH]/g, '\'');
+        break;
+      case 'format': {
+        const format = value.toUpperCase() === 'P2WSH-P2SH' ? 'P2SH-P2WSH' : value.toUpperCase();
+        const type = (Object.keys(CONFIG_FORMATS) as MultisigScriptType[]).find(t => CONFIG_FORMATS[t] === format);
+        if (!type) {
+          throw new Error(`Unsupported format "${value}"`);
+        }
+        scriptType = type;
+        break;
+      }
+      default:
+        // Other wallets add their own fields; they don't change the policy
+        break;
+    }
+  }
+
+  if (!policy) {
+    throw new Error('The setup file has no Policy line');
+  }
+  if (cosigners.length !== policy.keyCount) {
+    throw new Error(`The policy is ${policy.threshold} of ${policy.keyCount} but the file has ${cosigners.length} keys`);
+  }
+  if (keyTypes.some(type => type && type !== scriptType)) {
+    throw new Error(`The file's keys are for a different script type than ${CONFIG_FORMATS[scriptType]}`);
+  }
+
+  const config = { name, threshold: policy.threshold, scriptType, cosigners };
+  validateMultisigPolicy(config, network);
+  return config;
+}
+
+/**
+ * Redeem and witness scripts of a P2SH/P2WSH multisig output
+ */
+function getRedeemScripts(
+  multisig: MultisigScript,
+  scriptType: MultisigScriptType,
+  network: BitcoinNetwork
+): { redeemScript?: Buffer; witnessScript?: Buffer } {
+  const script = Buffer.from(multisig.script, 'hex');
+
+  switch (scriptType) {
+    case MultisigScriptType.P2SH:
+      return { redeemScript: script };
+    case MultisigScriptType.P2SH_P2WSH:
+      return { redeemScript: getMultisigPayment(multisig, scriptType, network).redeem!.output, witnessScript: script };
+    default:
+      return { witnessScript: script };
+  }
+}
+
+/**
+ * BIP32 key origins of every co-signer key of a multisig script
+ */
+function getMultisigKeyOrigins(
+  multisig: MultisigScript,
+  scriptType: MultisigScriptType
+): Pick<PsbtInput, 'bip32Derivation' | 'tapBip32Derivation'> {
+  if (scriptType === MultisigScriptType.P2TR) {
+    const leafHash = getTapleafHash(Buffer.from(multisig.script, 'hex'));
+    return {
+      tapBip32Derivation: multisig.keys.map(key => ({
+        masterFingerprint: Buffer.from(key.fingerprint, 'hex'),
+        pubkey: toXOnly(Buffer.from(key.publicKey, 'hex')),
+        path: key.path,
+        leafHashes: [leafHash],
+      })),
+    };
+  }
+
+  return {
+    bip32Derivation: multisig.keys.map(key => ({
+      masterFingerprint: Buffer.from(key.fingerprint, 'hex'),
+      pubkey: Buffer.from(key.publicKey, 'hex'),
+      path: key.path,
+    })),
+  };
+}
+
+// Key origins of an input that belong to the master key with this fingerprint
+function getOurDerivations(input: PsbtInput, fingerprint: Buffer): { pubkey: Buffer; path: string }[] {
+  const derivations = input.tapLeafScript ? input.tapBip32Derivation : input.bip32Derivation;
+  return (derivations ?? []).filter(derivation => derivation.masterFingerprint.equals(fingerprint));
+}
+
+function hasSigned(input: PsbtInput, pubkey: Buffer): boolean {
+  return input.tapLeafScript
+    ? (input.tapScriptSig ?? []).some(sig => sig.pubkey.equals(toXOnly(pubkey)))
+    : (input.partialSig ?? []).some(sig => sig.pubkey.equals(pubkey));
+}
+
+// <key> CHECKSIG <key> CHECKSIGADD ... <m> NUMEQUAL
+function compileMultiA(threshold: number, keys: Buffer[]): Buffer {
+  return bitcoinScript.compile([
+    ...keys.flatMap((key, i) => [key, i === 0 ? opcodes.OP_CHECKSIG : opcodes.OP_CHECKSIGADD]),
+    bitcoinScript.number.encode(threshold),
+    opcodes.OP_NUMEQUAL,
+  ]);
+}
+
+function decodeMultiA(script: Buffer): { threshold: number; keys: Buffer[] } | undefined {
+  const chunks = bitcoinScript.decompile(script);
+  if (!chunks || chunks.length < 4 || chunks.length % 2 !== 0 || chunks[chunks.length - 1] !== opcodes.OP_NUMEQUAL) {
+    return undefined;
+  }
+
+  const keys: Buffer[] = [];
+  for (let i = 0; i < chunks.length - 2; i += 2) {
+    const key = chunks[i];
+    const op = chunks[i + 1];
+    if (!Buffer.isBuffer(key) || key.length !== 32 || op !== (i === 0 ? opcodes.OP_CHECKSIG : opcodes.OP_CHECKSIGADD)) {
+      return undefined;
+    }
+    keys.push(key);
+  }
+
+  const thresholdChunk = chunks[chunks.length - 2];
+  const threshold = Buffer.isBuffer(thresholdChunk)
+    ? bitcoinScript.number.decode(thresholdChunk)
+    : thresholdChunk >= opcodes.OP_1 && thresholdChunk <= opcodes.OP_16 ? thresholdChunk - opcodes.OP_1 + 1 : 0;
+  if (threshold < 1 || threshold > keys.length) {
+    return undefined;
+  }
+
+  return { threshold, keys };
+}
+
+function decodeMulti(script: Buffer): payments.Payment | undefined {
+  try {
+    return payments.p2ms({ output: script });
+  } catch {
+    return undefined;
+  }
+}
+
+// BIP341 tagged hash of a tapscript leaf
+function getTapleafHash(script: Buffer): Buffer {
+  return crypto.taggedHash('TapLeaf', Buffer.concat([
+    Buffer.from([TAPSCRIPT_LEAF_VERSION]),
+    encodeCompactSize(script.length),
+    script,
+  ]));
+}
+
+function serializeWitness(stack: Buffer[]): Buffer {
+  return Buffer.concat([
+    encodeCompactSize(stack.length),
+    ...stack.flatMap(item => [encodeCompactSize(item.length), item]),
+  ]);
+}
+
+function encodeCompactSize(n: number): Buffer {
+  if (n < 0xfd) return Buffer.from([n]);
+  const buffer = Buffer.alloc(n <= 0xffff ? 3 : 5);
+  buffer[0] = n <= 0xffff ? 0xfd : 0xfe;
+  if (n <= 0xffff) {
+    buffer.writeUInt16LE(n, 1);
+  } else {
+    buffer.writeUInt32LE(n, 1);
+  }
+  return buffer;
+}
@@ -0,0 +1,70 @@
+import { ECPairFactory, ECPairInterface } from 'ecpair';
+import * as ecc from '@bitcoinerlab/secp256k1';
+import { BitcoinNetwork, ScriptType, WalletAddress } from '@/types/blockchain';
+import { getNetworkParams, getPayment } from '@/utils/hd';
+
+/**
+ * Single private keys in wallet import format (WIF), imported as a wallet or swept
+ */
+
+export const ECPair = ECPairFactory(ecc);
+
+/**
+ * Script types a compressed key is looked up under, most common first
+ */
+const COMPRESSED_KEY_SCRIPT_TYPES: ScriptType[] = [
+  ScriptType.P2WPKH,
+  ScriptType.P2PKH,
+  ScriptType.P2SH_P2WPKH,
+  ScriptType.P2TR,
+];
+
+/**
+ * Parse WIF private keys separated by whitespace or commas
+ * Duplicates are dropped; keys for another network are rejected.
+ */
+export function parsePrivateKeys(text: string, network: BitcoinNetwork): ECPairInterface[] {
+  const wifs = Array.from(new Set(text.split(/[\s,]+/).filter(Boolean)));
+  if (wifs.length === 0) {
+    throw new Error('No private keys given');
+  }
+
+  return wifs.map((wif, i) => {
+    try {
+      return ECPair.fromWIF(wif, getNetworkParams(network));
+    } catch (error) {
+      throw new Error(`Key ${i + 1} is not a valid ${network} WIF private key (${(error as Error).message})`);
+    }
+  });
+}
+
+/**
+ * Script types an imported key may have received coins under
+ * Uncompressed keys can only be used in P2PKH outputs; segwit requires compressed keys.
+ */
+export function getKeyScriptTypes(keyPair: ECPairInterface): ScriptType[] {
+  return keyPair.compressed ? COMPRESSED_KEY_SCRIPT_TYPES : [ScriptType.P2PKH];
+}
+
+/**
+ * Derive the address of an imported key for one script type
+ * @param index Position of the key in the imported wallet
+ */
+export function deriveKeyAddress(
+  keyPair: ECPairInterface,
+  scriptType: ScriptType,
+  network: BitcoinNetwork,
+  index: number
+): WalletAddress {
+  const payment = getPayment(keyPair.publicKey, scriptType, network);
+
+  return {
+    address: payment.address!,
+    scriptPubKey: payment.output!.toString('hex'),
+    publicKey: keyPair.publicKey.toString('hex'),
+    scriptType,
+    path: 'm',
+    change: false,
+    index,
+  };
+}
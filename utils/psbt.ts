@@ -0,0 +1,565 @@
+import { Psbt, Transaction as BitcoinTransaction } from 'bitcoinjs-lib';
+import { BitcoinNetwork, MultisigScriptType, ScriptType, WalletAddress, WalletUtxo } from '@/types/blockchain';
+import { Satoshis } from '@/utils/amount';
+import { getNetworkParams, getPayment, toXOnly } from '@/utils/hd';
+import { finalizeMultisigInput, findCosignerInputs, getMultisigInputStatus, getMultisigOutputFields } from '@/utils/multisig';
+import { detectScriptType, estimateVsize, InputSizing, scriptToAddress } from '@/utils/transaction';
+
+/**
+ * PSBT versions: BIP174 (0) and BIP370 (2)
+ */
+export type PsbtVersion = 0 | 2;
+
+const PSBT_MAGIC = Buffer.from('70736274ff', 'hex');
+
+// Key types used to convert between versions
+const GLOBAL_UNSIGNED_TX = 0x00;
+const GLOBAL_TX_VERSION = 0x02;
+const GLOBAL_FALLBACK_LOCKTIME = 0x03;
+const GLOBAL_INPUT_COUNT = 0x04;
+const GLOBAL_OUTPUT_COUNT = 0x05;
+const GLOBAL_TX_MODIFIABLE = 0x06;
+const GLOBAL_VERSION = 0xfb;
+const IN_PREVIOUS_TXID = 0x0e;
+const IN_OUTPUT_INDEX = 0x0f;
+const IN_SEQUENCE = 0x10;
+const IN_REQUIRED_TIME_LOCKTIME = 0x11;
+const IN_REQUIRED_HEIGHT_LOCKTIME = 0x12;
+const OUT_AMOUNT = 0x03;
+const OUT_SCRIPT = 0x04;
+
+interface KeyValue {
+  key: Buffer;
+  value: Buffer;
+}
+
+interface PsbtMaps {
+  global: KeyValue[];
+  inputs: KeyValue[][];
+  outputs: KeyValue[][];
+}
+
+/**
+ * An input of a decoded PSBT
+ */
+export interface PsbtInputSummary {
+  txid: string;
+  vout: number;
+  value?: Satoshis; // Unknown if the PSBT carries no UTXO data for the input
+  address?: string;
+  ours: boolean;
+  signed: boolean; // For multisig, once the threshold is met
+  finalized: boolean;
+  signatures?: number; // Multisig inputs: partial signatures so far
+  threshold?: number; // Multisig inputs: signatures needed
+}
+
+/**
+ * An output of a decoded PSBT
+ */
+export interface PsbtOutputSummary {
+  script: string;
+  address?: string;
+  value: Satoshis;
+  ours: boolean;
+  change: boolean;
+}
+
+/**
+ * Human-readable summary of a PSBT
+ */
+export interface PsbtSummary {
+  inputs: PsbtInputSummary[];
+  outputs: PsbtOutputSummary[];
+  fee?: Satoshis;
+  vsize: number; // Estimated until every input is finalized
+  feeRate?: number; // sat/vB
+  signable: number; // Inputs we hold keys for (or co-sign) that aren't signed yet
+  complete: boolean; // Every input is signed or finalized
+}
+
+/**
+ * Decode a PSBT from base64, hex or binary
+ * BIP370 (version 2) PSBTs are converted to version 0 for signing.
+ */
+export function decodePsbt(data: string | Buffer, network: BitcoinNetwork): Psbt {
+  let buffer: Buffer;
+  if (Buffer.isBuffer(data) && data.subarray(0, PSBT_MAGIC.length).equals(PSBT_MAGIC)) {
+    buffer = data;
+  } else {
+    // Text, or a file holding text
+    const text = (Buffer.isBuffer(data) ? data.toString('utf8') : data).replace(/\s+/g, '');
+    buffer = /^70736274ff([0-9a-f]{2})*$/i.test(text)
+      ? Buffer.from(text, 'hex')
+      : Buffer.from(text, 'base64');
+  }
+
+  if (!buffer.subarray(0, PSBT_MAGIC.length).equals(PSBT_MAGIC)) {
+    throw new Error('Not a PSBT');
+  }
+
+  if (getPsbtVersion(buffer) === 2) {
+    buffer = convertPsbtV2ToV0(buffer);
+  }
+
+  return Psbt.fromBuffer(buffer, { network: getNetworkParams(network) });
+}
+
+/**
+ * Serialize a PSBT, as BIP174 (version 0) by default
+ */
+export function encodePsbt(psbt: Psbt, version: PsbtVersion = 0): Buffer {
+  const buffer = psbt.toBuffer();
+  return version === 2 ? convertPsbtV0ToV2(buffer) : buffer;
+}
+
+/**
+ * Get the version of a serialized PSBT
+ */
+export function getPsbtVersion(buffer: Buffer): PsbtVersion {
+  const versionField = readMap(buffer, PSBT_MAGIC.length).map.find(kv => kv.key[0] === GLOBAL_VERSION);
+  if (!versionField) {
+    return 0;
+  }
+
+  const version = versionField.value.readUInt32LE(0);
+  if (version !== 0 && version !== 2) {
+    throw new Error(`Unsupported PSBT version ${version}`);
+  }
+  return version;
+}
+
+/**
+ * Convert a BIP370 (version 2) PSBT into an equivalent BIP174 (version 0) one
+ */
+export function convertPsbtV2ToV0(buffer: Buffer): Buffer {
+  const global = readMap(buffer, PSBT_MAGIC.length);
+  const inputCount = readCompactSize(getField(global.map, GLOBAL_INPUT_COUNT, 'input count'), 0).value;
+  const outputCount = readCompactSize(getField(global.map, GLOBAL_OUTPUT_COUNT, 'output count'), 0).value;
+  const maps = readMaps(buffer, global, inputCount, outputCount);
+
+  const tx = new BitcoinTransaction();
+  const versionField = findField(maps.global, GLOBAL_TX_VERSION);
+  tx.version = versionField ? versionField.readInt32LE(0) : 2;
+
+  maps.inputs.forEach((input, index) => {
+    const sequence = findField(input, IN_SEQUENCE);
+    tx.addInput(
+      getField(input, IN_PREVIOUS_TXID, `input ${index} previous txid`),
+      getField(input, IN_OUTPUT_INDEX, `input ${index} output index`).readUInt32LE(0),
+      sequence ? sequence.readUInt32LE(0) : 0xffffffff
+    );
+  });
+
+  maps.outputs.forEach((output, index) => {
+    tx.addOutput(
+      getField(output, OUT_SCRIPT, `output ${index} script`),
+      Number(getField(output, OUT_AMOUNT, `output ${index} amount`).readBigInt64LE(0))
+    );
+  });
+
+  tx.locktime = getV2Locktime(maps);
+
+  const stripped: PsbtMaps = {
+    global: [
+      { key: Buffer.from([GLOBAL_UNSIGNED_TX]), value: tx.toBuffer() },
+      ...maps.global.filter(kv => ![
+        GLOBAL_TX_VERSION, GLOBAL_FALLBACK_LOCKTIME, GLOBAL_INPUT_COUNT,
+        GLOBAL_OUTPUT_COUNT, GLOBAL_TX_MODIFIABLE, GLOBAL_VERSION,
+      ].includes(kv.key[0])),
+    ],
+    inputs: maps.inputs.map(input => input.filter(kv => ![
+      IN_PREVIOUS_TXID, IN_OUTPUT_INDEX, IN_SEQUENCE,
+      IN_REQUIRED_TIME_LOCKTIME, IN_REQUIRED_HEIGHT_LOCKTIME,
+    ].includes(kv.key[0]))),
+    outputs: maps.outputs.map(output => output.filter(kv => ![OUT_AMOUNT, OUT_SCRIPT].includes(kv.key[0]))),
+  };
+
+  return writeMaps(stripped);
+}
+
+/**
+ * Convert a BIP174 (version 0) PSBT into a BIP370 (version 2) one
+ */
+export function convertPsbtV0ToV2(buffer: Buffer): Buffer {
+  const global = readMap(buffer, PSBT_MAGIC.length);
+  const tx = BitcoinTransaction.fromBuffer(getField(global.map, GLOBAL_UNSIGNED_TX, 'unsigned transaction'));
+  const maps = readMaps(buffer, global, tx.ins.length, tx.outs.length);
+
+  const converted: PsbtMaps = {
+    global: [
+      { key: Buffer.from([GLOBAL_TX_VERSION]), value: uint32(tx.version) },
+      { key: Buffer.from([GLOBAL_FALLBACK_LOCKTIME]), value: uint32(tx.locktime) },
+      { key: Buffer.from([GLOBAL_INPUT_COUNT]), value: writeCompactSize(tx.ins.length) },
+      { key: Buffer.from([GLOBAL_OUTPUT_COUNT]), value: writeCompactSize(tx.outs.length) },
+      ...maps.global.filter(kv => kv.key[0] !== GLOBAL_UNSIGNED_TX && kv.key[0] !== GLOBAL_VERSION),
+      { key: Buffer.from([GLOBAL_VERSION]), value: uint32(2) },
+    ],
+    inputs: maps.inputs.map((input, index) => [
+      ...input,
+      { key: Buffer.from([IN_PREVIOUS_TXID]), value: Buffer.from(tx.ins[index].hash) },
+      { key: Buffer.from([IN_OUTPUT_INDEX]), value: uint32(tx.ins[index].index) },
+      { key: Buffer.from([IN_SEQUENCE]), value: uint32(tx.ins[index].sequence) },
+    ]),
+    outputs: maps.outputs.map((output, index) => {
+      const amount = Buffer.alloc(8);
+      amount.writeBigInt64LE(BigInt(tx.outs[index].value));
+      return [
+        ...output,
+        { key: Buffer.from([OUT_AMOUNT]), value: amount },
+        { key: Buffer.from([OUT_SCRIPT]), value: tx.outs[index].script },
+      ];
+    }),
+  };
+
+  return writeMaps(converted);
+}
+
+/**
+ * Locktime of a version 2 PSBT: the largest required locktime of its inputs, or the fallback
+ * Height locks win when every input that sets a lock can be satisfied by one (BIP370).
+ */
+function getV2Locktime(maps: PsbtMaps): number {
+  const heights = maps.inputs.map(input => findField(input, IN_REQUIRED_HEIGHT_LOCKTIME));
+  const times = maps.inputs.map(input => findField(input, IN_REQUIRED_TIME_LOCKTIME));
+
+  const locked = maps.inputs.map((_, i) => !!heights[i] || !!times[i]);
+  if (!locked.some(Boolean)) {
+    const fallback = findField(maps.global, GLOBAL_FALLBACK_LOCKTIME);
+    return fallback ? fallback.readUInt32LE(0) : 0;
+  }
+
+  const useHeights = locked.every((isLocked, i) => !isLocked || !!heights[i]);
+  const values = (useHeights ? heights : times)
+    .filter((value): value is Buffer => !!value)
+    .map(value => value.readUInt32LE(0));
+  return Math.max(...values);
+}
+
+/**
+ * Build a summary of a PSBT's inputs, outputs and fee from the wallet's point of view
+ * @param addresses Wallet addresses used to recognise our inputs and change
+ * @param masterFingerprint The wallet's master key fingerprint, to recognise multisig inputs it co-signs
+ */
+export function summarizePsbt(
+  psbt: Psbt,
+  addresses: WalletAddress[],
+  network: BitcoinNetwork,
+  masterFingerprint?: string
+): PsbtSummary {
+  const byScript = new Map(addresses.map(address => [address.scriptPubKey, address]));
+  const cosigned = new Set(masterFingerprint ? findCosignerInputs(psbt, masterFingerprint) : []);
+
+  const inputs: PsbtInputSummary[] = psbt.txInputs.map((txInput, index) => {
+    const input = psbt.data.inputs[index];
+    const prevout = getPrevout(psbt, index);
+    const script = prevout?.script.toString('hex');
+    const multisig = getMultisigInputStatus(input);
+
+    return {
+      txid: Buffer.from(txInput.hash).reverse().toString('hex'),
+      vout: txInput.index,
+      value: prevout?.value,
+      address: prevout && scriptToAddress(prevout.script, network),
+      ours: !!script && byScript.has(script),
+      signed: multisig
+        ? multisig.signatures >= multisig.threshold
+        : (input.partialSig?.length ?? 0) > 0 || !!input.tapKeySig || (input.tapScriptSig?.length ?? 0) > 0,
+      finalized: !!input.finalScriptSig || !!input.finalScriptWitness,
+      signatures: multisig?.signatures,
+      threshold: multisig?.threshold,
+    };
+  });
+
+  const outputs: PsbtOutputSummary[] = psbt.txOutputs.map(output => {
+    const script = output.script.toString('hex');
+    const address = byScript.get(script);
+    return {
+      script,
+      address: output.address ?? scriptToAddress(output.script, network),
+      value: output.value,
+      ours: !!address,
+      change: !!address?.change,
+    };
+  });
+
+  const inputTotal = inputs.every(input => input.value !== undefined)
+    ? inputs.reduce((total, input) => total + input.value!, 0)
+    : undefined;
+  const fee = inputTotal !== undefined
+    ? inputTotal - outputs.reduce((total, output) => total + output.value, 0)
+    : undefined;
+
+  let vsize: number;
+  if (inputs.length > 0 && inputs.every(input => input.finalized)) {
+    vsize = psbt.extractTransaction(true).virtualSize();
+  } else {
+    const inputSizes = psbt.txInputs.map((_, index): InputSizing => {
+      const multisig = getMultisigInputStatus(psbt.data.inputs[index]);
+      if (multisig) {
+        const input = psbt.data.inputs[index];
+        const scriptType = input.tapLeafScript
+          ? MultisigScriptType.P2TR
+          : input.witnessScript
+            ? (input.redeemScript ? MultisigScriptType.P2SH_P2WSH : MultisigScriptType.P2WSH)
+            : MultisigScriptType.P2SH;
+        return { scriptType, multisig: { threshold: multisig.threshold, keys: Array.from({ length: multisig.keyCount }) } };
+      }
+      const prevout = getPrevout(psbt, index);
+      return { scriptType: (prevout && detectScriptType(prevout.script)) ?? ScriptType.P2WPKH };
+    });
+    vsize = estimateVsize(inputSizes, psbt.txOutputs.map(output => output.script.length));
+  }
+
+  return {
+    inputs,
+    outputs,
+    fee,
+    vsize,
+    feeRate: fee !== undefined ? fee / vsize : undefined,
+    signable: inputs.filter((input, index) =>
+      (input.threshold !== undefined ? cosigned.has(index) : input.ours) && !input.signed && !input.finalized
+    ).length,
+    complete: inputs.every(input => input.signed || input.finalized),
+  };
+}
+
+/**
+ * Match the inputs of a PSBT against wallet addresses
+ * Fills in the redeem script or taproot internal key the wallet needs to sign,
+ * in case the PSBT was created elsewhere without them.
+ * @returns The matched inputs as wallet UTXOs, ready for signPsbt
+ */
+export function findWalletInputs(psbt: Psbt, addresses: WalletAddress[], network: BitcoinNetwork): WalletUtxo[] {
+  const byScript = new Map(addresses.map(address => [address.scriptPubKey, address]));
+  const utxos: WalletUtxo[] = [];
+
+  psbt.txInputs.forEach((txInput, index) => {
+    const input = psbt.data.inputs[index];
+    const prevout = getPrevout(psbt, index);
+    const address = prevout && byScript.get(prevout.script.toString('hex'));
+    // Multisig inputs are signed by key origin instead; see signCosignerInputs
+    if (!prevout || !address?.publicKey || input.finalScriptSig || input.finalScriptWitness) return;
+
+    const publicKey = Buffer.from(address.publicKey, 'hex');
+    if (address.scriptType === ScriptType.P2SH_P2WPKH && !input.redeemScript) {
+      psbt.updateInput(index, { redeemScript: getPayment(publicKey, address.scriptType, network).redeem!.output });
+    }
+    if (address.scriptType === ScriptType.P2TR && !input.tapInternalKey) {
+      psbt.updateInput(index, { tapInternalKey: toXOnly(publicKey) });
+    }
+
+    utxos.push({
+      txid: Buffer.from(txInput.hash).reverse().toString('hex'),
+      vout: txInput.index,
+      address: address.address,
+      scriptPubKey: address.scriptPubKey,
+      amount: prevout.value,
+      confirmations: 0,
+      spendable: true,
+      scriptType: address.scriptType,
+      path: address.path,
+      publicKey: address.publicKey,
+    });
+  });
+
+  return utxos;
+}
+
+/**
+ * Add BIP32 key origins for wallet inputs and change outputs so external signers
+ * can find their keys and recognise change
+ * Multisig inputs get every co-signer's key origin when the PSBT is built; multisig
+ * change gets its scripts and key origins here.
+ * @param masterFingerprint Fingerprint of the wallet's master key, for single-key inputs and change
+ */
+export function addKeyOrigins(
+  psbt: Psbt,
+  inputs: WalletUtxo[],
+  changeOutputs: { index: number; address: WalletAddress }[],
+  network: BitcoinNetwork,
+  masterFingerprint?: string
+): void {
+  const fingerprint = Buffer.from(masterFingerprint ?? '', 'hex');
+
+  psbt.txInputs.forEach((txInput, index) => {
+    const txid = Buffer.from(txInput.hash).reverse().toString('hex');
+    const utxo = inputs.find(u => u.txid === txid && u.vout === txInput.index);
+    if (!utxo?.publicKey || !masterFingerprint) return;
+
+    const pubkey = Buffer.from(utxo.publicKey, 'hex');
+    if (utxo.scriptType === ScriptType.P2TR) {
+      psbt.updateInput(index, {
+        tapBip32Derivation: [{ masterFingerprint: fingerprint, pubkey: toXOnly(pubkey), path: utxo.path, leafHashes: [] }],
+      });
+    } else {
+      psbt.updateInput(index, {
+        bip32Derivation: [{ masterFingerprint: fingerprint, pubkey, path: utxo.path }],
+      });
+    }
+  });
+
+  changeOutputs.forEach(({ index, address }) => {
+    if (address.multisig) {
+      psbt.updateOutput(index, getMultisigOutputFields(address.multisig, address.scriptType as MultisigScriptType, network));
+      return;
+    }
+    if (!address.publicKey || !masterFingerprint) return;
+
+    const pubkey = Buffer.from(address.publicKey, 'hex');
+    if (address.scriptType === ScriptType.P2TR) {
+      psbt.updateOutput(index, {
+        tapInternalKey: toXOnly(pubkey),
+        tapBip32Derivation: [{ masterFingerprint: fingerprint, pubkey: toXOnly(pubkey), path: address.path, leafHashes: [] }],
+      });
+    } else {
+      psbt.updateOutput(index, {
+        bip32Derivation: [{ masterFingerprint: fingerprint, pubkey, path: address.path }],
+      });
+    }
+  });
+}
+
+/**
+ * Finalize every input that has enough signatures
+ * @returns Whether all inputs are now finalized
+ */
+export function finalizePsbt(psbt: Psbt): boolean {
+  let complete = true;
+
+  psbt.data.inputs.forEach((input, index) => {
+    if (input.finalScriptSig || input.finalScriptWitness) return;
+    try {
+      if (getMultisigInputStatus(input)) {
+        finalizeMultisigInput(psbt, index);
+      } else {
+        psbt.finalizeInput(index);
+      }
+    } catch {
+      complete = false;
+    }
+  });
+
+  return complete;
+}
+
+/**
+ * Merge the signatures of copies of the same PSBT, e.g. one per co-signer
+ */
+export function combinePsbts(psbt: Psbt, others: Psbt[]): Psbt {
+  const txid = psbt.data.getTransaction().toString('hex');
+  if (others.some(other => other.data.getTransaction().toString('hex') !== txid)) {
+    throw new Error('These PSBTs spend different transactions and cannot be combined');
+  }
+  return psbt.combine(...others);
+}
+
+/**
+ * The output an input spends, from its witness UTXO or full previous transaction
+ */
+function getPrevout(psbt: Psbt, index: number): { script: Buffer; value: Satoshis } | undefined {
+  const input = psbt.data.inputs[index];
+  if (input.witnessUtxo) {
+    return input.witnessUtxo;
+  }
+  if (input.nonWitnessUtxo) {
+    return BitcoinTransaction.fromBuffer(input.nonWitnessUtxo).outs[psbt.txInputs[index].index];
+  }
+  return undefined;
+}
+
+function readCompactSize(buffer: Buffer, offset: number): { value: number; size: number } {
+  const first = buffer[offset];
+  if (first < 0xfd) return { value: first, size: 1 };
+  if (first === 0xfd) return { value: buffer.readUInt16LE(offset + 1), size: 3 };
+  if (first === 0xfe) return { value: buffer.readUInt32LE(offset + 1), size: 5 };
+  return { value: Number(buffer.readBigUInt64LE(offset + 1)), size: 9 };
+}
+
+function writeCompactSize(value: number): Buffer {
+  if (value < 0xfd) return Buffer.from([value]);
+  if (value <= 0xffff) {
+    const buffer = Buffer.alloc(3);
+    buffer[0] = 0xfd;
+    buffer.writeUInt16LE(value, 1);
+    return buffer;
+  }
+  const buffer = Buffer.alloc(5);
+  buffer[0] = 0xfe;
+  buffer.writeUInt32LE(value, 1);
+  return buffer;
+}
+
+function uint32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value >>> 0);
+  return buffer;
+}
+
+/**
+ * Read one key-value map, ending at its 0x00 separator
+ */
+function readMap(buffer: Buffer, offset: number): { map: KeyValue[]; end: number } {
+  const map: KeyValue[] = [];
+
+  for (;;) {
+    if (offset >= buffer.length) {
+      throw new Error('Truncated PSBT');
+    }
+    const keyLength = readCompactSize(buffer, offset);
+    offset += keyLength.size;
+    if (keyLength.value === 0) {
+      return { map, end: offset };
+    }
+
+    const key = buffer.subarray(offset, offset + keyLength.value);
+    offset += keyLength.value;
+    const valueLength = readCompactSize(buffer, offset);
+    offset += valueLength.size;
+    const value = buffer.subarray(offset, offset + valueLength.value);
+    offset += valueLength.value;
+
+    map.push({ key, value });
+  }
+}
+
+function readMaps(
+  buffer: Buffer,
+  global: { map: KeyValue[]; end: number },
+  inputCount: number,
+  outputCount: number
+): PsbtMaps {
+  let offset = global.end;
+  const readNext = () => {
+    const { map, end } = readMap(buffer, offset);
+    offset = end;
+    return map;
+  };
+
+  const inputs = Array.from({ length: inputCount }, readNext);
+  const outputs = Array.from({ length: outputCount }, readNext);
+  return { global: global.map, inputs, outputs };
+}
+
+function writeMaps(maps: PsbtMaps): Buffer {
+  const parts: Buffer[] = [PSBT_MAGIC];
+  for (const map of [maps.global, ...maps.inputs, ...maps.outputs]) {
+    for (const { key, value } of map) {
+      parts.push(writeCompactSize(key.length), key, writeCompactSize(value.length), value);
+    }
+    parts.push(Buffer.from([0x00]));
+  }
+  return Buffer.concat(parts);
+}
+
+function findField(map: KeyValue[], type: number): Buffer | undefined {
+  return map.find(kv => kv.key.length === 1 && kv.key[0] === type)?.value;
+}
+
+function getField(map: KeyValue[], type: number, name: string): Buffer {
+  const value = findField(map, type);
+  if (!value) {
+    throw new Error(`PSBT is missing the ${name}`);
+  }
+  return value;
+}
@@ -0,0 +1,390 @@
+import { address as bitcoinAddress, crypto, Psbt, Transaction as BitcoinTransaction } from 'bitcoinjs-lib';
+import { BIP32Interface } from 'bip32';
+import { ECPairInterface } from 'ecpair';
+import { AddressScriptType, BitcoinNetwork, MultisigScriptType, ScriptType, Transaction, WalletUtxo } from '@/types/blockchain';
+import { Satoshis } from '@/utils/amount';
+import { deriveSigningNode, getNetworkParams, getPayment, toXOnly } from '@/utils/hd';
+import { getMultisigInputFields } from '@/utils/multisig';
+
+/**
+ * Estimated virtual size (vbytes) of a signed input of each script type
+ */
+export const INPUT_VSIZE: Record<ScriptType, number> = {
+  [ScriptType.P2PKH]: 148,
+  [ScriptType.P2SH_P2WPKH]: 91,
+  [ScriptType.P2WPKH]: 68,
+  [ScriptType.P2TR]: 57.5,
+};
+
+/**
+ * Length of the output script (scriptPubKey) of each script type
+ */
+export const OUTPUT_SCRIPT_LENGTH: Record<AddressScriptType, number> = {
+  [ScriptType.P2PKH]: 25,
+  [ScriptType.P2SH_P2WPKH]: 23,
+  [ScriptType.P2WPKH]: 22,
+  [ScriptType.P2TR]: 34,
+  [MultisigScriptType.P2SH]: 23,
+  [MultisigScriptType.P2SH_P2WSH]: 23,
+  [MultisigScriptType.P2WSH]: 34,
+  [MultisigScriptType.P2TR]: 34,
+};
+
+/**
+ * Bitcoin Core's dust limits at the default 3 sat/vB dust relay fee
+ */
+export const DUST_THRESHOLD: Record<AddressScriptType, Satoshis> = {
+  [ScriptType.P2PKH]: 546,
+  [ScriptType.P2SH_P2WPKH]: 540,
+  [ScriptType.P2WPKH]: 294,
+  [ScriptType.P2TR]: 330,
+  [MultisigScriptType.P2SH]: 540,
+  [MultisigScriptType.P2SH_P2WSH]: 540,
+  [MultisigScriptType.P2WSH]: 330,
+  [MultisigScriptType.P2TR]: 330,
+};
+
+/**
+ * What the size of an input depends on: its script type and, for multisig, its policy
+ */
+export interface InputSizing {
+  scriptType: AddressScriptType;
+  publicKey?: string; // Uncompressed P2PKH keys add 32 bytes
+  multisig?: { threshold: number; keys: unknown[] };
+}
+
+/**
+ * Dust limit of an arbitrary output script, as computed by Bitcoin Core
+ * (3 sat/vB for the output plus the input that would later spend it)
+ */
+export function getDustThreshold(script: Buffer): Satoshis {
+  const isWitnessProgram = script.length >= 4 && script.length <= 42 &&
+    (script[0] === 0x00 || (script[0] >= 0x51 && script[0] <= 0x60)) &&
+    script[1] === script.length - 2;
+  const spendSize = isWitnessProgram ? 67 : 148;
+
+  return 3 * (outputVsize(script.length) + spendSize);
+}
+
+/**
+ * Script types the wallet can spend
+ * P2PKH inputs need their full previous transaction (WalletUtxo.previousTx); P2SH multisig
+ * inputs would too and are not spent.
+ */
+export const SIGNABLE_SCRIPT_TYPES: AddressScriptType[] = [
+  ScriptType.P2PKH,
+  ScriptType.P2WPKH,
+  ScriptType.P2SH_P2WPKH,
+  ScriptType.P2TR,
+  MultisigScriptType.P2SH_P2WSH,
+  MultisigScriptType.P2WSH,
+  MultisigScriptType.P2TR,
+];
+
+/**
+ * nSequence signalling BIP125 replaceability, used for every input the wallet builds
+ */
+export const RBF_SEQUENCE = 0xfffffffd;
+
+/**
+ * Minimum fee rate (sat/vB) a replacement must add for its own size on top of the fee it replaces
+ */
+export const INCREMENTAL_RELAY_FEE_RATE = 1;
+
+/**
+ * Fee a child must pay so that it and its unconfirmed parent together reach a target fee rate (CPFP)
+ * The child always pays at least the relay minimum for its own size.
+ */
+export function getCpfpChildFee(
+  parentFee: Satoshis,
+  parentVsize: number,
+  childVsize: number,
+  targetFeeRate: number
+): Satoshis {
+  const packageFee = Math.ceil((parentVsize + childVsize) * targetFeeRate);
+  return Math.max(packageFee - parentFee, Math.ceil(childVsize * INCREMENTAL_RELAY_FEE_RATE));
+}
+
+/**
+ * An output to add to a transaction
+ */
+export interface TxRecipient {
+  script: Buffer;
+  value: Satoshis;
+}
+
+/**
+ * Virtual size of an output with a script of the given length
+ */
+export function outputVsize(scriptLength: number): number {
+  // value (8) + script length varint (1) + script
+  return 8 + 1 + scriptLength;
+}
+
+/**
+ * Estimated virtual size of a signed input
+ * Multisig inputs carry exactly threshold signatures (and an empty element for every
+ * other key of a multi_a script).
+ */
+export function getInputVsize(input: InputSizing): number {
+  if (!input.multisig) {
+    const uncompressed = input.scriptType === ScriptType.P2PKH && input.publicKey?.length === 130;
+    return INPUT_VSIZE[input.scriptType as ScriptType] + (uncompressed ? 32 : 0);
+  }
+
+  const threshold = input.multisig.threshold;
+  const keyCount = input.multisig.keys.length;
+  // outpoint (36) + sequence (4) + empty scriptSig length (1)
+  const base = 36 + 4 + 1;
+
+  if (input.scriptType === MultisigScriptType.P2TR) {
+    // <key> CHECKSIG <key> CHECKSIGADD ... <m> NUMEQUAL, spent with a 33-byte control block
+    const script = 34 * keyCount + pushSize(threshold) + 1;
+    const witness = varIntSize(keyCount + 2) + threshold * 65 + (keyCount - threshold) +
+      varIntSize(script) + script + 1 + 33;
+    return base + witness / 4;
+  }
+
+  // <m> <key>... <n> CHECKMULTISIG, spent with OP_0 and up to 72-byte DER signatures
+  const script = 3 + 34 * keyCount;
+  if (input.scriptType === MultisigScriptType.P2SH) {
+    const scriptSig = 1 + threshold * 73 + (script < 76 ? 1 : script < 256 ? 2 : 3) + script;
+    return base - 1 + varIntSize(scriptSig) + scriptSig;
+  }
+
+  const witness = varIntSize(threshold + 2) + 1 + threshold * 73 + varIntSize(script) + script;
+  // Nested segwit pushes the 34-byte witness program in the scriptSig
+  const nested = input.scriptType === MultisigScriptType.P2SH_P2WSH ? 35 : 0;
+  return base + nested + witness / 4;
+}
+
+/**
+ * Estimate the virtual size of a transaction
+ * @param inputs Script types (and multisig policies) of the inputs
+ * @param outputScriptLengths Lengths of the output scripts
+ */
+export function estimateVsize(inputs: InputSizing[], outputScriptLengths: number[]): number {
+  const hasWitness = inputs.some(input =>
+    input.scriptType !== ScriptType.P2PKH && input.scriptType !== MultisigScriptType.P2SH
+  );
+
+  // version (4) + locktime (4) + input/output count varints, plus the segwit marker and flag
+  const overhead = 4 + 4 + varIntSize(inputs.length) + varIntSize(outputScriptLengths.length) +
+    (hasWitness ? 0.5 : 0);
+
+  const inputVsize = inputs.reduce((total, input) => total + getInputVsize(input), 0);
+  const outputs = outputScriptLengths.reduce((total, length) => total + outputVsize(length), 0);
+
+  return Math.ceil(overhead + inputVsize + outputs);
+}
+
+function varIntSize(n: number): number {
+  if (n < 0xfd) return 1;
+  if (n <= 0xffff) return 3;
+  return 5;
+}
+
+// Size of the script push of a small number (OP_1..OP_16, or a one/two-byte push)
+function pushSize(n: number): number {
+  if (n <= 16) return 1;
+  return n < 128 ? 2 : 3;
+}
+
+/**
+ * Get the output script for an address, throwing on addresses of another network
+ */
+export function addressToScript(address: string, network: BitcoinNetwork): Buffer {
+  return bitcoinAddress.toOutputScript(address, getNetworkParams(network));
+}
+
+/**
+ * Get the address for an output script, if it has a standard address form
+ */
+export function scriptToAddress(script: Buffer, network: BitcoinNetwork): string | undefined {
+  try {
+    return bitcoinAddress.fromOutputScript(script, getNetworkParams(network));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Recognise the script type of an output script, if it's one the wallet derives
+ */
+export function detectScriptType(script: Buffer): ScriptType | undefined {
+  if (script.length === 25 && script[0] === 0x76 && script[1] === 0xa9 && script[2] === 0x14) {
+    return ScriptType.P2PKH;
+  }
+  if (script.length === 23 && script[0] === 0xa9 && script[1] === 0x14 && script[22] === 0x87) {
+    return ScriptType.P2SH_P2WPKH; // Assumed; a P2SH script can't be told apart from its output
+  }
+  if (script.length === 22 && script[0] === 0x00 && script[1] === 0x14) {
+    return ScriptType.P2WPKH;
+  }
+  if (script.length === 34 && script[0] === 0x51 && script[1] === 0x20) {
+    return ScriptType.P2TR;
+  }
+  return undefined;
+}
+
+/**
+ * Build an unsigned PSBT spending wallet UTXOs to the given outputs
+ * @param sequence nSequence for every input, replaceable by default
+ */
+export function buildPsbt(
+  inputs: WalletUtxo[],
+  outputs: TxRecipient[],
+  network: BitcoinNetwork,
+  sequence = RBF_SEQUENCE
+): Psbt {
+  const psbt = new Psbt({ network: getNetworkParams(network) });
+
+  inputs.forEach(utxo => {
+    if (!SIGNABLE_SCRIPT_TYPES.includes(utxo.scriptType)) {
+      throw new Error(`Cannot spend ${utxo.scriptType} input ${utxo.txid}:${utxo.vout}`);
+    }
+
+    const witnessUtxo = {
+      script: Buffer.from(utxo.scriptPubKey, 'hex'),
+      value: utxo.amount,
+    };
+
+    if (utxo.multisig) {
+      psbt.addInput({
+        hash: utxo.txid,
+        index: utxo.vout,
+        sequence,
+        witnessUtxo,
+        ...getMultisigInputFields(utxo.multisig, utxo.scriptType as MultisigScriptType, network),
+      });
+      return;
+    }
+
+    const publicKey = Buffer.from(utxo.publicKey!, 'hex');
+    const payment = getPayment(publicKey, utxo.scriptType as ScriptType, network);
+
+    if (utxo.scriptType === ScriptType.P2PKH) {
+      if (!utxo.previousTx) {
+        throw new Error(`Missing previous transaction of P2PKH input ${utxo.txid}:${utxo.vout}`);
+      }
+      // Legacy signatures don't commit to the amount, so signers need the whole previous transaction
+      psbt.addInput({
+        hash: utxo.txid,
+        index: utxo.vout,
+        sequence,
+        nonWitnessUtxo: Buffer.from(utxo.previousTx, 'hex'),
+      });
+      return;
+    }
+
+    psbt.addInput({
+      hash: utxo.txid,
+      index: utxo.vout,
+      sequence,
+      witnessUtxo,
+      ...(utxo.scriptType === ScriptType.P2SH_P2WPKH && { redeemScript: payment.redeem!.output }),
+      ...(utxo.scriptType === ScriptType.P2TR && { tapInternalKey: toXOnly(publicKey) }),
+    });
+  });
+
+  outputs.forEach(output => {
+    psbt.addOutput({ script: output.script, value: output.value });
+  });
+
+  return psbt;
+}
+
+/**
+ * Sign the inputs of a PSBT that spend the given wallet UTXOs
+ * Inputs are matched by outpoint; inputs that aren't ours are left untouched.
+ * @returns The number of inputs signed
+ */
+export function signPsbt(
+  psbt: Psbt,
+  utxos: WalletUtxo[],
+  seed: Buffer,
+  network: BitcoinNetwork
+): number {
+  let signed = 0;
+
+  psbt.txInputs.forEach((input, index) => {
+    const txid = Buffer.from(input.hash).reverse().toString('hex');
+    const utxo = utxos.find(u => u.txid === txid && u.vout === input.index);
+    if (!utxo) return;
+
+    signInput(psbt, index, deriveSigningNode(seed, utxo.path, network), utxo.scriptType);
+    signed++;
+  });
+
+  return signed;
+}
+
+/**
+ * Sign the inputs of a PSBT that spend UTXOs of imported private keys
+ * Inputs are matched by outpoint, and keys by the UTXO's public key.
+ * @returns The number of inputs signed
+ */
+export function signPsbtWithKeys(psbt: Psbt, utxos: WalletUtxo[], keyPairs: ECPairInterface[]): number {
+  const byPublicKey = new Map(keyPairs.map(keyPair => [keyPair.publicKey.toString('hex'), keyPair]));
+  let signed = 0;
+
+  psbt.txInputs.forEach((input, index) => {
+    const txid = Buffer.from(input.hash).reverse().toString('hex');
+    const utxo = utxos.find(u => u.txid === txid && u.vout === input.index);
+    const keyPair = utxo?.publicKey && byPublicKey.get(utxo.publicKey);
+    if (!utxo || !keyPair) return;
+
+    signInput(psbt, index, keyPair, utxo.scriptType);
+    signed++;
+  });
+
+  return signed;
+}
+
+/**
+ * Virtual size of a raw transaction
+ */
+export function getVsize(hex: string): number {
+  return BitcoinTransaction.fromHex(hex).virtualSize();
+}
+
+/**
+ * Convert a bitcoinjs transaction into the app's Transaction structure
+ */
+export function toTransaction(tx: BitcoinTransaction, network: BitcoinNetwork): Transaction {
+  return {
+    txid: tx.getId(),
+    hash: Buffer.from(tx.getHash(true)).reverse().toString('hex'),
+    version: tx.version,
+    size: tx.byteLength(),
+    vsize: tx.virtualSize(),
+    weight: tx.weight(),
+    locktime: tx.locktime,
+    inputs: tx.ins.map(input => ({
+      txid: Buffer.from(input.hash).reverse().toString('hex'),
+      vout: input.index,
+      scriptSig: input.script.toString('hex'),
+      sequence: input.sequence,
+    })),
+    outputs: tx.outs.map(output => ({
+      value: output.value,
+      scriptPubKey: output.script.toString('hex'),
+      address: scriptToAddress(output.script, network),
+    })),
+  };
+}
+
+function signInput(
+  psbt: Psbt,
+  index: number,
+  key: BIP32Interface | ECPairInterface,
+  scriptType: AddressScriptType
+): void {
+  if (scriptType === ScriptType.P2TR) {
+    // BIP86 key-path spend: sign with the key tweaked by its own (script-less) taproot commitment
+    const tweak = crypto.taggedHash('TapTweak', toXOnly(key.publicKey));
+    psbt.signInput(index, key.tweak(tweak));
+  } else {
+    psbt.signInput(index, key);
+  }
+}